@@ -0,0 +1,357 @@
+// app/admin/ApiKeysPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type KeyUsage = {
+  today: number;
+  requests: number;
+  rejected: number;
+  by_endpoint: Record<string, number>;
+  by_day: Record<string, number>;
+};
+
+type ApiKeyRow = {
+  id: string;
+  name: string;
+  prefix: string;
+  tier: string;
+  rate_limit_per_minute: number;
+  daily_quota: number;
+  created_at: string;
+  created_by: string | null;
+  rotated_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  usage: KeyUsage;
+};
+
+type Limits = { perMinute: number; dailyQuota: number };
+
+export function ApiKeysPanel() {
+  const [keys, setKeys] = useState<ApiKeyRow[]>([]);
+  const [tiers, setTiers] = useState<Record<string, Limits>>({});
+  const [anonymous, setAnonymous] = useState<Limits | null>(null);
+  const [days, setDays] = useState(30);
+  const [state, setState] = useState<"idle" | "loading" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showRevoked, setShowRevoked] = useState(false);
+
+  const [name, setName] = useState("");
+  const [tier, setTier] = useState("standard");
+  const [creating, setCreating] = useState(false);
+  // Shown once after create / rotate; the server never returns it again.
+  const [issued, setIssued] = useState<{ name: string; secret: string } | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setState("loading");
+      setError(null);
+      const res = await fetch("/api/admin/api-keys");
+      const json = await res.json();
+      if (!res.ok || json?.error) {
+        setState("error");
+        setError(json?.details || json?.error || "Failed to load API keys.");
+        setKeys([]);
+        return;
+      }
+      setKeys(json?.data ?? []);
+      setTiers(json?.tiers ?? {});
+      setAnonymous(json?.anonymous ?? null);
+      setDays(json?.days ?? 30);
+      setState("idle");
+    } catch (err: unknown) {
+      setState("error");
+      setError(err instanceof Error ? err.message : "Unexpected error while loading API keys.");
+      setKeys([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function post(body: Record<string, unknown>) {
+    const res = await fetch("/api/admin/api-keys", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok || json?.error) {
+      alert(json?.details || json?.error || "Request failed.");
+      return null;
+    }
+    return json?.data ?? null;
+  }
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setCreating(true);
+    try {
+      const data = await post({ action: "create", name: name.trim(), tier });
+      if (data?.secret) {
+        setIssued({ name: data.key.name, secret: data.secret });
+        setName("");
+        load();
+      }
+    } catch (err: unknown) {
+      alert(err instanceof Error ? err.message : "Unexpected error while creating key.");
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function rotate(key: ApiKeyRow) {
+    const ok = window.confirm(
+      `Issue a new secret for "${key.name}"? The current secret (${key.prefix}…) stops working immediately.`
+    );
+    if (!ok) return;
+    setBusyId(key.id);
+    try {
+      const data = await post({ action: "rotate", id: key.id });
+      if (data?.secret) {
+        setIssued({ name: key.name, secret: data.secret });
+        load();
+      }
+    } catch (err: unknown) {
+      alert(err instanceof Error ? err.message : "Unexpected error while rotating key.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function revoke(key: ApiKeyRow) {
+    const ok = window.confirm(`Revoke "${key.name}" (${key.prefix}…)? This cannot be undone.`);
+    if (!ok) return;
+    setBusyId(key.id);
+    try {
+      if (await post({ action: "revoke", id: key.id })) load();
+    } catch (err: unknown) {
+      alert(err instanceof Error ? err.message : "Unexpected error while revoking key.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function editLimits(key: ApiKeyRow) {
+    const perMinute = window.prompt("Requests per minute", String(key.rate_limit_per_minute));
+    if (perMinute === null) return;
+    const dailyQuota = window.prompt("Requests per day", String(key.daily_quota));
+    if (dailyQuota === null) return;
+    setBusyId(key.id);
+    try {
+      const data = await post({
+        action: "limits",
+        id: key.id,
+        rate_limit_per_minute: Number(perMinute),
+        daily_quota: Number(dailyQuota),
+      });
+      if (data) load();
+    } catch (err: unknown) {
+      alert(err instanceof Error ? err.message : "Unexpected error while updating limits.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const visible = showRevoked ? keys : keys.filter((k) => !k.revoked_at);
+
+  return (
+    <div className="border border-white/10 rounded-xl p-4 bg-black/40 flex flex-col">
+      <div className="flex items-center justify-between mb-2 gap-3">
+        <h2 className="text-sm font-semibold tracking-wide uppercase text-white/80">API keys</h2>
+        <button
+          type="button"
+          onClick={load}
+          className="text-[11px] px-2 py-1 rounded-lg border border-white/20 hover:border-white hover:bg-white hover:text-black transition-colors"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <p className="text-[11px] text-white/50 mb-2">
+        Keys for the public /api/v1 endpoints, sent as the <code>X-API-Key</code> header.
+        {anonymous
+          ? ` Requests without a key are limited to ${anonymous.perMinute}/min and ${anonymous.dailyQuota.toLocaleString()}/day per IP.`
+          : ""}
+      </p>
+
+      <form onSubmit={create} className="mb-3 flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name (e.g. partner or integration)"
+          className="flex-1 min-w-0 rounded-lg bg-black border border-white/20 px-3 py-1.5 text-xs outline-none focus:border-white"
+        />
+        <select
+          value={tier}
+          onChange={(e) => setTier(e.target.value)}
+          className="rounded-lg bg-black border border-white/20 px-2 py-1.5 text-[11px] outline-none focus:border-white"
+        >
+          {Object.entries(tiers).map(([t, l]) => (
+            <option key={t} value={t}>
+              {t} ({l.perMinute}/min)
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={creating || !name.trim()}
+          className="text-[11px] px-3 py-1.5 rounded-lg border border-white/40 bg-white text-black font-semibold disabled:opacity-50 hover:bg-black hover:text-white transition-colors"
+        >
+          {creating ? "Creating…" : "Create"}
+        </button>
+      </form>
+
+      {issued && (
+        <div className="mb-3 rounded-lg border border-emerald-500/40 bg-emerald-500/10 p-2 text-[11px]">
+          <p className="text-emerald-200 mb-1">
+            Secret for &ldquo;{issued.name}&rdquo;. Copy it now; it will not be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate rounded bg-black px-2 py-1 font-mono">
+              {issued.secret}
+            </code>
+            <button
+              type="button"
+              onClick={() => navigator.clipboard?.writeText(issued.secret)}
+              className="px-2 py-1 rounded-lg border border-white/20 hover:border-white"
+            >
+              Copy
+            </button>
+            <button
+              type="button"
+              onClick={() => setIssued(null)}
+              className="px-2 py-1 rounded-lg border border-white/20 hover:border-white"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <label className="mb-2 flex items-center gap-2 text-[11px] text-white/60">
+        <input
+          type="checkbox"
+          checked={showRevoked}
+          onChange={(e) => setShowRevoked(e.target.checked)}
+        />
+        Show revoked keys
+      </label>
+
+      {state === "loading" && <p className="text-xs text-white/60">Loading API keys…</p>}
+      {state === "error" && <p className="text-xs text-red-300">{error}</p>}
+      {state === "idle" && visible.length === 0 && (
+        <p className="text-xs text-white/60">No API keys yet.</p>
+      )}
+
+      {visible.length > 0 && (
+        <ul className="max-h-96 overflow-y-auto divide-y divide-white/10">
+          {visible.map((k) => {
+            const expanded = expandedId === k.id;
+            const quotaPct = k.daily_quota ? Math.min(100, (k.usage.today / k.daily_quota) * 100) : 0;
+            return (
+              <li key={k.id} className="py-2 text-xs">
+                <div className="flex items-center justify-between gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expanded ? null : k.id)}
+                    className="min-w-0 text-left"
+                  >
+                    <p className="truncate">
+                      {k.name}{" "}
+                      <span className="font-mono text-[10px] text-white/50">{k.prefix}…</span>
+                    </p>
+                    <p className="text-[10px] text-white/50">
+                      {k.tier} · {k.rate_limit_per_minute}/min ·{" "}
+                      {k.usage.today.toLocaleString()} / {k.daily_quota.toLocaleString()} today
+                      {k.usage.rejected ? ` · ${k.usage.rejected.toLocaleString()} rejected` : ""}
+                      {k.revoked_at
+                        ? ` · revoked ${new Date(k.revoked_at).toLocaleDateString()}`
+                        : k.last_used_at
+                        ? ` · last used ${new Date(k.last_used_at).toLocaleString()}`
+                        : " · never used"}
+                    </p>
+                  </button>
+                  {!k.revoked_at && (
+                    <div className="flex shrink-0 items-center gap-1">
+                      <button
+                        type="button"
+                        disabled={busyId === k.id}
+                        onClick={() => editLimits(k)}
+                        className="text-[10px] px-2 py-1 rounded-lg border border-white/20 hover:border-white disabled:opacity-50"
+                      >
+                        Limits
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busyId === k.id}
+                        onClick={() => rotate(k)}
+                        className="text-[10px] px-2 py-1 rounded-lg border border-white/20 hover:border-white disabled:opacity-50"
+                      >
+                        Rotate
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busyId === k.id}
+                        onClick={() => revoke(k)}
+                        className="text-[10px] px-2 py-1 rounded-lg border border-red-500/60 text-red-200 hover:bg-red-500 hover:text-black disabled:opacity-50"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {!k.revoked_at && (
+                  <div className="mt-1 h-1 rounded bg-white/10">
+                    <div
+                      className={`h-1 rounded ${quotaPct >= 90 ? "bg-red-400" : "bg-emerald-400"}`}
+                      style={{ width: `${quotaPct}%` }}
+                    />
+                  </div>
+                )}
+
+                {expanded && (
+                  <div className="mt-2 grid grid-cols-2 gap-3 text-[10px] text-white/70">
+                    <div>
+                      <p className="mb-1 text-white/50">
+                        By endpoint ({days} days, {k.usage.requests.toLocaleString()} total)
+                      </p>
+                      {Object.keys(k.usage.by_endpoint).length === 0 && <p>No requests.</p>}
+                      {Object.entries(k.usage.by_endpoint)
+                        .sort((a, b) => b[1] - a[1])
+                        .map(([endpoint, count]) => (
+                          <p key={endpoint} className="flex justify-between gap-2 font-mono">
+                            <span className="truncate">{endpoint}</span>
+                            <span>{count.toLocaleString()}</span>
+                          </p>
+                        ))}
+                    </div>
+                    <div>
+                      <p className="mb-1 text-white/50">By day (UTC)</p>
+                      {Object.entries(k.usage.by_day)
+                        .sort((a, b) => b[0].localeCompare(a[0]))
+                        .slice(0, 14)
+                        .map(([day, count]) => (
+                          <p key={day} className="flex justify-between gap-2 font-mono">
+                            <span>{day}</span>
+                            <span>{count.toLocaleString()}</span>
+                          </p>
+                        ))}
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+// app/admin/AuditLogPanel.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type ChangeRow = {
+  id: number;
+  occurred_at: string;
+  table_name: string;
+  operation: "insert" | "update" | "delete";
+  row_id: string | null;
+  as_of_date: string | null;
+  base_currency: string | null;
+  quote_currency: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  actor_email: string | null;
+  ip: string | null;
+  source: string;
+  reason: string | null;
+};
+
+// Bookkeeping columns that change on every write and only add noise.
+const IGNORED_FIELDS = new Set(["updated_at", "status_changed_at"]);
+
+function changedFields(row: ChangeRow): string[] {
+  if (row.operation !== "update" || !row.before || !row.after) return [];
+  const before = row.before;
+  const after = row.after;
+  return Object.keys(after)
+    .filter((k) => !IGNORED_FIELDS.has(k))
+    .filter((k) => JSON.stringify(before[k]) !== JSON.stringify(after[k]))
+    .map((k) => `${k}: ${String(before[k] ?? "∅")} → ${String(after[k] ?? "∅")}`);
+}
+
+function summary(row: ChangeRow): string {
+  if (row.operation === "update") return changedFields(row).join("; ") || "no visible change";
+  const snapshot = row.operation === "insert" ? row.after : row.before;
+  const rate = snapshot?.rate_mid;
+  return rate !== undefined && rate !== null ? `rate_mid ${String(rate)}` : "";
+}
+
+export function AuditLogPanel() {
+  const [quote, setQuote] = useState("USD");
+  const [date, setDate] = useState("");
+  // Bumping `version` re-runs the same search (e.g. to pick up new entries).
+  const [applied, setApplied] = useState({ quote: "USD", date: "", version: 0 });
+  const [rows, setRows] = useState<ChangeRow[]>([]);
+  const [state, setState] = useState<"idle" | "loading" | "error">("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  const query = new URLSearchParams();
+  if (applied.quote) query.set("quote", applied.quote);
+  if (applied.date) query.set("date", applied.date);
+  const queryString = query.toString();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await fetch(`/api/admin/audit?${queryString}`);
+        const json = await res.json();
+        if (cancelled) return;
+        if (!res.ok || json?.error) {
+          setState("error");
+          setError(json?.details || json?.error || "Failed to load audit history.");
+          setRows([]);
+          return;
+        }
+        setRows(json?.data ?? []);
+        setState("idle");
+      } catch (err: unknown) {
+        if (cancelled) return;
+        setState("error");
+        setError(err instanceof Error ? err.message : "Unexpected error while loading audit history.");
+        setRows([]);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [queryString, applied.version]);
+
+  return (
+    <div className="border border-white/10 rounded-xl p-4 bg-black/40 flex flex-col">
+      <div className="flex items-center justify-between mb-2 gap-3">
+        <h2 className="text-sm font-semibold tracking-wide uppercase text-white/80">
+          Change log
+        </h2>
+        <a
+          href={`/api/admin/audit?${queryString}${queryString ? "&" : ""}format=csv&limit=1000`}
+          className="text-[11px] px-2 py-1 rounded-lg border border-white/20 hover:border-white hover:bg-white hover:text-black transition-colors"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      <p className="text-[11px] text-white/50 mb-2">
+        Every insert, update and delete on rates, manual fixings and the fixing schedule, with
+        before/after values, actor, IP and reason. Entries cannot be edited or removed.
+      </p>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setState("loading");
+          setError(null);
+          setApplied((prev) => ({
+            quote: quote.trim().toUpperCase(),
+            date,
+            version: prev.version + 1,
+          }));
+        }}
+        className="mb-2 flex gap-2"
+      >
+        <input
+          type="text"
+          value={quote}
+          onChange={(e) => setQuote(e.target.value.toUpperCase())}
+          placeholder="Quote (e.g. USD)"
+          maxLength={10}
+          className="w-24 rounded-lg bg-black border border-white/20 px-3 py-1.5 text-xs uppercase outline-none focus:border-white"
+        />
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className="flex-1 rounded-lg bg-black border border-white/20 px-3 py-1.5 text-xs outline-none focus:border-white"
+        />
+        <button
+          type="submit"
+          className="text-[11px] px-2 py-1 rounded-lg border border-white/20 hover:border-white hover:bg-white hover:text-black transition-colors"
+        >
+          Search
+        </button>
+      </form>
+
+      {state === "loading" && <p className="text-xs text-white/60">Loading audit history…</p>}
+      {state === "error" && <p className="text-xs text-red-300">{error}</p>}
+      {state === "idle" && rows.length === 0 && (
+        <p className="text-xs text-white/60">No changes recorded for this filter.</p>
+      )}
+
+      {rows.length > 0 && (
+        <ul className="max-h-72 overflow-y-auto divide-y divide-white/10">
+          {rows.map((r) => (
+            <li key={r.id} className="py-1.5 text-xs">
+              <div className="flex items-center justify-between gap-3">
+                <p className="font-mono text-[11px]">
+                  {r.operation.toUpperCase()} {r.table_name}
+                  {r.base_currency && r.quote_currency
+                    ? ` · ${r.base_currency}/${r.quote_currency}`
+                    : ""}
+                  {r.as_of_date ? ` · ${r.as_of_date}` : ""}
+                </p>
+                <p className="shrink-0 text-[10px] text-white/50">
+                  {new Date(r.occurred_at).toLocaleString()}
+                </p>
+              </div>
+              <p className="text-[11px] text-white/80 break-words">{summary(r)}</p>
+              <p className="text-[10px] text-white/50">
+                {r.actor_email ?? r.source}
+                {r.ip ? ` · ${r.ip}` : ""}
+                {r.reason ? ` · “${r.reason}”` : ""}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
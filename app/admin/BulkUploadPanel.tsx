@@ -0,0 +1,271 @@
+// app/admin/BulkUploadPanel.tsx
+"use client";
+
+import { ChangeEvent, useState } from "react";
+import { isSpreadsheetFile } from "@/lib/fx/sources/spreadsheet";
+
+type DiffRow = {
+  line: number;
+  key: string;
+  as_of_date: string;
+  base: string;
+  quote: string;
+  rate_mid: number;
+  segment?: string;
+  previousMid: number | null;
+  publishedMid: number | null;
+  status: "new" | "changed" | "unchanged";
+  flags: string[];
+};
+
+type RejectedRow = {
+  line: number;
+  reason: string;
+  raw: string;
+};
+
+type UploadReport = {
+  status: "ok" | "error";
+  dryRun: boolean;
+  counts: {
+    received: number;
+    inserted: number;
+    updated: number;
+    skipped: number;
+    rejected: number;
+    quarantined: number;
+  };
+  diff: DiffRow[];
+  rejected: RejectedRow[];
+  error?: string;
+};
+
+type Props = {
+  onCommitted?: () => void;
+};
+
+function formatMid(n: number | null) {
+  if (n === null || n === undefined) return "—";
+  return n.toLocaleString("en-US", {
+    minimumFractionDigits: 4,
+    maximumFractionDigits: 4,
+  });
+}
+
+const STATUS_STYLES: Record<DiffRow["status"], string> = {
+  new: "border-emerald-400/70 text-emerald-200",
+  changed: "border-amber-400/70 text-amber-200",
+  unchanged: "border-white/30 text-white/60",
+};
+
+export function BulkUploadPanel({ onCommitted }: Props) {
+  const [file, setFile] = useState<File | null>(null);
+  const [isOfficial, setIsOfficial] = useState(true);
+  const [report, setReport] = useState<UploadReport | null>(null);
+  const [state, setState] = useState<"idle" | "previewing" | "committing">("idle");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  function handleFileChange(e: ChangeEvent<HTMLInputElement>) {
+    const picked = e.target.files?.[0] ?? null;
+    const workbook = !!picked && isSpreadsheetFile(picked.name, picked.type);
+    setFile(workbook ? null : picked);
+    setReport(null);
+    setMessage(null);
+    setError(workbook ? "Spreadsheet workbooks are not accepted. Save the sheet as CSV and upload that." : null);
+  }
+
+  async function send(action: "preview" | "commit") {
+    if (!file) return;
+
+    setState(action === "preview" ? "previewing" : "committing");
+    setMessage(null);
+    setError(null);
+
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      form.append("action", action);
+      form.append("isOfficial", String(isOfficial));
+
+      const res = await fetch("/api/admin/bulk-upload", {
+        method: "POST",
+        body: form,
+      });
+
+      const json = await res.json().catch(() => null);
+
+      if (!json || (!res.ok && !json.counts)) {
+        setError(
+          [json?.error || json?.message || "Upload failed.", json?.details].filter(Boolean).join(": ")
+        );
+        return;
+      }
+
+      setReport(json as UploadReport);
+
+      if (json.status !== "ok") {
+        setError(json.error || "Upload failed.");
+        return;
+      }
+
+      if (action === "commit") {
+        const written = json.counts.inserted + json.counts.updated;
+        setMessage(
+          `Committed ${written} row(s). ${json.counts.skipped} unchanged, ${json.counts.quarantined} held for review.`
+        );
+        onCommitted?.();
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Unexpected error during upload.");
+    } finally {
+      setState("idle");
+    }
+  }
+
+  const pendingWrites = report
+    ? report.counts.inserted + report.counts.updated + report.counts.quarantined
+    : 0;
+  const canCommit =
+    !!report && report.dryRun && report.counts.rejected === 0 && pendingWrites > 0;
+
+  return (
+    <div className="border border-white/10 rounded-xl p-4 bg-black/40 flex flex-col gap-3">
+      <div>
+        <h2 className="text-sm font-semibold tracking-wide uppercase text-white/80">
+          Bulk upload
+        </h2>
+        <p className="mt-1 text-xs text-white/60">
+          CSV with <span className="font-mono">as_of_date</span>,{" "}
+          <span className="font-mono">quote_currency</span>,{" "}
+          <span className="font-mono">rate_mid</span> (optional{" "}
+          <span className="font-mono">base_currency</span>, default SSP;{" "}
+          <span className="font-mono">segment</span> official, commercial or parallel,
+          default official). CSV only: save .xlsx / .xls / .ods workbooks as CSV
+          first. Preview first; commit writes every row or none. Outliers are sent
+          to quarantine.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className="text-xs text-white/70 file:mr-3 file:rounded-lg file:border file:border-white/30 file:bg-black file:px-2 file:py-1 file:text-xs file:text-white hover:file:bg-white hover:file:text-black"
+        />
+        <label className="inline-flex items-center gap-1.5 text-white/70">
+          <input
+            type="checkbox"
+            checked={isOfficial}
+            onChange={(e) => setIsOfficial(e.target.checked)}
+            className="h-3 w-3 rounded border-white/30 bg-black"
+          />
+          Mark as official
+        </label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => send("preview")}
+          disabled={!file || state !== "idle"}
+          className="text-[11px] px-3 py-1.5 rounded-lg border border-white/30 hover:border-white hover:bg-white hover:text-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {state === "previewing" ? "Validating…" : "Preview"}
+        </button>
+        <button
+          type="button"
+          onClick={() => send("commit")}
+          disabled={!canCommit || state !== "idle"}
+          className="text-[11px] px-3 py-1.5 rounded-lg border border-white/40 bg-white text-black font-semibold hover:bg-black hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {state === "committing" ? "Committing…" : `Commit ${pendingWrites} row(s)`}
+        </button>
+      </div>
+
+      {message && (
+        <div className="text-xs rounded-lg px-3 py-2 bg-emerald-500/10 text-emerald-200 border border-emerald-500/40">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="text-xs rounded-lg px-3 py-2 bg-red-500/10 text-red-200 border border-red-500/40">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-2">
+          <p className="text-[11px] text-white/60">
+            {report.counts.received} row(s) read · {report.counts.inserted} new ·{" "}
+            {report.counts.updated} changed · {report.counts.skipped} unchanged ·{" "}
+            {report.counts.quarantined} flagged · {report.counts.rejected} rejected
+          </p>
+
+          {report.rejected.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto rounded-lg border border-red-500/40 bg-red-500/5 px-3 py-2 text-[11px] text-red-200 space-y-1">
+              {report.rejected.map((r, idx) => (
+                <li key={`${r.line}-${idx}`}>
+                  <span className="font-mono">Line {r.line}</span>: {r.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {report.diff.length > 0 && (
+            <div className="max-h-64 overflow-auto">
+              <table className="min-w-full text-xs border-collapse">
+                <thead>
+                  <tr className="border-b border-white/15 text-white/70">
+                    <th className="text-left py-1.5 pr-3 font-medium">Date</th>
+                    <th className="text-left py-1.5 px-3 font-medium">Pair</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Upload</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Existing</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Published</th>
+                    <th className="text-right py-1.5 pl-3 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.diff.map((row) => (
+                    <tr key={row.key} className="border-b border-white/10 last:border-0">
+                      <td className="py-1.5 pr-3 font-mono text-[11px]">{row.as_of_date}</td>
+                      <td className="py-1.5 px-3 font-mono text-[11px]">
+                        {row.quote}/{row.base}
+                        {row.segment && row.segment !== "official" && (
+                          <span className="ml-1 text-white/50">· {row.segment}</span>
+                        )}
+                      </td>
+                      <td className="py-1.5 px-3 text-right font-mono text-[11px]">
+                        {formatMid(row.rate_mid)}
+                      </td>
+                      <td className="py-1.5 px-3 text-right font-mono text-[11px] text-white/60">
+                        {formatMid(row.previousMid)}
+                      </td>
+                      <td className="py-1.5 px-3 text-right font-mono text-[11px] text-white/60">
+                        {formatMid(row.publishedMid)}
+                      </td>
+                      <td className="py-1.5 pl-3 text-right" title={row.flags.join(" ")}>
+                        {row.flags.length > 0 ? (
+                          <span className="inline-flex items-center justify-center rounded-full border border-red-400/70 px-2 py-0.5 text-[10px] text-red-200">
+                            quarantine
+                          </span>
+                        ) : (
+                          <span
+                            className={`inline-flex items-center justify-center rounded-full border px-2 py-0.5 text-[10px] ${STATUS_STYLES[row.status]}`}
+                          >
+                            {row.status}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
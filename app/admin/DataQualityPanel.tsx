@@ -0,0 +1,173 @@
+// app/admin/DataQualityPanel.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type FlatRun = { from: string; to: string; fixings: number; mid: number };
+
+type PairQuality = {
+  pair: string;
+  quote_currency: string;
+  latest_as_of_date: string;
+  stale: boolean;
+  age_days: number;
+  lag_days: number;
+  missing_dates: string[];
+  flat_runs: FlatRun[];
+};
+
+type Report = {
+  from: string;
+  to: string;
+  expected_as_of_date: string | null;
+  expected_dates: number;
+  anchor: { currency: string; as_of_date: string | null };
+  pairs: PairQuality[];
+  summary: { pairs: number; stale: number; with_gaps: number; with_flat_runs: number; lagging: number };
+};
+
+const WINDOWS = [14, 30, 90];
+
+// Long gap lists are trimmed; the API response has them all.
+const MAX_DATES_SHOWN = 5;
+
+function listDates(dates: string[]) {
+  const shown = dates.slice(-MAX_DATES_SHOWN).join(", ");
+  return dates.length > MAX_DATES_SHOWN ? `… ${shown} (${dates.length})` : shown;
+}
+
+export function DataQualityPanel() {
+  const [days, setDays] = useState(30);
+  const [version, setVersion] = useState(0);
+  const [report, setReport] = useState<Report | null>(null);
+  const [state, setState] = useState<"idle" | "loading" | "error">("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await fetch(`/api/admin/data-quality?days=${days}`);
+        const json = await res.json();
+        if (cancelled) return;
+        if (!res.ok || json?.error) {
+          setState("error");
+          setError(json?.details || json?.error || "Failed to load data quality report.");
+          setReport(null);
+          return;
+        }
+        setReport(json?.data ?? null);
+        setState("idle");
+      } catch (err: unknown) {
+        if (cancelled) return;
+        setState("error");
+        setError(err instanceof Error ? err.message : "Unexpected error while loading data quality.");
+        setReport(null);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [days, version]);
+
+  const issues = (report?.pairs ?? []).filter(
+    (p) => p.stale || p.lag_days > 0 || p.missing_dates.length > 0 || p.flat_runs.length > 0
+  );
+
+  return (
+    <div className="border border-white/10 rounded-xl p-4 bg-black/40 flex flex-col">
+      <div className="flex items-center justify-between mb-2 gap-3">
+        <h2 className="text-sm font-semibold tracking-wide uppercase text-white/80">
+          Data quality
+        </h2>
+        <div className="flex gap-1">
+          {WINDOWS.map((w) => (
+            <button
+              key={w}
+              type="button"
+              onClick={() => {
+                setState("loading");
+                setError(null);
+                if (w === days) setVersion((v) => v + 1);
+                else setDays(w);
+              }}
+              className={`text-[11px] px-2 py-1 rounded-lg border transition-colors ${
+                w === days
+                  ? "border-white bg-white text-black"
+                  : "border-white/20 hover:border-white hover:bg-white hover:text-black"
+              }`}
+            >
+              {w}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-[11px] text-white/50 mb-2">
+        Published official rates against the fixing calendar: stale pairs, missed fixing days, runs
+        of identical mids and pairs behind the latest {report?.anchor.currency ?? "USD"} fixing.
+      </p>
+
+      {state === "loading" && <p className="text-xs text-white/60">Checking published rates…</p>}
+      {state === "error" && <p className="text-xs text-red-300">{error}</p>}
+
+      {state === "idle" && report && (
+        <>
+          <div className="mb-2 grid grid-cols-4 gap-2 text-center text-[11px]">
+            {[
+              { label: "Stale", value: report.summary.stale },
+              { label: "Lagging", value: report.summary.lagging },
+              { label: "Gaps", value: report.summary.with_gaps },
+              { label: "Flat", value: report.summary.with_flat_runs },
+            ].map((s) => (
+              <div key={s.label} className="rounded-lg border border-white/10 px-2 py-1">
+                <p className={s.value > 0 ? "text-amber-300 font-semibold" : "text-white/80"}>{s.value}</p>
+                <p className="text-white/50">{s.label}</p>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-[10px] text-white/50 mb-2">
+            {report.from} → {report.to} · {report.expected_dates} fixing day(s) due · latest due{" "}
+            {report.expected_as_of_date ?? "—"} · {report.anchor.currency} anchor{" "}
+            {report.anchor.as_of_date ?? "—"} · {report.summary.pairs} pair(s)
+          </p>
+
+          {issues.length === 0 ? (
+            <p className="text-xs text-emerald-300">No issues in this window.</p>
+          ) : (
+            <ul className="max-h-72 overflow-y-auto divide-y divide-white/10">
+              {issues.map((p) => (
+                <li key={p.quote_currency} className="py-1.5 text-xs">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="font-mono text-[11px]">{p.pair}</p>
+                    <p className={`shrink-0 text-[10px] ${p.stale ? "text-amber-300" : "text-white/50"}`}>
+                      {p.latest_as_of_date} · {p.age_days}d old{p.stale ? " · stale" : ""}
+                    </p>
+                  </div>
+                  {p.lag_days > 0 && (
+                    <p className="text-[11px] text-white/80">
+                      {p.lag_days} fixing day(s) behind {report.anchor.currency}
+                    </p>
+                  )}
+                  {p.missing_dates.length > 0 && (
+                    <p className="text-[11px] text-white/80 break-words">
+                      Missing: {listDates(p.missing_dates)}
+                    </p>
+                  )}
+                  {p.flat_runs.map((r) => (
+                    <p key={r.from} className="text-[11px] text-white/80">
+                      Flat {r.fixings} fixings at {r.mid} ({r.from} → {r.to})
+                    </p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+// app/admin/QuarantinePanel.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type QuarantinedRate = {
+  id: number;
+  as_of_date: string;
+  base_currency: string;
+  quote_currency: string;
+  rate_mid: number;
+  segment?: string;
+  origin: string;
+  reasons: string[] | null;
+  prev_mid: number | null;
+  pct_delta: number | null;
+  vol_bucket: string | null;
+  created_at: string;
+};
+
+type Props = {
+  onReviewed?: () => void;
+};
+
+function formatMid(n: number | string | null) {
+  if (n === null || n === undefined) return "—";
+  return Number(n).toLocaleString("en-US", {
+    minimumFractionDigits: 4,
+    maximumFractionDigits: 4,
+  });
+}
+
+export function QuarantinePanel({ onReviewed }: Props) {
+  const [rows, setRows] = useState<QuarantinedRate[]>([]);
+  const [state, setState] = useState<"idle" | "loading" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setState("loading");
+      setError(null);
+      const res = await fetch("/api/admin/quarantine?status=pending");
+      const json = await res.json();
+      if (!res.ok || json?.error) {
+        setState("error");
+        setError(json?.error || "Failed to load quarantined rates.");
+        setRows([]);
+        return;
+      }
+      setRows(json?.data ?? []);
+      setState("idle");
+    } catch (err: unknown) {
+      setState("error");
+      setError(err instanceof Error ? err.message : "Unexpected error while loading quarantine.");
+      setRows([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function review(row: QuarantinedRate, action: "approve" | "reject") {
+    const verb = action === "approve" ? "Publish" : "Reject";
+    const note = window.prompt(
+      `${verb} ${row.quote_currency}/${row.base_currency} ${formatMid(row.rate_mid)} on ${row.as_of_date}?\nOptional note:`,
+      ""
+    );
+    if (note === null) return;
+
+    setBusyId(row.id);
+    try {
+      const res = await fetch("/api/admin/quarantine", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: row.id, action, note }),
+      });
+      const json = await res.json().catch(() => null);
+
+      if (!res.ok || json?.error) {
+        alert(json?.error || "Failed to review quarantined rate.");
+        return;
+      }
+
+      setRows((prev) => prev.filter((r) => r.id !== row.id));
+      if (action === "approve") onReviewed?.();
+    } catch (err: unknown) {
+      alert(err instanceof Error ? err.message : "Unexpected error while reviewing rate.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="border border-white/10 rounded-xl p-4 bg-black/40 flex flex-col">
+      <div className="flex items-center justify-between mb-2 gap-3">
+        <h2 className="text-sm font-semibold tracking-wide uppercase text-white/80">
+          Quarantine{rows.length > 0 ? ` (${rows.length})` : ""}
+        </h2>
+        <button
+          type="button"
+          onClick={load}
+          className="text-[11px] px-2 py-1 rounded-lg border border-white/20 hover:border-white hover:bg-white hover:text-black transition-colors"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <p className="text-[11px] text-white/50 mb-2">
+        Rates flagged by the validation gate (jump threshold / volatility shift). They are not
+        published until approved.
+      </p>
+
+      {state === "loading" && <p className="text-xs text-white/60">Loading quarantine…</p>}
+      {state === "error" && <p className="text-xs text-red-300">{error}</p>}
+      {state === "idle" && rows.length === 0 && (
+        <p className="text-xs text-white/60">Nothing waiting for review.</p>
+      )}
+
+      {rows.length > 0 && (
+        <ul className="max-h-72 overflow-y-auto space-y-2">
+          {rows.map((row) => (
+            <li
+              key={row.id}
+              className="rounded-lg border border-amber-400/40 bg-amber-500/5 px-3 py-2 text-xs"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-[11px]">
+                  {row.as_of_date} · {row.quote_currency}/{row.base_currency}
+                  {row.segment && row.segment !== "official" ? ` · ${row.segment}` : ""}
+                </span>
+                <span className="font-mono text-[11px] text-amber-100">
+                  {formatMid(row.rate_mid)}
+                </span>
+              </div>
+              <p className="mt-1 text-[10px] text-white/60">
+                Previous {formatMid(row.prev_mid)}
+                {row.pct_delta !== null ? ` · Δ ${Number(row.pct_delta).toFixed(2)}%` : ""}
+                {row.vol_bucket ? ` · vol ${row.vol_bucket}` : ""} · {row.origin}
+              </p>
+              {row.reasons && row.reasons.length > 0 && (
+                <p className="mt-1 text-[10px] text-amber-200/90">{row.reasons.join(" ")}</p>
+              )}
+              <div className="mt-2 flex justify-end gap-1">
+                <button
+                  type="button"
+                  disabled={busyId === row.id}
+                  onClick={() => review(row, "approve")}
+                  className="text-[10px] px-2 py-0.5 rounded-lg border border-emerald-400/60 text-emerald-200 hover:bg-emerald-400 hover:text-black transition-colors disabled:opacity-50"
+                >
+                  Approve
+                </button>
+                <button
+                  type="button"
+                  disabled={busyId === row.id}
+                  onClick={() => review(row, "reject")}
+                  className="text-[10px] px-2 py-0.5 rounded-lg border border-red-500/60 text-red-200 hover:bg-red-500 hover:text-black hover:border-red-500 transition-colors disabled:opacity-50"
+                >
+                  Reject
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
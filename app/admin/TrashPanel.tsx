@@ -0,0 +1,174 @@
+// app/admin/TrashPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type TrashRow = {
+  id: number;
+  as_of_date: string;
+  base_currency: string;
+  quote_currency: string;
+  rate_mid: number;
+  is_manual_override: boolean;
+  deleted_at: string;
+  deleted_by_email: string | null;
+  delete_reason: string | null;
+  restorable_until: string;
+  restorable: boolean;
+};
+
+type Props = {
+  canRestore: boolean;
+  /** Called after a restore so the recent-rates table can refresh. */
+  onRestored?: () => void;
+  /** Bump to reload, e.g. after a delete elsewhere on the page. */
+  refreshKey?: number;
+};
+
+export function TrashPanel({ canRestore, onRestored, refreshKey = 0 }: Props) {
+  const [rows, setRows] = useState<TrashRow[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [state, setState] = useState<"idle" | "loading" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setState("loading");
+      setError(null);
+      const res = await fetch("/api/admin/trash");
+      const json = await res.json();
+      if (!res.ok || json?.error) {
+        setState("error");
+        setError(json?.details || json?.error || "Failed to load deleted rates.");
+        setRows([]);
+        return;
+      }
+      setRows(json?.data ?? []);
+      setRetentionDays(json?.retentionDays ?? null);
+      setState("idle");
+    } catch (err: unknown) {
+      setState("error");
+      setError(err instanceof Error ? err.message : "Unexpected error while loading deleted rates.");
+      setRows([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  async function post(body: Record<string, unknown>) {
+    const res = await fetch("/api/admin/trash", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok || json?.error) {
+      alert(json?.details || json?.error || "Request failed.");
+      return false;
+    }
+    return true;
+  }
+
+  async function restore(row: TrashRow) {
+    setBusyId(row.id);
+    try {
+      if (await post({ action: "restore", id: row.id })) {
+        setRows((prev) => prev.filter((r) => r.id !== row.id));
+        onRestored?.();
+      }
+    } catch (err: unknown) {
+      alert(err instanceof Error ? err.message : "Unexpected error while restoring.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function purge() {
+    const ok = window.confirm(
+      `Permanently remove rates deleted more than ${retentionDays ?? "the retention window in"} days ago?`
+    );
+    if (!ok) return;
+    try {
+      if (await post({ action: "purge" })) load();
+    } catch (err: unknown) {
+      alert(err instanceof Error ? err.message : "Unexpected error while purging.");
+    }
+  }
+
+  const hasExpired = rows.some((r) => !r.restorable);
+
+  return (
+    <div className="border border-white/10 rounded-xl p-4 bg-black/40 flex flex-col">
+      <div className="flex items-center justify-between mb-2 gap-3">
+        <h2 className="text-sm font-semibold tracking-wide uppercase text-white/80">Trash</h2>
+        <div className="flex items-center gap-2">
+          {canRestore && hasExpired && (
+            <button
+              type="button"
+              onClick={purge}
+              className="text-[11px] px-2 py-1 rounded-lg border border-red-500/60 text-red-200 hover:bg-red-500 hover:text-black hover:border-red-500 transition-colors"
+            >
+              Purge expired
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={load}
+            className="text-[11px] px-2 py-1 rounded-lg border border-white/20 hover:border-white hover:bg-white hover:text-black transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <p className="text-[11px] text-white/50 mb-2">
+        Deleted rates are hidden from the public API and charts
+        {retentionDays ? ` and can be restored for ${retentionDays} days` : ""}.
+      </p>
+
+      {state === "loading" && <p className="text-xs text-white/60">Loading deleted rates…</p>}
+      {state === "error" && <p className="text-xs text-red-300">{error}</p>}
+      {state === "idle" && rows.length === 0 && (
+        <p className="text-xs text-white/60">Trash is empty.</p>
+      )}
+
+      {rows.length > 0 && (
+        <ul className="max-h-72 overflow-y-auto divide-y divide-white/10">
+          {rows.map((r) => (
+            <li key={r.id} className="flex items-center justify-between gap-3 py-1.5 text-xs">
+              <div className="min-w-0">
+                <p className="font-mono text-[11px]">
+                  {r.as_of_date} · {r.base_currency}/{r.quote_currency} ·{" "}
+                  {Number(r.rate_mid).toLocaleString("en-US", { maximumFractionDigits: 6 })}
+                  {r.is_manual_override ? " · manual" : ""}
+                </p>
+                <p className="truncate text-[10px] text-white/50">
+                  {r.deleted_by_email ?? "unknown"} · {new Date(r.deleted_at).toLocaleString()}
+                  {r.delete_reason ? ` · “${r.delete_reason}”` : ""}
+                </p>
+              </div>
+              {r.restorable ? (
+                canRestore && (
+                  <button
+                    type="button"
+                    disabled={busyId === r.id}
+                    onClick={() => restore(r)}
+                    title={`Restorable until ${new Date(r.restorable_until).toLocaleString()}`}
+                    className="shrink-0 text-[10px] px-2 py-0.5 rounded-lg border border-emerald-500/60 text-emerald-200 hover:bg-emerald-500 hover:text-black hover:border-emerald-500 transition-colors disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                )
+              ) : (
+                <span className="shrink-0 text-[10px] text-white/40">Expired</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
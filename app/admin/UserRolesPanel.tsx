@@ -0,0 +1,145 @@
+// app/admin/UserRolesPanel.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type UserRow = {
+  id: string;
+  email: string | null;
+  role: string | null;
+  allowlisted: boolean;
+  last_sign_in_at: string | null;
+};
+
+export function UserRolesPanel() {
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [roles, setRoles] = useState<string[]>([]);
+  const [state, setState] = useState<"idle" | "loading" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      setState("loading");
+      setError(null);
+      const res = await fetch("/api/admin/users");
+      const json = await res.json();
+      if (!res.ok || json?.error) {
+        setState("error");
+        setError(json?.details || json?.error || "Failed to load users.");
+        setUsers([]);
+        return;
+      }
+      setUsers(json?.data ?? []);
+      setRoles(json?.roles ?? []);
+      setState("idle");
+    } catch (err: unknown) {
+      setState("error");
+      setError(err instanceof Error ? err.message : "Unexpected error while loading users.");
+      setUsers([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function assignRole(user: UserRow, role: string) {
+    const next = role === "" ? null : role;
+    if (next === user.role) return;
+
+    setBusyId(user.id);
+    try {
+      const res = await fetch("/api/admin/users", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: user.id, role: next }),
+      });
+      const json = await res.json().catch(() => null);
+
+      if (!res.ok || json?.error) {
+        alert(json?.error || "Failed to update role.");
+        return;
+      }
+
+      setUsers((prev) => prev.map((u) => (u.id === user.id ? { ...u, role: next } : u)));
+    } catch (err: unknown) {
+      alert(err instanceof Error ? err.message : "Unexpected error while updating role.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const needle = filter.trim().toLowerCase();
+  const visible = needle
+    ? users.filter((u) => (u.email ?? "").toLowerCase().includes(needle))
+    : users;
+
+  return (
+    <div className="border border-white/10 rounded-xl p-4 bg-black/40 flex flex-col">
+      <div className="flex items-center justify-between mb-2 gap-3">
+        <h2 className="text-sm font-semibold tracking-wide uppercase text-white/80">
+          Users &amp; roles
+        </h2>
+        <button
+          type="button"
+          onClick={load}
+          className="text-[11px] px-2 py-1 rounded-lg border border-white/20 hover:border-white hover:bg-white hover:text-black transition-colors"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <p className="text-[11px] text-white/50 mb-2">
+        Roles are cumulative: viewer → analyst → fixer → approver → admin. Allowlisted emails are
+        always treated as admin.
+      </p>
+
+      <input
+        type="search"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder="Filter by email"
+        className="mb-2 w-full rounded-lg bg-black border border-white/20 px-3 py-1.5 text-xs outline-none focus:border-white"
+      />
+
+      {state === "loading" && <p className="text-xs text-white/60">Loading users…</p>}
+      {state === "error" && <p className="text-xs text-red-300">{error}</p>}
+      {state === "idle" && visible.length === 0 && (
+        <p className="text-xs text-white/60">No users found.</p>
+      )}
+
+      {visible.length > 0 && (
+        <ul className="max-h-72 overflow-y-auto divide-y divide-white/10">
+          {visible.map((u) => (
+            <li key={u.id} className="flex items-center justify-between gap-3 py-1.5 text-xs">
+              <div className="min-w-0">
+                <p className="truncate font-mono text-[11px]">{u.email ?? u.id}</p>
+                <p className="text-[10px] text-white/50">
+                  {u.last_sign_in_at
+                    ? `Last sign-in ${new Date(u.last_sign_in_at).toLocaleDateString()}`
+                    : "Never signed in"}
+                  {u.allowlisted ? " · allowlisted" : ""}
+                </p>
+              </div>
+              <select
+                value={u.role ?? ""}
+                disabled={busyId === u.id}
+                onChange={(e) => assignRole(u, e.target.value)}
+                className="rounded-lg bg-black border border-white/20 px-2 py-1 text-[11px] outline-none focus:border-white disabled:opacity-50"
+              >
+                <option value="">No role</option>
+                {roles.map((r) => (
+                  <option key={r} value={r}>
+                    {r}
+                  </option>
+                ))}
+              </select>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
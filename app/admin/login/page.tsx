@@ -4,6 +4,7 @@
 import { FormEvent, useState } from "react";
 
 export default function AdminLoginPage() {
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [status, setStatus] = useState<"idle" | "submitting" | "error">("idle");
   const [error, setError] = useState<string | null>(null);
@@ -17,7 +18,7 @@ export default function AdminLoginPage() {
       const res = await fetch("/api/admin/login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({ email, password }),
       });
 
       const json = await res.json().catch(() => null);
@@ -43,14 +44,27 @@ export default function AdminLoginPage() {
           Savvy Rilla FX – Admin Login
         </h1>
         <p className="text-xs text-white/60 mb-4 text-center">
-          Enter the admin password to access FX controls.
+          Sign in with your admin account to access FX controls.
         </p>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-1.5">
-            <label className="block text-sm font-medium">Admin password</label>
+            <label className="block text-sm font-medium">Email</label>
+            <input
+              type="email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full rounded-lg bg-black border border-white/20 px-3 py-2 text-sm outline-none focus:border-white focus:ring-1 focus:ring-white"
+              required
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="block text-sm font-medium">Password</label>
             <input
               type="password"
+              autoComplete="current-password"
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               className="w-full rounded-lg bg-black border border-white/20 px-3 py-2 text-sm outline-none focus:border-white focus:ring-1 focus:ring-white"
@@ -12,6 +12,13 @@ import {
   Legend,
 } from "chart.js";
 import { Line } from "react-chartjs-2";
+import { BulkUploadPanel } from "./BulkUploadPanel";
+import { QuarantinePanel } from "./QuarantinePanel";
+import { DataQualityPanel } from "./DataQualityPanel";
+import { UserRolesPanel } from "./UserRolesPanel";
+import { AuditLogPanel } from "./AuditLogPanel";
+import { TrashPanel } from "./TrashPanel";
+import { ApiKeysPanel } from "./ApiKeysPanel";
 
 ChartJS.register(
   LineElement,
@@ -31,6 +38,9 @@ type FxRate = {
   baseCurrency?: string;
   quoteCurrency: string;
   rateMid: number;
+  rateBid?: number | null;
+  rateAsk?: number | null;
+  segment?: string;
   isOfficial: boolean;
   isManualOverride?: boolean;
   created_at?: string;
@@ -940,6 +950,9 @@ function FxTrendChart() {
 
 export default function AdminPage() {
   const [authChecked, setAuthChecked] = useState(false);
+  const [adminEmail, setAdminEmail] = useState<string | null>(null);
+  const [adminRole, setAdminRole] = useState<string | null>(null);
+  const [permissions, setPermissions] = useState<string[]>([]);
 
   const [asOfDate, setAsOfDate] = useState<string>(() => {
     const d = new Date();
@@ -949,7 +962,12 @@ export default function AdminPage() {
   });
   const [quoteCurrency, setQuoteCurrency] = useState<string>("USD");
   const [rateMid, setRateMid] = useState<string>("");
+  const [rateBid, setRateBid] = useState<string>("");
+  const [rateAsk, setRateAsk] = useState<string>("");
+  const [segment, setSegment] = useState<string>("official");
   const [isOfficial, setIsOfficial] = useState<boolean>(true);
+  const [changeReason, setChangeReason] = useState<string>("");
+  const [trashVersion, setTrashVersion] = useState(0);
 
   const [editMode, setEditMode] = useState(false);
   const [editingRateId, setEditingRateId] = useState<number | null>(null);
@@ -995,11 +1013,15 @@ export default function AdminPage() {
     (async () => {
       try {
         const res = await fetch("/api/admin/check");
-        if (res.status === 401 && !cancelled) {
+        if ((res.status === 401 || res.status === 403) && !cancelled) {
           window.location.href = "/admin/login";
           return;
         }
+        const json = await res.json().catch(() => null);
         if (!cancelled) {
+          setAdminEmail(json?.email ?? null);
+          setAdminRole(json?.role ?? null);
+          setPermissions(json?.permissions ?? []);
           setAuthChecked(true);
           fetchRecentRates();
         }
@@ -1015,6 +1037,14 @@ export default function AdminPage() {
     };
   }, []);
 
+  async function handleLogout() {
+    try {
+      await fetch("/api/admin/logout", { method: "POST" });
+    } finally {
+      window.location.href = "/admin/login";
+    }
+  }
+
   function resetFormToCreate() {
     const d = new Date();
     const mm = String(d.getMonth() + 1).padStart(2, "0");
@@ -1024,7 +1054,11 @@ export default function AdminPage() {
     setAsOfDate(today);
     setQuoteCurrency("USD");
     setRateMid("");
+    setRateBid("");
+    setRateAsk("");
+    setSegment("official");
     setIsOfficial(true);
+    setChangeReason("");
 
     setEditMode(false);
     setEditingRateId(null);
@@ -1046,6 +1080,18 @@ export default function AdminPage() {
         return;
       }
 
+      // Bid / ask are optional; when given they must bracket the mid.
+      const parsedBid = rateBid.trim() ? Number(rateBid) : null;
+      const parsedAsk = rateAsk.trim() ? Number(rateAsk) : null;
+      if (
+        (parsedBid !== null && (!(parsedBid > 0) || parsedBid > parsedRate)) ||
+        (parsedAsk !== null && (!(parsedAsk > 0) || parsedAsk < parsedRate))
+      ) {
+        setSaveState("error");
+        setMessage("Bid and ask must be positive and satisfy bid ≤ mid ≤ ask.");
+        return;
+      }
+
       const res = await fetch("/api/admin/manual-rate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -1053,7 +1099,11 @@ export default function AdminPage() {
           asOfDate,
           quoteCurrency,
           rateMid: parsedRate,
+          rateBid: parsedBid,
+          rateAsk: parsedAsk,
+          segment,
           isOfficial,
+          reason: changeReason.trim() || null,
         }),
       });
 
@@ -1075,6 +1125,7 @@ export default function AdminPage() {
       setEditMode(false);
       setEditingRateId(null);
       setEditingLabel(null);
+      setChangeReason("");
 
       fetchRecentRates();
     } catch (err: any) {
@@ -1098,9 +1149,15 @@ export default function AdminPage() {
     } else {
       setRateMid(String(rate.rateMid ?? ""));
     }
+    setRateBid(rate.rateBid == null ? "" : String(rate.rateBid));
+    setRateAsk(rate.rateAsk == null ? "" : String(rate.rateAsk));
+    setSegment(rate.segment ?? "official");
     setIsOfficial(Boolean(rate.isOfficial));
 
-    const label = `${rate.quoteCurrency} on ${rate.asOfDate}`;
+    const label =
+      rate.segment && rate.segment !== "official"
+        ? `${rate.quoteCurrency} (${rate.segment}) on ${rate.asOfDate}`
+        : `${rate.quoteCurrency} on ${rate.asOfDate}`;
     setEditingLabel(label);
     setSaveState("idle");
     setMessage(null);
@@ -1108,14 +1165,20 @@ export default function AdminPage() {
 
   async function handleDelete(id?: number) {
     if (!id) return;
-    const confirmed = window.confirm("Delete this FX rate? This cannot be undone.");
-    if (!confirmed) return;
+    const reason = window.prompt(
+      "Move this FX rate to the trash? It can be restored later. Enter a reason:"
+    );
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert("A reason is required to delete a rate.");
+      return;
+    }
 
     try {
       const res = await fetch("/api/admin/delete-rate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id }),
+        body: JSON.stringify({ id, reason: reason.trim() }),
       });
 
       const json = await res.json().catch(() => null);
@@ -1130,6 +1193,7 @@ export default function AdminPage() {
       }
 
       fetchRecentRates();
+      setTrashVersion((v) => v + 1);
     } catch (err: any) {
       alert(err?.message || "Unexpected error while deleting FX rate.");
     }
@@ -1153,6 +1217,21 @@ export default function AdminPage() {
           <p className="mt-1 text-sm text-center text-white/70">
             Manual mid-rate entry for SSP vs global currencies.
           </p>
+          <div className="mt-2 flex items-center justify-center gap-3 text-[11px] text-white/60">
+            {adminEmail && (
+              <span>
+                Signed in as <span className="font-mono text-white/80">{adminEmail}</span>
+                {adminRole ? ` (${adminRole})` : ""}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={handleLogout}
+              className="px-2 py-0.5 rounded-lg border border-white/20 hover:border-white hover:bg-white hover:text-black transition-colors"
+            >
+              Log out
+            </button>
+          </div>
         </header>
 
         <div className="grid gap-6 lg:grid-cols-2">
@@ -1231,6 +1310,66 @@ export default function AdminPage() {
                 </p>
               </div>
 
+              {/* Bid / ask */}
+              <div className="space-y-1">
+                <label className="block text-sm font-medium">Bid / ask (optional)</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step="0.0001"
+                    value={rateBid}
+                    onChange={(e) => setRateBid(e.target.value)}
+                    className="w-1/2 rounded-lg bg-black border border-white/20 px-3 py-2 text-sm outline-none focus:border-white focus:ring-1 focus:ring-white"
+                    placeholder="Bid"
+                  />
+                  <input
+                    type="number"
+                    step="0.0001"
+                    value={rateAsk}
+                    onChange={(e) => setRateAsk(e.target.value)}
+                    className="w-1/2 rounded-lg bg-black border border-white/20 px-3 py-2 text-sm outline-none focus:border-white focus:ring-1 focus:ring-white"
+                    placeholder="Ask"
+                  />
+                </div>
+                <p className="text-xs text-white/60">
+                  Buy / sell rates in the same unit; must satisfy bid ≤ mid ≤ ask.
+                </p>
+              </div>
+
+              {/* Market segment */}
+              <div className="space-y-1">
+                <label className="block text-sm font-medium">Market segment</label>
+                <select
+                  value={segment}
+                  onChange={(e) => setSegment(e.target.value)}
+                  className="w-full rounded-lg bg-black border border-white/20 px-3 py-2 text-sm outline-none focus:border-white focus:ring-1 focus:ring-white"
+                >
+                  <option value="official">Official</option>
+                  <option value="commercial">Commercial bank</option>
+                  <option value="parallel">Parallel / bureau</option>
+                </select>
+                <p className="text-xs text-white/60">
+                  Only official rates feed the default published series; the
+                  others are served with <span className="font-mono">?segment=</span>.
+                </p>
+              </div>
+
+              {/* Reason (audit log) */}
+              <div className="space-y-1">
+                <label className="block text-sm font-medium">Reason (optional)</label>
+                <input
+                  type="text"
+                  value={changeReason}
+                  onChange={(e) => setChangeReason(e.target.value)}
+                  className="w-full rounded-lg bg-black border border-white/20 px-3 py-2 text-sm outline-none focus:border-white focus:ring-1 focus:ring-white"
+                  placeholder={editMode ? "Why is this rate being corrected?" : "Source or context"}
+                  maxLength={500}
+                />
+                <p className="text-xs text-white/60">
+                  Recorded with the before/after values in the change log.
+                </p>
+              </div>
+
               {/* Mark as official */}
               <div className="flex items-center justify-between gap-3 border border-white/10 rounded-xl px-3 py-2">
                 <div>
@@ -1298,6 +1437,26 @@ export default function AdminPage() {
           <section className="flex flex-col gap-4">
             <AiInsightsCoach />
 
+            {permissions.includes("rates.publish") && (
+              <BulkUploadPanel onCommitted={fetchRecentRates} />
+            )}
+
+            <QuarantinePanel onReviewed={fetchRecentRates} />
+
+            <DataQualityPanel />
+
+            <TrashPanel
+              canRestore={permissions.includes("rates.publish")}
+              onRestored={fetchRecentRates}
+              refreshKey={trashVersion}
+            />
+
+            {permissions.includes("audit.read") && <AuditLogPanel />}
+
+            {permissions.includes("users.manage") && <UserRolesPanel />}
+
+            {permissions.includes("api_keys.manage") && <ApiKeysPanel />}
+
             <div className="border border-white/10 rounded-xl p-4 sm:p-4 bg-black/40 flex flex-col">
               <div className="flex items-center justify-between mb-2 gap-3">
                 <h2 className="text-sm font-semibold tracking-wide uppercase text-white/80">
@@ -1376,6 +1535,11 @@ export default function AdminPage() {
                               <span className="font-mono text-[11px]">
                                 {rate.quoteCurrency}
                               </span>
+                              {rate.segment && rate.segment !== "official" && (
+                                <span className="ml-1 text-[10px] text-white/50">
+                                  {rate.segment}
+                                </span>
+                              )}
                             </td>
                             <td className="py-1.5 px-3 align-top text-right">
                               <span className="font-mono text-[11px]">
@@ -1,5 +1,6 @@
 // app/api/admin/anchor-history/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
 import { supabaseServer } from "@/lib/supabase/server";
 
 const WINDOW_OPTIONS = ["90d", "365d", "all"] as const;
@@ -73,6 +74,9 @@ async function fetchAllPaged<T>(
 }
 
 export async function GET(req: NextRequest) {
+  const { principal, response } = await requirePermission("engine.read");
+  if (!principal) return response;
+
   try {
     const url = new URL(req.url);
 
@@ -141,12 +145,14 @@ export async function GET(req: NextRequest) {
         mid: Number(row.rate_mid),
       }));
 
-    // Manual fixings (includes manual overrides) within the same date range
+    // Manual fixings (includes manual overrides) within the same date range — approved only; drafts never reach the chart
     const { data: manualRows, error: manualErr } = await supabase
       .from("manual_fixings")
       .select("id, as_of_date, rate_mid, is_official, is_manual_override, notes, created_at, created_email")
       .eq("base_currency", base)
       .eq("quote_currency", quote)
+      .eq("status", "approved")
+      .eq("segment", "official")
       .gte("as_of_date", minDateStr)
       .lte("as_of_date", maxDateStr)
       .order("as_of_date", { ascending: true });
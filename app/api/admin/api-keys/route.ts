@@ -0,0 +1,132 @@
+// app/api/admin/api-keys/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
+import {
+  API_KEY_TIERS,
+  anonymousLimits,
+  createApiKey,
+  getApiKeyUsage,
+  listApiKeys,
+  parseApiKeyPayload,
+  revokeApiKey,
+  rotateApiKey,
+  updateApiKeyLimits,
+} from "@/lib/api/keys";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_USAGE_DAYS = 30;
+const MAX_USAGE_DAYS = 90;
+
+type UsageSummary = {
+  today: number;
+  requests: number;
+  rejected: number;
+  by_endpoint: Record<string, number>;
+  by_day: Record<string, number>;
+};
+
+// GET /api/admin/api-keys?days=30
+// API keys (never their secrets) with usage per endpoint and per UTC day over
+// the last `days` days. Requires api_keys.manage.
+export async function GET(req: NextRequest) {
+  const { principal, response } = await requirePermission("api_keys.manage");
+  if (!principal) return response;
+
+  const daysParam = Number(req.nextUrl.searchParams.get("days") ?? DEFAULT_USAGE_DAYS);
+  const days =
+    Number.isInteger(daysParam) && daysParam > 0 ? Math.min(daysParam, MAX_USAGE_DAYS) : DEFAULT_USAGE_DAYS;
+
+  const [keys, usage] = await Promise.all([listApiKeys(), getApiKeyUsage(null, days)]);
+  if (keys.error) return NextResponse.json({ error: keys.error }, { status: keys.status });
+  if (usage.error) return NextResponse.json({ error: usage.error }, { status: usage.status });
+
+  const today = new Date().toISOString().slice(0, 10);
+  const summaries = new Map<string, UsageSummary>();
+
+  for (const row of usage.data ?? []) {
+    if (!row.api_key_id) continue;
+    let s = summaries.get(row.api_key_id);
+    if (!s) {
+      s = { today: 0, requests: 0, rejected: 0, by_endpoint: {}, by_day: {} };
+      summaries.set(row.api_key_id, s);
+    }
+    const day = String(row.day);
+    s.requests += row.request_count;
+    s.rejected += row.rejected_count;
+    s.by_endpoint[row.endpoint] = (s.by_endpoint[row.endpoint] ?? 0) + row.request_count;
+    s.by_day[day] = (s.by_day[day] ?? 0) + row.request_count;
+    if (day === today) s.today += row.request_count;
+  }
+
+  const data = (keys.data ?? []).map((key) => ({
+    ...key,
+    usage: summaries.get(key.id) ?? { today: 0, requests: 0, rejected: 0, by_endpoint: {}, by_day: {} },
+  }));
+
+  return NextResponse.json(
+    { data, days, tiers: API_KEY_TIERS, anonymous: anonymousLimits() },
+    { status: 200 }
+  );
+}
+
+// POST /api/admin/api-keys
+// Body: { action: "create", name, tier?, rate_limit_per_minute?, daily_quota? }
+//    or { action: "rotate", id }     issues a new secret; the old one stops working
+//    or { action: "revoke", id }
+//    or { action: "limits", id, rate_limit_per_minute, daily_quota }
+// create and rotate return the secret once, as data.secret.
+export async function POST(req: NextRequest) {
+  const { principal, response } = await requirePermission("api_keys.manage");
+  if (!principal) return response;
+
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const action = body?.action;
+
+  if (action === "create") {
+    const parsed = parseApiKeyPayload(body);
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const result = await createApiKey(parsed.value, principal);
+    if (result.error) return NextResponse.json({ error: result.error }, { status: result.status });
+    return NextResponse.json({ data: result.data }, { status: result.status });
+  }
+
+  const id = typeof body?.id === "string" ? body.id : null;
+  if (!id || !["rotate", "revoke", "limits"].includes(action)) {
+    return NextResponse.json(
+      { error: "action must be create, or rotate / revoke / limits with an id." },
+      { status: 400 }
+    );
+  }
+
+  if (action === "rotate") {
+    const result = await rotateApiKey(id, principal);
+    if (result.error) return NextResponse.json({ error: result.error }, { status: result.status });
+    return NextResponse.json({ data: result.data });
+  }
+
+  if (action === "revoke") {
+    const result = await revokeApiKey(id, principal);
+    if (result.error) return NextResponse.json({ error: result.error }, { status: result.status });
+    return NextResponse.json({ data: result.data });
+  }
+
+  const perMinute = Number(body?.rate_limit_per_minute);
+  const dailyQuota = Number(body?.daily_quota);
+  if (!Number.isInteger(perMinute) || perMinute <= 0 || !Number.isInteger(dailyQuota) || dailyQuota <= 0) {
+    return NextResponse.json(
+      { error: "rate_limit_per_minute and daily_quota must be positive integers." },
+      { status: 400 }
+    );
+  }
+
+  const result = await updateApiKeyLimits(id, { perMinute, dailyQuota }, principal);
+  if (result.error) return NextResponse.json({ error: result.error }, { status: result.status });
+  return NextResponse.json({ data: result.data });
+}
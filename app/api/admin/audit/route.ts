@@ -0,0 +1,106 @@
+// app/api/admin/audit/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requirePermission } from "@/lib/admin/guard";
+
+export const dynamic = "force-dynamic";
+
+const TABLES = ["fx_daily_rates", "manual_fixings", "fixing_schedule"] as const;
+const COLUMNS =
+  "id, occurred_at, table_name, operation, row_id, as_of_date, base_currency, quote_currency, before, after, actor_id, actor_email, ip, source, reason";
+
+// Text cells starting with = + - @ are read as formulas by spreadsheet apps; the
+// leading quote keeps logged values (user-supplied notes, emails) inert.
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const raw = typeof value === "object" ? JSON.stringify(value) : String(value);
+  const str = typeof value === "string" && /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+// GET /api/admin/audit
+// Change history from fx_change_log (newest first).
+// Query params (all optional):
+//   base=SSP (default when quote is given)   quote=USD
+//   date=YYYY-MM-DD   or   from=YYYY-MM-DD & to=YYYY-MM-DD
+//   table=fx_daily_rates|manual_fixings|fixing_schedule
+//   limit=200 (max 1000)
+//   format=json (default) | csv
+export async function GET(req: NextRequest) {
+  const { principal, response } = await requirePermission("audit.read");
+  if (!principal) return response;
+
+  const search = new URL(req.url).searchParams;
+  const quote = search.get("quote")?.toUpperCase() ?? null;
+  const base = search.get("base")?.toUpperCase() ?? (quote ? "SSP" : null);
+  const date = search.get("date");
+  const from = date ?? search.get("from");
+  const to = date ?? search.get("to");
+  const table = search.get("table");
+  const format = (search.get("format") ?? "json").toLowerCase();
+  const limit = Math.min(Math.max(Number(search.get("limit") ?? "200") || 200, 1), 1000);
+
+  const isDate = (v: string | null) => v === null || /^\d{4}-\d{2}-\d{2}$/.test(v);
+  if (!isDate(from) || !isDate(to)) {
+    return NextResponse.json(
+      { error: "Invalid date", details: "date, from and to must be YYYY-MM-DD" },
+      { status: 400 }
+    );
+  }
+
+  if (table && !(TABLES as readonly string[]).includes(table)) {
+    return NextResponse.json(
+      { error: "Invalid table", details: `table must be one of ${TABLES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  let query = supabaseServer
+    .from("fx_change_log")
+    .select(COLUMNS)
+    .order("occurred_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit);
+
+  if (base) query = query.eq("base_currency", base);
+  if (quote) query = query.eq("quote_currency", quote);
+  if (from) query = query.gte("as_of_date", from);
+  if (to) query = query.lte("as_of_date", to);
+  if (table) query = query.eq("table_name", table);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error loading fx_change_log:", error);
+    return NextResponse.json(
+      { error: "Failed to load audit history", details: error.message },
+      { status: 500 }
+    );
+  }
+
+  const rows = data ?? [];
+
+  if (format !== "csv") {
+    return NextResponse.json({ data: rows }, { status: 200 });
+  }
+
+  const header = COLUMNS.split(",").map((c) => c.trim());
+  const csv = [
+    header.join(","),
+    ...rows.map((row) =>
+      header.map((column) => csvValue((row as Record<string, unknown>)[column])).join(",")
+    ),
+  ].join("\n");
+
+  const scope = [base && quote ? `${base}_${quote}` : base ?? quote, date ?? (from || to ? `${from ?? ""}_to_${to ?? ""}` : null)]
+    .filter(Boolean)
+    .join("_");
+
+  return new NextResponse(csv, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="fx_audit${scope ? `_${scope}` : ""}.csv"`,
+    },
+  });
+}
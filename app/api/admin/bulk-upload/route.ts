@@ -0,0 +1,120 @@
+// app/api/admin/bulk-upload/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
+import { changeContextFor, parseReason, recordAdminAction } from "@/lib/admin/audit";
+import { ingestFromSource } from "@/lib/fx/ingestion";
+import { DEFAULT_SOURCE_CODE, getSourceAdapter } from "@/lib/fx/sources/registry";
+import { isSpreadsheetFile } from "@/lib/fx/sources/spreadsheet";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024; // a year of daily fixings is far below this
+
+// POST /api/admin/bulk-upload
+// multipart/form-data:
+//   file        CSV with as_of_date, quote_currency, rate_mid (base_currency optional, default SSP).
+//               CSV only: .xlsx / .xls / .ods workbooks are refused with 415
+//               (lib/fx/sources/spreadsheet.ts); save them as CSV first.
+//   action      "preview" (default) | "commit"
+//   isOfficial  "true" (default) | "false"
+//   reason      optional, recorded in fx_change_log (default: the file name)
+//
+// Rows are stored exactly like /api/admin/manual-rate entries (manual override,
+// SAVVY_FEED source). "commit" is all-or-nothing: if any row fails validation
+// nothing is written. Rows flagged by the outlier gate go to quarantine in the
+// same transaction as the published rows.
+export async function POST(req: NextRequest) {
+  const { principal, response } = await requirePermission("rates.publish");
+  if (!principal) return response;
+
+  try {
+    const form = await req.formData().catch(() => null);
+    const file = form?.get("file");
+
+    if (!form || !file || typeof file === "string") {
+      return NextResponse.json(
+        { error: "Missing file", details: "Send a CSV file in the 'file' field" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: "File too large", details: "Maximum upload size is 2 MB" },
+        { status: 413 }
+      );
+    }
+
+    const action = String(form.get("action") ?? "preview");
+    if (action !== "preview" && action !== "commit") {
+      return NextResponse.json(
+        { error: "Invalid action", details: "action must be preview or commit" },
+        { status: 400 }
+      );
+    }
+
+    const isOfficial = String(form.get("isOfficial") ?? "true") !== "false";
+
+    const adapter = getSourceAdapter(DEFAULT_SOURCE_CODE);
+    if (!adapter) {
+      return NextResponse.json(
+        { error: `No source adapter registered for '${DEFAULT_SOURCE_CODE}'` },
+        { status: 500 }
+      );
+    }
+
+    if (isSpreadsheetFile(file.name, file.type)) {
+      return NextResponse.json(
+        { error: "Unsupported file type", details: "Save the spreadsheet as CSV and upload that" },
+        { status: 415 }
+      );
+    }
+
+    const text = await file.text();
+
+    if (!text.trim()) {
+      return NextResponse.json({ error: "Uploaded file is empty" }, { status: 400 });
+    }
+
+    const report = await ingestFromSource({
+      adapter,
+      payload: {
+        text,
+        contentType: file.type || null,
+        origin: file.name,
+        mode: "UPLOAD",
+      },
+      dryRun: action === "preview",
+      manualOverride: true,
+      isOfficial,
+      strict: true,
+      quarantineOrigin: "admin-bulk",
+      changeContext: await changeContextFor(
+        principal,
+        parseReason(form.get("reason")) ?? `Bulk upload: ${file.name}`
+      ),
+    });
+
+    if (!report.dryRun && report.status === "ok") {
+      await recordAdminAction(principal, {
+        action: "rate.bulk_upload",
+        targetTable: "fx_daily_rates",
+        details: { file: file.name, isOfficial, counts: report.counts },
+      });
+    }
+
+    const status =
+      report.status === "ok" ? 200 : report.errorCode === "VALIDATION_FAILED" ? 422 : 500;
+    return NextResponse.json(report, { status });
+  } catch (err: unknown) {
+    console.error("Unexpected error in bulk-upload:", err);
+    return NextResponse.json(
+      {
+        error: "Unexpected error while processing upload",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
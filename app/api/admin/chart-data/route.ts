@@ -1,7 +1,7 @@
 // app/api/admin/chart-data/route.ts
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
-import { isAdminAuthenticated } from "@/lib/admin/auth";
+import { requirePermission } from "@/lib/admin/guard";
 
 export const dynamic = "force-dynamic";
 
@@ -21,10 +21,8 @@ function toNumber(value: unknown): number | null {
 }
 
 export async function GET(request: Request) {
-  const ok = await isAdminAuthenticated();
-  if (!ok) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const { principal, response } = await requirePermission("rates.read");
+  if (!principal) return response;
 
   try {
     const url = new URL(request.url);
@@ -46,6 +44,7 @@ export async function GET(request: Request) {
       const { data, error } = await supabase
         .from("fx_daily_rates")
         .select("as_of_date, rate_mid")
+        .is("deleted_at", null)
         .eq("base_currency", "SSP")
         .eq("quote_currency", quote)
         .order("as_of_date", { ascending: true }) // oldest → newest
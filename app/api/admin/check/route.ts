@@ -1,12 +1,19 @@
 // app/api/admin/check/route.ts
 import { NextResponse } from "next/server";
-import { isAdminAuthenticated } from "@/lib/admin/auth";
+import { requirePermission } from "@/lib/admin/guard";
 
 export async function GET() {
-  const ok = await isAdminAuthenticated();
-  if (!ok) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const { principal, response } = await requirePermission("rates.read");
+  if (!principal) return response;
 
-  return NextResponse.json({ ok: true }, { status: 200 });
+  return NextResponse.json(
+    {
+      ok: true,
+      email: principal.email,
+      kind: principal.kind,
+      role: principal.role,
+      permissions: principal.permissions,
+    },
+    { status: 200 }
+  );
 }
@@ -0,0 +1,50 @@
+// app/api/admin/data-quality/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
+import {
+  dataQualityReport,
+  DEFAULT_MIN_FLAT_RUN,
+  DEFAULT_QUALITY_WINDOW_DAYS,
+  MAX_QUALITY_WINDOW_DAYS,
+} from "@/lib/fx/dataQuality";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/data-quality
+// Gaps, flat runs, staleness and USD anchor lag per published official pair
+// (lib/fx/dataQuality.ts), measured against the fixing calendar.
+// Query params (all optional):
+//   days=30 (max 366)   window ending today (Juba)
+//   min_flat_run=3      repeats after the first fixing before a run is reported
+export async function GET(req: NextRequest) {
+  const { principal, response } = await requirePermission("rates.read");
+  if (!principal) return response;
+
+  const search = new URL(req.url).searchParams;
+  const days = Number(search.get("days") ?? DEFAULT_QUALITY_WINDOW_DAYS);
+  const minFlatRun = Number(search.get("min_flat_run") ?? DEFAULT_MIN_FLAT_RUN);
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_QUALITY_WINDOW_DAYS) {
+    return NextResponse.json(
+      { error: "Invalid days", details: `days must be an integer from 1 to ${MAX_QUALITY_WINDOW_DAYS}` },
+      { status: 400 }
+    );
+  }
+  if (!Number.isInteger(minFlatRun) || minFlatRun < 1) {
+    return NextResponse.json(
+      { error: "Invalid min_flat_run", details: "min_flat_run must be a positive integer" },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await dataQualityReport(days, minFlatRun);
+  if (error || !data) {
+    console.error("GET data quality error:", error);
+    return NextResponse.json(
+      { error: "Failed to build data quality report", details: error?.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ data });
+}
@@ -1,19 +1,23 @@
 // app/api/admin/delete-rate/route.ts
 import { NextResponse } from "next/server";
-import { supabaseServer } from "@/lib/supabase/server";
-import { isAdminAuthenticated } from "@/lib/admin/auth";
+import { requirePermission } from "@/lib/admin/guard";
+import { auditedClient, parseReason, recordAdminAction } from "@/lib/admin/audit";
+import { restorableUntil } from "@/lib/fx/trash";
 
 export const dynamic = "force-dynamic";
 
+// POST /api/admin/delete-rate
+// Body: { id: number, reason: string }
+// Soft delete: the row is hidden from the default view, /api/v1/* and the
+// charts, and can be restored from /api/admin/trash within the retention window.
 export async function POST(request: Request) {
-  const ok = await isAdminAuthenticated();
-  if (!ok) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const { principal, response } = await requirePermission("rates.publish");
+  if (!principal) return response;
 
   try {
     const body = await request.json().catch(() => null);
     const id = body?.id;
+    const reason = parseReason(body?.reason);
 
     if (!id || typeof id !== "number") {
       return NextResponse.json(
@@ -22,10 +26,28 @@ export async function POST(request: Request) {
       );
     }
 
-    const { error } = await supabaseServer
+    if (!reason) {
+      return NextResponse.json(
+        { error: "Missing reason", details: "Deleting a rate requires a reason" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await auditedClient(principal, reason);
+    const { data: deleted, error } = await supabase
       .from("fx_daily_rates")
-      .delete()
-      .eq("id", id);
+      .update({
+        deleted_at: new Date().toISOString(),
+        deleted_by: principal.id,
+        deleted_by_email: principal.email,
+        delete_reason: reason,
+      })
+      .eq("id", id)
+      .is("deleted_at", null)
+      .select(
+        "as_of_date, base_currency, quote_currency, rate_mid, is_official, is_manual_override, deleted_at"
+      )
+      .maybeSingle();
 
     if (error) {
       console.error("Error deleting FX rate:", error);
@@ -35,8 +57,25 @@ export async function POST(request: Request) {
       );
     }
 
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "FX rate not found or already deleted" },
+        { status: 404 }
+      );
+    }
+
+    await recordAdminAction(principal, {
+      action: "rate.delete",
+      targetTable: "fx_daily_rates",
+      targetKey: id,
+      details: { deleted, reason },
+    });
+
     return NextResponse.json(
-      { message: "FX rate deleted successfully" },
+      {
+        message: "FX rate moved to trash",
+        restorableUntil: restorableUntil(deleted.deleted_at),
+      },
       { status: 200 }
     );
   } catch (err: any) {
@@ -1,6 +1,8 @@
 // app/api/admin/engine-commentary/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import OpenAI from "openai";
+import { requirePermission } from "@/lib/admin/guard";
+import { getSharedStore } from "@/lib/store/shared";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -8,13 +10,12 @@ export const dynamic = "force-dynamic";
 /**
  * Phase 4.1: server cache + rate guard
  *
- * - In-memory cache (per server instance) with TTL
- * - IP-based rate limit (per server instance) with window
+ * - Commentary cached by payload with a TTL
+ * - IP-based sliding-window rate limit
  *
- * Notes:
- * - Vercel/serverless instances can scale; each instance has its own memory.
- * - This still delivers major cost protection and smooth UX, but is not a global, cross-instance cache.
- * - If you later want global cache/rate-limits, we can move these maps to Redis/Upstash.
+ * Both live in the shared store (lib/store/shared.ts): Redis when
+ * FX_REDIS_URL is set, so they hold across instances; otherwise in memory,
+ * per server instance.
  */
 
 type CommentaryRequest = {
@@ -54,35 +55,8 @@ type CacheEntry = {
   text: string;
   model: string;
   createdAt: number;
-  expiresAt: number;
 };
 
-type RateEntry = {
-  count: number;
-  windowStart: number;
-};
-
-declare global {
-  // eslint-disable-next-line no-var
-  var __eamu_engine_commentary_cache: Map<string, CacheEntry> | undefined;
-  // eslint-disable-next-line no-var
-  var __eamu_engine_commentary_rate: Map<string, RateEntry> | undefined;
-}
-
-function getCache(): Map<string, CacheEntry> {
-  if (!global.__eamu_engine_commentary_cache) {
-    global.__eamu_engine_commentary_cache = new Map();
-  }
-  return global.__eamu_engine_commentary_cache;
-}
-
-function getRateMap(): Map<string, RateEntry> {
-  if (!global.__eamu_engine_commentary_rate) {
-    global.__eamu_engine_commentary_rate = new Map();
-  }
-  return global.__eamu_engine_commentary_rate;
-}
-
 function json(body: any, init?: ResponseInit) {
   return NextResponse.json(body, init);
 }
@@ -217,6 +191,9 @@ function buildPrompt(d: CommentaryRequest) {
 }
 
 export async function POST(req: NextRequest) {
+  const { principal, response } = await requirePermission("engine.read");
+  if (!principal) return response;
+
   const apiKey = process.env.OPENAI_API_KEY;
   if (!apiKey) {
     return json({ error: "Missing OPENAI_API_KEY" }, { status: 500 });
@@ -301,38 +278,29 @@ export async function POST(req: NextRequest) {
     }
 
     // Rate limit
+    const store = getSharedStore();
     const ip = getClientIp(req);
-    const rate = getRateMap();
-    const now = Date.now();
-    const entry = rate.get(ip);
-
-    if (!entry || now - entry.windowStart >= rlWindowMs) {
-      rate.set(ip, { count: 1, windowStart: now });
-    } else {
-      entry.count += 1;
-      if (entry.count > rlLimit) {
-        const resetMs = entry.windowStart + rlWindowMs - now;
-        return json(
-          { error: "Rate limit exceeded", resetMs },
-          { status: 429, headers: { "retry-after": String(Math.ceil(resetMs / 1000)) } }
-        );
-      }
-      rate.set(ip, entry);
+    const rl = await store.hit(`commentary:rl:${ip}`, rlLimit, rlWindowMs);
+
+    if (!rl.allowed) {
+      return json(
+        { error: "Rate limit exceeded", resetMs: rl.retryAfterMs },
+        { status: 429, headers: { "retry-after": String(Math.ceil(rl.retryAfterMs / 1000)) } }
+      );
     }
 
     // Cache
-    const cache = getCache();
-    const cacheKey = stableKeyFromPayload(payload);
+    const cacheKey = `commentary:${stableKeyFromPayload(payload)}`;
     const t = Date.now();
 
-    const hit = cache.get(cacheKey);
-    if (hit && hit.expiresAt > t) {
+    const hit = await store.get<CacheEntry>(cacheKey);
+    if (hit) {
       return json(
-        { text: hit.text, model: hit.model, cached: true },
+        { text: hit.value.text, model: hit.value.model, cached: true },
         {
           headers: {
             "x-cache": "HIT",
-            "x-cache-ttl-s": String(Math.floor((hit.expiresAt - t) / 1000)),
+            "x-cache-ttl-s": String(Math.floor(hit.ttlMs / 1000)),
           },
         }
       );
@@ -347,12 +315,7 @@ export async function POST(req: NextRequest) {
 
     const text = String((r as any)?.output_text ?? "").trim();
 
-    cache.set(cacheKey, {
-      text,
-      model,
-      createdAt: t,
-      expiresAt: t + ttlSeconds * 1000,
-    });
+    await store.set<CacheEntry>(cacheKey, { text, model, createdAt: t }, ttlSeconds * 1000);
 
     return json(
       { text, model, cached: false },
@@ -1,6 +1,9 @@
 // app/api/admin/engine-history-v2/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
 import { supabaseServer } from "@/lib/supabase/server";
+import { fetchLegSeries } from "@/lib/fx/crossRates";
+import { PREMIUM_DEFINITION, premiumSeries } from "@/lib/fx/segments";
 
 type WindowKey = "15d" | "30d" | "90d" | "365d" | "all";
 
@@ -65,6 +68,9 @@ async function fetchAllPaged<T>(
 }
 
 export async function GET(req: NextRequest) {
+  const { principal, response } = await requirePermission("engine.read");
+  if (!principal) return response;
+
   try {
     const url = new URL(req.url);
 
@@ -130,12 +136,14 @@ export async function GET(req: NextRequest) {
       .filter((r) => r.rate_mid !== null && Number.isFinite(Number(r.rate_mid)))
       .map((r) => ({ date: r.as_of_date, mid: Number(r.rate_mid) }));
 
-    // 2) Manual fixings for same window
+    // 2) Manual fixings for same window — approved only; drafts never reach the chart
     const { data: manualRows, error: manualErr } = await supabase
       .from("manual_fixings")
       .select("id, as_of_date, rate_mid, is_official, is_manual_override, notes, created_at, created_email")
       .eq("base_currency", base)
       .eq("quote_currency", quote)
+      .eq("status", "approved")
+      .eq("segment", "official")
       .gte("as_of_date", minDate)
       .lte("as_of_date", maxDate)
       .order("as_of_date", { ascending: true });
@@ -168,6 +176,28 @@ export async function GET(req: NextRequest) {
       return p;
     });
 
+    // 4) Parallel market quotes for the window and their premium over the
+    // official fixing (full official history, so early points can still lag).
+    const { data: parallelSeries, error: parallelErr } = await fetchLegSeries(
+      quote,
+      minDate,
+      maxDate,
+      null,
+      "default",
+      "parallel"
+    );
+
+    if (parallelErr) {
+      console.error("engine-history-v2 parallel fetch error:", parallelErr);
+      return NextResponse.json({ error: "Failed to fetch parallel market rates" }, { status: 500 });
+    }
+
+    const officialAll: Point[] = rows
+      .filter((r) => r.rate_mid !== null && Number.isFinite(Number(r.rate_mid)))
+      .map((r) => ({ date: r.as_of_date, mid: Number(r.rate_mid) }));
+    const parallel: Point[] = parallelSeries ?? [];
+    const premium = premiumSeries(quote, officialAll, parallel);
+
     return NextResponse.json({
       source: "fx_daily_rates_default",
       window,
@@ -178,6 +208,9 @@ export async function GET(req: NextRequest) {
       official,
       effective,
       manualFixings,
+      parallel,
+      premium,
+      premiumDefinition: PREMIUM_DEFINITION,
     });
   } catch (e) {
     console.error("engine-history-v2 crashed:", e);
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
 import { createClient } from "@supabase/supabase-js";
 
 /**
@@ -114,6 +115,9 @@ function canonicalizeToQuoteOverSSP(rawPair: string) {
  * - pair: canonical XXXSSP preferred (e.g., USDSSP), but SSPUSD also accepted
  */
 export async function GET(req: NextRequest) {
+  const { principal, response } = await requirePermission("engine.read");
+  if (!principal) return response;
+
   try {
     const url = new URL(req.url);
 
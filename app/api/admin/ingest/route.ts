@@ -0,0 +1,80 @@
+// app/api/admin/ingest/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
+import { changeContextFor, parseReason, recordAdminAction } from "@/lib/admin/audit";
+import { ingestFromSource } from "@/lib/fx/ingestion";
+import { getSourceAdapter, listSourceAdapters } from "@/lib/fx/sources/registry";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/ingest
+// Lists the registered source adapters (fx_sources codes).
+export async function GET() {
+  const { principal, response } = await requirePermission("sources.manage");
+  if (!principal) return response;
+
+  return NextResponse.json({ data: listSourceAdapters() }, { status: 200 });
+}
+
+// POST /api/admin/ingest?source=CODE[&dry_run=1][&reason=...]
+// Body: raw file contents (text/csv or application/json), parsed by the
+// source's adapter and upserted exactly like the daily cron.
+export async function POST(req: NextRequest) {
+  const { principal, response } = await requirePermission("sources.manage");
+  if (!principal) return response;
+
+  const url = new URL(req.url);
+  const code = url.searchParams.get("source");
+  const adapter = getSourceAdapter(code);
+
+  if (!adapter) {
+    return NextResponse.json(
+      { error: `No source adapter registered for '${code}'` },
+      { status: 400 }
+    );
+  }
+
+  const dryRun = ["1", "true"].includes(url.searchParams.get("dry_run") ?? "");
+
+  try {
+    const text = await req.text();
+    if (!text.trim()) {
+      return NextResponse.json({ error: "Empty upload body" }, { status: 400 });
+    }
+
+    const report = await ingestFromSource({
+      adapter,
+      payload: {
+        text,
+        contentType: req.headers.get("content-type"),
+        origin: "admin-upload",
+        mode: "UPLOAD",
+      },
+      dryRun,
+      changeContext: await changeContextFor(
+        principal,
+        parseReason(url.searchParams.get("reason")) ?? `Admin ingest (${adapter.code})`
+      ),
+    });
+
+    if (!report.dryRun && report.status === "ok") {
+      await recordAdminAction(principal, {
+        action: "rate.ingest",
+        targetTable: "fx_daily_rates",
+        details: { source: adapter.code, counts: report.counts },
+      });
+    }
+
+    return NextResponse.json(report, { status: report.status === "ok" ? 200 : 500 });
+  } catch (err: unknown) {
+    console.error("Unexpected error in admin ingest:", err);
+    return NextResponse.json(
+      {
+        error: "Unexpected error while ingesting upload",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
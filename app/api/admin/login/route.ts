@@ -1,50 +1,111 @@
 // app/api/admin/login/route.ts
 import { NextResponse } from "next/server";
-import { ADMIN_COOKIE_NAME } from "@/lib/admin/auth";
+import { supabaseServer } from "@/lib/supabase/server";
+import {
+  ADMIN_COOKIE_NAME,
+  adminSessionTtlSeconds,
+  createAdminSession,
+  getRequestMeta,
+} from "@/lib/admin/auth";
+import { hashAdminPassword, verifyAdminPassword } from "@/lib/admin/password";
+import { checkLoginThrottle, recordLoginAttempt } from "@/lib/admin/loginThrottle";
+import { recordAdminAction } from "@/lib/admin/audit";
+import { isRole } from "@/lib/admin/permissions";
 
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Compared against when the email is unknown so both paths cost one scrypt.
+let dummyHash: Promise<string> | null = null;
+
+// POST /api/admin/login
+// Body: { email: string, password: string }
 export async function POST(request: Request) {
   try {
     const body = await request.json().catch(() => null);
+    const email = (body?.email as string | undefined)?.trim().toLowerCase();
     const password = body?.password as string | undefined;
 
-    const secret = process.env.FX_ADMIN_SECRET;
-    if (!secret) {
+    if (!email || !password) {
       return NextResponse.json(
-        { error: "FX_ADMIN_SECRET is not configured on the server" },
-        { status: 500 }
+        { error: "Email and password are required" },
+        { status: 400 }
       );
     }
 
-    if (!password) {
+    const meta = await getRequestMeta();
+
+    const throttle = await checkLoginThrottle(meta.ip, email);
+    if (!throttle.allowed) {
       return NextResponse.json(
-        { error: "Password is required" },
-        { status: 400 }
+        { error: "Too many failed login attempts. Try again later." },
+        {
+          status: 429,
+          headers: { "Retry-After": String(throttle.retryAfterSeconds) },
+        }
       );
     }
 
-    if (password !== secret) {
+    const { data: user, error: userError } = await supabaseServer
+      .from("admin_users")
+      .select("id, email, password_hash, disabled_at, role")
+      .eq("email", email)
+      .maybeSingle();
+
+    if (userError) {
       return NextResponse.json(
-        { error: "Invalid admin password" },
+        { error: "Failed to look up admin user", details: userError.message },
+        { status: 500 }
+      );
+    }
+
+    dummyHash ??= hashAdminPassword("not-a-real-password");
+    const valid = await verifyAdminPassword(
+      password,
+      user?.password_hash ?? (await dummyHash)
+    );
+
+    if (!user || !valid || user.disabled_at || !isRole(user.role)) {
+      await recordLoginAttempt(meta.ip, email, false);
+      return NextResponse.json(
+        { error: "Invalid email or password" },
         { status: 401 }
       );
     }
 
-    const res = NextResponse.json({ ok: true });
+    await recordLoginAttempt(meta.ip, email, true);
+
+    const actor = { id: String(user.id), email: String(user.email), role: user.role };
+    const { token, session } = await createAdminSession(actor, meta);
+
+    await recordAdminAction(actor, {
+      action: "admin.login",
+      targetTable: "admin_sessions",
+      targetKey: session.sessionId,
+      details: { userAgent: meta.userAgent },
+    });
+
+    const res = NextResponse.json({
+      ok: true,
+      email: session.email,
+      role: session.role,
+      expiresAt: session.expiresAt,
+    });
 
-    res.cookies.set(ADMIN_COOKIE_NAME, "ok", {
+    res.cookies.set(ADMIN_COOKIE_NAME, token, {
       httpOnly: true,
       secure: true,
       sameSite: "strict",
       path: "/", // needed so APIs also see it
-      maxAge: 60 * 60 * 8, // 8 hours
+      maxAge: adminSessionTtlSeconds(),
     });
 
     return res;
-  } catch (err: any) {
+  } catch (err: unknown) {
     return NextResponse.json(
       {
         error: "Unexpected error during admin login",
-        details: err?.message ?? String(err),
+        details: err instanceof Error ? err.message : String(err),
       },
       { status: 500 }
     );
@@ -0,0 +1,41 @@
+// app/api/admin/logout/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ADMIN_COOKIE_NAME, getAdminSession, revokeAdminSessions } from "@/lib/admin/auth";
+import { recordAdminAction } from "@/lib/admin/audit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/admin/logout[?all=1]
+// Revokes the current session (or every session of this admin with all=1)
+// and clears the cookie. Always succeeds for the client.
+export async function POST(req: NextRequest) {
+  const session = await getAdminSession();
+  const all = ["1", "true"].includes(new URL(req.url).searchParams.get("all") ?? "");
+
+  if (session) {
+    const { error } = await revokeAdminSessions(session, { all });
+    if (error) {
+      return NextResponse.json(
+        { error: "Failed to revoke admin session", details: error },
+        { status: 500 }
+      );
+    }
+
+    await recordAdminAction(session, {
+      action: all ? "admin.logout_all" : "admin.logout",
+      targetTable: "admin_sessions",
+      targetKey: session.sessionId,
+    });
+  }
+
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(ADMIN_COOKIE_NAME, "", {
+    httpOnly: true,
+    secure: true,
+    sameSite: "strict",
+    path: "/",
+    maxAge: 0,
+  });
+  return res;
+}
@@ -1,238 +1,112 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabaseServer } from "@/lib/supabase/server";
-
-type ManualFixingPayload = {
-  id?: string;
-  as_of_date: string;
-  base_currency: string;
-  quote_currency: string;
-  rate_mid: number;
-  is_official: boolean;
-  is_manual_override: boolean;
-  notes?: string | null;
-};
-
-const SELECT_COLUMNS = `
-  id,
-  as_of_date,
-  base_currency,
-  quote_currency,
-  rate_mid,
-  is_official,
-  is_manual_override,
-  notes,
-  created_email,
-  created_at
-`;
+import { requirePermission } from "@/lib/admin/guard";
+import { parseReason } from "@/lib/admin/audit";
+import {
+  createManualFixing,
+  deleteManualFixing,
+  listManualFixings,
+  parseComment,
+  parseManualFixingPayload,
+  updateManualFixing,
+} from "@/lib/centralBank/manualFixings";
 
 // GET /api/admin/manual-fixings
 // Optional query params:
 //   limit=50 (default)
 //   base=SSP
 //   quote=USD
+//   status=draft|pending_approval|approved|rejected
 export async function GET(req: NextRequest) {
-  const supabase = supabaseServer;
-  const url = new URL(req.url);
-  const search = url.searchParams;
-
-  const limit = Number(search.get("limit") ?? "50") || 50;
-  const base = search.get("base");
-  const quote = search.get("quote");
-
-  let query = supabase
-    .from("manual_fixings")
-    .select(SELECT_COLUMNS)
-    .order("as_of_date", { ascending: false });
-
-  if (base) query = query.eq("base_currency", base);
-  if (quote) query = query.eq("quote_currency", quote);
-
-  const { data, error } = await query.limit(limit);
-
-  if (error) {
-    console.error("GET manual_fixings error:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch manual fixings." },
-      { status: 500 },
-    );
+  const { principal, response } = await requirePermission("fixings.read");
+  if (!principal) return response;
+
+  const search = new URL(req.url).searchParams;
+
+  const result = await listManualFixings({
+    limit: Number(search.get("limit") ?? "50") || 50,
+    base: search.get("base"),
+    quote: search.get("quote"),
+    status: search.get("status"),
+  });
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
   }
 
-  return NextResponse.json({ data });
+  return NextResponse.json({ data: result.data });
 }
 
 // POST /api/admin/manual-fixings
-// Body: ManualFixingPayload (without id)
+// Body: ManualFixingInput (without id), optional comment. Creates a draft.
 export async function POST(req: NextRequest) {
-  const supabase = supabaseServer;
+  const { principal, response } = await requirePermission("fixings.draft");
+  if (!principal) return response;
 
-  let body: ManualFixingPayload;
-  try {
-    body = await req.json();
-  } catch {
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
     return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
   }
 
-  if (
-    !body.as_of_date ||
-    !body.base_currency ||
-    !body.quote_currency ||
-    !Number.isFinite(body.rate_mid)
-  ) {
-    return NextResponse.json(
-      { error: "Missing or invalid required fields." },
-      { status: 400 },
-    );
+  const parsed = parseManualFixingPayload(body);
+  if (!parsed.value) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
   }
 
-  const insertPayload = {
-    as_of_date: body.as_of_date,
-    base_currency: body.base_currency,
-    quote_currency: body.quote_currency,
-    rate_mid: body.rate_mid,
-    is_official: body.is_official ?? true,
-    is_manual_override: body.is_manual_override ?? false,
-    notes: body.notes ?? null,
-  };
-
-  const { data, error } = await supabase
-    .from("manual_fixings")
-    .insert([insertPayload])
-    .select(SELECT_COLUMNS)
-    .single();
-
-  if (error) {
-    console.error("POST manual_fixings error:", error);
-    return NextResponse.json(
-      { error: "Failed to create manual fixing." },
-      { status: 500 },
-    );
+  const result = await createManualFixing(parsed.value, principal, parseComment(body));
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
   }
 
-  return NextResponse.json({ data }, { status: 201 });
+  return NextResponse.json({ data: result.data }, { status: 201 });
 }
 
 // PUT /api/admin/manual-fixings
-// Body: ManualFixingPayload including id
+// Body: ManualFixingInput including id, optional comment. Draft/rejected rows only.
 export async function PUT(req: NextRequest) {
-  const supabase = supabaseServer;
+  const { principal, response } = await requirePermission("fixings.draft");
+  if (!principal) return response;
 
-  let body: ManualFixingPayload;
-  try {
-    body = await req.json();
-  } catch {
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
     return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
   }
 
-  if (!body.id) {
-    return NextResponse.json(
-      { error: "Missing id for update." },
-      { status: 400 },
-    );
-  }
-
-  if (
-    !body.as_of_date ||
-    !body.base_currency ||
-    !body.quote_currency ||
-    !Number.isFinite(body.rate_mid)
-  ) {
-    return NextResponse.json(
-      { error: "Missing or invalid required fields." },
-      { status: 400 },
-    );
+  if (!body?.id) {
+    return NextResponse.json({ error: "Missing id for update." }, { status: 400 });
   }
 
-  const updatePayload = {
-    as_of_date: body.as_of_date,
-    base_currency: body.base_currency,
-    quote_currency: body.quote_currency,
-    rate_mid: body.rate_mid,
-    is_official: body.is_official,
-    is_manual_override: body.is_manual_override,
-    notes: body.notes ?? null,
-  };
-
-  // Use maybeSingle() so we return a clean 404 when 0 rows are updated
-  // (common with RLS blocks or incorrect id), instead of the PostgREST
-  // "cannot coerce the result to a single JSON object" error.
-  const { data, error } = await supabase
-    .from("manual_fixings")
-    .update(updatePayload)
-    .eq("id", body.id)
-    .select(SELECT_COLUMNS)
-    .maybeSingle();
-
-  if (error) {
-    console.error("PUT manual_fixings error:", error);
-    return NextResponse.json(
-      { error: "Failed to update manual fixing." },
-      { status: 500 },
-    );
+  const parsed = parseManualFixingPayload(body);
+  if (!parsed.value) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
   }
 
-  if (!data) {
-    return NextResponse.json(
-      {
-        error:
-          "No manual fixing updated. (Either the id does not exist, or your RLS policies prevent updating this row.)",
-      },
-      { status: 404 },
-    );
+  const result = await updateManualFixing(String(body.id), parsed.value, principal, parseComment(body));
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
   }
 
-  return NextResponse.json({ data });
+  return NextResponse.json({ data: result.data });
 }
 
-// DELETE /api/admin/manual-fixings?id=...  OR  body: { id: "..." }
+// DELETE /api/admin/manual-fixings?id=...[&comment=...]  OR  body: { id: "...", comment?: "..." }
 export async function DELETE(req: NextRequest) {
-  const supabase = supabaseServer;
+  const { principal, response } = await requirePermission("fixings.draft");
+  if (!principal) return response;
 
-  // 1) Try query param first
-  const url = new URL(req.url);
-  let id = url.searchParams.get("id");
+  // 1) Try query param first, 2) fall back to JSON body { id: "..." }
+  const search = new URL(req.url).searchParams;
+  const body = await req.json().catch(() => null);
+  let id = search.get("id");
+  if (!id && body?.id) id = String(body.id);
+  const comment = parseReason(search.get("comment")) ?? parseComment(body);
 
-  // 2) Fallback: try JSON body { id: "..." }
   if (!id) {
-    try {
-      const body = (await req.json()) as Partial<ManualFixingPayload>;
-      if (body.id) id = body.id;
-    } catch {
-      // ignore JSON parse error – we'll handle missing id below
-    }
-  }
-
-  if (!id) {
-    return NextResponse.json(
-      { error: "Missing id for delete." },
-      { status: 400 },
-    );
-  }
-
-  // IMPORTANT: your typings don't support select(columns, { count }),
-  // so we request count via delete({ count }) and keep select() 1-arg.
-  const { data, error, count } = await supabase
-    .from("manual_fixings")
-    .delete({ count: "exact" })
-    .eq("id", id)
-    .select("id")
-    .maybeSingle();
-
-  if (error) {
-    console.error("DELETE manual_fixings error:", error);
-    return NextResponse.json(
-      { error: "Failed to delete manual fixing." },
-      { status: 500 },
-    );
+    return NextResponse.json({ error: "Missing id for delete." }, { status: 400 });
   }
 
-  if (!count || count < 1 || !data) {
-    return NextResponse.json(
-      {
-        error:
-          "No manual fixing deleted. (Either the id does not exist, or your RLS policies prevent deleting this row.)",
-      },
-      { status: 404 },
-    );
+  const result = await deleteManualFixing(id, principal, comment);
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
   }
 
   return NextResponse.json({ success: true });
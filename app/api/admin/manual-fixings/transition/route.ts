@@ -0,0 +1,49 @@
+// app/api/admin/manual-fixings/transition/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
+import {
+  TRANSITIONS,
+  isTransitionAction,
+  parseComment,
+  transitionManualFixing,
+} from "@/lib/centralBank/manualFixings";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/admin/manual-fixings/transition
+// Body: { id, action: "submit" | "approve" | "reject", comment? }
+// submit needs fixings.draft; approve/reject need fixings.approve and a
+// different user from whoever created, edited or submitted the fixing.
+// reject requires a comment.
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body?.id) {
+    return NextResponse.json({ error: "Missing id." }, { status: 400 });
+  }
+  const action: unknown = body.action;
+  if (!isTransitionAction(action)) {
+    return NextResponse.json(
+      { error: "action must be one of submit, approve, reject." },
+      { status: 400 }
+    );
+  }
+
+  const { principal, response } = await requirePermission(TRANSITIONS[action].permission);
+  if (!principal) return response;
+
+  const result = await transitionManualFixing(
+    String(body.id),
+    action,
+    principal,
+    parseComment(body)
+  );
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ data: result.data });
+}
@@ -1,13 +1,17 @@
 // app/api/admin/manual-rate/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
-import { isAdminAuthenticated } from "@/lib/admin/auth";
+import { requirePermission } from "@/lib/admin/guard";
+import { auditedClient, parseReason, recordAdminAction } from "@/lib/admin/audit";
+import { DEFAULT_SOURCE_CODE } from "@/lib/fx/sources/registry";
+import { gateKey, quarantineRates, screenRates } from "@/lib/fx/validationGate";
+import { RESTORED } from "@/lib/fx/trash";
+import { parseBidAsk } from "@/lib/fx/spread";
+import { MARKET_SEGMENTS, normaliseSegment } from "@/lib/fx/segments";
 
 export async function POST(req: NextRequest) {
-  const ok = await isAdminAuthenticated();
-  if (!ok) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const { principal, response } = await requirePermission("rates.publish");
+  if (!principal) return response;
 
   try {
     const body = await req.json();
@@ -16,6 +20,7 @@ export async function POST(req: NextRequest) {
     const quoteCurrency = (body.quoteCurrency as string | undefined)?.toUpperCase();
     const rateMid = Number(body.rateMid);
     const isOfficial = Boolean(body.isOfficial ?? true);
+    const reason = parseReason(body.reason);
 
     if (!asOfDate || !quoteCurrency || !rateMid || Number.isNaN(rateMid)) {
       return NextResponse.json(
@@ -27,18 +32,36 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Optional buy / sell quotes; when given they must bracket the mid.
+    const quotes = parseBidAsk(rateMid, body.rateBid, body.rateAsk);
+    if (quotes.error !== null) {
+      return NextResponse.json(
+        { error: "Invalid bid / ask", details: quotes.error },
+        { status: 400 }
+      );
+    }
+    const { rate_bid: rateBid, rate_ask: rateAsk } = quotes.value;
+
+    const segment = normaliseSegment(body.segment);
+    if (!segment) {
+      return NextResponse.json(
+        { error: "Invalid segment", details: `segment must be one of: ${MARKET_SEGMENTS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
     const baseCurrency = "SSP";
 
     const { data: sourceData, error: sourceError } = await supabaseServer
       .from("fx_sources")
       .select("id")
-      .eq("code", "SAVVY_FEED")
+      .eq("code", DEFAULT_SOURCE_CODE)
       .single();
 
     if (sourceError || !sourceData) {
       return NextResponse.json(
         {
-          error: "Could not find FX source 'SAVVY_FEED'. Ensure it exists in fx_sources.",
+          error: `Could not find FX source '${DEFAULT_SOURCE_CODE}'. Ensure it exists in fx_sources.`,
           details: sourceError?.message,
         },
         { status: 500 }
@@ -47,7 +70,68 @@ export async function POST(req: NextRequest) {
 
     const sourceId = sourceData.id;
 
-    const { error: upsertError } = await supabaseServer
+    // Validation gate: suspicious values are held for review, not published.
+    const candidate = {
+      as_of_date: asOfDate,
+      base: baseCurrency,
+      quote: quoteCurrency,
+      rate_mid: rateMid,
+      rate_bid: rateBid,
+      rate_ask: rateAsk,
+      segment,
+    };
+    const verdicts = await screenRates([candidate]);
+    const verdict = verdicts.get(gateKey(candidate));
+
+    if (verdict?.flagged) {
+      const { error: quarantineError } = await quarantineRates(
+        [
+          {
+            row: candidate,
+            verdict,
+            sourceId: Number(sourceId),
+            isOfficial,
+            isManualOverride: true,
+          },
+        ],
+        "admin-manual"
+      );
+
+      if (quarantineError) {
+        return NextResponse.json(
+          { error: "Failed to quarantine FX rate", details: quarantineError },
+          { status: 500 }
+        );
+      }
+
+      await recordAdminAction(principal, {
+        action: "rate.quarantine",
+        targetTable: "fx_rate_quarantine",
+        targetKey: gateKey(candidate),
+        details: { rateMid, rateBid, rateAsk, segment, isOfficial, reasons: verdict.reasons, origin: "admin-manual" },
+      });
+
+      return NextResponse.json(
+        {
+          status: "quarantined",
+          message: "FX rate held for review: " + verdict.reasons.join(" "),
+          reasons: verdict.reasons,
+          record: {
+            asOfDate,
+            baseCurrency,
+            quoteCurrency,
+            rateMid,
+            rateBid,
+            rateAsk,
+            segment,
+          },
+        },
+        { status: 202 }
+      );
+    }
+
+    const writer = await auditedClient(principal, reason);
+    const { error: upsertError } = await writer
       .from("fx_daily_rates")
       .upsert(
         [
@@ -56,14 +140,19 @@ export async function POST(req: NextRequest) {
             base_currency: baseCurrency,
             quote_currency: quoteCurrency,
             rate_mid: rateMid,
+            rate_bid: rateBid,
+            rate_ask: rateAsk,
+            segment,
             source_id: sourceId,
             is_official: isOfficial,
             is_manual_override: true,
+            // Saving over a soft-deleted row brings it back with the new value.
+            ...RESTORED,
           },
         ],
         {
           onConflict:
-            "as_of_date,base_currency,quote_currency,source_id,is_manual_override",
+            "as_of_date,base_currency,quote_currency,source_id,is_manual_override,segment",
         }
       );
 
@@ -74,6 +163,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    await recordAdminAction(principal, {
+      action: "rate.upsert",
+      targetTable: "fx_daily_rates",
+      targetKey: gateKey(candidate),
+      details: { rateMid, rateBid, rateAsk, segment, isOfficial, isManualOverride: true, reason },
+    });
+
     return NextResponse.json(
       {
         status: "ok",
@@ -83,6 +179,9 @@ export async function POST(req: NextRequest) {
           baseCurrency,
           quoteCurrency,
           rateMid,
+          rateBid,
+          rateAsk,
+          segment,
         },
       },
       { status: 200 }
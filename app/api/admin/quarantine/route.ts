@@ -0,0 +1,241 @@
+// app/api/admin/quarantine/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requirePermission } from "@/lib/admin/guard";
+import { auditedClient, recordAdminAction } from "@/lib/admin/audit";
+import { deletedRateOnKey } from "@/lib/fx/trash";
+import { normaliseSegment } from "@/lib/fx/segments";
+import { gateKey } from "@/lib/fx/validationGate";
+
+export const dynamic = "force-dynamic";
+
+const SELECT_COLUMNS = `
+  id,
+  as_of_date,
+  base_currency,
+  quote_currency,
+  rate_mid,
+  rate_bid,
+  rate_ask,
+  segment,
+  source_id,
+  is_official,
+  is_manual_override,
+  origin,
+  reasons,
+  prev_mid,
+  pct_delta,
+  vol_pct,
+  vol_bucket,
+  status,
+  reviewed_by,
+  reviewed_at,
+  review_note,
+  created_at
+`;
+
+// Same composite key the manual-rate upsert relies on.
+const UPSERT_CONFLICT =
+  "as_of_date,base_currency,quote_currency,source_id,is_manual_override,segment";
+
+// GET /api/admin/quarantine
+// Optional query params:
+//   status=pending (default) | approved | rejected | all
+//   limit=50 (default, max 200)
+export async function GET(req: NextRequest) {
+  const { principal, response } = await requirePermission("rates.read");
+  if (!principal) return response;
+
+  const url = new URL(req.url);
+  const status = url.searchParams.get("status") ?? "pending";
+  const limit = Math.min(Math.max(Number(url.searchParams.get("limit") ?? "50") || 50, 1), 200);
+
+  let query = supabaseServer
+    .from("fx_rate_quarantine")
+    .select(SELECT_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (status !== "all") query = query.eq("status", status);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("GET fx_rate_quarantine error:", error);
+    return NextResponse.json(
+      { error: "Failed to load quarantined rates", details: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ data: data ?? [] }, { status: 200 });
+}
+
+// POST /api/admin/quarantine
+// Body: { id: number, action: "approve" | "reject", note?: string }
+// Approving publishes the held value into fx_daily_rates; it is refused (422)
+// while the row it would replace is in the trash.
+export async function POST(req: NextRequest) {
+  const { principal, response } = await requirePermission("rates.publish");
+  if (!principal) return response;
+
+  try {
+    const body = await req.json().catch(() => null);
+    const id = body?.id;
+    const action = body?.action;
+    const note = typeof body?.note === "string" && body.note.trim() ? body.note.trim() : null;
+
+    if (!id || typeof id !== "number" || (action !== "approve" && action !== "reject")) {
+      return NextResponse.json(
+        {
+          error: "Missing or invalid fields",
+          details: "numeric id and action (approve | reject) are required",
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: row, error: loadError } = await supabaseServer
+      .from("fx_rate_quarantine")
+      .select(SELECT_COLUMNS)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (loadError) {
+      return NextResponse.json(
+        { error: "Failed to load quarantined rate", details: loadError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!row) {
+      return NextResponse.json({ error: "Quarantined rate not found" }, { status: 404 });
+    }
+
+    if (row.status !== "pending") {
+      return NextResponse.json(
+        { error: `Quarantined rate was already ${row.status}` },
+        { status: 409 }
+      );
+    }
+
+    if (action === "approve") {
+      const trashed = await deletedRateOnKey({
+        as_of_date: row.as_of_date,
+        base_currency: row.base_currency,
+        quote_currency: row.quote_currency,
+        source_id: row.source_id,
+        is_manual_override: row.is_manual_override,
+        segment: row.segment,
+      });
+      if (trashed.error) {
+        return NextResponse.json(
+          { error: "Failed to check for a deleted rate", details: trashed.error.message },
+          { status: 500 }
+        );
+      }
+      if (trashed.data) {
+        return NextResponse.json(
+          {
+            error: "The rate this would publish over is in the trash",
+            details: `Restore fx_daily_rates #${trashed.data.id} from the trash first, or reject this row.`,
+          },
+          { status: 422 }
+        );
+      }
+    }
+
+    // Claim the row first: the status guard means only one reviewer's
+    // decision sticks, and nothing is published for a lost race.
+    const { data: updated, error: updateError } = await supabaseServer
+      .from("fx_rate_quarantine")
+      .update({
+        status: action === "approve" ? "approved" : "rejected",
+        reviewed_by: principal.email,
+        reviewed_at: new Date().toISOString(),
+        review_note: note,
+      })
+      .eq("id", id)
+      .eq("status", "pending")
+      .select(SELECT_COLUMNS)
+      .maybeSingle();
+
+    if (updateError) {
+      return NextResponse.json(
+        { error: "Failed to update quarantined rate", details: updateError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Quarantined rate was already reviewed by someone else" },
+        { status: 409 }
+      );
+    }
+
+    if (action === "approve") {
+      const writer = await auditedClient(
+        principal,
+        note ?? `Approved quarantined rate #${id}`
+      );
+      const { error: publishError } = await writer.from("fx_daily_rates").upsert(
+        [
+          {
+            as_of_date: row.as_of_date,
+            base_currency: row.base_currency,
+            quote_currency: row.quote_currency,
+            rate_mid: row.rate_mid,
+            rate_bid: row.rate_bid,
+            rate_ask: row.rate_ask,
+            segment: row.segment,
+            source_id: row.source_id,
+            is_official: row.is_official,
+            is_manual_override: row.is_manual_override,
+          },
+        ],
+        { onConflict: UPSERT_CONFLICT }
+      );
+
+      if (publishError) {
+        // Hand the row back so it can be reviewed again.
+        await supabaseServer
+          .from("fx_rate_quarantine")
+          .update({ status: "pending", reviewed_by: null, reviewed_at: null, review_note: null })
+          .eq("id", id)
+          .eq("status", "approved");
+        return NextResponse.json(
+          { error: "Failed to publish FX rate", details: publishError.message },
+          { status: 500 }
+        );
+      }
+    }
+
+    await recordAdminAction(principal, {
+      action: action === "approve" ? "quarantine.approve" : "quarantine.reject",
+      targetTable: "fx_rate_quarantine",
+      targetKey: id,
+      details: {
+        key: gateKey({
+          as_of_date: row.as_of_date,
+          base: row.base_currency,
+          quote: row.quote_currency,
+          segment: normaliseSegment(row.segment),
+        }),
+        rateMid: row.rate_mid,
+        note,
+      },
+    });
+
+    return NextResponse.json({ data: updated }, { status: 200 });
+  } catch (err: unknown) {
+    console.error("Unexpected error in quarantine review:", err);
+    return NextResponse.json(
+      {
+        error: "Unexpected error while reviewing quarantined rate",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
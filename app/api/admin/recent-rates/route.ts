@@ -1,15 +1,13 @@
 // app/api/admin/recent-rates/route.ts
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
-import { isAdminAuthenticated } from "@/lib/admin/auth";
+import { requirePermission } from "@/lib/admin/guard";
 
 export const dynamic = "force-dynamic";
 
 export async function GET() {
-  const ok = await isAdminAuthenticated();
-  if (!ok) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const { principal, response } = await requirePermission("rates.read");
+  if (!principal) return response;
 
   try {
     const supabase = supabaseServer;
@@ -17,8 +15,9 @@ export async function GET() {
     const { data, error } = await supabase
       .from("fx_daily_rates")
       .select(
-        "id, as_of_date, base_currency, quote_currency, rate_mid, is_official, is_manual_override, created_at"
+        "id, as_of_date, base_currency, quote_currency, rate_mid, rate_bid, rate_ask, segment, is_official, is_manual_override, created_at"
       )
+      .is("deleted_at", null)
       .order("as_of_date", { ascending: false })
       .order("created_at", { ascending: false })
       .limit(20);
@@ -40,6 +39,9 @@ export async function GET() {
       baseCurrency: row.base_currency,
       quoteCurrency: row.quote_currency,
       rateMid: row.rate_mid,
+      rateBid: row.rate_bid,
+      rateAsk: row.rate_ask,
+      segment: row.segment,
       isOfficial: row.is_official,
       isManualOverride: row.is_manual_override,
       created_at: row.created_at,
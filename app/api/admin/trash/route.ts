@@ -0,0 +1,160 @@
+// app/api/admin/trash/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requirePermission } from "@/lib/admin/guard";
+import { auditedClient, parseReason, recordAdminAction } from "@/lib/admin/audit";
+import { TRASH_COLUMNS, restorableUntil, trashCutoff, trashRetentionDays } from "@/lib/fx/trash";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/admin/trash
+// Soft-deleted fx_daily_rates rows, most recently deleted first.
+export async function GET() {
+  const { principal, response } = await requirePermission("rates.read");
+  if (!principal) return response;
+
+  const { data, error } = await supabaseServer
+    .from("fx_daily_rates")
+    .select(TRASH_COLUMNS)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error("Error loading trash:", error);
+    return NextResponse.json(
+      { error: "Failed to load deleted rates", details: error.message },
+      { status: 500 }
+    );
+  }
+
+  const cutoff = trashCutoff().getTime();
+  const rows = (data ?? []).map((row) => ({
+    ...row,
+    restorable_until: restorableUntil(row.deleted_at),
+    restorable: new Date(row.deleted_at).getTime() >= cutoff,
+  }));
+
+  return NextResponse.json({ data: rows, retentionDays: trashRetentionDays() }, { status: 200 });
+}
+
+// POST /api/admin/trash
+// Body: { action: "restore", id: number, reason?: string }
+//    or { action: "purge" }   permanently removes rows past the retention window
+export async function POST(req: NextRequest) {
+  const { principal, response } = await requirePermission("rates.publish");
+  if (!principal) return response;
+
+  try {
+    const body = await req.json().catch(() => null);
+    const action = body?.action;
+    const cutoff = trashCutoff().toISOString();
+
+    if (action === "purge") {
+      const supabase = await auditedClient(
+        principal,
+        `Purged rates deleted more than ${trashRetentionDays()} days ago`
+      );
+      const { data: purged, error } = await supabase
+        .from("fx_daily_rates")
+        .delete()
+        .not("deleted_at", "is", null)
+        .lt("deleted_at", cutoff)
+        .select("id");
+
+      if (error) {
+        console.error("Error purging trash:", error);
+        return NextResponse.json(
+          { error: "Failed to purge deleted rates", details: error.message },
+          { status: 500 }
+        );
+      }
+
+      await recordAdminAction(principal, {
+        action: "rate.purge",
+        targetTable: "fx_daily_rates",
+        details: { count: purged?.length ?? 0, cutoff },
+      });
+
+      return NextResponse.json({ purged: purged?.length ?? 0 }, { status: 200 });
+    }
+
+    const id = body?.id;
+    if (action !== "restore" || !id || typeof id !== "number") {
+      return NextResponse.json(
+        {
+          error: "Missing or invalid fields",
+          details: "action must be restore (with a numeric id) or purge",
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: row, error: loadError } = await supabaseServer
+      .from("fx_daily_rates")
+      .select(TRASH_COLUMNS)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (loadError) {
+      return NextResponse.json(
+        { error: "Failed to load FX rate", details: loadError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!row || !row.deleted_at) {
+      return NextResponse.json({ error: "No deleted FX rate with this id" }, { status: 404 });
+    }
+
+    if (new Date(row.deleted_at).getTime() < new Date(cutoff).getTime()) {
+      return NextResponse.json(
+        {
+          error: "Retention window has passed",
+          details: `Deleted rates can be restored for ${trashRetentionDays()} days`,
+        },
+        { status: 410 }
+      );
+    }
+
+    const reason = parseReason(body?.reason) ?? "Restored from trash";
+    const supabase = await auditedClient(principal, reason);
+    const { data: restored, error } = await supabase
+      .from("fx_daily_rates")
+      .update({ deleted_at: null, deleted_by: null, deleted_by_email: null, delete_reason: null })
+      .eq("id", id)
+      .not("deleted_at", "is", null)
+      .select("id, as_of_date, base_currency, quote_currency, rate_mid")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error restoring FX rate:", error);
+      return NextResponse.json(
+        { error: "Failed to restore FX rate", details: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (!restored) {
+      return NextResponse.json({ error: "FX rate was already restored" }, { status: 409 });
+    }
+
+    await recordAdminAction(principal, {
+      action: "rate.restore",
+      targetTable: "fx_daily_rates",
+      targetKey: id,
+      details: { restored, reason, deletedAt: row.deleted_at, deleteReason: row.delete_reason },
+    });
+
+    return NextResponse.json({ data: restored }, { status: 200 });
+  } catch (err: unknown) {
+    console.error("Unexpected error in trash:", err);
+    return NextResponse.json(
+      {
+        error: "Unexpected error while updating trash",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
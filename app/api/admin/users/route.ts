@@ -0,0 +1,152 @@
+// app/api/admin/users/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { isAllowlistedEmail, requirePermission } from "@/lib/admin/guard";
+import { recordAdminAction } from "@/lib/admin/audit";
+import { isRole, ROLES } from "@/lib/admin/permissions";
+
+export const dynamic = "force-dynamic";
+
+const PER_PAGE = 200;
+const MAX_PAGES = 10;
+
+// GET /api/admin/users
+// Supabase Auth users with their profiles.role. Requires users.manage.
+export async function GET() {
+  const { principal, response } = await requirePermission("users.manage");
+  if (!principal) return response;
+
+  try {
+    const users: { id: string; email: string | null; created_at: string; last_sign_in_at: string | null }[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const { data, error } = await supabaseServer.auth.admin.listUsers({ page, perPage: PER_PAGE });
+      if (error) {
+        return NextResponse.json(
+          { error: "Failed to list users", details: error.message },
+          { status: 500 }
+        );
+      }
+
+      for (const u of data.users) {
+        users.push({
+          id: u.id,
+          email: u.email ?? null,
+          created_at: u.created_at,
+          last_sign_in_at: u.last_sign_in_at ?? null,
+        });
+      }
+
+      if (data.users.length < PER_PAGE) break;
+    }
+
+    const { data: profiles, error: profilesError } = await supabaseServer
+      .from("profiles")
+      .select("id, role")
+      .in(
+        "id",
+        users.map((u) => u.id)
+      );
+
+    if (profilesError) {
+      return NextResponse.json(
+        { error: "Failed to load profiles", details: profilesError.message },
+        { status: 500 }
+      );
+    }
+
+    const roleById = new Map((profiles ?? []).map((p) => [String(p.id), p.role as string | null]));
+
+    const data = users
+      .map((u) => ({
+        ...u,
+        role: roleById.get(u.id) ?? null,
+        allowlisted: isAllowlistedEmail(u.email),
+      }))
+      .sort((a, b) => (a.email ?? "").localeCompare(b.email ?? ""));
+
+    return NextResponse.json({ data, roles: ROLES }, { status: 200 });
+  } catch (err: unknown) {
+    console.error("Unexpected error listing users:", err);
+    return NextResponse.json(
+      {
+        error: "Unexpected error while listing users",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/users
+// Body: { userId: string, role: "viewer" | "analyst" | "fixer" | "approver" | "admin" | null }
+// Sets profiles.role; null removes the role.
+export async function PUT(req: NextRequest) {
+  const { principal, response } = await requirePermission("users.manage");
+  if (!principal) return response;
+
+  try {
+    const body = await req.json().catch(() => null);
+    const userId = typeof body?.userId === "string" ? body.userId : null;
+    const role = body?.role ?? null;
+
+    if (!userId || (role !== null && !isRole(role))) {
+      return NextResponse.json(
+        {
+          error: "Missing or invalid fields",
+          details: `userId and role (${ROLES.join(" | ")} | null) are required`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (principal.kind === "supabase_user" && principal.id === userId && role !== "admin") {
+      return NextResponse.json(
+        { error: "You cannot remove your own admin role" },
+        { status: 409 }
+      );
+    }
+
+    const { data: existing, error: loadError } = await supabaseServer
+      .from("profiles")
+      .select("id, role")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (loadError) {
+      return NextResponse.json(
+        { error: "Failed to load profile", details: loadError.message },
+        { status: 500 }
+      );
+    }
+
+    const { error: saveError } = existing
+      ? await supabaseServer.from("profiles").update({ role }).eq("id", userId)
+      : await supabaseServer.from("profiles").insert({ id: userId, role });
+
+    if (saveError) {
+      return NextResponse.json(
+        { error: "Failed to save role", details: saveError.message },
+        { status: 500 }
+      );
+    }
+
+    await recordAdminAction(principal, {
+      action: "user.role_change",
+      targetTable: "profiles",
+      targetKey: userId,
+      details: { before: existing?.role ?? null, after: role },
+    });
+
+    return NextResponse.json({ data: { id: userId, role } }, { status: 200 });
+  } catch (err: unknown) {
+    console.error("Unexpected error updating role:", err);
+    return NextResponse.json(
+      {
+        error: "Unexpected error while updating role",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
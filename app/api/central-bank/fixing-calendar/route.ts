@@ -0,0 +1,99 @@
+// app/api/central-bank/fixing-calendar/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
+import { addDaysYmd } from "@/lib/fx/crossRates";
+import { calendarToday, fixingCalendar } from "@/lib/fx/calendar";
+import {
+  CALENDAR_ENTRY_KINDS,
+  deleteCalendarEntry,
+  isCalendarEntryKind,
+  listCalendarEntries,
+  parseCalendarEntry,
+  saveCalendarEntry,
+} from "@/lib/centralBank/fixingCalendar";
+
+export const dynamic = "force-dynamic";
+
+// Reads need fixings.read, edits schedule.write.
+
+// GET /api/central-bank/fixing-calendar?from=YYYY-MM-DD&to=YYYY-MM-DD
+// Expanded calendar (default: today + 30 days) with the window and holiday rows.
+export async function GET(req: NextRequest) {
+  const { principal, response } = await requirePermission("fixings.read");
+  if (!principal) return response;
+
+  const search = new URL(req.url).searchParams;
+  const from = search.get("from") ?? calendarToday();
+  const to = search.get("to") ?? addDaysYmd(from, 30);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to) || from > to) {
+    return NextResponse.json({ error: "from/to must be YYYY-MM-DD with from ≤ to." }, { status: 400 });
+  }
+
+  const [cal, entries] = await Promise.all([fixingCalendar(from, to), listCalendarEntries(from, to)]);
+  if (!cal.data) {
+    console.error("GET fixing calendar error:", cal.error);
+    return NextResponse.json({ error: "Failed to build fixing calendar." }, { status: 500 });
+  }
+  if (entries.error) {
+    return NextResponse.json({ error: entries.error }, { status: entries.status });
+  }
+
+  return NextResponse.json({ data: { days: cal.data, ...entries.data } });
+}
+
+// POST /api/central-bank/fixing-calendar
+// Body: { kind: "window", label, planned_time: "HH:MM", weekdays?: [1..5], is_active? }
+//    |  { kind: "holiday", date, name, closed? }            closed=false cancels a rule holiday
+//    |  { kind: "session", date, window_label, planned_time?, actual_at?, is_extra?, cancelled?, notes? }
+// Creates or replaces the entry.
+export async function POST(req: NextRequest) {
+  const { principal, response } = await requirePermission("schedule.write");
+  if (!principal) return response;
+
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+  if (!isCalendarEntryKind(body?.kind)) {
+    return NextResponse.json(
+      { error: `kind must be one of: ${CALENDAR_ENTRY_KINDS.join(", ")}.` },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseCalendarEntry(body.kind, body);
+  if (!parsed.value) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const result = await saveCalendarEntry(body.kind, parsed.value, principal);
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ data: result.data });
+}
+
+// DELETE /api/central-bank/fixing-calendar?kind=window&label=...
+//        /api/central-bank/fixing-calendar?kind=holiday&date=...
+//        /api/central-bank/fixing-calendar?kind=session&date=...&label=...
+export async function DELETE(req: NextRequest) {
+  const { principal, response } = await requirePermission("schedule.write");
+  if (!principal) return response;
+
+  const search = new URL(req.url).searchParams;
+  const kind = search.get("kind");
+  if (!isCalendarEntryKind(kind)) {
+    return NextResponse.json(
+      { error: `kind must be one of: ${CALENDAR_ENTRY_KINDS.join(", ")}.` },
+      { status: 400 }
+    );
+  }
+
+  const result = await deleteCalendarEntry(kind, { label: search.get("label"), date: search.get("date") }, principal);
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ success: true });
+}
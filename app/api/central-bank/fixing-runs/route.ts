@@ -0,0 +1,65 @@
+// app/api/central-bank/fixing-runs/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
+import { parseReason } from "@/lib/admin/audit";
+import { listFixingRuns, parseFixingRunPayload, runFixing } from "@/lib/centralBank/fixingEngine";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/central-bank/fixing-runs
+// Recorded engine runs with their per-bank trimming decisions.
+// Optional query params: limit=20 (default), base=SSP, quote=USD, date=2026-10-19
+export async function GET(req: NextRequest) {
+  const { principal, response } = await requirePermission("fixings.read");
+  if (!principal) return response;
+
+  const search = new URL(req.url).searchParams;
+
+  const result = await listFixingRuns({
+    limit: Number(search.get("limit") ?? "20") || 20,
+    base: search.get("base"),
+    quote: search.get("quote"),
+    date: search.get("date"),
+  });
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ data: result.data });
+}
+
+// POST /api/central-bank/fixing-runs
+// Body: { as_of_date, quote_currency, window_label?, base_currency?,
+//         method?: "trimmed_mean" | "mad", weighting?: "volume" | "equal",
+//         trim_pct?: 0.2, mad_threshold?: 3, min_submissions?: 3,
+//         publish?: boolean, overwrite?: boolean, reason?: string }
+// Without publish the fixing is only previewed (fixings.read). publish=true
+// needs rates.publish: the result is written to fx_daily_rates (201) or held
+// in quarantine by the validation gate (202), and the run is recorded.
+// Publishing is refused (403) if the caller entered any submission the fixing
+// uses, (409) if an official override is already published for the date
+// unless overwrite=true, and (422) while that override is in the trash.
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => undefined);
+  const publish = body?.publish === true;
+
+  const { principal, response } = await requirePermission(publish ? "rates.publish" : "fixings.read");
+  if (!principal) return response;
+
+  if (body === undefined) {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = parseFixingRunPayload(body);
+  if (!parsed.value) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const result = await runFixing(parsed.value, publish, principal, parseReason(body?.reason));
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ data: result.data }, { status: result.status });
+}
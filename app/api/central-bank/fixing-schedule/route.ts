@@ -0,0 +1,51 @@
+// app/api/central-bank/fixing-schedule/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
+import { parseReason } from "@/lib/admin/audit";
+import {
+  getNextFixing,
+  parseFixingSchedulePayload,
+  saveFixingSchedule,
+} from "@/lib/centralBank/fixingSchedule";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/central-bank/fixing-schedule
+// Returns the next scheduled fixing (or data: null).
+export async function GET() {
+  const { principal, response } = await requirePermission("fixings.read");
+  if (!principal) return response;
+
+  const result = await getNextFixing();
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ data: result.data });
+}
+
+// PUT /api/central-bank/fixing-schedule
+// Body: { id?: string, next_fixing_date: "YYYY-MM-DD", window_label?: string, notes?: string, reason?: string }
+// Updates the row with id, or creates the schedule row when id is omitted.
+export async function PUT(req: NextRequest) {
+  const { principal, response } = await requirePermission("schedule.write");
+  if (!principal) return response;
+
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = parseFixingSchedulePayload(body);
+  if (!parsed.value) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const id = body?.id ? String(body.id) : null;
+  const result = await saveFixingSchedule(id, parsed.value, principal, parseReason(body?.reason));
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ data: result.data }, { status: result.status });
+}
@@ -0,0 +1,91 @@
+// app/api/central-bank/fixing-submissions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
+import {
+  deleteFixingSubmission,
+  listFixingSubmissions,
+  parseFixingSubmissionPayload,
+  saveFixingSubmission,
+} from "@/lib/centralBank/fixingSubmissions";
+
+export const dynamic = "force-dynamic";
+
+// Commercial bank submissions feeding the fixing engine
+// (lib/centralBank/fixingEngine.ts). Reads need fixings.read, writes fixings.draft.
+
+// GET /api/central-bank/fixing-submissions
+// Optional query params:
+//   date=2026-10-19
+//   base=SSP
+//   quote=USD
+//   window=Normal fixing window
+//   limit=100 (default)
+export async function GET(req: NextRequest) {
+  const { principal, response } = await requirePermission("fixings.read");
+  if (!principal) return response;
+
+  const search = new URL(req.url).searchParams;
+
+  const result = await listFixingSubmissions({
+    date: search.get("date"),
+    base: search.get("base"),
+    quote: search.get("quote"),
+    window: search.get("window"),
+    limit: Number(search.get("limit") ?? "100") || 100,
+  });
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ data: result.data });
+}
+
+// POST /api/central-bank/fixing-submissions
+// Body: { as_of_date, quote_currency, bank_code, rate_mid, volume?, bank_name?,
+//         window_label?, base_currency?, notes? }
+// window_label defaults to the scheduled window for that date. Replaces the
+// bank's earlier submission for the same window.
+export async function POST(req: NextRequest) {
+  const { principal, response } = await requirePermission("fixings.draft");
+  if (!principal) return response;
+
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = parseFixingSubmissionPayload(body);
+  if (!parsed.value) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const result = await saveFixingSubmission(parsed.value, principal);
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ data: result.data }, { status: result.status });
+}
+
+// DELETE /api/central-bank/fixing-submissions?id=...  OR  body: { id: "..." }
+export async function DELETE(req: NextRequest) {
+  const { principal, response } = await requirePermission("fixings.draft");
+  if (!principal) return response;
+
+  const search = new URL(req.url).searchParams;
+  const body = await req.json().catch(() => null);
+  let id = search.get("id");
+  if (!id && body?.id) id = String(body.id);
+
+  if (!id) {
+    return NextResponse.json({ error: "Missing id for delete." }, { status: 400 });
+  }
+
+  const result = await deleteFixingSubmission(id, principal);
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,119 @@
+// app/api/central-bank/manual-fixings/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
+import { parseReason } from "@/lib/admin/audit";
+import {
+  createManualFixing,
+  deleteManualFixing,
+  listManualFixings,
+  parseComment,
+  parseManualFixingPayload,
+  updateManualFixing,
+} from "@/lib/centralBank/manualFixings";
+
+export const dynamic = "force-dynamic";
+
+// Central Bank mode reads and writes manual_fixings only through this route.
+// Reads need fixings.read, writes fixings.draft (see lib/admin/permissions.ts).
+
+// GET /api/central-bank/manual-fixings
+// Optional query params:
+//   limit=50 (default)
+//   base=SSP
+//   quote=USD
+//   status=draft|pending_approval|approved|rejected
+export async function GET(req: NextRequest) {
+  const { principal, response } = await requirePermission("fixings.read");
+  if (!principal) return response;
+
+  const search = new URL(req.url).searchParams;
+
+  const result = await listManualFixings({
+    limit: Number(search.get("limit") ?? "50") || 50,
+    base: search.get("base"),
+    quote: search.get("quote"),
+    status: search.get("status"),
+  });
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ data: result.data });
+}
+
+// POST /api/central-bank/manual-fixings
+// Body: ManualFixingInput (without id), optional comment. Creates a draft.
+export async function POST(req: NextRequest) {
+  const { principal, response } = await requirePermission("fixings.draft");
+  if (!principal) return response;
+
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = parseManualFixingPayload(body);
+  if (!parsed.value) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const result = await createManualFixing(parsed.value, principal, parseComment(body));
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ data: result.data }, { status: 201 });
+}
+
+// PUT /api/central-bank/manual-fixings
+// Body: ManualFixingInput including id, optional comment. Draft/rejected rows only.
+export async function PUT(req: NextRequest) {
+  const { principal, response } = await requirePermission("fixings.draft");
+  if (!principal) return response;
+
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!body?.id) {
+    return NextResponse.json({ error: "Missing id for update." }, { status: 400 });
+  }
+
+  const parsed = parseManualFixingPayload(body);
+  if (!parsed.value) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const result = await updateManualFixing(String(body.id), parsed.value, principal, parseComment(body));
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ data: result.data });
+}
+
+// DELETE /api/central-bank/manual-fixings?id=...[&comment=...]  OR  body: { id: "...", comment?: "..." }
+export async function DELETE(req: NextRequest) {
+  const { principal, response } = await requirePermission("fixings.draft");
+  if (!principal) return response;
+
+  // 1) Try query param first, 2) fall back to JSON body { id: "..." }
+  const search = new URL(req.url).searchParams;
+  const body = await req.json().catch(() => null);
+  let id = search.get("id");
+  if (!id && body?.id) id = String(body.id);
+  const comment = parseReason(search.get("comment")) ?? parseComment(body);
+
+  if (!id) {
+    return NextResponse.json({ error: "Missing id for delete." }, { status: 400 });
+  }
+
+  const result = await deleteManualFixing(id, principal, comment);
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({ success: true });
+}
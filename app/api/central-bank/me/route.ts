@@ -0,0 +1,27 @@
+// app/api/central-bank/me/route.ts
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/admin/guard";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/central-bank/me
+// Header: Authorization: Bearer <supabase access token>
+// 200 with the resolved identity and permissions, 401 (no/invalid token) or
+// 403 (no role that may open the dashboard).
+export async function GET() {
+  const { principal, response } = await requirePermission("fixings.read");
+  if (!principal) return response;
+
+  return NextResponse.json(
+    {
+      data: {
+        id: principal.id,
+        email: principal.email,
+        role: principal.role,
+        access: principal.access,
+        permissions: principal.permissions,
+      },
+    },
+    { status: 200 }
+  );
+}
@@ -0,0 +1,56 @@
+// app/api/charts/history/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { internalApiHeaders } from "@/lib/api/access";
+import { GET as v1History } from "@/app/api/v1/rates/history/route";
+
+export const dynamic = "force-dynamic";
+
+// Same for every visitor and not metered, so shared caches may keep it.
+const CHART_CACHE_CONTROL = "public, max-age=60, s-maxage=300, stale-while-revalidate=600";
+
+const WINDOWS = ["90d", "365d", "all"];
+
+const WINDOW_DAYS: Record<string, number> = { "90d": 90, "365d": 365 };
+
+const CURRENCY = /^[A-Z]{3}$/;
+
+// GET /api/charts/history?base=SSP&quote=USD&window=90d|365d|all
+// The site's own history chart (components/fx-history-chart.tsx). Serves the
+// /api/v1/rates/history response for the official series as an internal
+// call, so page views do not use up the anonymous v1 quota or per-IP limit.
+// Only the chart's parameters are accepted; anything else goes through v1.
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const base = (params.get("base") ?? "SSP").toUpperCase();
+  const quote = (params.get("quote") ?? "").toUpperCase();
+  const window = params.get("window") ?? "90d";
+
+  if (!CURRENCY.test(base) || !CURRENCY.test(quote) || !WINDOWS.includes(window)) {
+    return NextResponse.json(
+      {
+        error: "Invalid parameters",
+        details: "base and quote (ISO codes) and window (90d | 365d | all) are required",
+      },
+      { status: 400 }
+    );
+  }
+
+  const range =
+    window === "all"
+      ? `from=1900-01-01&to=${new Date().toISOString().slice(0, 10)}`
+      : `days=${WINDOW_DAYS[window]}`;
+  const url = new URL(`/api/v1/rates/history?base=${base}&quote=${quote}&${range}`, req.nextUrl.origin);
+
+  const headers = new Headers(internalApiHeaders());
+  for (const name of ["if-none-match", "if-modified-since"]) {
+    const value = req.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  const res = await v1History(new NextRequest(url, { headers }));
+  if (res.status === 200 || res.status === 304) {
+    res.headers.set("Cache-Control", CHART_CACHE_CONTROL);
+    res.headers.delete("Vary");
+  }
+  return res;
+}
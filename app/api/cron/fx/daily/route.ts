@@ -1,19 +1,209 @@
+import { createHash, timingSafeEqual } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
+import { ingestFromSource, type IngestionReport } from "@/lib/fx/ingestion";
+import {
+  calendarToday,
+  fixingCalendar,
+  isFixingDay,
+  missingFixingDates,
+  nextFixing,
+  recordActualFixing,
+} from "@/lib/fx/calendar";
+import { addDaysYmd } from "@/lib/fx/crossRates";
+import { getSourceAdapter } from "@/lib/fx/sources/registry";
+import type { IngestMode } from "@/lib/fx/sources/types";
 
-export async function GET(req: NextRequest) {
-  const authHeader = req.headers.get("authorization");
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Null when the caller presented CRON_SECRET. Without a configured secret the
+// route refuses every call rather than accepting "Bearer undefined". Digests
+// are compared so the check takes the same time whatever was sent.
+function rejectUnauthorized(req: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("CRON_SECRET is not set; refusing cron call.");
+    return NextResponse.json({ error: "Cron is not configured" }, { status: 500 });
+  }
 
-  if (!authHeader || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+  const digest = (v: string) => createHash("sha256").update(v).digest();
+  const presented = req.headers.get("authorization") ?? "";
+  if (!timingSafeEqual(digest(presented), digest(`Bearer ${secret}`))) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+  return null;
+}
+
+// Expected fixings this far back are checked for a published rate after each run.
+const MISSING_LOOKBACK_DAYS = 14;
 
-  // TODO: ingest from your private SSP source (UPLOAD or URL mode)
+function isFlagSet(url: URL, name: string) {
+  const v = url.searchParams.get(name);
+  return v === "1" || v === "true";
+}
+
+function isDryRun(url: URL) {
+  return isFlagSet(url, "dry_run");
+}
 
+// Scheduled pulls follow the fixing calendar (lib/fx/calendar.ts): on days
+// without a fixing session the run is skipped. A calendar read failure is
+// logged and never blocks ingestion.
+async function skipIfNoFixing(url: URL, now: Date) {
+  if (isFlagSet(url, "force")) return null;
+
+  const today = calendarToday(now);
+  const cal = await fixingCalendar(today, today, now);
+  if (!cal.data) {
+    console.error("FX daily cron: fixing calendar unavailable, running anyway:", cal.error);
+    return null;
+  }
+
+  const [day] = cal.data;
+  if (isFixingDay(day)) return null;
+
+  const next = await nextFixing(now);
   return NextResponse.json(
     {
-      status: "ok",
-      message: "FX daily cron stub reached. Ingestion logic not yet implemented.",
+      status: "skipped",
+      as_of_date: today,
+      reason: day.holiday
+        ? `Holiday: ${day.holiday}.`
+        : day.business_day
+          ? "No fixing session scheduled."
+          : `${day.weekday} is not a business day.`,
+      next_fixing: next.data,
     },
     { status: 200 }
   );
 }
+
+// Stamps today's actual fixing time once official rows for today are written,
+// and reports recent expected fixings that still have no published rate.
+async function withCalendar(report: IngestionReport, now: Date) {
+  const today = calendarToday(now);
+
+  const publishedToday =
+    report.status === "ok" &&
+    !report.dryRun &&
+    report.diff.some(
+      (d) => d.as_of_date === today && d.segment === "official" && d.status !== "unchanged" && !d.flags.length
+    );
+  if (publishedToday) {
+    const stamped = await recordActualFixing(today, null, now);
+    if (stamped.error) console.error("FX daily cron: failed to record fixing time:", stamped.error);
+  }
+
+  const missing = await missingFixingDates(addDaysYmd(today, -MISSING_LOOKBACK_DAYS), today, now);
+  if (missing.error) console.error("FX daily cron: missing-fixing check failed:", missing.error);
+
+  return { ...report, missing_fixings: missing.data };
+}
+
+function resolveAdapter(url: URL) {
+  const code = url.searchParams.get("source") ?? process.env.FX_INGEST_SOURCE_CODE;
+  const adapter = getSourceAdapter(code);
+  if (!adapter) {
+    return {
+      adapter: null,
+      response: NextResponse.json(
+        { error: `No source adapter registered for '${code}'` },
+        { status: 400 }
+      ),
+    };
+  }
+  return { adapter, response: null };
+}
+
+// GET /api/cron/fx/daily
+// Pulls the source's configured payload (UPLOAD file or URL) and upserts it.
+// Optional query params:
+//   source=CODE      fx_sources.code / adapter key (default SAVVY_FEED)
+//   mode=UPLOAD|URL  override the adapter's configured mode
+//   dry_run=1        parse + diff only, no writes
+//   force=1          run even when the fixing calendar has no session today
+// Responds { status: "skipped", reason, next_fixing } on non-fixing days.
+// Reports include missing_fixings: expected fixing dates in the last 14 days
+// with no published rate.
+export async function GET(req: NextRequest) {
+  const unauthorized = rejectUnauthorized(req);
+  if (unauthorized) return unauthorized;
+
+  const url = new URL(req.url);
+  const { adapter, response } = resolveAdapter(url);
+  if (!adapter) return response;
+
+  const rawMode = url.searchParams.get("mode")?.toUpperCase();
+  if (rawMode && rawMode !== "UPLOAD" && rawMode !== "URL") {
+    return NextResponse.json(
+      { error: "Invalid ingestion mode", details: "mode must be UPLOAD or URL" },
+      { status: 400 }
+    );
+  }
+
+  const now = new Date();
+  const skipped = await skipIfNoFixing(url, now);
+  if (skipped) return skipped;
+
+  try {
+    const payload = await adapter.fetch(rawMode as IngestMode | undefined);
+    const report = await ingestFromSource({ adapter, payload, dryRun: isDryRun(url) });
+
+    return NextResponse.json(await withCalendar(report, now), {
+      status: report.status === "ok" ? 200 : 500,
+    });
+  } catch (err: unknown) {
+    console.error("FX daily cron ingestion failed:", err);
+    return NextResponse.json(
+      {
+        error: "FX daily ingestion failed",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/cron/fx/daily
+// UPLOAD mode with the file in the request body (text/csv or application/json).
+// Same query params as GET (except mode). Explicit uploads are not skipped on
+// non-fixing days.
+export async function POST(req: NextRequest) {
+  const unauthorized = rejectUnauthorized(req);
+  if (unauthorized) return unauthorized;
+
+  const url = new URL(req.url);
+  const { adapter, response } = resolveAdapter(url);
+  if (!adapter) return response;
+
+  try {
+    const text = await req.text();
+    if (!text.trim()) {
+      return NextResponse.json({ error: "Empty upload body" }, { status: 400 });
+    }
+
+    const report = await ingestFromSource({
+      adapter,
+      payload: {
+        text,
+        contentType: req.headers.get("content-type"),
+        origin: "request-body",
+        mode: "UPLOAD",
+      },
+      dryRun: isDryRun(url),
+    });
+
+    return NextResponse.json(await withCalendar(report, new Date()), {
+      status: report.status === "ok" ? 200 : 500,
+    });
+  } catch (err: unknown) {
+    console.error("FX daily upload ingestion failed:", err);
+    return NextResponse.json(
+      {
+        error: "FX daily ingestion failed",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+// app/api/v1/calendar/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { conditionalBodyResponse } from "@/lib/api/httpCache";
+import { addDaysYmd } from "@/lib/fx/crossRates";
+import {
+  CALENDAR_TIMEZONE,
+  WEEKDAY_NAMES,
+  WEEKEND_DAYS,
+  calendarToday,
+  fixingCalendar,
+  nextFixing,
+} from "@/lib/fx/calendar";
+
+const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
+
+const DEFAULT_SPAN_DAYS = 30;
+const MAX_SPAN_DAYS = 366;
+
+function isYmd(s: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s) && !Number.isNaN(new Date(`${s}T00:00:00Z`).getTime());
+}
+
+function daysBetween(from: string, to: string) {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+}
+
+// GET /api/v1/calendar
+// GET /api/v1/calendar?from=2026-12-01&to=2026-12-31
+// Fixing calendar (lib/fx/calendar.ts): business days, holidays and fixing
+// sessions with planned vs actual times, plus the next fixing due.
+// from defaults to today (Juba), to to from + 30 days; at most 366 days.
+async function calendar(req: NextRequest) {
+  const url = new URL(req.url);
+  const now = new Date();
+
+  const from = url.searchParams.get("from") ?? calendarToday(now);
+  const to = url.searchParams.get("to") ?? addDaysYmd(from, DEFAULT_SPAN_DAYS);
+
+  if (!isYmd(from) || !isYmd(to)) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: "from/to must be YYYY-MM-DD." } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  if (from > to || daysBetween(from, to) > MAX_SPAN_DAYS) {
+    return NextResponse.json(
+      {
+        error: {
+          code: "INVALID_PARAMETER",
+          message: `from must not be after to, and the range may span at most ${MAX_SPAN_DAYS} days.`,
+        },
+      },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+
+  const [cal, next] = await Promise.all([fixingCalendar(from, to, now), nextFixing(now)]);
+  const error = cal.error ?? next.error;
+  if (error) {
+    return NextResponse.json(
+      { error: { code: "DB_ERROR", message: error.message } },
+      { status: 500, headers: VERSION_HEADERS }
+    );
+  }
+
+  const days = cal.data ?? [];
+
+  return NextResponse.json(
+    {
+      timezone: CALENDAR_TIMEZONE,
+      weekend: WEEKEND_DAYS.map((d) => WEEKDAY_NAMES[d]),
+      from,
+      to,
+      next_fixing: next.data,
+      business_days: days.filter((d) => d.business_day).length,
+      holidays: days.filter((d) => d.holiday).map((d) => ({ date: d.date, name: d.holiday })),
+      days,
+    },
+    { status: 200, headers: VERSION_HEADERS }
+  );
+}
+
+export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "calendar");
+  if (!access) return response;
+
+  return conditionalBodyResponse(req, () => calendar(req));
+}
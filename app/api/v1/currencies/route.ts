@@ -1,10 +1,12 @@
 // app/api/v1/currencies/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { conditionalBodyResponse } from "@/lib/api/httpCache";
 import { supabaseServer } from "@/lib/supabase/server";
 
 const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
 
-export async function GET(req: NextRequest) {
+async function listCurrencies(req: NextRequest) {
   const supabase = supabaseServer;
   const url = new URL(req.url);
 
@@ -46,3 +48,10 @@ export async function GET(req: NextRequest) {
     { status: 200, headers: VERSION_HEADERS }
   );
 }
+
+export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "currencies");
+  if (!access) return response;
+
+  return conditionalBodyResponse(req, () => listCurrencies(req));
+}
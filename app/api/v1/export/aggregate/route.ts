@@ -0,0 +1,159 @@
+// app/api/v1/export/aggregate/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { parseAsKnownAt } from "@/lib/fx/asKnownAt";
+import {
+  aggregateRangeError,
+  fetchAggregates,
+  parseAggregateParams,
+  pickStat,
+  STAT_FIELDS,
+} from "@/lib/fx/aggregate";
+import { conventionMeta, parseRateConvention, rateUnit } from "@/lib/fx/quoteConvention";
+import { parseSegmentParam } from "@/lib/fx/segments";
+
+const VERSION = "v1";
+
+// One export can cover a handful of currencies (e.g. a month-end revaluation set).
+const MAX_QUOTES = 20;
+
+function invalid(code: string, message: string, status = 400) {
+  return NextResponse.json(
+    { error: { code, message } },
+    {
+      status,
+      headers: { "X-FX-API-Version": VERSION },
+    }
+  );
+}
+
+// GET /api/v1/export/aggregate?from=YYYY-MM-DD&to=YYYY-MM-DD[&quote=USD,EUR,KES]
+//   [&period=week|month|quarter|year][&stat=avg|close|open|high|low|ohlc]
+//   [&format=csv|json][&as_known_at=ISO timestamp][&segment=official|commercial|parallel]
+//   [&base=SSP][&quote_convention=base_per_quote|quote_per_base][&invert=true]
+// Same buckets as /api/v1/rates/aggregate (lib/fx/aggregate.ts), one row per
+// currency and period.
+export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "export/aggregate");
+  if (!access) return response;
+
+  const url = new URL(req.url);
+
+  const parsedConvention = parseRateConvention(url.searchParams);
+  if (parsedConvention.error !== null) return invalid("INVALID_PARAMETER", parsedConvention.error);
+  const convention = parsedConvention.value;
+  const baseCurrency = convention.base;
+
+  const parsedSegment = parseSegmentParam(url.searchParams);
+  if (parsedSegment.error !== null) return invalid("INVALID_PARAMETER", parsedSegment.error);
+  const segment = parsedSegment.value;
+
+  const parsedAggregate = parseAggregateParams(url.searchParams);
+  if (parsedAggregate.error !== null) return invalid("INVALID_PARAMETER", parsedAggregate.error);
+  const { period, stat } = parsedAggregate.value;
+
+  const asKnownAt = parseAsKnownAt(url.searchParams.get("as_known_at"));
+  if (asKnownAt.error !== null) return invalid("INVALID_PARAMETER", asKnownAt.error);
+  const knownAt = asKnownAt.value;
+
+  const from = url.searchParams.get("from");
+  const to = url.searchParams.get("to");
+  const format = (url.searchParams.get("format") ?? "csv").toLowerCase();
+
+  if (!from || !to) {
+    return invalid("MISSING_PARAMETER", "from and to (YYYY-MM-DD) are required.");
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to) || from > to) {
+    return invalid("INVALID_PARAMETER", "from and to must be YYYY-MM-DD with from <= to.");
+  }
+  const rangeError = aggregateRangeError(from, to, period);
+  if (rangeError) return invalid("INVALID_PARAMETER", rangeError);
+
+  const quotes = [
+    ...new Set(
+      (url.searchParams.get("quote") ?? "USD")
+        .split(",")
+        .map((q) => q.trim().toUpperCase())
+        .filter(Boolean)
+    ),
+  ];
+  if (quotes.length === 0 || quotes.length > MAX_QUOTES) {
+    return invalid("INVALID_PARAMETER", `quote must list 1 to ${MAX_QUOTES} currencies.`);
+  }
+  if (quotes.includes(baseCurrency)) {
+    return invalid("INVALID_PARAMETER", "base and quote must differ.");
+  }
+
+  const results = await Promise.all(
+    quotes.map((q) => fetchAggregates(q, convention, segment, period, from, to, knownAt))
+  );
+  const failed = results.find((r) => r.error || !r.data);
+  if (failed) return invalid("DB_ERROR", failed.error?.message ?? "Aggregation failed.", 500);
+
+  const rows = quotes.flatMap((quote, i) =>
+    (results[i].data ?? []).map((bucket) => ({
+      ...pickStat(bucket, stat),
+      base_currency: baseCurrency,
+      quote_currency: quote,
+      segment,
+      rate_unit: rateUnit(convention, quote),
+    }))
+  );
+
+  if (format === "json") {
+    return NextResponse.json(
+      {
+        data: rows,
+        meta: {
+          base: baseCurrency,
+          quotes,
+          segment,
+          period,
+          stat,
+          from,
+          to,
+          ...(knownAt ? { as_known_at: knownAt } : {}),
+          convention: conventionMeta(convention, quotes.length === 1 ? quotes[0] : undefined),
+        },
+      },
+      {
+        status: 200,
+        headers: { "X-FX-API-Version": VERSION },
+      }
+    );
+  }
+
+  const header = [
+    "period",
+    "start",
+    "end",
+    "base_currency",
+    "quote_currency",
+    "segment",
+    "rate_unit",
+    ...STAT_FIELDS[stat],
+    "count",
+    "first_date",
+    "last_date",
+    "complete",
+  ];
+
+  const csvLines = [
+    header.join(","),
+    ...rows.map((row) =>
+      header
+        .map((column) => (row as Record<string, unknown>)[column])
+        .map((value) => (value === null || value === undefined ? "" : String(value)))
+        .join(",")
+    ),
+  ];
+
+  return new NextResponse(csvLines.join("\n"), {
+    status: 200,
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="fx_${period}_${stat}_${baseCurrency}${segment === "official" ? "" : `_${segment}`}_${from}_to_${to}.csv"`,
+      "X-FX-API-Version": VERSION,
+    },
+  });
+}
@@ -1,14 +1,217 @@
 // app/api/v1/export/rates/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { supabaseServer } from "@/lib/supabase/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { parseAsKnownAt, selectLiveRates } from "@/lib/fx/asKnownAt";
+import { addDaysYmd, CROSS_BASE, fetchLegSeries, legFor } from "@/lib/fx/crossRates";
+import {
+  conventionMeta,
+  convertMid,
+  isRebased,
+  isStorageConvention,
+  parseRateConvention,
+  rateUnit,
+  type RateConvention,
+} from "@/lib/fx/quoteConvention";
+import { parseSegmentParam, type MarketSegment } from "@/lib/fx/segments";
+import {
+  fillDates,
+  fillLoadFrom,
+  fillMeta,
+  fillRangeError,
+  gapFills,
+  parseFillParams,
+  type FillMethod,
+} from "@/lib/fx/gapFill";
 
 const VERSION = "v1";
 
+type ExportRow = {
+  as_of_date: string;
+  base_currency: string;
+  quote_currency: string;
+  rate_mid: number | string | null;
+  rate_bid: number | string | null;
+  rate_ask: number | string | null;
+  segment: string;
+  is_official: boolean | null;
+  is_manual_override: boolean | null;
+  source_id: string | null;
+  filled?: boolean;
+  fill_method?: FillMethod;
+};
+
+// Re-expresses stored rows in convention `c`. Rows whose date has no base leg
+// under the missing-leg rule are dropped and counted (from `from` on; earlier
+// rows are fill seeds). A rebased export also gets a synthetic SSP row for
+// each date the base itself was fixed. Bid / ask are only exported as stored,
+// so converted rows leave them empty.
+async function convertRows(
+  rows: ExportRow[],
+  c: RateConvention,
+  quoteCurrency: string | null,
+  from: string,
+  to: string,
+  knownAt: string | null,
+  segment: MarketSegment
+): Promise<{ data: { rows: ExportRow[]; skipped: number } | null; error: { message: string } | null }> {
+  // Rows are ascending; fill seeds can start before `from`.
+  const start = rows.length && rows[0].as_of_date < from ? rows[0].as_of_date : from;
+  const { data: baseSeries, error } = await fetchLegSeries(
+    c.base,
+    addDaysYmd(start, -c.maxLagDays),
+    to,
+    knownAt,
+    "live",
+    segment
+  );
+  if (error) return { data: null, error };
+
+  const out: ExportRow[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    if (row.quote_currency === c.base) continue;
+    const leg = legFor(c.base, baseSeries, row.as_of_date, c.maxLagDays);
+    if (!leg) {
+      if (row.as_of_date >= from) skipped += 1;
+      continue;
+    }
+    out.push({
+      ...row,
+      base_currency: c.base,
+      rate_mid: convertMid(Number(row.rate_mid), leg.mid, c.convention),
+      rate_bid: null,
+      rate_ask: null,
+    });
+  }
+
+  if (isRebased(c) && (!quoteCurrency || quoteCurrency === CROSS_BASE)) {
+    for (const point of baseSeries ?? []) {
+      if (point.date < start || point.date > to) continue;
+      out.push({
+        as_of_date: point.date,
+        base_currency: c.base,
+        quote_currency: CROSS_BASE,
+        rate_mid: convertMid(1, point.mid, c.convention),
+        rate_bid: null,
+        rate_ask: null,
+        segment,
+        is_official: null,
+        is_manual_override: null,
+        source_id: null,
+      });
+    }
+    out.sort(
+      (a, b) =>
+        a.as_of_date.localeCompare(b.as_of_date) || a.quote_currency.localeCompare(b.quote_currency)
+    );
+  }
+
+  return { data: { rows: out, skipped }, error: null };
+}
+
+// Adds the points `method` fills on `dates`, per quote currency, and drops the
+// seed rows before `from`. A date with several stored rows (one per source)
+// interpolates from its official row when there is one. Filled rows carry no
+// bid / ask, flags or source.
+function fillRows(
+  rows: ExportRow[],
+  from: string,
+  dates: string[],
+  method: FillMethod,
+  segment: MarketSegment
+) {
+  const byQuote = new Map<string, ExportRow[]>();
+  for (const row of rows) {
+    const list = byQuote.get(row.quote_currency) ?? [];
+    list.push(row);
+    byQuote.set(row.quote_currency, list);
+  }
+
+  const out: ExportRow[] = rows.filter((row) => row.as_of_date >= from).map((row) => ({ ...row, filled: false }));
+  byQuote.forEach((quoteRows, quote) => {
+    const perDate = new Map<string, ExportRow>();
+    for (const row of quoteRows) {
+      const seen = perDate.get(row.as_of_date);
+      if (!seen || (!seen.is_official && row.is_official)) perDate.set(row.as_of_date, row);
+    }
+    const points = Array.from(perDate.values())
+      .map((row) => ({ date: row.as_of_date, mid: Number(row.rate_mid) }))
+      .filter((p) => Number.isFinite(p.mid))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    for (const p of gapFills(points, dates, method)) {
+      out.push({
+        as_of_date: p.date,
+        base_currency: quoteRows[0].base_currency,
+        quote_currency: quote,
+        rate_mid: p.mid,
+        rate_bid: null,
+        rate_ask: null,
+        segment,
+        is_official: null,
+        is_manual_override: null,
+        source_id: null,
+        filled: true,
+        fill_method: p.fill_method,
+      });
+    }
+  });
+
+  return out.sort(
+    (a, b) => a.as_of_date.localeCompare(b.as_of_date) || a.quote_currency.localeCompare(b.quote_currency)
+  );
+}
+
+// GET /api/v1/export/rates?from=YYYY-MM-DD&to=YYYY-MM-DD[&base=SSP][&quote=USD]
+//   [&format=csv|json][&as_known_at=ISO timestamp]
+//   [&quote_convention=base_per_quote|quote_per_base][&invert=true][&max_lag_days=3]
+//   [&segment=official|commercial|parallel][&fill=none|previous|linear][&calendar=business|daily]
+// base / quote_convention / invert pick the quoting convention (lib/fx/quoteConvention.ts).
+// segment picks the market segment (lib/fx/segments.ts; default official).
+// fill / calendar add flagged carry-forward or interpolated rows (lib/fx/gapFill.ts).
 export async function GET(req: NextRequest) {
-  const supabase = supabaseServer;
+  const { access, response } = await requireApiAccess(req, "export/rates");
+  if (!access) return response;
+
   const url = new URL(req.url);
 
-  const baseCurrency = url.searchParams.get("base") ?? "SSP";
+  const parsedConvention = parseRateConvention(url.searchParams);
+  if (parsedConvention.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedConvention.error } },
+      {
+        status: 400,
+        headers: { "X-FX-API-Version": VERSION },
+      }
+    );
+  }
+  const convention = parsedConvention.value;
+  const baseCurrency = convention.base;
+
+  const parsedSegment = parseSegmentParam(url.searchParams);
+  if (parsedSegment.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedSegment.error } },
+      {
+        status: 400,
+        headers: { "X-FX-API-Version": VERSION },
+      }
+    );
+  }
+  const segment = parsedSegment.value;
+
+  const parsedFill = parseFillParams(url.searchParams);
+  if (parsedFill.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedFill.error } },
+      {
+        status: 400,
+        headers: { "X-FX-API-Version": VERSION },
+      }
+    );
+  }
+  const fill = parsedFill.value;
+
   const quoteCurrency =
     url.searchParams.get("quote")?.toUpperCase() ?? null;
   const from = url.searchParams.get("from");
@@ -30,13 +233,38 @@ export async function GET(req: NextRequest) {
     );
   }
 
-  let query = supabase
-    .from("fx_daily_rates")
-    .select(
-      "as_of_date, base_currency, quote_currency, rate_mid, is_official, is_manual_override, source_id"
-    )
-    .eq("base_currency", baseCurrency)
-    .gte("as_of_date", from)
+  const asKnownAt = parseAsKnownAt(url.searchParams.get("as_known_at"));
+  if (asKnownAt.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: asKnownAt.error } },
+      {
+        status: 400,
+        headers: { "X-FX-API-Version": VERSION },
+      }
+    );
+  }
+  const knownAt = asKnownAt.value;
+
+  const rangeError = fillRangeError(from, to, fill);
+  if (rangeError) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: rangeError } },
+      {
+        status: 400,
+        headers: { "X-FX-API-Version": VERSION },
+      }
+    );
+  }
+
+  // Filling also loads the rows just before the range to start from.
+  let query = selectLiveRates(
+    "as_of_date, base_currency, quote_currency, rate_mid, rate_bid, rate_ask, segment, is_official, is_manual_override, source_id",
+    knownAt,
+    { base: CROSS_BASE, quote: quoteCurrency }
+  )
+    .eq("base_currency", CROSS_BASE)
+    .eq("segment", segment)
+    .gte("as_of_date", fillLoadFrom(from, fill))
     .lte("as_of_date", to)
     .order("as_of_date", { ascending: true })
     .order("quote_currency", { ascending: true });
@@ -57,9 +285,54 @@ export async function GET(req: NextRequest) {
     );
   }
 
+  let rows: ExportRow[] = data ?? [];
+  let skipped = 0;
+  if (!isStorageConvention(convention)) {
+    const converted = await convertRows(rows, convention, quoteCurrency, from, to, knownAt, segment);
+    if (converted.error || !converted.data) {
+      return NextResponse.json(
+        { error: { code: "DB_ERROR", message: converted.error?.message ?? "Conversion failed." } },
+        {
+          status: 500,
+          headers: { "X-FX-API-Version": VERSION },
+        }
+      );
+    }
+    rows = converted.data.rows;
+    skipped = converted.data.skipped;
+  }
+
+  let filledCount = 0;
+  if (fill.fill !== "none") {
+    const dates = await fillDates(from, to, fill.calendar, knownAt ? new Date(knownAt) : undefined);
+    if (!dates.data) {
+      return NextResponse.json(
+        { error: { code: "DB_ERROR", message: dates.error?.message ?? "Fixing calendar unavailable." } },
+        {
+          status: 500,
+          headers: { "X-FX-API-Version": VERSION },
+        }
+      );
+    }
+    rows = fillRows(rows, from, dates.data, fill.fill, segment);
+    filledCount = rows.filter((row) => row.filled).length;
+  }
+
   if (format === "json") {
     return NextResponse.json(
-      { data: data ?? [], meta: { base: baseCurrency, from, to } },
+      {
+        data: rows,
+        meta: {
+          base: baseCurrency,
+          segment,
+          from,
+          to,
+          ...fillMeta(fill, filledCount),
+          ...(knownAt ? { as_known_at: knownAt } : {}),
+          convention: conventionMeta(convention, quoteCurrency ?? undefined),
+          ...(isRebased(convention) ? { skipped_rows: skipped } : {}),
+        },
+      },
       {
         status: 200,
         headers: { "X-FX-API-Version": VERSION },
@@ -67,7 +340,6 @@ export async function GET(req: NextRequest) {
     );
   }
 
-  const rows = data ?? [];
   const header = [
     "as_of_date",
     "base_currency",
@@ -76,6 +348,12 @@ export async function GET(req: NextRequest) {
     "is_official",
     "is_manual_override",
     "source_id",
+    "rate_unit",
+    "rate_bid",
+    "rate_ask",
+    "segment",
+    "filled",
+    "fill_method",
   ];
 
   const csvLines = [
@@ -89,6 +367,12 @@ export async function GET(req: NextRequest) {
         row.is_official,
         row.is_manual_override,
         row.source_id,
+        rateUnit(convention, row.quote_currency),
+        row.rate_bid,
+        row.rate_ask,
+        row.segment,
+        row.filled ?? false,
+        row.fill_method,
       ]
         .map((value) =>
           value === null || value === undefined ? "" : String(value)
@@ -103,7 +387,7 @@ export async function GET(req: NextRequest) {
     status: 200,
     headers: {
       "Content-Type": "text/csv; charset=utf-8",
-      "Content-Disposition": `attachment; filename="fx_rates_${baseCurrency}_${from}_to_${to}.csv"`,
+      "Content-Disposition": `attachment; filename="fx_rates_${baseCurrency}${segment === "official" ? "" : `_${segment}`}_${from}_to_${to}.csv"`,
       "X-FX-API-Version": VERSION,
     },
   });
@@ -1,28 +1,145 @@
 // app/api/v1/rates/[quote]/latest/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { conditionalRatesResponse } from "@/lib/api/httpCache";
 import { supabaseServer } from "@/lib/supabase/server";
+import { addDaysYmd, MAX_LAG_DAYS_LIMIT } from "@/lib/fx/crossRates";
+import { rateStaleness } from "@/lib/fx/dataQuality";
+import { spreadOf, toBidAsk } from "@/lib/fx/spread";
+import { parseSegmentParam, type MarketSegment } from "@/lib/fx/segments";
+import {
+  conventionMeta,
+  fetchConventionSeries,
+  isRebased,
+  isStorageConvention,
+  latestConventionDate,
+  parseRateConvention,
+  type RateConvention,
+} from "@/lib/fx/quoteConvention";
 
 const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
 
-export async function GET(
+function changePctBetween(latest: number, prev: number | null) {
+  return prev && prev !== 0 ? ((latest - prev) / prev) * 100 : null;
+}
+
+// Inverted or rebased quotes are derived from the legs rather than read as a
+// single stored row, so the row-level flags are replaced by the legs used.
+async function latestConvertedRate(quoteCurrency: string, c: RateConvention, segment: MarketSegment) {
+  const latest = await latestConventionDate(quoteCurrency, c, null, "live", segment);
+  if (latest.error) {
+    return NextResponse.json(
+      { error: { code: "DB_ERROR", message: latest.error.message } },
+      { status: 500, headers: VERSION_HEADERS }
+    );
+  }
+
+  // One lag window back is enough to find the previous fixing.
+  const { data: points, error } = latest.data
+    ? await fetchConventionSeries(
+        quoteCurrency,
+        c,
+        addDaysYmd(latest.data, -MAX_LAG_DAYS_LIMIT),
+        latest.data,
+        null,
+        "live",
+        segment
+      )
+    : { data: [], error: null };
+
+  if (error) {
+    return NextResponse.json(
+      { error: { code: "DB_ERROR", message: error.message } },
+      { status: 500, headers: VERSION_HEADERS }
+    );
+  }
+
+  const current = points && points.length ? points[points.length - 1] : null;
+  if (!current) {
+    return NextResponse.json(
+      {
+        error: {
+          code: "NO_DATA",
+          message: `No ${segment} FX data found for pair ${c.base}/${quoteCurrency}.`,
+        },
+      },
+      { status: 404, headers: VERSION_HEADERS }
+    );
+  }
+  const prev = points && points.length > 1 ? points[points.length - 2] : null;
+
+  return NextResponse.json(
+    {
+      pair: `${c.base}/${quoteCurrency}`,
+      base: c.base,
+      quote: quoteCurrency,
+      segment,
+      as_of_date: current.date,
+      ...(await rateStaleness(current.date)),
+      mid_rate: current.mid,
+      change_pct_vs_previous: changePctBetween(current.mid, prev ? prev.mid : null),
+      legs: isRebased(c) ? [current.quote_leg, current.base_leg] : [current.quote_leg],
+      convention: conventionMeta(c, quoteCurrency),
+    },
+    { status: 200, headers: VERSION_HEADERS }
+  );
+}
+
+// GET /api/v1/rates/USD/latest
+// GET /api/v1/rates/KES/latest?base=USD[&invert=true]
+// GET /api/v1/rates/USD/latest?segment=parallel
+// segment picks the market segment (lib/fx/segments.ts; default official).
+// stale / age_days compare as_of_date with the fixing calendar (lib/fx/dataQuality.ts).
+// base / quote_convention / invert pick the quoting convention (lib/fx/quoteConvention.ts).
+async function latestPairRate(
   req: NextRequest,
   context: { params: Promise<{ quote: string }> }
 ) {
   const supabase = supabaseServer;
   const url = new URL(req.url);
-  const baseCurrency = url.searchParams.get("base") ?? "SSP";
+
+  const parsedConvention = parseRateConvention(url.searchParams);
+  if (parsedConvention.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedConvention.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const convention = parsedConvention.value;
+  const baseCurrency = convention.base;
+
+  const parsedSegment = parseSegmentParam(url.searchParams);
+  if (parsedSegment.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedSegment.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const segment = parsedSegment.value;
 
   // Next 16: params is a Promise
   const { quote } = await context.params;
   const quoteCurrency = quote.toUpperCase();
 
+  if (quoteCurrency === baseCurrency) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: "base and quote must differ." } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  if (!isStorageConvention(convention)) {
+    return latestConvertedRate(quoteCurrency, convention, segment);
+  }
+
   const { data: latestRow, error } = await supabase
     .from("fx_daily_rates")
     .select(
-      "as_of_date, base_currency, quote_currency, rate_mid, is_official, is_manual_override, source_id"
+      "as_of_date, base_currency, quote_currency, rate_mid, rate_bid, rate_ask, is_official, is_manual_override, source_id"
     )
+    .is("deleted_at", null)
     .eq("base_currency", baseCurrency)
     .eq("quote_currency", quoteCurrency)
+    .eq("segment", segment)
     .order("as_of_date", { ascending: false })
     .limit(1)
     .maybeSingle();
@@ -39,7 +156,7 @@ export async function GET(
       {
         error: {
           code: "NO_DATA",
-          message: `No FX data found for pair ${baseCurrency}/${quoteCurrency}.`,
+          message: `No ${segment} FX data found for pair ${baseCurrency}/${quoteCurrency}.`,
         },
       },
       { status: 404, headers: VERSION_HEADERS }
@@ -49,8 +166,10 @@ export async function GET(
   const { data: prevRow } = await supabase
     .from("fx_daily_rates")
     .select("rate_mid, as_of_date")
+    .is("deleted_at", null)
     .eq("base_currency", baseCurrency)
     .eq("quote_currency", quoteCurrency)
+    .eq("segment", segment)
     .lt("as_of_date", latestRow.as_of_date)
     .order("as_of_date", { ascending: false })
     .limit(1)
@@ -59,23 +178,37 @@ export async function GET(
   const latestMid = Number(latestRow.rate_mid);
   const prevMid = prevRow ? Number(prevRow.rate_mid) : null;
 
-  let changePct: number | null = null;
-  if (prevMid && prevMid !== 0) {
-    changePct = ((latestMid - prevMid) / prevMid) * 100;
-  }
+  const changePct = changePctBetween(latestMid, prevMid);
+  const { rate_bid: bid, rate_ask: ask } = toBidAsk(latestRow);
 
   return NextResponse.json(
     {
       pair: `${baseCurrency}/${quoteCurrency}`,
       base: baseCurrency,
       quote: quoteCurrency,
+      segment,
       as_of_date: latestRow.as_of_date,
+      ...(await rateStaleness(String(latestRow.as_of_date))),
       mid_rate: latestMid,
       change_pct_vs_previous: changePct,
+      bid_rate: bid,
+      ask_rate: ask,
+      spread: spreadOf(latestMid, bid, ask),
       is_official: latestRow.is_official,
       is_manual_override: latestRow.is_manual_override,
       source_id: latestRow.source_id,
+      convention: conventionMeta(convention, quoteCurrency),
     },
     { status: 200, headers: VERSION_HEADERS }
   );
 }
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ quote: string }> }
+) {
+  const { access, response } = await requireApiAccess(req, "rates/quote/latest");
+  if (!access) return response;
+
+  return conditionalRatesResponse(req, () => latestPairRate(req, context));
+}
@@ -0,0 +1,119 @@
+// app/api/v1/rates/aggregate/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { conditionalRatesResponse } from "@/lib/api/httpCache";
+import { parseAsKnownAt } from "@/lib/fx/asKnownAt";
+import {
+  aggregateRangeError,
+  DEFAULT_AGGREGATE_PERIODS,
+  fetchAggregates,
+  MAX_AGGREGATE_PERIODS,
+  parseAggregateParams,
+  periodsBack,
+  pickStat,
+} from "@/lib/fx/aggregate";
+import { parseSegmentParam } from "@/lib/fx/segments";
+import { conventionMeta, latestConventionDate, parseRateConvention } from "@/lib/fx/quoteConvention";
+
+const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
+
+function invalid(code: string, message: string, status = 400) {
+  return NextResponse.json({ error: { code, message } }, { status, headers: VERSION_HEADERS });
+}
+
+function isYmd(s: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s);
+}
+
+// GET /api/v1/rates/aggregate?quote=USD&period=month&stat=avg
+// GET /api/v1/rates/aggregate?quote=USD&period=month&stat=close&from=2026-01-01&to=2026-06-30
+// GET /api/v1/rates/aggregate?quote=KES&period=quarter&stat=ohlc&periods=8&base=USD
+// Buckets the published daily series (lib/fx/aggregate.ts). Without from/to,
+// covers the last `periods` periods (default 12) up to the latest fixing.
+// base / quote_convention / invert pick the quoting convention (lib/fx/quoteConvention.ts).
+// segment picks the market segment (lib/fx/segments.ts; default official).
+async function rateAggregates(req: NextRequest) {
+  const url = new URL(req.url);
+
+  const parsedConvention = parseRateConvention(url.searchParams);
+  if (parsedConvention.error !== null) return invalid("INVALID_PARAMETER", parsedConvention.error);
+  const convention = parsedConvention.value;
+
+  const parsedSegment = parseSegmentParam(url.searchParams);
+  if (parsedSegment.error !== null) return invalid("INVALID_PARAMETER", parsedSegment.error);
+  const segment = parsedSegment.value;
+
+  const parsedAggregate = parseAggregateParams(url.searchParams);
+  if (parsedAggregate.error !== null) return invalid("INVALID_PARAMETER", parsedAggregate.error);
+  const { period, stat } = parsedAggregate.value;
+
+  const asKnownAt = parseAsKnownAt(url.searchParams.get("as_known_at"));
+  if (asKnownAt.error !== null) return invalid("INVALID_PARAMETER", asKnownAt.error);
+  const knownAt = asKnownAt.value;
+
+  const quoteCurrency = (url.searchParams.get("quote") ?? "USD").toUpperCase();
+  if (quoteCurrency === convention.base) {
+    return invalid("INVALID_PARAMETER", "base and quote must differ.");
+  }
+
+  let from = url.searchParams.get("from");
+  let to = url.searchParams.get("to");
+  const periodsParam = url.searchParams.get("periods");
+
+  if (from || to) {
+    if (!from || !to || !isYmd(from) || !isYmd(to)) {
+      return invalid("INVALID_PARAMETER", "from and to must both be YYYY-MM-DD.");
+    }
+    if (from > to) return invalid("INVALID_PARAMETER", "from must not be after to.");
+    const rangeError = aggregateRangeError(from, to, period);
+    if (rangeError) return invalid("INVALID_PARAMETER", rangeError);
+  } else {
+    const periods = periodsParam === null ? DEFAULT_AGGREGATE_PERIODS : Number(periodsParam);
+    if (!Number.isInteger(periods) || periods < 1 || periods > MAX_AGGREGATE_PERIODS) {
+      return invalid("INVALID_PARAMETER", `periods must be an integer from 1 to ${MAX_AGGREGATE_PERIODS}.`);
+    }
+
+    // Anchor to the latest fixing (not "today"), as rates/history does for days.
+    const latest = await latestConventionDate(quoteCurrency, convention, knownAt, "default", segment);
+    if (latest.error) return invalid("DB_ERROR", latest.error.message, 500);
+    if (!latest.data) {
+      return invalid(
+        "NO_DATA",
+        `No ${segment} history available for ${convention.base}/${quoteCurrency}.`,
+        404
+      );
+    }
+    to = latest.data;
+    from = periodsBack(to, period, periods);
+  }
+
+  const { data, error } = await fetchAggregates(quoteCurrency, convention, segment, period, from, to, knownAt);
+  if (error || !data) return invalid("DB_ERROR", error?.message ?? "Aggregation failed.", 500);
+
+  return NextResponse.json(
+    {
+      pair: `${convention.base}/${quoteCurrency}`,
+      base: convention.base,
+      quote: quoteCurrency,
+      segment,
+      period,
+      stat,
+      buckets: data.map((b) => pickStat(b, stat)),
+      meta: {
+        from,
+        to,
+        count: data.length,
+        ...(knownAt ? { as_known_at: knownAt } : {}),
+        convention: conventionMeta(convention, quoteCurrency),
+      },
+    },
+    { status: 200, headers: VERSION_HEADERS }
+  );
+}
+
+export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "rates/aggregate");
+  if (!access) return response;
+
+  return conditionalRatesResponse(req, () => rateAggregates(req));
+}
@@ -0,0 +1,161 @@
+// app/api/v1/rates/cross/history/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { conditionalRatesResponse } from "@/lib/api/httpCache";
+import { parseAsKnownAt } from "@/lib/fx/asKnownAt";
+import {
+  addDaysYmd,
+  crossLabel,
+  crossMethod,
+  crossRate,
+  fetchLegSeries,
+  isCurrencyCode,
+  latestLegDate,
+  legFor,
+  missingLegPolicy,
+  parseMaxLagDays,
+} from "@/lib/fx/crossRates";
+
+const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
+
+function isYmd(s: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s);
+}
+
+function invalid(code: string, message: string, status = 400) {
+  return NextResponse.json({ error: { code, message } }, { status, headers: VERSION_HEADERS });
+}
+
+async function crossRateHistory(req: NextRequest) {
+  const url = new URL(req.url);
+  const from = (url.searchParams.get("from") ?? "").toUpperCase();
+  const to = (url.searchParams.get("to") ?? "").toUpperCase();
+  const daysParam = url.searchParams.get("days");
+  let startDate = url.searchParams.get("start");
+  let endDate = url.searchParams.get("end");
+
+  if (!from || !to) {
+    return invalid("MISSING_PARAMETER", "from and to (ISO currency codes) are required.");
+  }
+  if (!isCurrencyCode(from) || !isCurrencyCode(to)) {
+    return invalid("INVALID_PARAMETER", "from and to must be 3-letter currency codes.");
+  }
+  if (from === to) {
+    return invalid("INVALID_PARAMETER", "from and to must be different currencies.");
+  }
+
+  const maxLag = parseMaxLagDays(url.searchParams.get("max_lag_days"));
+  if (maxLag.error !== null) return invalid("INVALID_PARAMETER", maxLag.error);
+  const maxLagDays = maxLag.value;
+
+  const asKnownAt = parseAsKnownAt(url.searchParams.get("as_known_at"));
+  if (asKnownAt.error !== null) return invalid("INVALID_PARAMETER", asKnownAt.error);
+  const knownAt = asKnownAt.value;
+
+  try {
+    // If days is provided, anchor to the most recent date either leg was fixed.
+    if (daysParam && !startDate && !endDate) {
+      const days = parseInt(daysParam, 10);
+      if (!Number.isFinite(days) || days <= 0) {
+        return invalid("INVALID_PARAMETER", "days must be a positive integer.");
+      }
+
+      const [fromLatest, toLatest] = await Promise.all([
+        latestLegDate(from, knownAt),
+        latestLegDate(to, knownAt),
+      ]);
+      const error = fromLatest.error ?? toLatest.error;
+      if (error) return invalid("DB_ERROR", error.message, 500);
+
+      const candidates = [fromLatest.data, toLatest.data].filter((d): d is string => !!d).sort();
+      if (candidates.length === 0) {
+        return invalid("NO_DATA", `No SSP quotes found for ${from} or ${to}.`, 404);
+      }
+      endDate = candidates[candidates.length - 1];
+      startDate = addDaysYmd(endDate, -(days - 1));
+    }
+
+    if (!startDate || !endDate) {
+      return invalid("MISSING_PARAMETER", "Provide either days or both start/end (YYYY-MM-DD).");
+    }
+    if (!isYmd(startDate) || !isYmd(endDate)) {
+      return invalid("INVALID_PARAMETER", "start/end must be YYYY-MM-DD.");
+    }
+
+    // Legs are read from max_lag_days before the range so the first dates can carry over.
+    const lookbackStart = addDaysYmd(startDate, -maxLagDays);
+    const [fromSeries, toSeries] = await Promise.all([
+      fetchLegSeries(from, lookbackStart, endDate, knownAt),
+      fetchLegSeries(to, lookbackStart, endDate, knownAt),
+    ]);
+    const error = fromSeries.error ?? toSeries.error;
+    if (error) return invalid("DB_ERROR", error.message, 500);
+
+    // A point for every date either leg was fixed within the range.
+    const dates = new Set<string>();
+    for (const series of [fromSeries.data, toSeries.data]) {
+      for (const p of series ?? []) {
+        if (p.date >= startDate && p.date <= endDate) dates.add(p.date);
+      }
+    }
+
+    const points: {
+      date: string;
+      rate: number;
+      from_leg: { mid: number; as_of_date: string | null };
+      to_leg: { mid: number; as_of_date: string | null };
+    }[] = [];
+    const skipped: string[] = [];
+
+    for (const date of [...dates].sort()) {
+      const fromLeg = legFor(from, fromSeries.data, date, maxLagDays);
+      const toLeg = legFor(to, toSeries.data, date, maxLagDays);
+      if (!fromLeg || !toLeg) {
+        skipped.push(date);
+        continue;
+      }
+      points.push({
+        date,
+        rate: crossRate(fromLeg, toLeg),
+        from_leg: { mid: fromLeg.mid, as_of_date: fromLeg.as_of_date },
+        to_leg: { mid: toLeg.mid, as_of_date: toLeg.as_of_date },
+      });
+    }
+
+    return NextResponse.json(
+      {
+        pair: crossLabel(from, to),
+        from,
+        to,
+        unit: `${to} per 1 ${from}`,
+        derived: true,
+        method: crossMethod(from, to),
+        legs: [`${from}/SSP`, `${to}/SSP`],
+        points,
+        meta: {
+          start: startDate,
+          end: endDate,
+          count: points.length,
+          skipped_dates: skipped,
+          missing_leg_policy: missingLegPolicy(maxLagDays),
+          ...(knownAt ? { as_known_at: knownAt } : {}),
+        },
+      },
+      { status: 200, headers: VERSION_HEADERS }
+    );
+  } catch (e: unknown) {
+    return invalid("INTERNAL_ERROR", e instanceof Error ? e.message : "Unexpected error", 500);
+  }
+}
+
+// GET /api/v1/rates/cross/history?from=KES&to=UGX&days=90
+//   or ...&start=YYYY-MM-DD&end=YYYY-MM-DD
+//   [&max_lag_days=3][&as_known_at=ISO]
+// One derived point per date on which either leg was fixed; dates where a leg
+// is missing beyond max_lag_days are listed in meta.skipped_dates.
+export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "rates/cross/history");
+  if (!access) return response;
+
+  return conditionalRatesResponse(req, () => crossRateHistory(req));
+}
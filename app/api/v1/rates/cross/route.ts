@@ -0,0 +1,131 @@
+// app/api/v1/rates/cross/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { conditionalRatesResponse } from "@/lib/api/httpCache";
+import { parseAsKnownAt } from "@/lib/fx/asKnownAt";
+import {
+  addDaysYmd,
+  crossLabel,
+  crossMethod,
+  crossRate,
+  fetchLegSeries,
+  isCurrencyCode,
+  latestLegDate,
+  legFor,
+  missingLegPolicy,
+  parseMaxLagDays,
+} from "@/lib/fx/crossRates";
+import { rateStaleness } from "@/lib/fx/dataQuality";
+
+const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
+
+function invalid(code: string, message: string, status = 400) {
+  return NextResponse.json({ error: { code, message } }, { status, headers: VERSION_HEADERS });
+}
+
+async function crossRateForDate(req: NextRequest) {
+  const url = new URL(req.url);
+  const from = (url.searchParams.get("from") ?? "").toUpperCase();
+  const to = (url.searchParams.get("to") ?? "").toUpperCase();
+  const dateParam = url.searchParams.get("date");
+
+  if (!from || !to) {
+    return invalid("MISSING_PARAMETER", "from and to (ISO currency codes) are required.");
+  }
+  if (!isCurrencyCode(from) || !isCurrencyCode(to)) {
+    return invalid("INVALID_PARAMETER", "from and to must be 3-letter currency codes.");
+  }
+  if (from === to) {
+    return invalid("INVALID_PARAMETER", "from and to must be different currencies.");
+  }
+  if (dateParam && !/^\d{4}-\d{2}-\d{2}$/.test(dateParam)) {
+    return invalid("INVALID_PARAMETER", "date must be YYYY-MM-DD.");
+  }
+
+  const maxLag = parseMaxLagDays(url.searchParams.get("max_lag_days"));
+  if (maxLag.error !== null) return invalid("INVALID_PARAMETER", maxLag.error);
+  const maxLagDays = maxLag.value;
+
+  const asKnownAt = parseAsKnownAt(url.searchParams.get("as_known_at"));
+  if (asKnownAt.error !== null) return invalid("INVALID_PARAMETER", asKnownAt.error);
+  const knownAt = asKnownAt.value;
+
+  try {
+    let date = dateParam;
+
+    // Without a date: the most recent date either leg was fixed.
+    if (!date) {
+      const [fromLatest, toLatest] = await Promise.all([
+        latestLegDate(from, knownAt),
+        latestLegDate(to, knownAt),
+      ]);
+      const error = fromLatest.error ?? toLatest.error;
+      if (error) return invalid("DB_ERROR", error.message, 500);
+
+      const candidates = [fromLatest.data, toLatest.data].filter((d): d is string => !!d);
+      if (candidates.length === 0) {
+        return invalid("NO_DATA", `No SSP quotes found for ${from} or ${to}.`, 404);
+      }
+      date = candidates.sort()[candidates.length - 1];
+    }
+
+    const windowStart = addDaysYmd(date, -maxLagDays);
+    const [fromSeries, toSeries] = await Promise.all([
+      fetchLegSeries(from, windowStart, date, knownAt),
+      fetchLegSeries(to, windowStart, date, knownAt),
+    ]);
+    const error = fromSeries.error ?? toSeries.error;
+    if (error) return invalid("DB_ERROR", error.message, 500);
+
+    const fromLeg = legFor(from, fromSeries.data, date, maxLagDays);
+    const toLeg = legFor(to, toSeries.data, date, maxLagDays);
+    const missing = [!fromLeg ? from : null, !toLeg ? to : null].filter(Boolean);
+
+    if (!fromLeg || !toLeg) {
+      return invalid(
+        "NO_DATA",
+        `Cannot derive ${crossLabel(from, to)} for ${date}: no ${missing.join(" or ")}/SSP fixing between ` +
+          `${windowStart} and ${date}. ${missingLegPolicy(maxLagDays).description}`,
+        404
+      );
+    }
+
+    // Latest only: as fresh as its older leg.
+    const oldestLeg = [fromLeg.as_of_date, toLeg.as_of_date].filter((d): d is string => !!d).sort()[0];
+    const staleness =
+      !dateParam && oldestLeg ? await rateStaleness(oldestLeg, knownAt ? new Date(knownAt) : undefined) : {};
+
+    return NextResponse.json(
+      {
+        pair: crossLabel(from, to),
+        from,
+        to,
+        date,
+        ...staleness,
+        rate: crossRate(fromLeg, toLeg),
+        unit: `${to} per 1 ${from}`,
+        derived: true,
+        method: crossMethod(from, to),
+        legs: [fromLeg, toLeg],
+        meta: {
+          missing_leg_policy: missingLegPolicy(maxLagDays),
+          ...(knownAt ? { as_known_at: knownAt } : {}),
+        },
+      },
+      { status: 200, headers: VERSION_HEADERS }
+    );
+  } catch (e: unknown) {
+    return invalid("INTERNAL_ERROR", e instanceof Error ? e.message : "Unexpected error", 500);
+  }
+}
+
+// GET /api/v1/rates/cross?from=KES&to=UGX[&date=YYYY-MM-DD][&max_lag_days=3][&as_known_at=ISO]
+// Derived rate (to per 1 from) from the two SSP quotes. Without a date, uses
+// the most recent date either leg was fixed, and stale / age_days describe
+// its older leg against the fixing calendar (lib/fx/dataQuality.ts).
+export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "rates/cross");
+  if (!access) return response;
+
+  return conditionalRatesResponse(req, () => crossRateForDate(req));
+}
@@ -1,6 +1,27 @@
 // app/api/v1/rates/history/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { supabaseServer } from "@/lib/supabase/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { conditionalRatesResponse } from "@/lib/api/httpCache";
+import { parseAsKnownAt, selectSegmentRates } from "@/lib/fx/asKnownAt";
+import { CROSS_BASE } from "@/lib/fx/crossRates";
+import {
+  fillDates,
+  fillLoadFrom,
+  fillMeta,
+  fillRangeError,
+  gapFills,
+  parseFillParams,
+} from "@/lib/fx/gapFill";
+import { toBidAsk } from "@/lib/fx/spread";
+import { parseSegmentParam, type MarketSegment } from "@/lib/fx/segments";
+import {
+  conventionMeta,
+  fetchConventionSeries,
+  isRebased,
+  isStorageConvention,
+  latestConventionDate,
+  parseRateConvention,
+} from "@/lib/fx/quoteConvention";
 
 const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
 
@@ -18,12 +39,13 @@ function toYmd(d: Date) {
   return d.toISOString().slice(0, 10);
 }
 
-async function getPairMaxDate(base: string, quote: string): Promise<string | null> {
-  const supabase = supabaseServer;
-
-  const { data, error } = await supabase
-    .from("fx_daily_rates_default")
-    .select("as_of_date")
+async function getPairMaxDate(
+  base: string,
+  quote: string,
+  asKnownAt: string | null,
+  segment: MarketSegment
+): Promise<string | null> {
+  const { data, error } = await selectSegmentRates("as_of_date", asKnownAt, segment, { base, quote })
     .eq("base_currency", base)
     .eq("quote_currency", quote)
     .order("as_of_date", { ascending: false })
@@ -34,13 +56,91 @@ async function getPairMaxDate(base: string, quote: string): Promise<string | nul
   return String(data[0].as_of_date);
 }
 
-export async function GET(req: NextRequest) {
-  const supabase = supabaseServer;
+// PostgREST caps a single response (1000 rows by default); page through long ranges.
+const PAGE_SIZE = 1000;
+
+async function fetchHistoryRows(
+  base: string,
+  quote: string,
+  from: string,
+  to: string,
+  asKnownAt: string | null,
+  segment: MarketSegment
+) {
+  const rows: {
+    as_of_date: string;
+    rate_mid: number;
+    rate_bid: number | null;
+    rate_ask: number | null;
+  }[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await selectSegmentRates(
+      "as_of_date, rate_mid, rate_bid, rate_ask",
+      asKnownAt,
+      segment,
+      { base, quote }
+    )
+      .eq("base_currency", base)
+      .eq("quote_currency", quote)
+      .gte("as_of_date", from)
+      .lte("as_of_date", to)
+      .order("as_of_date", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) return { data: null, error };
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
+// GET /api/v1/rates/history?quote=USD&days=30
+// GET /api/v1/rates/history?quote=KES&from=2026-01-01&to=2026-03-31&base=USD&invert=true
+// GET /api/v1/rates/history?quote=USD&days=90&segment=parallel
+// GET /api/v1/rates/history?quote=USD&days=30&fill=previous&calendar=daily
+// base / quote_convention / invert pick the quoting convention (lib/fx/quoteConvention.ts).
+// segment picks the market segment (lib/fx/segments.ts; default official).
+// fill / calendar add flagged carry-forward or interpolated points (lib/fx/gapFill.ts).
+async function rateHistory(req: NextRequest) {
   const url = new URL(req.url);
 
-  const baseCurrency = (url.searchParams.get("base") ?? "SSP").toUpperCase();
+  const parsedConvention = parseRateConvention(url.searchParams);
+  if (parsedConvention.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedConvention.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const convention = parsedConvention.value;
+  const baseCurrency = convention.base;
+
+  const parsedSegment = parseSegmentParam(url.searchParams);
+  if (parsedSegment.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedSegment.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const segment = parsedSegment.value;
   const quoteCurrency = (url.searchParams.get("quote") ?? "USD").toUpperCase();
 
+  if (quoteCurrency === baseCurrency) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: "base and quote must differ." } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const asStored = isStorageConvention(convention);
+
+  const parsedFill = parseFillParams(url.searchParams);
+  if (parsedFill.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedFill.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const fill = parsedFill.value;
+
   const daysParam = url.searchParams.get("days");
   const fromParam = url.searchParams.get("from");
   const toParam = url.searchParams.get("to");
@@ -48,6 +148,16 @@ export async function GET(req: NextRequest) {
   let fromDate = fromParam ?? null;
   let toDate = toParam ?? null;
 
+  // Replays the series as it was published at this instant (bitemporal read).
+  const asKnownAt = parseAsKnownAt(url.searchParams.get("as_known_at"));
+  if (asKnownAt.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: asKnownAt.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const knownAt = asKnownAt.value;
+
   try {
     // If days is provided, anchor to DB max date (not "today")
     if (daysParam && !fromDate && !toDate) {
@@ -64,13 +174,20 @@ export async function GET(req: NextRequest) {
         );
       }
 
-      const maxDate = await getPairMaxDate(baseCurrency, quoteCurrency);
+      let maxDate: string | null;
+      if (asStored) {
+        maxDate = await getPairMaxDate(CROSS_BASE, quoteCurrency, knownAt, segment);
+      } else {
+        const latest = await latestConventionDate(quoteCurrency, convention, knownAt, "default", segment);
+        if (latest.error) throw latest.error;
+        maxDate = latest.data;
+      }
       if (!maxDate) {
         return NextResponse.json(
           {
             error: {
               code: "NO_DATA",
-              message: `No history available for ${baseCurrency}/${quoteCurrency}.`,
+              message: `No ${segment} history available for ${baseCurrency}/${quoteCurrency}.`,
             },
           },
           { status: 404, headers: VERSION_HEADERS }
@@ -107,36 +224,116 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    // Use default view for consistent source selection.
-    const { data, error } = await supabase
-      .from("fx_daily_rates_default")
-      .select("as_of_date, rate_mid")
-      .eq("base_currency", baseCurrency)
-      .eq("quote_currency", quoteCurrency)
-      .gte("as_of_date", fromDate)
-      .lte("as_of_date", toDate)
-      .order("as_of_date", { ascending: true });
-
-    if (error) {
+    const rangeError = fillRangeError(fromDate, toDate, fill);
+    if (rangeError) {
       return NextResponse.json(
-        { error: { code: "DB_ERROR", message: error.message } },
-        { status: 500, headers: VERSION_HEADERS }
+        { error: { code: "INVALID_PARAMETER", message: rangeError } },
+        { status: 400, headers: VERSION_HEADERS }
       );
     }
+    // Filling also loads the fixings just before the range to start from.
+    const loadFrom = fillLoadFrom(fromDate, fill);
 
-    const points =
-      data?.map((row: any) => ({
-        date: String(row.as_of_date),
-        mid: Number(row.rate_mid),
-      })) ?? [];
+    // Use the segment's published series (the default view for official) for
+    // consistent source selection.
+    let points: {
+      date: string;
+      mid: number;
+      bid?: number | null;
+      ask?: number | null;
+      filled?: boolean;
+      fill_method?: string;
+    }[];
+    if (asStored) {
+      const { data, error } = await fetchHistoryRows(
+        CROSS_BASE,
+        quoteCurrency,
+        loadFrom,
+        toDate,
+        knownAt,
+        segment
+      );
+
+      if (error) {
+        return NextResponse.json(
+          { error: { code: "DB_ERROR", message: error.message } },
+          { status: 500, headers: VERSION_HEADERS }
+        );
+      }
+
+      points =
+        data?.map((row: any) => {
+          const { rate_bid, rate_ask } = toBidAsk(row);
+          return {
+            date: String(row.as_of_date),
+            mid: Number(row.rate_mid),
+            bid: rate_bid,
+            ask: rate_ask,
+          };
+        }) ?? [];
+    } else {
+      const { data, error } = await fetchConventionSeries(
+        quoteCurrency,
+        convention,
+        loadFrom,
+        toDate,
+        knownAt,
+        "default",
+        segment
+      );
+
+      if (error) {
+        return NextResponse.json(
+          { error: { code: "DB_ERROR", message: error.message } },
+          { status: 500, headers: VERSION_HEADERS }
+        );
+      }
+
+      // Legs are only worth repeating per point when the base is derived.
+      points = (data ?? []).map((p) =>
+        isRebased(convention)
+          ? { date: p.date, mid: p.mid, quote_leg: p.quote_leg, base_leg: p.base_leg }
+          : { date: p.date, mid: p.mid }
+      );
+    }
+
+    let filledCount = 0;
+    if (fill.fill !== "none") {
+      const dates = await fillDates(fromDate, toDate, fill.calendar, knownAt ? new Date(knownAt) : undefined);
+      if (!dates.data) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "DB_ERROR",
+              message: dates.error?.message ?? "Fixing calendar unavailable.",
+            },
+          },
+          { status: 500, headers: VERSION_HEADERS }
+        );
+      }
+      const fills = gapFills(points, dates.data, fill.fill);
+      filledCount = fills.length;
+      const start = fromDate;
+      points = [...points.filter((p) => p.date >= start).map((p) => ({ ...p, filled: false })), ...fills].sort(
+        (a, b) => a.date.localeCompare(b.date)
+      );
+    }
 
     return NextResponse.json(
       {
         pair: `${baseCurrency}/${quoteCurrency}`,
         base: baseCurrency,
         quote: quoteCurrency,
+        segment,
         points,
-        meta: { from: fromDate, to: toDate, count: points.length },
+        meta: {
+          from: fromDate,
+          to: toDate,
+          count: points.length,
+          ...fillMeta(fill, filledCount),
+          ...(knownAt ? { as_known_at: knownAt } : {}),
+          convention: conventionMeta(convention, quoteCurrency),
+        },
       },
       { status: 200, headers: VERSION_HEADERS }
     );
@@ -147,3 +344,10 @@ export async function GET(req: NextRequest) {
     );
   }
 }
+
+export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "rates/history");
+  if (!access) return response;
+
+  return conditionalRatesResponse(req, () => rateHistory(req));
+}
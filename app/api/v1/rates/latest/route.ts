@@ -1,19 +1,146 @@
 // app/api/v1/rates/latest/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { supabaseServer } from "@/lib/supabase/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { conditionalRatesResponse } from "@/lib/api/httpCache";
+import { parseAsKnownAt, selectLiveRates, selectSegmentRates } from "@/lib/fx/asKnownAt";
+import { CROSS_BASE, type LegSource } from "@/lib/fx/crossRates";
+import { rateStaleness } from "@/lib/fx/dataQuality";
+import { toBidAsk } from "@/lib/fx/spread";
+import { parseSegmentParam, type MarketSegment } from "@/lib/fx/segments";
+import {
+  baseLegOn,
+  conventionMeta,
+  convertRates,
+  isRebased,
+  isStorageConvention,
+  parseRateConvention,
+  type RateConvention,
+} from "@/lib/fx/quoteConvention";
 
 const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
 
-export async function GET(req: NextRequest) {
-  const supabase = supabaseServer;
+type Quote = { bid: number | null; ask: number | null };
+
+function toQuote(row: { rate_bid?: unknown; rate_ask?: unknown }): Quote {
+  const { rate_bid, rate_ask } = toBidAsk(row);
+  return { bid: rate_bid, ask: rate_ask };
+}
+
+type RateRow = { quote_currency: string; rate_mid: unknown; rate_bid?: unknown; rate_ask?: unknown };
+
+// One row per quote: the first one seen, so callers order by precedence. The
+// mid and bid / ask always come from that same row.
+function collectRates(rows: RateRow[]) {
+  const rates: Record<string, number> = {};
+  const quotes: Record<string, Quote> = {};
+  for (const row of rows) {
+    if (row.quote_currency in rates) continue;
+    rates[row.quote_currency] = Number(row.rate_mid);
+    if (row.rate_bid != null || row.rate_ask != null) quotes[row.quote_currency] = toQuote(row);
+  }
+  return { rates, quotes };
+}
+
+// Re-expresses the stored snapshot in the requested convention. For a base
+// other than SSP the base leg comes from the same published set and segment.
+// Bid / ask are only served as stored: deriving them would need both legs' spreads.
+async function presentRates(
+  rates: Record<string, number>,
+  quotes: Record<string, Quote>,
+  asOfDate: string,
+  source: LegSource,
+  segment: MarketSegment,
+  c: RateConvention,
+  knownAt: string | null
+) {
+  const sourceName =
+    source === "live"
+      ? "fx_daily_rates"
+      : segment === "official"
+        ? "fx_daily_rates_default"
+        : "fx_segment_rates";
+  if (isStorageConvention(c)) {
+    return { base: c.base, as_of_date: asOfDate, source: sourceName, segment, rates, bid_ask: quotes };
+  }
+
+  const { data: baseLeg, error } = await baseLegOn(c, asOfDate, knownAt, source, segment);
+  if (error) {
+    return NextResponse.json(
+      { error: { code: "DB_ERROR", message: error.message } },
+      { status: 500, headers: VERSION_HEADERS }
+    );
+  }
+  if (!baseLeg) {
+    return NextResponse.json(
+      {
+        error: {
+          code: "NO_DATA",
+          message: `No ${c.base} fixing within ${c.maxLagDays} day(s) of ${asOfDate}; cannot rebase.`,
+        },
+      },
+      { status: 404, headers: VERSION_HEADERS }
+    );
+  }
+
+  return {
+    base: c.base,
+    as_of_date: asOfDate,
+    source: sourceName,
+    segment,
+    rates: convertRates(rates, baseLeg.mid, c),
+    ...(isRebased(c) ? { base_leg: baseLeg } : {}),
+  };
+}
+
+// GET /api/v1/rates/latest?base=SSP[&as_known_at=2026-10-13T09:00:00Z]
+// GET /api/v1/rates/latest?base=USD&quote_convention=quote_per_base
+// GET /api/v1/rates/latest?invert=true
+// GET /api/v1/rates/latest?segment=parallel
+// as_known_at replays the response as it was published at that instant.
+// stale / age_days compare as_of_date with the fixing calendar (lib/fx/dataQuality.ts).
+// segment picks the market segment (lib/fx/segments.ts; default official).
+// base / quote_convention / invert pick the quoting convention (lib/fx/quoteConvention.ts).
+async function latestRates(req: NextRequest) {
   const url = new URL(req.url);
-  const baseCurrency = url.searchParams.get("base") ?? "SSP";
+
+  const parsedConvention = parseRateConvention(url.searchParams);
+  if (parsedConvention.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedConvention.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const convention = parsedConvention.value;
+
+  const parsedSegment = parseSegmentParam(url.searchParams);
+  if (parsedSegment.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedSegment.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const segment = parsedSegment.value;
+  // Stored rates are always SSP-based; other bases are derived below.
+  const baseCurrency = CROSS_BASE;
+
+  const asKnownAt = parseAsKnownAt(url.searchParams.get("as_known_at"));
+  if (asKnownAt.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: asKnownAt.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const knownAt = asKnownAt.value;
+  const scope = { base: baseCurrency };
 
   // 1) Find latest as_of_date in fx_daily_rates for this base
-  const { data: latestDateRow, error: latestDateError } = await supabase
-    .from("fx_daily_rates")
-    .select("as_of_date")
+  const { data: latestDateRow, error: latestDateError } = await selectLiveRates(
+    "as_of_date",
+    knownAt,
+    scope
+  )
     .eq("base_currency", baseCurrency)
+    .eq("segment", segment)
     .order("as_of_date", { ascending: false })
     .limit(1)
     .maybeSingle();
@@ -29,14 +156,19 @@ export async function GET(req: NextRequest) {
 
   let liveRates: any[] = [];
   if (asOfDate) {
-    const { data, error } = await supabase
-      .from("fx_daily_rates")
-      .select(
-        "as_of_date, base_currency, quote_currency, rate_mid, is_official, is_manual_override, source_id"
-      )
+    const { data, error } = await selectLiveRates(
+      "as_of_date, base_currency, quote_currency, rate_mid, rate_bid, rate_ask, is_official, is_manual_override, source_id",
+      knownAt,
+      scope
+    )
       .eq("base_currency", baseCurrency)
+      .eq("segment", segment)
       .eq("as_of_date", asOfDate)
-      .order("quote_currency", { ascending: true });
+      // Several live rows can share a quote; prefer them as fx_daily_rates_default does.
+      .order("quote_currency", { ascending: true })
+      .order("is_manual_override", { ascending: false })
+      .order("is_official", { ascending: false })
+      .order("id", { ascending: false });
 
     if (error) {
       return NextResponse.json(
@@ -48,11 +180,15 @@ export async function GET(req: NextRequest) {
     liveRates = data ?? [];
   }
 
-  // 2) Fallback to fx_daily_rates_default if we have no liveRates
+  // 2) Fallback to the segment's published series (fx_daily_rates_default for
+  // official) if we have no liveRates
   if (!asOfDate || liveRates.length === 0) {
-    const { data: defaultDateRow, error: defaultDateError } = await supabase
-      .from("fx_daily_rates_default")
-      .select("as_of_date")
+    const { data: defaultDateRow, error: defaultDateError } = await selectSegmentRates(
+      "as_of_date",
+      knownAt,
+      segment,
+      scope
+    )
       .eq("base_currency", baseCurrency)
       .order("as_of_date", { ascending: false })
       .limit(1)
@@ -72,18 +208,19 @@ export async function GET(req: NextRequest) {
         {
           error: {
             code: "NO_DATA",
-            message: `No FX data found for base currency ${baseCurrency}.`,
+            message: `No ${segment} FX data found for base currency ${baseCurrency}.`,
           },
         },
         { status: 404, headers: VERSION_HEADERS }
       );
     }
 
-    const { data, error } = await supabase
-      .from("fx_daily_rates_default")
-      .select(
-        "as_of_date, base_currency, quote_currency, rate_mid, is_official, is_manual_override, source_code, source_label"
-      )
+    const { data, error } = await selectSegmentRates(
+      "as_of_date, base_currency, quote_currency, rate_mid, rate_bid, rate_ask, is_official, is_manual_override",
+      knownAt,
+      segment,
+      scope
+    )
       .eq("base_currency", baseCurrency)
       .eq("as_of_date", asOfDate)
       .order("quote_currency", { ascending: true });
@@ -95,35 +232,42 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    const rates: Record<string, number> = {};
-    for (const row of data ?? []) {
-      rates[row.quote_currency] = Number(row.rate_mid);
-    }
+    const { rates, quotes } = collectRates(data ?? []);
+
+    const body = await presentRates(rates, quotes, asOfDate, "default", segment, convention, knownAt);
+    if (body instanceof Response) return body;
 
     return NextResponse.json(
       {
-        base: baseCurrency,
-        as_of_date: asOfDate,
-        source: "fx_daily_rates_default",
-        rates,
+        ...body,
+        ...(await rateStaleness(asOfDate, knownAt ? new Date(knownAt) : undefined)),
+        ...(knownAt ? { as_known_at: knownAt } : {}),
+        convention: conventionMeta(convention),
       },
       { status: 200, headers: VERSION_HEADERS }
     );
   }
 
   // If we’re here, we have live fx_daily_rates
-  const rates: Record<string, number> = {};
-  for (const row of liveRates) {
-    rates[row.quote_currency] = Number(row.rate_mid);
-  }
+  const { rates, quotes } = collectRates(liveRates);
+
+  const body = await presentRates(rates, quotes, asOfDate, "live", segment, convention, knownAt);
+  if (body instanceof Response) return body;
 
   return NextResponse.json(
     {
-      base: baseCurrency,
-      as_of_date: asOfDate,
-      source: "fx_daily_rates",
-      rates,
+      ...body,
+      ...(await rateStaleness(asOfDate, knownAt ? new Date(knownAt) : undefined)),
+      ...(knownAt ? { as_known_at: knownAt } : {}),
+      convention: conventionMeta(convention),
     },
     { status: 200, headers: VERSION_HEADERS }
   );
 }
+
+export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "rates/latest");
+  if (!access) return response;
+
+  return conditionalRatesResponse(req, () => latestRates(req));
+}
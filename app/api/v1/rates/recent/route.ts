@@ -1,10 +1,15 @@
 // app/api/v1/rates/recent/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { requireApiAccess } from "@/lib/api/access";
 import { supabaseServer } from "@/lib/supabase/server";
+import { parseSegmentParam } from "@/lib/fx/segments";
 
 const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
 
 export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "rates/recent");
+  if (!access) return response;
+
   const supabase = supabaseServer;
   const url = new URL(req.url);
 
@@ -16,12 +21,23 @@ export async function GET(req: NextRequest) {
     100
   );
 
+  const parsedSegment = parseSegmentParam(url.searchParams);
+  if (parsedSegment.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedSegment.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const segment = parsedSegment.value;
+
   let query = supabase
     .from("fx_daily_rates")
     .select(
-      "id, as_of_date, base_currency, quote_currency, rate_mid, is_official, is_manual_override, source_id"
+      "id, as_of_date, base_currency, quote_currency, rate_mid, rate_bid, rate_ask, segment, is_official, is_manual_override, source_id"
     )
+    .is("deleted_at", null)
     .eq("base_currency", baseCurrency)
+    .eq("segment", segment)
     .order("as_of_date", { ascending: false })
     .order("quote_currency", { ascending: true })
     .limit(limit);
@@ -40,7 +56,7 @@ export async function GET(req: NextRequest) {
   }
 
   return NextResponse.json(
-    { data: data ?? [], meta: { limit, base: baseCurrency } },
+    { data: data ?? [], meta: { limit, base: baseCurrency, segment } },
     { status: 200, headers: VERSION_HEADERS }
   );
 }
@@ -0,0 +1,143 @@
+// app/api/v1/rates/revisions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { supabaseServer } from "@/lib/supabase/server";
+import { MARKET_SEGMENTS, normaliseSegment } from "@/lib/fx/segments";
+
+const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
+
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 5000;
+
+type RevisionRow = {
+  revised_at: string;
+  as_of_date: string;
+  base_currency: string;
+  quote_currency: string;
+  segment: string;
+  old_mid: number | string | null;
+  new_mid: number | string | null;
+  is_manual_override: boolean;
+  kind: "corrected" | "overridden" | "withdrawn" | "restored";
+};
+
+// GET /api/v1/rates/revisions?since=2026-10-01T00:00:00Z
+// Optional: base=SSP, quote=USD, segment=official|commercial|parallel (all
+// segments when omitted), limit=500 (max 5000)
+//
+// Lists every change to an already-published fx_daily_rates value after
+// `since` (exclusive), oldest first. To reconcile incrementally, store
+// meta.next_since and pass it as `since` on the next call; keep paging while
+// meta.has_more is true. See fx_rate_revisions() for the revision kinds.
+export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "rates/revisions");
+  if (!access) return response;
+
+  const url = new URL(req.url);
+  const sinceParam = url.searchParams.get("since");
+  const base = url.searchParams.get("base")?.toUpperCase() ?? null;
+  const quote = url.searchParams.get("quote")?.toUpperCase() ?? null;
+  const segmentParam = url.searchParams.get("segment");
+  const segment = segmentParam ? normaliseSegment(segmentParam) : null;
+  const limitParam = url.searchParams.get("limit");
+
+  if (!sinceParam) {
+    return NextResponse.json(
+      {
+        error: {
+          code: "MISSING_PARAMETER",
+          message: "since (ISO 8601 timestamp) is required.",
+        },
+      },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+
+  if (segmentParam && !segment) {
+    return NextResponse.json(
+      {
+        error: {
+          code: "INVALID_PARAMETER",
+          message: `segment must be one of: ${MARKET_SEGMENTS.join(", ")}.`,
+        },
+      },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+
+  const sinceTs = Date.parse(sinceParam);
+  if (!Number.isFinite(sinceTs)) {
+    return NextResponse.json(
+      {
+        error: {
+          code: "INVALID_PARAMETER",
+          message: "since must be an ISO 8601 timestamp.",
+        },
+      },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+
+  const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+  if (!Number.isFinite(limit) || limit <= 0 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      {
+        error: {
+          code: "INVALID_PARAMETER",
+          message: `limit must be an integer between 1 and ${MAX_LIMIT}.`,
+        },
+      },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+
+  const since = new Date(sinceTs).toISOString();
+
+  const { data, error } = await supabaseServer.rpc("fx_rate_revisions", {
+    p_since: since,
+    p_base: base,
+    p_quote: quote,
+    p_limit: limit,
+    p_segment: segment,
+  });
+
+  if (error) {
+    return NextResponse.json(
+      { error: { code: "DB_ERROR", message: error.message } },
+      { status: 500, headers: VERSION_HEADERS }
+    );
+  }
+
+  const rows = (data ?? []) as RevisionRow[];
+  const revisions = rows.map((r) => ({
+    pair: `${r.base_currency}/${r.quote_currency}`,
+    base: r.base_currency,
+    quote: r.quote_currency,
+    segment: r.segment,
+    date: String(r.as_of_date),
+    old_mid: r.old_mid === null ? null : Number(r.old_mid),
+    new_mid: r.new_mid === null ? null : Number(r.new_mid),
+    revised_at: new Date(r.revised_at).toISOString(),
+    is_manual_override: Boolean(r.is_manual_override),
+    kind: r.kind,
+  }));
+
+  const last = revisions[revisions.length - 1];
+
+  return NextResponse.json(
+    {
+      data: revisions,
+      meta: {
+        since,
+        base,
+        quote,
+        segment,
+        count: revisions.length,
+        // The function only exceeds the limit to finish a same-timestamp batch.
+        has_more: revisions.length >= limit,
+        next_since: last ? last.revised_at : since,
+      },
+    },
+    { status: 200, headers: VERSION_HEADERS }
+  );
+}
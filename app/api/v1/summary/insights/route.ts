@@ -1,5 +1,6 @@
 // app/api/v1/summary/insights/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { internalApiHeaders, requireApiAccess } from "@/lib/api/access";
 import {
   buildInsightsFromSummary,
   type MarketSummary,
@@ -18,6 +19,9 @@ function getApiBaseUrl() {
 }
 
 export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "summary/insights");
+  if (!access) return response;
+
   const url = new URL(req.url);
   const base = url.searchParams.get("base") ?? "SSP";
   const quote = url.searchParams.get("quote") ?? "USD";
@@ -28,7 +32,7 @@ export async function GET(req: NextRequest) {
   )}&quote=${encodeURIComponent(quote)}`;
 
   try {
-    const res = await fetch(summaryUrl, { cache: "no-store" });
+    const res = await fetch(summaryUrl, { cache: "no-store", headers: internalApiHeaders() });
 
     if (!res.ok) {
       const text = await res.text().catch(() => "");
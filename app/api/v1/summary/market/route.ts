@@ -1,12 +1,40 @@
 // app/api/v1/summary/market/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { requireApiAccess } from "@/lib/api/access";
+import { conditionalRatesResponse } from "@/lib/api/httpCache";
 import { supabaseServer } from "@/lib/supabase/server";
+import {
+  addDaysYmd,
+  CROSS_BASE,
+  DEFAULT_MAX_LAG_DAYS,
+  fetchLegSeries,
+  latestLegDate,
+  MAX_LAG_DAYS_LIMIT,
+} from "@/lib/fx/crossRates";
+import { rateStaleness } from "@/lib/fx/dataQuality";
+import { spreadOf, toBidAsk, type BidAsk } from "@/lib/fx/spread";
+import {
+  conventionMeta,
+  fetchConventionSeries,
+  isStorageConvention,
+  latestConventionDate,
+  parseRateConvention,
+  type RateConvention,
+} from "@/lib/fx/quoteConvention";
+import {
+  parseSegmentParam,
+  PREMIUM_DEFINITION,
+  premiumSeries,
+  type MarketSegment,
+} from "@/lib/fx/segments";
 
 const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
 
 type FxDailyRow = {
   as_of_date: string;
   rate_mid: number | string | null;
+  rate_bid: number | string | null;
+  rate_ask: number | string | null;
 };
 
 function toNumber(value: unknown): number | null {
@@ -14,19 +42,37 @@ function toNumber(value: unknown): number | null {
   return Number.isFinite(n) ? n : null;
 }
 
-export async function GET(req: NextRequest) {
-  const supabase = supabaseServer;
-  const url = new URL(req.url);
+type MarketSeries = {
+  asOfDate: string;
+  latestMid: number;
+  changePct: number | null;
+  /** Mids over the 30-day window ending at asOfDate, ascending. */
+  series: number[];
+  /** Latest bid / ask; null sides when not quoted or not served as stored. */
+  quotes: BidAsk;
+  /** Spread % of each fixing in the window that quoted both sides. */
+  spreadPcts: number[];
+};
 
-  const baseCurrency = url.searchParams.get("base") ?? "SSP";
-  const quoteCurrency = (url.searchParams.get("quote") ?? "USD").toUpperCase();
+function changePctBetween(latest: number, prev: number | null) {
+  return prev && prev !== 0 ? ((latest - prev) / prev) * 100 : null;
+}
+
+async function loadStoredSeries(
+  baseCurrency: string,
+  quoteCurrency: string,
+  segment: MarketSegment
+): Promise<MarketSeries | Response> {
+  const supabase = supabaseServer;
 
   // 1) Latest fixing
   const { data: latestRow, error: latestError } = await supabase
     .from("fx_daily_rates")
-    .select("as_of_date, rate_mid")
+    .select("as_of_date, rate_mid, rate_bid, rate_ask")
+    .is("deleted_at", null)
     .eq("base_currency", baseCurrency)
     .eq("quote_currency", quoteCurrency)
+    .eq("segment", segment)
     .order("as_of_date", { ascending: false })
     .limit(1)
     .maybeSingle();
@@ -43,7 +89,7 @@ export async function GET(req: NextRequest) {
       {
         error: {
           code: "NO_DATA",
-          message: `No FX data for pair ${baseCurrency}/${quoteCurrency}.`,
+          message: `No ${segment} FX data for pair ${baseCurrency}/${quoteCurrency}.`,
         },
       },
       { status: 404, headers: VERSION_HEADERS }
@@ -69,20 +115,16 @@ export async function GET(req: NextRequest) {
   const { data: prevRow } = await supabase
     .from("fx_daily_rates")
     .select("as_of_date, rate_mid")
+    .is("deleted_at", null)
     .eq("base_currency", baseCurrency)
     .eq("quote_currency", quoteCurrency)
+    .eq("segment", segment)
     .lt("as_of_date", asOfDate)
     .order("as_of_date", { ascending: false })
     .limit(1)
     .maybeSingle();
 
-  let changePct: number | null = null;
-  if (prevRow && prevRow.rate_mid != null) {
-    const prevMid = toNumber(prevRow.rate_mid);
-    if (prevMid && prevMid !== 0) {
-      changePct = ((latestMid - prevMid) / prevMid) * 100;
-    }
-  }
+  const changePct = changePctBetween(latestMid, prevRow ? toNumber(prevRow.rate_mid) : null);
 
   // 3) History window – last 30 days (for 7d range, 3d trend, 30d vol)
   const latestDateObj = new Date(asOfDate);
@@ -93,9 +135,11 @@ export async function GET(req: NextRequest) {
 
   const { data: historyRows, error: historyError } = await supabase
     .from("fx_daily_rates")
-    .select("as_of_date, rate_mid")
+    .select("as_of_date, rate_mid, rate_bid, rate_ask")
+    .is("deleted_at", null)
     .eq("base_currency", baseCurrency)
     .eq("quote_currency", quoteCurrency)
+    .eq("segment", segment)
     .gte("as_of_date", from30Str)
     .lte("as_of_date", asOfDate)
     .order("as_of_date", { ascending: true });
@@ -111,6 +155,180 @@ export async function GET(req: NextRequest) {
     .map((row: FxDailyRow) => toNumber(row.rate_mid))
     .filter((n): n is number => n != null);
 
+  const spreadPcts = (historyRows ?? [])
+    .map((row: FxDailyRow) => {
+      const { rate_bid, rate_ask } = toBidAsk(row);
+      return spreadOf(Number(row.rate_mid), rate_bid, rate_ask)?.pct ?? null;
+    })
+    .filter((n): n is number => n != null);
+
+  return { asOfDate, latestMid, changePct, series, quotes: toBidAsk(latestRow), spreadPcts };
+}
+
+// Inverted or rebased: the same window, built from the legs in the requested
+// convention so range, trend and volatility describe the rate as quoted.
+async function loadConvertedSeries(
+  quoteCurrency: string,
+  c: RateConvention,
+  segment: MarketSegment
+): Promise<MarketSeries | Response> {
+  const latest = await latestConventionDate(quoteCurrency, c, null, "live", segment);
+  if (latest.error) {
+    return NextResponse.json(
+      { error: { code: "DB_ERROR", message: latest.error.message } },
+      { status: 500, headers: VERSION_HEADERS }
+    );
+  }
+
+  // The extra lag window lets the first in-window date find a previous fixing.
+  const { data: points, error } = latest.data
+    ? await fetchConventionSeries(
+        quoteCurrency,
+        c,
+        addDaysYmd(latest.data, -29 - MAX_LAG_DAYS_LIMIT),
+        latest.data,
+        null,
+        "live",
+        segment
+      )
+    : { data: [], error: null };
+
+  if (error) {
+    return NextResponse.json(
+      { error: { code: "DB_ERROR", message: error.message } },
+      { status: 500, headers: VERSION_HEADERS }
+    );
+  }
+
+  if (!points || points.length === 0) {
+    return NextResponse.json(
+      {
+        error: {
+          code: "NO_DATA",
+          message: `No ${segment} FX data for pair ${c.base}/${quoteCurrency}.`,
+        },
+      },
+      { status: 404, headers: VERSION_HEADERS }
+    );
+  }
+
+  const current = points[points.length - 1];
+  const prev = points.length > 1 ? points[points.length - 2] : null;
+  const from30Str = addDaysYmd(current.date, -29);
+
+  return {
+    asOfDate: current.date,
+    latestMid: current.mid,
+    changePct: changePctBetween(current.mid, prev ? prev.mid : null),
+    series: points.filter((p) => p.date >= from30Str).map((p) => p.mid),
+    // Derived quotes carry no bid / ask (see quoteConvention.ts).
+    quotes: { rate_bid: null, rate_ask: null },
+    spreadPcts: [],
+  };
+}
+
+// Parallel market premium over the official fixing for one currency's SSP
+// quote, over the 30 days ending at its latest parallel quote. Independent of
+// the requested segment and convention: both sides are always SSP per 1 unit.
+async function loadPremium(currency: string) {
+  const latest = await latestLegDate(currency, null, "default", "parallel");
+  if (latest.error) return { data: null, error: latest.error };
+
+  const empty = {
+    currency,
+    segment: "parallel" as const,
+    reference: "official" as const,
+    as_of_date: null,
+    parallel_mid: null,
+    official_mid: null,
+    official_date: null,
+    pct: null,
+    window_days: 30,
+    avg_pct: null,
+    observations: 0,
+    definition: PREMIUM_DEFINITION,
+  };
+  if (!latest.data) return { data: empty, error: null };
+
+  const from30Str = addDaysYmd(latest.data, -29);
+  const [official, parallel] = await Promise.all([
+    fetchLegSeries(currency, addDaysYmd(from30Str, -DEFAULT_MAX_LAG_DAYS), latest.data, null, "default", "official"),
+    fetchLegSeries(currency, from30Str, latest.data, null, "default", "parallel"),
+  ]);
+  const error = official.error ?? parallel.error;
+  if (error) return { data: null, error };
+
+  const points = premiumSeries(currency, official.data ?? [], parallel.data ?? []);
+  const current = points.length ? points[points.length - 1] : null;
+  if (!current) return { data: empty, error: null };
+
+  return {
+    data: {
+      ...empty,
+      as_of_date: current.date,
+      parallel_mid: current.parallel_mid,
+      official_mid: current.official_mid,
+      official_date: current.official_date,
+      pct: current.premium_pct,
+      avg_pct: points.reduce((sum, p) => sum + p.premium_pct, 0) / points.length,
+      observations: points.length,
+    },
+    error: null,
+  };
+}
+
+// GET /api/v1/summary/market?quote=USD
+// GET /api/v1/summary/market?quote=KES&base=USD[&invert=true]
+// GET /api/v1/summary/market?quote=USD&segment=parallel
+// base / quote_convention / invert pick the quoting convention (lib/fx/quoteConvention.ts).
+// segment picks the market segment the summary describes (default official);
+// `premium` always compares parallel with official.
+// stale / age_days compare as_of_date with the fixing calendar (lib/fx/dataQuality.ts).
+async function marketSummary(req: NextRequest) {
+  const url = new URL(req.url);
+
+  const parsedConvention = parseRateConvention(url.searchParams);
+  if (parsedConvention.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedConvention.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const convention = parsedConvention.value;
+  const baseCurrency = convention.base;
+
+  const parsedSegment = parseSegmentParam(url.searchParams);
+  if (parsedSegment.error !== null) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: parsedSegment.error } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+  const segment = parsedSegment.value;
+  const quoteCurrency = (url.searchParams.get("quote") ?? "USD").toUpperCase();
+
+  if (quoteCurrency === baseCurrency) {
+    return NextResponse.json(
+      { error: { code: "INVALID_PARAMETER", message: "base and quote must differ." } },
+      { status: 400, headers: VERSION_HEADERS }
+    );
+  }
+
+  const loaded = isStorageConvention(convention)
+    ? await loadStoredSeries(baseCurrency, quoteCurrency, segment)
+    : await loadConvertedSeries(quoteCurrency, convention, segment);
+  if (loaded instanceof Response) return loaded;
+
+  const premium = await loadPremium(quoteCurrency === CROSS_BASE ? baseCurrency : quoteCurrency);
+  if (premium.error) {
+    return NextResponse.json(
+      { error: { code: "DB_ERROR", message: premium.error.message } },
+      { status: 500, headers: VERSION_HEADERS }
+    );
+  }
+
+  const { asOfDate, latestMid, changePct, series, quotes, spreadPcts } = loaded;
+
   // --- 7-day range ---
   const last7 = series.slice(-7);
   let rangeHigh = latestMid;
@@ -159,11 +377,19 @@ export async function GET(req: NextRequest) {
     }
   }
 
+  // --- Spread: latest and 30-day average, over fixings that quoted both sides ---
+  const latestSpread = spreadOf(latestMid, quotes.rate_bid, quotes.rate_ask);
+  const avgSpreadPct = spreadPcts.length
+    ? spreadPcts.reduce((sum, pct) => sum + pct, 0) / spreadPcts.length
+    : null;
+
   return NextResponse.json(
     {
       base: baseCurrency,
       quote: quoteCurrency,
+      segment,
       as_of_date: asOfDate,
+      ...(await rateStaleness(asOfDate)),
       mid_rate: latestMid,
       change_pct_vs_previous: changePct,
       range: {
@@ -179,7 +405,25 @@ export async function GET(req: NextRequest) {
         window_days: 30,
         avg_daily_move_pct: volatilityAvgDailyMovePct,
       },
+      spread: {
+        bid_rate: quotes.rate_bid,
+        ask_rate: quotes.rate_ask,
+        abs: latestSpread?.abs ?? null,
+        pct: latestSpread?.pct ?? null,
+        window_days: 30,
+        avg_pct: avgSpreadPct,
+        observations: spreadPcts.length,
+      },
+      premium: premium.data,
+      convention: conventionMeta(convention, quoteCurrency),
     },
     { status: 200, headers: VERSION_HEADERS }
   );
 }
+
+export async function GET(req: NextRequest) {
+  const { access, response } = await requireApiAccess(req, "summary/market");
+  if (!access) return response;
+
+  return conditionalRatesResponse(req, () => marketSummary(req));
+}
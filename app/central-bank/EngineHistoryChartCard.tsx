@@ -14,6 +14,7 @@ import {
   type ChartOptions,
 } from "chart.js";
 import zoomPlugin from "chartjs-plugin-zoom";
+import { fetchWithSupabaseAuth } from "@/lib/supabase-browser";
 
 ChartJS.register(
   LineElement,
@@ -83,7 +84,7 @@ export default function EngineHistoryChartCard() {
       setError(null);
 
       try {
-        const res = await fetch(
+        const res = await fetchWithSupabaseAuth(
           `/api/admin/engine-history?window=${encodeURIComponent(
             activeWindow
           )}&pair=${encodeURIComponent(activePair)}`,
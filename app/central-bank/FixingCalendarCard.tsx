@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useState, FormEvent } from "react";
+import { fetchWithSupabaseAuth } from "@/lib/supabase-browser";
+
+// Upcoming business days, holidays and fixing sessions (planned vs actual).
+// Rules live in lib/fx/calendar.ts; edits go through /api/central-bank/fixing-calendar.
+
+type Session = {
+  date: string;
+  window_label: string;
+  planned_at: string;
+  actual_at: string | null;
+  delay_minutes: number | null;
+  status: "scheduled" | "completed" | "overdue" | "cancelled";
+  extra: boolean;
+  notes: string | null;
+};
+
+type Day = {
+  date: string;
+  weekday: string;
+  business_day: boolean;
+  holiday: string | null;
+  sessions: Session[];
+};
+
+type WindowRow = { label: string; weekdays: number[]; planned_time: string; is_active: boolean };
+
+type CalendarData = { days: Day[]; windows: WindowRow[] };
+
+const STATUS_CLASS: Record<Session["status"], string> = {
+  scheduled: "text-zinc-300",
+  completed: "text-emerald-400",
+  overdue: "text-amber-400",
+  cancelled: "text-zinc-500 line-through",
+};
+
+const DAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const inputClass =
+  "w-full rounded-lg border border-zinc-800 bg-black px-2 py-1.5 text-xs text-zinc-100 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/60";
+
+// Juba time (UTC+2) for display.
+function jubaTime(iso: string) {
+  return new Date(new Date(iso).getTime() + 2 * 60 * 60 * 1000).toISOString().slice(11, 16);
+}
+
+async function calendarApi<T>(init: RequestInit = {}): Promise<{ data: T | null; error: string | null }> {
+  const res = await fetchWithSupabaseAuth("/api/central-bank/fixing-calendar", {
+    cache: "no-store",
+    ...init,
+    headers: init.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) return { data: null, error: json?.error ?? `Request failed (HTTP ${res.status})` };
+  return { data: (json?.data ?? null) as T | null, error: null };
+}
+
+export default function FixingCalendarCard({ canEdit }: { canEdit: boolean }) {
+  const [calendar, setCalendar] = useState<CalendarData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [form, setForm] = useState<"holiday" | "session" | null>(null);
+  const [formDate, setFormDate] = useState("");
+  const [formName, setFormName] = useState("");
+  const [formTime, setFormTime] = useState("11:00");
+  const [saving, setSaving] = useState(false);
+
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+
+    async function loadCalendar() {
+      const res = await calendarApi<CalendarData>();
+      if (!active) return;
+      setCalendar(res.data);
+      setError(res.error);
+      setLoading(false);
+    }
+
+    loadCalendar();
+
+    return () => {
+      active = false;
+    };
+  }, [reloadKey]);
+
+  async function save(body: Record<string, unknown>) {
+    setSaving(true);
+    setError(null);
+    const res = await calendarApi<unknown>({ method: "POST", body: JSON.stringify(body) });
+    setSaving(false);
+    if (res.error) {
+      setError(res.error);
+      return false;
+    }
+    setReloadKey((k) => k + 1);
+    return true;
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    const ok =
+      form === "holiday"
+        ? await save({ kind: "holiday", date: formDate, name: formName })
+        : await save({
+            kind: "session",
+            date: formDate,
+            window_label: formName || "Extra session",
+            planned_time: formTime,
+            is_extra: true,
+          });
+    if (ok) {
+      setForm(null);
+      setFormDate("");
+      setFormName("");
+    }
+  }
+
+  const upcoming = (calendar?.days ?? []).slice(0, 14);
+  const next = (calendar?.days ?? [])
+    .flatMap((d) => d.sessions)
+    .find((s) => s.status === "scheduled" || s.status === "overdue");
+
+  return (
+    <div className="rounded-2xl border border-zinc-800 bg-zinc-950/80 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-[0.65rem] uppercase tracking-[0.2em] text-zinc-500">Fixing calendar</p>
+          <p className="text-sm text-zinc-400">
+            Business days, holidays and fixing sessions (Juba time). Drives the daily ingestion.
+          </p>
+        </div>
+        {canEdit && (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setForm(form === "holiday" ? null : "holiday")}
+              className="rounded-full border border-zinc-700 bg-black px-3 py-1.5 text-[0.7rem] text-zinc-100 hover:bg-zinc-900"
+            >
+              + Holiday
+            </button>
+            <button
+              type="button"
+              onClick={() => setForm(form === "session" ? null : "session")}
+              className="rounded-full border border-zinc-700 bg-black px-3 py-1.5 text-[0.7rem] text-zinc-100 hover:bg-zinc-900"
+            >
+              + Extra session
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-[0.75rem] text-red-400">{error}</p>}
+
+      {form && canEdit && (
+        <form onSubmit={handleSubmit} className="grid gap-2 rounded-xl border border-zinc-900 bg-black/60 p-3 sm:grid-cols-4">
+          <input
+            type="date"
+            value={formDate}
+            onChange={(e) => setFormDate(e.target.value)}
+            required
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={formName}
+            onChange={(e) => setFormName(e.target.value)}
+            placeholder={form === "holiday" ? "Holiday name (e.g. Eid al-Fitr)" : "Session label"}
+            required={form === "holiday"}
+            className={inputClass}
+          />
+          {form === "session" ? (
+            <input
+              type="time"
+              value={formTime}
+              onChange={(e) => setFormTime(e.target.value)}
+              required
+              className={inputClass}
+            />
+          ) : (
+            <span />
+          )}
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded-full bg-emerald-500 px-3 py-1.5 text-[0.75rem] font-medium text-black hover:bg-emerald-400 disabled:opacity-70"
+          >
+            {saving ? "Saving…" : form === "holiday" ? "Add holiday" : "Add session"}
+          </button>
+        </form>
+      )}
+
+      <div className="rounded-xl border border-zinc-900 bg-black/60 p-3 text-xs space-y-2">
+        {loading && !calendar ? (
+          <p className="text-[0.75rem] text-zinc-500">Loading calendar…</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-zinc-400">Next fixing due</span>
+              <span className="rounded-full bg-emerald-500/10 px-2 py-0.5 text-[0.75rem] text-emerald-400">
+                {next ? `${next.date} ${jubaTime(next.planned_at)} · ${next.window_label}` : "None scheduled"}
+              </span>
+            </div>
+
+            <ul className="divide-y divide-zinc-900">
+              {upcoming.map((d) => (
+                <li key={d.date} className="flex items-start justify-between gap-3 py-1.5">
+                  <span className={d.business_day ? "text-zinc-200" : "text-zinc-500"}>
+                    {d.date} <span className="text-zinc-500">{d.weekday.slice(0, 3)}</span>
+                  </span>
+                  <span className="flex flex-col items-end gap-0.5 text-right">
+                    {d.holiday && <span className="text-red-400">{d.holiday}</span>}
+                    {!d.business_day && !d.holiday && <span className="text-zinc-600">Weekend</span>}
+                    {d.sessions.map((s) => (
+                      <span key={s.window_label} className={STATUS_CLASS[s.status]}>
+                        {s.window_label} · planned {jubaTime(s.planned_at)}
+                        {s.actual_at
+                          ? ` · fixed ${jubaTime(s.actual_at)}${
+                              s.delay_minutes ? ` (${s.delay_minutes > 0 ? "+" : ""}${s.delay_minutes} min)` : ""
+                            }`
+                          : ""}
+                        {s.extra ? " · extra" : ""}
+                        {canEdit && s.status !== "completed" && s.status !== "cancelled" && (
+                          <>
+                            {" "}
+                            <button
+                              type="button"
+                              onClick={() =>
+                                save({
+                                  kind: "session",
+                                  date: s.date,
+                                  window_label: s.window_label,
+                                  planned_time: s.extra ? jubaTime(s.planned_at) : null,
+                                  is_extra: s.extra,
+                                  actual_at: new Date().toISOString(),
+                                })
+                              }
+                              className="text-emerald-400 hover:text-emerald-300"
+                            >
+                              mark fixed
+                            </button>{" "}
+                            <button
+                              type="button"
+                              onClick={() =>
+                                save({
+                                  kind: "session",
+                                  date: s.date,
+                                  window_label: s.window_label,
+                                  planned_time: s.extra ? jubaTime(s.planned_at) : null,
+                                  is_extra: s.extra,
+                                  cancelled: true,
+                                })
+                              }
+                              className="text-zinc-500 hover:text-zinc-300"
+                            >
+                              cancel
+                            </button>
+                          </>
+                        )}
+                      </span>
+                    ))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {calendar?.windows.length ? (
+              <p className="text-[0.7rem] text-zinc-500">
+                Windows:{" "}
+                {calendar.windows
+                  .map(
+                    (w) =>
+                      `${w.label} ${String(w.planned_time).slice(0, 5)} (${w.weekdays
+                        .map((d) => DAY_SHORT[d])
+                        .join(", ")})${w.is_active ? "" : " – inactive"}`
+                  )
+                  .join("; ")}
+              </p>
+            ) : null}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
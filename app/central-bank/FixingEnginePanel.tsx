@@ -0,0 +1,530 @@
+"use client";
+
+import { useEffect, useState, FormEvent } from "react";
+import { fetchWithSupabaseAuth } from "@/lib/supabase-browser";
+
+// Bank submissions → outlier trimming → weighted mid → official fixing.
+// The calculation itself lives in lib/centralBank/fixingEngine.ts.
+
+type Submission = {
+  id: string;
+  as_of_date: string;
+  window_label: string;
+  bank_code: string;
+  bank_name: string | null;
+  rate_mid: number;
+  volume: number | null;
+  submitted_at: string;
+  created_email: string | null;
+};
+
+type Decision = {
+  submission_id: string | null;
+  bank_code: string;
+  rate_mid: number;
+  volume: number | null;
+  included: boolean;
+  weight: number;
+  reason: string | null;
+};
+
+type RunResult = {
+  window_label: string;
+  outcome: "preview" | "published" | "quarantined";
+  gate_reasons: string[];
+  rate_mid: number;
+  submission_count: number;
+  included_count: number;
+  decisions: Decision[];
+};
+
+type RunRow = {
+  id: string;
+  as_of_date: string;
+  quote_currency: string;
+  window_label: string;
+  method: string;
+  weighting: string;
+  rate_mid: number;
+  submission_count: number;
+  included_count: number;
+  outcome: "published" | "quarantined";
+  gate_reasons: string[];
+  created_email: string | null;
+  created_at: string;
+  fixing_run_decisions?: Decision[];
+};
+
+type ApiResult<T> = { data: T | null; error: string | null; status: number };
+
+async function api<T>(path: string, init: RequestInit = {}): Promise<ApiResult<T>> {
+  const res = await fetchWithSupabaseAuth(path, {
+    cache: "no-store",
+    ...init,
+    headers: init.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) {
+    return { data: null, error: json?.error ?? `Request failed (HTTP ${res.status})`, status: res.status };
+  }
+  return { data: (json?.data ?? null) as T | null, error: null, status: res.status };
+}
+
+function formatRate(n: number) {
+  return Number(n).toLocaleString("en-US", { maximumFractionDigits: 4 });
+}
+
+const inputClass =
+  "w-full rounded-lg border border-zinc-800 bg-black px-2 py-1.5 text-xs text-zinc-100 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/60";
+
+function DecisionsTable({ decisions }: { decisions: Decision[] }) {
+  return (
+    <table className="w-full text-[0.75rem]">
+      <thead className="text-zinc-500">
+        <tr>
+          <th className="py-1 text-left font-normal">Bank</th>
+          <th className="py-1 text-right font-normal">Rate</th>
+          <th className="py-1 text-right font-normal">Volume</th>
+          <th className="py-1 text-right font-normal">Weight</th>
+          <th className="py-1 pl-3 text-left font-normal">Decision</th>
+        </tr>
+      </thead>
+      <tbody>
+        {decisions.map((d) => (
+          <tr key={`${d.bank_code}-${d.submission_id ?? ""}`} className="border-t border-zinc-900">
+            <td className="py-1 text-zinc-200">{d.bank_code}</td>
+            <td className="py-1 text-right text-zinc-200">{formatRate(d.rate_mid)}</td>
+            <td className="py-1 text-right text-zinc-400">
+              {d.volume == null ? "—" : Number(d.volume).toLocaleString("en-US")}
+            </td>
+            <td className="py-1 text-right text-zinc-400">
+              {d.included ? `${(Number(d.weight) * 100).toFixed(1)}%` : "—"}
+            </td>
+            <td className={`py-1 pl-3 ${d.included ? "text-emerald-400" : "text-amber-400"}`}>
+              {d.included ? "Used" : `Dropped · ${d.reason ?? ""}`}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function FixingEnginePanel({
+  canSubmit,
+  canPublish,
+  defaultDate,
+  defaultWindow,
+}: {
+  canSubmit: boolean;
+  canPublish: boolean;
+  defaultDate: string;
+  defaultWindow: string;
+}) {
+  const [date, setDate] = useState(defaultDate);
+  const [quote, setQuote] = useState("USD");
+  const [windowLabel, setWindowLabel] = useState(defaultWindow);
+
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [runs, setRuns] = useState<RunRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [bankCode, setBankCode] = useState("");
+  const [bankName, setBankName] = useState("");
+  const [bankRate, setBankRate] = useState("");
+  const [bankVolume, setBankVolume] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const [method, setMethod] = useState<"trimmed_mean" | "mad">("trimmed_mean");
+  const [weighting, setWeighting] = useState<"volume" | "equal">("volume");
+  const [trimPct, setTrimPct] = useState("20");
+  const [madThreshold, setMadThreshold] = useState("3");
+  const [result, setResult] = useState<RunResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!date || quote.length !== 3) return;
+    let active = true;
+
+    async function loadWindow() {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ date, quote });
+      if (windowLabel.trim()) params.set("window", windowLabel.trim());
+
+      const [subs, recent] = await Promise.all([
+        api<Submission[]>(`/api/central-bank/fixing-submissions?${params.toString()}`),
+        api<RunRow[]>(`/api/central-bank/fixing-runs?quote=${encodeURIComponent(quote)}&limit=5`),
+      ]);
+      if (!active) return;
+
+      setSubmissions(subs.data ?? []);
+      setRuns(recent.data ?? []);
+      setError(subs.error ?? recent.error);
+      setLoading(false);
+    }
+
+    loadWindow();
+
+    return () => {
+      active = false;
+    };
+  }, [date, quote, windowLabel, reloadKey]);
+
+  function reload() {
+    setResult(null);
+    setReloadKey((k) => k + 1);
+  }
+
+  async function handleAddSubmission(e: FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const res = await api<Submission>("/api/central-bank/fixing-submissions", {
+      method: "POST",
+      body: JSON.stringify({
+        as_of_date: date,
+        quote_currency: quote,
+        window_label: windowLabel.trim() || null,
+        bank_code: bankCode,
+        bank_name: bankName || null,
+        rate_mid: bankRate,
+        volume: bankVolume || null,
+      }),
+    });
+
+    setSaving(false);
+    if (res.error) {
+      setError(res.error);
+      return;
+    }
+    setBankCode("");
+    setBankName("");
+    setBankRate("");
+    setBankVolume("");
+    reload();
+  }
+
+  async function handleDeleteSubmission(id: string) {
+    if (!confirm("Remove this submission?")) return;
+    const res = await api<unknown>(`/api/central-bank/fixing-submissions?id=${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+    if (res.error) {
+      setError(res.error);
+      return;
+    }
+    reload();
+  }
+
+  async function handleRun(publish: boolean, overwrite = false) {
+    if (publish && !overwrite && !confirm(`Publish the computed ${quote} fixing for ${date} as the official rate?`)) {
+      return;
+    }
+    setRunning(true);
+    setError(null);
+
+    const res = await api<RunResult>("/api/central-bank/fixing-runs", {
+      method: "POST",
+      body: JSON.stringify({
+        as_of_date: date,
+        quote_currency: quote,
+        window_label: windowLabel.trim() || null,
+        method,
+        weighting,
+        trim_pct: Number(trimPct) / 100,
+        mad_threshold: Number(madThreshold),
+        publish,
+        overwrite,
+      }),
+    });
+
+    setRunning(false);
+    if (publish && !overwrite && res.status === 409 && confirm(`${res.error} Replace it?`)) {
+      return handleRun(true, true);
+    }
+    if (res.error) {
+      setResult(null);
+      setError(res.error);
+      return;
+    }
+    setResult(res.data);
+    if (publish) setReloadKey((k) => k + 1);
+  }
+
+  return (
+    <div className="rounded-2xl border border-zinc-800 bg-zinc-950/80 p-4 space-y-4">
+      <div>
+        <p className="text-[0.65rem] uppercase tracking-[0.2em] text-zinc-500">Fixing engine</p>
+        <p className="text-sm text-zinc-400">
+          Commercial bank submissions for a fixing window, trimmed for outliers and averaged into
+          the official fixing.
+        </p>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-3">
+        <div className="space-y-1">
+          <label className="text-[0.7rem] text-zinc-400">Fixing date</label>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => {
+              setDate(e.target.value);
+              setResult(null);
+            }}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[0.7rem] text-zinc-400">Currency (SSP per 1 unit)</label>
+          <input
+            type="text"
+            value={quote}
+            maxLength={3}
+            onChange={(e) => {
+              setQuote(e.target.value.toUpperCase());
+              setResult(null);
+            }}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[0.7rem] text-zinc-400">Window</label>
+          <input
+            type="text"
+            value={windowLabel}
+            onChange={(e) => {
+              setWindowLabel(e.target.value);
+              setResult(null);
+            }}
+            placeholder="Scheduled window"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-[0.75rem] text-red-400">{error}</p>}
+
+      <div className="rounded-xl border border-zinc-900 bg-black/60 p-3 space-y-3">
+        <p className="text-[0.7rem] text-zinc-500">
+          Submissions {loading ? "· loading…" : `· ${submissions.length}`}
+        </p>
+        {submissions.length ? (
+          <table className="w-full text-[0.75rem]">
+            <thead className="text-zinc-500">
+              <tr>
+                <th className="py-1 text-left font-normal">Bank</th>
+                <th className="py-1 text-right font-normal">Rate</th>
+                <th className="py-1 text-right font-normal">Volume</th>
+                <th className="py-1 pl-3 text-left font-normal">Entered by</th>
+                {canSubmit && <th className="py-1" />}
+              </tr>
+            </thead>
+            <tbody>
+              {submissions.map((s) => (
+                <tr key={s.id} className="border-t border-zinc-900">
+                  <td className="py-1 text-zinc-200">
+                    {s.bank_code}
+                    {s.bank_name ? <span className="text-zinc-500"> · {s.bank_name}</span> : null}
+                  </td>
+                  <td className="py-1 text-right text-zinc-200">{formatRate(s.rate_mid)}</td>
+                  <td className="py-1 text-right text-zinc-400">
+                    {s.volume == null ? "—" : Number(s.volume).toLocaleString("en-US")}
+                  </td>
+                  <td className="py-1 pl-3 text-zinc-500">{s.created_email ?? "—"}</td>
+                  {canSubmit && (
+                    <td className="py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteSubmission(s.id)}
+                        className="text-[0.7rem] text-red-400 hover:text-red-300"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          !loading && <p className="text-[0.75rem] text-zinc-500">No submissions for this window yet.</p>
+        )}
+
+        {canSubmit && (
+          <form onSubmit={handleAddSubmission} className="grid gap-2 border-t border-zinc-900 pt-3 sm:grid-cols-5">
+            <input
+              type="text"
+              value={bankCode}
+              onChange={(e) => setBankCode(e.target.value)}
+              placeholder="Bank code"
+              required
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={bankName}
+              onChange={(e) => setBankName(e.target.value)}
+              placeholder="Bank name (optional)"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={bankRate}
+              onChange={(e) => setBankRate(e.target.value)}
+              placeholder="Rate (SSP)"
+              required
+              className={inputClass}
+            />
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={bankVolume}
+              onChange={(e) => setBankVolume(e.target.value)}
+              placeholder={`Volume (${quote || "quote"})`}
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-full border border-zinc-700 bg-black px-3 py-1.5 text-[0.75rem] text-zinc-100 hover:bg-zinc-900 disabled:opacity-70"
+            >
+              {saving ? "Saving…" : "Add / replace"}
+            </button>
+          </form>
+        )}
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-4">
+        <div className="space-y-1">
+          <label className="text-[0.7rem] text-zinc-400">Outlier rule</label>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as "trimmed_mean" | "mad")}
+            className={inputClass}
+          >
+            <option value="trimmed_mean">Trimmed mean</option>
+            <option value="mad">Median absolute deviation</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          {method === "trimmed_mean" ? (
+            <>
+              <label className="text-[0.7rem] text-zinc-400">Trim each side (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="49"
+                value={trimPct}
+                onChange={(e) => setTrimPct(e.target.value)}
+                className={inputClass}
+              />
+            </>
+          ) : (
+            <>
+              <label className="text-[0.7rem] text-zinc-400">Limit (scaled MADs)</label>
+              <input
+                type="number"
+                step="0.5"
+                min="0.5"
+                value={madThreshold}
+                onChange={(e) => setMadThreshold(e.target.value)}
+                className={inputClass}
+              />
+            </>
+          )}
+        </div>
+        <div className="space-y-1">
+          <label className="text-[0.7rem] text-zinc-400">Weighting</label>
+          <select
+            value={weighting}
+            onChange={(e) => setWeighting(e.target.value as "volume" | "equal")}
+            className={inputClass}
+          >
+            <option value="volume">Volume-weighted</option>
+            <option value="equal">Equal-weighted</option>
+          </select>
+        </div>
+        <div className="flex items-end gap-2">
+          <button
+            type="button"
+            disabled={running || !submissions.length}
+            onClick={() => handleRun(false)}
+            className="rounded-full border border-zinc-700 bg-black px-3 py-1.5 text-[0.75rem] text-zinc-100 hover:bg-zinc-900 disabled:opacity-50"
+          >
+            Preview
+          </button>
+          {canPublish && (
+            <button
+              type="button"
+              disabled={running || !submissions.length}
+              onClick={() => handleRun(true)}
+              className="rounded-full bg-emerald-500 px-3 py-1.5 text-[0.75rem] font-medium text-black hover:bg-emerald-400 disabled:opacity-50"
+            >
+              {running ? "Working…" : "Publish"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {result && (
+        <div className="rounded-xl border border-zinc-900 bg-black/60 p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-zinc-100">
+              {quote}/SSP {formatRate(result.rate_mid)}
+              <span className="ml-2 text-[0.75rem] text-zinc-500">
+                {result.included_count} of {result.submission_count} used · {result.window_label}
+              </span>
+            </p>
+            <span
+              className={`rounded-full px-2 py-0.5 text-[0.7rem] ${
+                result.outcome === "published"
+                  ? "bg-emerald-500/10 text-emerald-400"
+                  : result.outcome === "quarantined"
+                    ? "bg-amber-500/10 text-amber-400"
+                    : "bg-zinc-800 text-zinc-300"
+              }`}
+            >
+              {result.outcome === "preview" ? "Preview (not saved)" : result.outcome}
+            </span>
+          </div>
+          {result.gate_reasons.length > 0 && (
+            <p className="text-[0.75rem] text-amber-400">
+              Held for review: {result.gate_reasons.join(" ")}
+            </p>
+          )}
+          <DecisionsTable decisions={result.decisions} />
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-[0.7rem] text-zinc-500">Recent {quote} runs</p>
+          {runs.map((r) => (
+            <details key={r.id} className="rounded-xl border border-zinc-900 bg-black/60 px-3 py-2 text-[0.75rem]">
+              <summary className="cursor-pointer text-zinc-300">
+                {r.as_of_date} · {formatRate(r.rate_mid)} · {r.method === "mad" ? "MAD" : "trimmed mean"},{" "}
+                {r.weighting} · {r.included_count}/{r.submission_count} used ·{" "}
+                <span className={r.outcome === "published" ? "text-emerald-400" : "text-amber-400"}>
+                  {r.outcome}
+                </span>
+                <span className="text-zinc-500"> · {r.created_email ?? "unknown"}</span>
+              </summary>
+              <div className="mt-2">
+                <DecisionsTable decisions={r.fixing_run_decisions ?? []} />
+              </div>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 "use client";
 
-import { useEffect, useMemo, useState, FormEvent } from "react";
+import { useEffect, useState, FormEvent } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import dynamic from "next/dynamic";
-import { getSupabaseBrowserClient } from "@/lib/supabase-browser";
+import { fetchWithSupabaseAuth, getSupabaseBrowserClient } from "@/lib/supabase-browser";
+import FixingEnginePanel from "./FixingEnginePanel";
+import FixingCalendarCard from "./FixingCalendarCard";
 
 // ✅ IMPORTANT: prevent SSR/prerender evaluation of chart modules
 const EngineHistoryChartCard = dynamic(() => import("./EngineHistoryChartCard"), {
@@ -41,6 +43,8 @@ const EngineHistoryChartV2 = dynamic(() => import("@/components/EngineHistoryCha
 type SupabaseUser = {
   id: string;
   email?: string;
+  role: string | null;
+  permissions: string[];
 };
 
 type ManualOverrideRow = {
@@ -49,11 +53,34 @@ type ManualOverrideRow = {
   base_currency: string;
   quote_currency: string;
   rate_mid: number;
+  rate_bid: number | null;
+  rate_ask: number | null;
+  segment: string;
   is_official: boolean;
   is_manual_override: boolean;
   notes: string | null;
+  status: ManualFixingStatus;
   created_email: string | null;
   created_at: string;
+  manual_fixing_events?: ManualFixingEvent[];
+};
+
+type ManualFixingStatus = "draft" | "pending_approval" | "approved" | "rejected";
+
+type ManualFixingEvent = {
+  action: string;
+  from_status: string | null;
+  to_status: string;
+  actor_email: string | null;
+  comment: string | null;
+  occurred_at: string;
+};
+
+const STATUS_STYLES: Record<ManualFixingStatus, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-zinc-800 text-zinc-300" },
+  pending_approval: { label: "Pending approval", className: "bg-amber-500/10 text-amber-400" },
+  approved: { label: "Approved", className: "bg-emerald-500/10 text-emerald-400" },
+  rejected: { label: "Rejected", className: "bg-red-500/10 text-red-400" },
 };
 
 type FixingScheduleRow = {
@@ -75,9 +102,13 @@ function downloadManualFixingsCsv(rows: ManualOverrideRow[], filename: string) {
     "base_currency",
     "quote_currency",
     "rate_mid",
+    "rate_bid",
+    "rate_ask",
+    "segment",
     "is_official",
     "is_manual_override",
     "notes",
+    "status",
     "created_email",
     "created_at",
   ];
@@ -100,9 +131,13 @@ function downloadManualFixingsCsv(rows: ManualOverrideRow[], filename: string) {
       row.base_currency,
       row.quote_currency,
       row.rate_mid,
+      row.rate_bid,
+      row.rate_ask,
+      row.segment,
       row.is_official,
       row.is_manual_override,
       row.notes ?? "",
+      row.status,
       row.created_email ?? "",
       row.created_at,
     ].map(toCsvValue);
@@ -132,30 +167,68 @@ function formatDateWithWeekday(dateStr: string): string {
   return `${dateStr} (${weekday})`;
 }
 
-const DEFAULT_ALLOWED_EMAILS = "admin@savvygorilla.tech,dau.garang@boss.gov.ss";
+type ApiResult<T> = { data: T | null; error: string | null; status: number };
+
+// Central-bank data is only served by /api/central-bank/*, which verifies the
+// Supabase session and the allowlist / role server-side.
+async function centralBankApi<T>(path: string, init: RequestInit = {}): Promise<ApiResult<T>> {
+  const res = await fetchWithSupabaseAuth(path, {
+    cache: "no-store",
+    ...init,
+    headers: init.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const json = await res.json().catch(() => null);
 
-function normalizeEmail(email?: string | null) {
-  return (email ?? "").trim().toLowerCase();
+  if (!res.ok) {
+    return { data: null, error: json?.error ?? `Request failed (HTTP ${res.status})`, status: res.status };
+  }
+  return { data: (json?.data ?? null) as T | null, error: null, status: res.status };
+}
+
+function normaliseManualRow(row: ManualOverrideRow): ManualOverrideRow {
+  return {
+    id: row.id,
+    as_of_date: row.as_of_date,
+    base_currency: row.base_currency,
+    quote_currency: row.quote_currency,
+    rate_mid: Number(row.rate_mid),
+    rate_bid: row.rate_bid == null ? null : Number(row.rate_bid),
+    rate_ask: row.rate_ask == null ? null : Number(row.rate_ask),
+    segment: row.segment ?? "official",
+    is_official: row.is_official,
+    is_manual_override: row.is_manual_override,
+    notes: row.notes ?? null,
+    status: row.status ?? "approved",
+    created_email: row.created_email ?? null,
+    created_at: row.created_at,
+    manual_fixing_events: [...(row.manual_fixing_events ?? [])].sort((a, b) =>
+      a.occurred_at.localeCompare(b.occurred_at)
+    ),
+  };
 }
 
-function parseAllowedEmails(raw: string | undefined) {
-  const value = (raw ?? DEFAULT_ALLOWED_EMAILS).trim();
-  const parts = value
-    .split(",")
-    .map((s) => s.trim().toLowerCase())
-    .filter(Boolean);
-  return new Set(parts);
+// Tooltip for the status badge: the latest workflow step and its comment.
+function lastEventSummary(row: ManualOverrideRow): string | undefined {
+  const last = row.manual_fixing_events?.[row.manual_fixing_events.length - 1];
+  if (!last) return undefined;
+  const who = last.actor_email ?? "unknown";
+  return `${last.action} by ${who} at ${last.occurred_at}${last.comment ? ` — ${last.comment}` : ""}`;
+}
+
+function normaliseScheduleRow(row: FixingScheduleRow): FixingScheduleRow {
+  return {
+    id: row.id,
+    next_fixing_date: row.next_fixing_date,
+    window_label: row.window_label ?? null,
+    notes: row.notes ?? null,
+    created_email: row.created_email ?? null,
+  };
 }
 
 export default function CentralBankDashboardPage() {
   const router = useRouter();
   const supabase = getSupabaseBrowserClient();
 
-  const allowedEmails = useMemo(
-    () => parseAllowedEmails(process.env.NEXT_PUBLIC_CENTRAL_BANK_ALLOWED_EMAILS),
-    []
-  );
-
   const [user, setUser] = useState<SupabaseUser | null>(null);
   const [loadingUser, setLoadingUser] = useState(true);
 
@@ -183,6 +256,9 @@ export default function CentralBankDashboardPage() {
   const [formBase, setFormBase] = useState("SSP");
   const [formQuote, setFormQuote] = useState("USD");
   const [formRate, setFormRate] = useState("");
+  const [formBid, setFormBid] = useState("");
+  const [formAsk, setFormAsk] = useState("");
+  const [formSegment, setFormSegment] = useState("official");
   const [formOfficial, setFormOfficial] = useState(true);
   const [formOverride, setFormOverride] = useState(false);
   const [formNotes, setFormNotes] = useState("");
@@ -210,48 +286,38 @@ export default function CentralBankDashboardPage() {
     async function loadAndAuthorizeUser() {
       setLoadingUser(true);
 
-      const { data, error } = await supabase.auth.getUser();
+      const { data } = await supabase.auth.getSession();
       if (!isMounted) return;
 
-      if (error || !data?.user) {
+      if (!data?.session) {
         router.replace("/central-bank/login");
         setLoadingUser(false);
         return;
       }
 
-      const u = data.user;
-      const email = normalizeEmail(u.email);
-
-      // 1) Allowlist fast path (explicit emails)
-      if (email && allowedEmails.has(email)) {
-        setUser({ id: u.id, email: u.email ?? undefined });
-        setLoadingUser(false);
-        return;
-      }
-
-      // 2) Role-based check: profiles.role === 'admin'
-      const { data: profile, error: profileError } = await supabase
-        .from("profiles")
-        .select("role")
-        .eq("id", u.id)
-        .maybeSingle();
-
+      // Allowlist and profiles.role are checked by the server.
+      const res = await centralBankApi<Omit<SupabaseUser, "email"> & { email: string }>(
+        "/api/central-bank/me"
+      );
       if (!isMounted) return;
 
-      if (profileError) {
-        await denyAndRedirect("Profile lookup failed", "failed");
+      if (res.status === 403) {
+        await denyAndRedirect("User is not admin/allowed", "unauthorised");
         return;
       }
 
-      const role = String(profile?.role ?? "").trim().toLowerCase();
-      if (role === "admin") {
-        setUser({ id: u.id, email: u.email ?? undefined });
-        setLoadingUser(false);
+      if (!res.data) {
+        await denyAndRedirect(res.error ?? "Session check failed", "failed");
         return;
       }
 
-      // 3) Not allowed
-      await denyAndRedirect("User is not admin/allowed", "unauthorised");
+      setUser({
+        id: res.data.id,
+        email: res.data.email,
+        role: res.data.role,
+        permissions: res.data.permissions ?? [],
+      });
+      setLoadingUser(false);
     }
 
     loadAndAuthorizeUser();
@@ -259,7 +325,7 @@ export default function CentralBankDashboardPage() {
     return () => {
       isMounted = false;
     };
-  }, [router, supabase, allowedEmails]);
+  }, [router, supabase]);
 
   useEffect(() => {
     if (!user) return;
@@ -271,49 +337,20 @@ export default function CentralBankDashboardPage() {
       setOverridesError(null);
 
       try {
-        const { data, error } = await supabase
-          .from("manual_fixings")
-          .select(
-            `
-            id,
-            as_of_date,
-            base_currency,
-            quote_currency,
-            rate_mid,
-            is_official,
-            is_manual_override,
-            notes,
-            created_email,
-            created_at
-          `
-          )
-          .order("as_of_date", { ascending: false })
-          .limit(50);
+        const res = await centralBankApi<ManualOverrideRow[]>(
+          "/api/central-bank/manual-fixings?limit=50"
+        );
 
         if (!active) return;
 
-        if (error) {
-          console.error("Failed to load manual_fixings:", error);
+        if (res.error) {
+          console.error("Failed to load manual fixings:", res.error);
           setOverrides([]);
-          setOverridesError(
-            error.message ?? "Could not load manual fixings. Check that the table exists."
-          );
+          setOverridesError(res.error);
         } else {
-          const normalised: ManualOverrideRow[] = (data ?? []).map((row) => ({
-            id: row.id,
-            as_of_date: row.as_of_date,
-            base_currency: row.base_currency,
-            quote_currency: row.quote_currency,
-            rate_mid: Number(row.rate_mid),
-            is_official: row.is_official,
-            is_manual_override: row.is_manual_override,
-            notes: row.notes ?? null,
-            created_email: row.created_email ?? null,
-            created_at: row.created_at,
-          }));
-          setOverrides(normalised);
+          setOverrides((res.data ?? []).map(normaliseManualRow));
         }
-      } catch (err: any) {
+      } catch (err: unknown) {
         if (!active) return;
         console.error("Unexpected loadOverrides error:", err);
         setOverrides([]);
@@ -328,7 +365,7 @@ export default function CentralBankDashboardPage() {
     return () => {
       active = false;
     };
-  }, [supabase, user]);
+  }, [user]);
 
   useEffect(() => {
     if (!user) return;
@@ -340,46 +377,24 @@ export default function CentralBankDashboardPage() {
       setScheduleError(null);
 
       try {
-        const { data, error } = await supabase
-          .from("fixing_schedule")
-          .select(
-            `
-            id,
-            next_fixing_date,
-            window_label,
-            notes,
-            created_email,
-            created_at
-          `
-          )
-          .order("next_fixing_date", { ascending: true })
-          .limit(1);
+        const res = await centralBankApi<FixingScheduleRow>("/api/central-bank/fixing-schedule");
 
         if (!active) return;
 
-        if (error) {
-          console.error("Failed to load fixing_schedule:", error);
+        if (res.error) {
+          console.error("Failed to load fixing schedule:", res.error);
           setSchedule(null);
-          setScheduleError(
-            error.message ?? "Could not load fixing schedule. Check that the table exists."
-          );
-        } else if (data && data.length > 0) {
-          const row = data[0];
-          const normalised: FixingScheduleRow = {
-            id: row.id,
-            next_fixing_date: row.next_fixing_date,
-            window_label: row.window_label ?? null,
-            notes: row.notes ?? null,
-            created_email: row.created_email ?? null,
-          };
-          setSchedule(normalised);
+          setScheduleError(res.error);
+        } else if (res.data) {
+          const row = normaliseScheduleRow(res.data);
+          setSchedule(row);
           setScheduleDate(row.next_fixing_date);
           setScheduleWindow(row.window_label ?? "Normal fixing window");
           setScheduleNotes(row.notes ?? "");
         } else {
           setSchedule(null);
         }
-      } catch (err: any) {
+      } catch (err: unknown) {
         if (!active) return;
         console.error("Unexpected loadSchedule error:", err);
         setSchedule(null);
@@ -394,7 +409,7 @@ export default function CentralBankDashboardPage() {
     return () => {
       active = false;
     };
-  }, [supabase, user]);
+  }, [user]);
 
   async function handleSignOut() {
     await supabase.auth.signOut();
@@ -407,6 +422,9 @@ export default function CentralBankDashboardPage() {
     setFormBase("SSP");
     setFormQuote("USD");
     setFormRate("");
+    setFormBid("");
+    setFormAsk("");
+    setFormSegment("official");
     setFormOfficial(true);
     setFormOverride(false);
     setFormNotes("");
@@ -425,6 +443,9 @@ export default function CentralBankDashboardPage() {
     setFormBase(row.base_currency);
     setFormQuote(row.quote_currency);
     setFormRate(String(row.rate_mid));
+    setFormBid(row.rate_bid == null ? "" : String(row.rate_bid));
+    setFormAsk(row.rate_ask == null ? "" : String(row.rate_ask));
+    setFormSegment(row.segment);
     setFormOfficial(row.is_official);
     setFormOverride(row.is_manual_override);
     setFormNotes(row.notes ?? "");
@@ -446,116 +467,56 @@ export default function CentralBankDashboardPage() {
       return;
     }
 
+    // Bid / ask are optional; when given they must bracket the mid.
+    const parsedBid = formBid.trim() ? Number(formBid.replace(/,/g, "")) : null;
+    const parsedAsk = formAsk.trim() ? Number(formAsk.replace(/,/g, "")) : null;
+    if (
+      (parsedBid !== null && (!(parsedBid > 0) || parsedBid > parsedRate)) ||
+      (parsedAsk !== null && (!(parsedAsk > 0) || parsedAsk < parsedRate))
+    ) {
+      setSavingForm(false);
+      setFormError("Bid and ask must be positive and satisfy bid ≤ mid ≤ ask.");
+      return;
+    }
+
     try {
-      if (editingRowId) {
-        const { data, error } = await supabase
-          .from("manual_fixings")
-          .update({
-            as_of_date: formDate,
-            base_currency: formBase,
-            quote_currency: formQuote,
-            rate_mid: parsedRate,
-            is_official: formOfficial,
-            is_manual_override: formOverride,
-            notes: formNotes.length ? formNotes : null,
-          })
-          .eq("id", editingRowId)
-          .select(
-            `
-            id,
-            as_of_date,
-            base_currency,
-            quote_currency,
-            rate_mid,
-            is_official,
-            is_manual_override,
-            notes,
-            created_email,
-            created_at
-          `
-          )
-          .single();
-
-        if (error) {
-          console.error("Failed to update manual_fixings:", error);
-          setFormError(error.message ?? "Failed to update manual fixing.");
-          setSavingForm(false);
-          return;
-        }
+      const payload = {
+        as_of_date: formDate,
+        base_currency: formBase,
+        quote_currency: formQuote,
+        rate_mid: parsedRate,
+        rate_bid: parsedBid,
+        rate_ask: parsedAsk,
+        segment: formSegment,
+        is_official: formOfficial,
+        is_manual_override: formOverride,
+        notes: formNotes.length ? formNotes : null,
+      };
 
-        const updatedRow: ManualOverrideRow = {
-          id: data.id,
-          as_of_date: data.as_of_date,
-          base_currency: data.base_currency,
-          quote_currency: data.quote_currency,
-          rate_mid: Number(data.rate_mid),
-          is_official: data.is_official,
-          is_manual_override: data.is_manual_override,
-          notes: data.notes ?? null,
-          created_email: data.created_email ?? null,
-          created_at: data.created_at,
-        };
-
-        setOverrides((prev) => prev.map((row) => (row.id === updatedRow.id ? updatedRow : row)));
-      } else {
-        const { data, error } = await supabase
-          .from("manual_fixings")
-          .insert([
-            {
-              as_of_date: formDate,
-              base_currency: formBase,
-              quote_currency: formQuote,
-              rate_mid: parsedRate,
-              is_official: formOfficial,
-              is_manual_override: formOverride,
-              notes: formNotes.length ? formNotes : null,
-              created_by: user.id,
-              created_email: user.email ?? null,
-            },
-          ])
-          .select(
-            `
-            id,
-            as_of_date,
-            base_currency,
-            quote_currency,
-            rate_mid,
-            is_official,
-            is_manual_override,
-            notes,
-            created_email,
-            created_at
-          `
-          )
-          .single();
-
-        if (error) {
-          console.error("Failed to insert manual_fixings:", error);
-          setFormError(error.message ?? "Failed to save manual fixing.");
-          setSavingForm(false);
-          return;
-        }
+      const res = await centralBankApi<ManualOverrideRow>("/api/central-bank/manual-fixings", {
+        method: editingRowId ? "PUT" : "POST",
+        body: JSON.stringify(editingRowId ? { ...payload, id: editingRowId } : payload),
+      });
 
-        const newRow: ManualOverrideRow = {
-          id: data.id,
-          as_of_date: data.as_of_date,
-          base_currency: data.base_currency,
-          quote_currency: data.quote_currency,
-          rate_mid: Number(data.rate_mid),
-          is_official: data.is_official,
-          is_manual_override: data.is_manual_override,
-          notes: data.notes ?? null,
-          created_email: data.created_email ?? null,
-          created_at: data.created_at,
-        };
-
-        setOverrides((prev) => [newRow, ...prev]);
+      if (res.error || !res.data) {
+        console.error("Failed to save manual fixing:", res.error);
+        setFormError(res.error ?? "Failed to save manual fixing.");
+        setSavingForm(false);
+        return;
+      }
+
+      const savedRow = normaliseManualRow(res.data);
+
+      if (editingRowId) {
+        setOverrides((prev) => prev.map((row) => (row.id === savedRow.id ? savedRow : row)));
+      } else {
+        setOverrides((prev) => [savedRow, ...prev]);
       }
 
       setShowForm(false);
       setEditingRowId(null);
       resetFormToDefaults();
-    } catch (err: any) {
+    } catch (err: unknown) {
       console.error("Unexpected manual_fixings save error:", err);
       setFormError("Unexpected error while saving.");
     } finally {
@@ -571,11 +532,14 @@ export default function CentralBankDashboardPage() {
     if (!ok) return;
 
     try {
-      const { error } = await supabase.from("manual_fixings").delete().eq("id", row.id);
-
-      if (error) {
-        console.error("Failed to delete manual_fixings:", error);
-        alert(error.message ?? "Failed to delete manual fixing.");
+      const res = await centralBankApi<{ id: string }>(
+        `/api/central-bank/manual-fixings?id=${encodeURIComponent(row.id)}`,
+        { method: "DELETE" }
+      );
+
+      if (res.error) {
+        console.error("Failed to delete manual fixing:", res.error);
+        alert(res.error);
         return;
       }
 
@@ -586,12 +550,47 @@ export default function CentralBankDashboardPage() {
         resetFormToDefaults();
         setShowForm(false);
       }
-    } catch (err: any) {
+    } catch (err: unknown) {
       console.error("Unexpected delete error:", err);
       alert("Unexpected error while deleting fixing.");
     }
   }
 
+  async function handleTransition(row: ManualOverrideRow, action: "submit" | "approve" | "reject") {
+    if (!user) return;
+
+    const pair = `${row.base_currency}/${row.quote_currency} on ${row.as_of_date}`;
+    const comment = window.prompt(
+      action === "reject"
+        ? `Reason for rejecting ${pair} (required):`
+        : `Comment for ${action === "submit" ? "submitting" : "approving"} ${pair} (optional):`
+    );
+    if (comment === null) return;
+    if (action === "reject" && !comment.trim()) {
+      alert("A reason is required to reject a fixing.");
+      return;
+    }
+
+    try {
+      const res = await centralBankApi<ManualOverrideRow>("/api/central-bank/manual-fixings/transition", {
+        method: "POST",
+        body: JSON.stringify({ id: row.id, action, comment: comment.trim() || null }),
+      });
+
+      if (res.error || !res.data) {
+        console.error(`Failed to ${action} manual fixing:`, res.error);
+        alert(res.error ?? `Failed to ${action} manual fixing.`);
+        return;
+      }
+
+      const savedRow = normaliseManualRow(res.data);
+      setOverrides((prev) => prev.map((r) => (r.id === savedRow.id ? savedRow : r)));
+    } catch (err: unknown) {
+      console.error(`Unexpected ${action} error:`, err);
+      alert(`Unexpected error while trying to ${action} the fixing.`);
+    }
+  }
+
   async function handleSaveSchedule(e: FormEvent) {
     e.preventDefault();
     if (!user) return;
@@ -605,68 +604,26 @@ export default function CentralBankDashboardPage() {
     setScheduleError(null);
 
     try {
-      const payload = {
-        next_fixing_date: scheduleDate,
-        window_label: scheduleWindow || null,
-        notes: scheduleNotes || null,
-        created_by: schedule ? undefined : user.id,
-        created_email: schedule ? undefined : user.email ?? null,
-      };
-
-      let result;
-      if (schedule) {
-        result = await supabase
-          .from("fixing_schedule")
-          .update(payload)
-          .eq("id", schedule.id)
-          .select(
-            `
-            id,
-            next_fixing_date,
-            window_label,
-            notes,
-            created_email,
-            created_at
-          `
-          )
-          .single();
-      } else {
-        result = await supabase
-          .from("fixing_schedule")
-          .insert([payload])
-          .select(
-            `
-            id,
-            next_fixing_date,
-            window_label,
-            notes,
-            created_email,
-            created_at
-          `
-          )
-          .single();
-      }
-
-      const { data, error } = result;
-
-      if (error) {
-        console.error("Failed to save fixing_schedule:", error);
-        setScheduleError(error.message ?? "Failed to save schedule.");
+      const res = await centralBankApi<FixingScheduleRow>("/api/central-bank/fixing-schedule", {
+        method: "PUT",
+        body: JSON.stringify({
+          id: schedule?.id,
+          next_fixing_date: scheduleDate,
+          window_label: scheduleWindow || null,
+          notes: scheduleNotes || null,
+        }),
+      });
+
+      if (res.error || !res.data) {
+        console.error("Failed to save fixing schedule:", res.error);
+        setScheduleError(res.error ?? "Failed to save schedule.");
         setSavingSchedule(false);
         return;
       }
 
-      const row: FixingScheduleRow = {
-        id: data.id,
-        next_fixing_date: data.next_fixing_date,
-        window_label: data.window_label ?? null,
-        notes: data.notes ?? null,
-        created_email: data.created_email ?? null,
-      };
-
-      setSchedule(row);
+      setSchedule(normaliseScheduleRow(res.data));
       setEditingSchedule(false);
-    } catch (err: any) {
+    } catch (err: unknown) {
       console.error("Unexpected save schedule error:", err);
       setScheduleError("Unexpected error while saving schedule.");
     } finally {
@@ -684,6 +641,12 @@ export default function CentralBankDashboardPage() {
 
   if (!user) return null;
 
+  const canDraft = user.permissions.includes("fixings.draft");
+  const canApprove = user.permissions.includes("fixings.approve");
+  const canEditSchedule = user.permissions.includes("schedule.write");
+  const canSeeEngine = user.permissions.includes("engine.read");
+  const canPublish = user.permissions.includes("rates.publish");
+
   return (
     <main className="min-h-screen bg-black text-zinc-100">
       <div className="mx-auto flex max-w-6xl flex-col gap-8 px-4 pb-16 pt-8">
@@ -702,7 +665,10 @@ export default function CentralBankDashboardPage() {
           <div className="flex flex-col items-end gap-2 text-xs">
             <div className="flex items-center gap-2 text-zinc-400">
               <span className="inline-flex h-1.5 w-1.5 rounded-full bg-emerald-400" />
-              <span>{user.email ?? "Authenticated admin"}</span>
+              <span>
+                {user.email ?? "Authenticated user"}
+                {user.role ? ` · ${user.role}` : ""}
+              </span>
             </div>
             <div className="flex items-center gap-2">
               <Link
@@ -735,19 +701,22 @@ export default function CentralBankDashboardPage() {
                     Manual fixings &amp; overrides
                   </p>
                   <p className="text-sm text-zinc-400">
-                    View and manage rates that differ from the engine&apos;s computed fixing.
+                    View and manage rates that differ from the engine&apos;s computed fixing. New
+                    fixings start as drafts and only take effect once a second user approves them.
                   </p>
                 </div>
-                <button
-                  type="button"
-                  onClick={startCreateNew}
-                  className="rounded-full bg-emerald-500 px-3 py-1.5 text-[0.75rem] font-medium text-black hover:bg-emerald-400"
-                >
-                  + Add manual fixing
-                </button>
+                {canDraft && (
+                  <button
+                    type="button"
+                    onClick={startCreateNew}
+                    className="rounded-full bg-emerald-500 px-3 py-1.5 text-[0.75rem] font-medium text-black hover:bg-emerald-400"
+                  >
+                    + Add manual fixing
+                  </button>
+                )}
               </div>
 
-              {showForm && (
+              {showForm && canDraft && (
                 <form
                   onSubmit={handleCreateOrUpdateManualFixing}
                   className="rounded-xl border border-zinc-800 bg-black/70 p-3 space-y-3 text-xs"
@@ -804,6 +773,39 @@ export default function CentralBankDashboardPage() {
                     />
                   </div>
 
+                  <div className="space-y-1">
+                    <label className="text-[0.7rem] text-zinc-400">Bid / ask (optional, bid ≤ mid ≤ ask)</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={formBid}
+                        onChange={(e) => setFormBid(e.target.value)}
+                        placeholder="Bid"
+                        className="w-1/2 rounded-lg border border-zinc-800 bg-black px-2 py-1.5 text-xs text-zinc-100 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/60"
+                      />
+                      <input
+                        type="text"
+                        value={formAsk}
+                        onChange={(e) => setFormAsk(e.target.value)}
+                        placeholder="Ask"
+                        className="w-1/2 rounded-lg border border-zinc-800 bg-black px-2 py-1.5 text-xs text-zinc-100 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/60"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <label className="text-[0.7rem] text-zinc-400">Market segment</label>
+                    <select
+                      value={formSegment}
+                      onChange={(e) => setFormSegment(e.target.value)}
+                      className="w-full rounded-lg border border-zinc-800 bg-black px-2 py-1.5 text-xs text-zinc-100 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/60"
+                    >
+                      <option value="official">Official</option>
+                      <option value="commercial">Commercial bank</option>
+                      <option value="parallel">Parallel / bureau</option>
+                    </select>
+                  </div>
+
                   <div className="flex flex-wrap items-center gap-4 text-[0.7rem]">
                     <label className="inline-flex items-center gap-1 text-zinc-300">
                       <input
@@ -900,11 +902,24 @@ export default function CentralBankDashboardPage() {
                           <p className="text-zinc-100">{row.as_of_date}</p>
                           <p className="text-[0.7rem] text-zinc-500">
                             {row.base_currency}/{row.quote_currency}
+                            {row.segment !== "official" ? ` · ${row.segment}` : ""}
                           </p>
+                          <span
+                            title={lastEventSummary(row)}
+                            className={`mt-1 inline-block rounded-full px-2 py-0.5 text-[0.65rem] ${STATUS_STYLES[row.status].className}`}
+                          >
+                            {STATUS_STYLES[row.status].label}
+                          </span>
                         </div>
 
                         <div className="text-right text-zinc-100">
                           {row.rate_mid.toLocaleString("en-US", { maximumFractionDigits: 6 })}
+                          {row.rate_bid != null && row.rate_ask != null && (
+                            <p className="text-[0.65rem] text-zinc-500">
+                              {row.rate_bid.toLocaleString("en-US", { maximumFractionDigits: 6 })} /{" "}
+                              {row.rate_ask.toLocaleString("en-US", { maximumFractionDigits: 6 })}
+                            </p>
+                          )}
                         </div>
 
                         <div className="text-right text-[0.7rem]">
@@ -931,21 +946,50 @@ export default function CentralBankDashboardPage() {
                           {row.created_email ?? "—"}
                         </div>
 
-                        <div className="flex items-center justify-end gap-2 text-[0.7rem]">
-                          <button
-                            type="button"
-                            onClick={() => startEditRow(row)}
-                            className="text-emerald-400 hover:text-emerald-300"
-                          >
-                            Edit
-                          </button>
-                          <button
-                            type="button"
-                            onClick={() => handleDeleteRow(row)}
-                            className="text-red-400 hover:text-red-300"
-                          >
-                            Delete
-                          </button>
+                        <div className="flex flex-wrap items-center justify-end gap-2 text-[0.7rem]">
+                          {canDraft && (row.status === "draft" || row.status === "rejected") && (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => handleTransition(row, "submit")}
+                                className="text-amber-400 hover:text-amber-300"
+                              >
+                                Submit
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => startEditRow(row)}
+                                className="text-emerald-400 hover:text-emerald-300"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleDeleteRow(row)}
+                                className="text-red-400 hover:text-red-300"
+                              >
+                                Delete
+                              </button>
+                            </>
+                          )}
+                          {canApprove && row.status === "pending_approval" && (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => handleTransition(row, "approve")}
+                                className="text-emerald-400 hover:text-emerald-300"
+                              >
+                                Approve
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleTransition(row, "reject")}
+                                className="text-red-400 hover:text-red-300"
+                              >
+                                Reject
+                              </button>
+                            </>
+                          )}
                         </div>
                       </div>
                     ))
@@ -955,9 +999,9 @@ export default function CentralBankDashboardPage() {
 
               <p className="text-[0.7rem] text-zinc-500">
                 Data in this table is stored in the Supabase{" "}
-                <code className="rounded bg-zinc-900 px-1 py-0.5">manual_fixings</code> table. Later
-                we can let the FX engine read from this table to override or annotate its own computed
-                fixings.
+                <code className="rounded bg-zinc-900 px-1 py-0.5">manual_fixings</code> table. Only
+                approved rows are overlaid on the engine charts; approvers cannot sign off on a fixing
+                they created, edited or submitted.
               </p>
             </div>
 
@@ -1013,21 +1057,23 @@ export default function CentralBankDashboardPage() {
                   </p>
                 </div>
 
-                <button
-                  type="button"
-                  onClick={() => {
-                    setEditingSchedule((prev) => !prev);
-                    setScheduleError(null);
-                    if (schedule) {
-                      setScheduleDate(schedule.next_fixing_date);
-                      setScheduleWindow(schedule.window_label ?? "Normal fixing window");
-                      setScheduleNotes(schedule.notes ?? "");
-                    }
-                  }}
-                  className="rounded-full border border-zinc-700 bg-black px-3 py-1.5 text-[0.75rem] text-zinc-100 hover:bg-zinc-900"
-                >
-                  {editingSchedule ? "Close editor" : "Edit schedule"}
-                </button>
+                {canEditSchedule && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingSchedule((prev) => !prev);
+                      setScheduleError(null);
+                      if (schedule) {
+                        setScheduleDate(schedule.next_fixing_date);
+                        setScheduleWindow(schedule.window_label ?? "Normal fixing window");
+                        setScheduleNotes(schedule.notes ?? "");
+                      }
+                    }}
+                    className="rounded-full border border-zinc-700 bg-black px-3 py-1.5 text-[0.75rem] text-zinc-100 hover:bg-zinc-900"
+                  >
+                    {editingSchedule ? "Close editor" : "Edit schedule"}
+                  </button>
+                )}
               </div>
 
               <div className="rounded-xl border border-zinc-900 bg-black/60 p-3 text-xs space-y-3">
@@ -1072,7 +1118,7 @@ export default function CentralBankDashboardPage() {
                   </p>
                 )}
 
-                {editingSchedule && (
+                {editingSchedule && canEditSchedule && (
                   <form
                     onSubmit={handleSaveSchedule}
                     className="mt-2 space-y-2 border-t border-zinc-900 pt-3"
@@ -1140,13 +1186,28 @@ export default function CentralBankDashboardPage() {
                 Use it to keep the official fixing calendar in sync with market communications.
               </p>
             </div>
+
+            <FixingCalendarCard canEdit={canEditSchedule} />
           </div>
         </section>
 
+        <FixingEnginePanel
+          // Remount when the schedule loads so the form starts on the scheduled window.
+          key={`${schedule?.next_fixing_date ?? today}|${schedule?.window_label ?? ""}`}
+          canSubmit={canDraft}
+          canPublish={canPublish}
+          defaultDate={schedule?.next_fixing_date ?? today}
+          defaultWindow={schedule?.window_label ?? "Normal fixing window"}
+        />
+
         {/* ✅ FULL-WIDTH CHARTS AT THE BOTTOM */}
         <section className="space-y-6 rounded-2xl">
-          <EngineHistoryChartCard />
-          <EngineHistoryChartV2 />
+          {canSeeEngine && (
+            <>
+              <EngineHistoryChartCard />
+              <EngineHistoryChartV2 />
+            </>
+          )}
         </section>
       </div>
     </main>
@@ -62,13 +62,26 @@ export default function DocsPage() {
           <h2 className="text-lg font-semibold">Authentication</h2>
           <div className="rounded-xl border border-zinc-800 bg-zinc-950/60 p-4 text-sm space-y-2">
             <p>
-              <span className="font-medium text-zinc-100">
-                Read-only endpoints
-              </span>{" "}
-              documented on this page are currently{" "}
-              <span className="font-medium text-emerald-400">public</span> and
-              do not require authentication.
+              Send your API key in the{" "}
+              <code className="text-emerald-400">X-API-Key</code> header (or
+              as an <code>api_key</code> query parameter). Each key has its own
+              per-minute rate limit and daily quota; keys are issued by the
+              Savvy Rilla team.
             </p>
+            <p className="text-zinc-400">
+              Requests without a key still work at a low anonymous tier,
+              limited per client IP. An unknown or revoked key returns{" "}
+              <code>401 INVALID_API_KEY</code>.
+            </p>
+            <p className="text-zinc-400">
+              Over the limit, requests return <code>429</code> with a{" "}
+              <code>Retry-After</code> header (seconds) and the code{" "}
+              <code>RATE_LIMITED</code> (per-minute limit) or{" "}
+              <code>QUOTA_EXCEEDED</code> (daily quota, resets at 00:00 UTC).
+            </p>
+            <pre className="rounded bg-zinc-900 p-3 text-xs overflow-x-auto">
+{`curl -H "X-API-Key: fxk_..." "${baseUrl}/rates/latest?base=SSP"`}
+            </pre>
             <p className="text-xs text-zinc-500">
               Write/admin endpoints (used by internal dashboards) are protected
               separately and are not part of the public v1 surface yet.
@@ -76,6 +89,124 @@ export default function DocsPage() {
           </div>
         </section>
 
+        {/* Caching */}
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Caching</h2>
+          <div className="rounded-xl border border-zinc-800 bg-zinc-950/60 p-4 text-sm space-y-2">
+            <p>
+              <code>/rates/latest</code>, <code>/rates/&lt;quote&gt;/latest</code>,{" "}
+              <code>/rates/history</code>, <code>/rates/aggregate</code>,{" "}
+              <code>/summary/market</code>, <code>/currencies</code> and{" "}
+              <code>/calendar</code> return <code>ETag</code>,{" "}
+              <code>Last-Modified</code> and <code>Cache-Control</code> headers.
+              Responses are <code>private</code>: every request is metered, so shared
+              proxies and CDNs must not answer for the API.
+            </p>
+            <p className="text-zinc-400">
+              Send the stored value back as <code>If-None-Match</code> (or{" "}
+              <code>If-Modified-Since</code>) and you get an empty{" "}
+              <code>304 Not Modified</code> until a rate is published or
+              corrected. Rates usually change once a day, so polling this way is
+              cheap.
+            </p>
+            <pre className="rounded bg-zinc-900 p-3 text-xs overflow-x-auto">
+{`curl -H 'If-None-Match: "<etag from the last response>"' "${baseUrl}/rates/latest?base=SSP"`}
+            </pre>
+          </div>
+        </section>
+
+        {/* Quoting conventions */}
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Quoting conventions</h2>
+          <div className="rounded-xl border border-zinc-800 bg-zinc-950/60 p-4 text-sm space-y-2">
+            <p>
+              Rates are stored as <strong>SSP per 1 unit</strong> of the quote
+              currency (e.g. 4571 SSP per 1 USD). <code>/rates/latest</code>,{" "}
+              <code>/rates/&lt;quote&gt;/latest</code>, <code>/rates/history</code>,{" "}
+              <code>/rates/aggregate</code>, <code>/summary/market</code>,{" "}
+              <code>/export/rates</code> and <code>/export/aggregate</code> accept:
+            </p>
+            <ul className="list-disc pl-5 space-y-1 text-zinc-400">
+              <li>
+                <code>base</code> — default <code>SSP</code>. Any other code
+                (e.g. <code>USD</code>, <code>KES</code>) is derived through SSP
+                with the same legs and <code>max_lag_days</code> rule as{" "}
+                <code>/rates/cross</code>; SSP then appears as a quote.
+              </li>
+              <li>
+                <code>quote_convention</code> — <code>base_per_quote</code>{" "}
+                (default: base units per 1 quote unit) or{" "}
+                <code>quote_per_base</code> (quote units per 1 base unit).
+              </li>
+              <li>
+                <code>invert=true</code> — flips whichever convention applies.
+              </li>
+            </ul>
+            <p className="text-zinc-400">
+              Every response carries a <code>convention</code> object (in{" "}
+              <code>meta</code> for history and export) stating the base, the
+              convention and the unit, e.g.{" "}
+              <code>&quot;unit&quot;: &quot;USD per 1 SSP&quot;</code>. CSV
+              exports add a <code>rate_unit</code> column.
+            </p>
+            <pre className="rounded bg-zinc-900 p-3 text-xs overflow-x-auto">
+{`curl "${baseUrl}/rates/latest?base=USD&quote_convention=quote_per_base"
+curl "${baseUrl}/rates/history?quote=USD&days=30&invert=true"`}
+            </pre>
+          </div>
+        </section>
+
+        {/* Bid / ask */}
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Bid / ask</h2>
+          <div className="rounded-xl border border-zinc-800 bg-zinc-950/60 p-4 text-sm space-y-2">
+            <p>
+              Fixings may carry buy (<code>bid</code>) and sell (
+              <code>ask</code>) rates next to the mid, in the same unit and
+              always with bid ≤ mid ≤ ask. Either side can be{" "}
+              <code>null</code> when the source did not quote it.
+            </p>
+            <p className="text-zinc-400">
+              <code>/rates/*</code> and <code>/export/rates</code> return them
+              (<code>rate_bid</code> / <code>rate_ask</code> in row data,{" "}
+              <code>bid</code> / <code>ask</code> in history points).{" "}
+              <code>/summary/market</code> adds the latest spread (absolute and
+              % of mid) and its 30-day average. Bid / ask are served as stored
+              only: with another <code>base</code> or an inverted convention
+              they are left out (empty in exports), since a derived spread
+              would need both legs&apos; quotes.
+            </p>
+          </div>
+        </section>
+
+        {/* Market segments */}
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Market segments</h2>
+          <div className="rounded-xl border border-zinc-800 bg-zinc-950/60 p-4 text-sm space-y-2">
+            <p>
+              Every rate belongs to one market segment:{" "}
+              <code>official</code> (the central bank fixing),{" "}
+              <code>commercial</code> (commercial bank rates) or{" "}
+              <code>parallel</code> (parallel / bureau market). Each segment is
+              a separate series with its own history.
+            </p>
+            <p className="text-zinc-400">
+              Rate endpoints serve the official segment unless{" "}
+              <code>segment</code> is given; responses echo the segment used.
+              Cross and rebased rates take both legs from the same segment.{" "}
+              <code>/summary/market</code> also returns a <code>premium</code>{" "}
+              block comparing the parallel market with the official fixing:{" "}
+              <code>(parallel mid / official mid − 1) × 100</code>, latest and
+              30-day average, with <code>null</code> values when no parallel
+              quotes exist.
+            </p>
+            <pre className="rounded bg-zinc-900 p-3 overflow-x-auto text-xs">
+{`curl "${baseUrl}/rates/USD/latest?segment=parallel"
+curl "${baseUrl}/rates/history?quote=USD&days=90&segment=commercial"`}
+            </pre>
+          </div>
+        </section>
+
         {/* Quick Endpoint Overview */}
         <section className="space-y-3">
           <h2 className="text-lg font-semibold">Endpoint Overview</h2>
@@ -126,6 +257,33 @@ export default function DocsPage() {
                     Time series history for a given pair.
                   </td>
                 </tr>
+                <tr>
+                  <td className="px-3 py-2 align-top text-emerald-400">GET</td>
+                  <td className="px-3 py-2 align-top">
+                    <code>/rates/aggregate</code>
+                  </td>
+                  <td className="px-3 py-2 align-top">
+                    Weekly, monthly, quarterly or yearly averages, closes and OHLC for a pair.
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-3 py-2 align-top text-emerald-400">GET</td>
+                  <td className="px-3 py-2 align-top">
+                    <code>/rates/cross</code>, <code>/rates/cross/history</code>
+                  </td>
+                  <td className="px-3 py-2 align-top">
+                    Derived cross rates for any pair (e.g. KES/UGX), triangulated via SSP.
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-3 py-2 align-top text-emerald-400">GET</td>
+                  <td className="px-3 py-2 align-top">
+                    <code>/rates/revisions</code>
+                  </td>
+                  <td className="px-3 py-2 align-top">
+                    Corrections to already-published rates since a timestamp.
+                  </td>
+                </tr>
                 <tr>
                   <td className="px-3 py-2 align-top text-emerald-400">GET</td>
                   <td className="px-3 py-2 align-top">
@@ -154,6 +312,24 @@ export default function DocsPage() {
                     Export historical rates as JSON or CSV.
                   </td>
                 </tr>
+                <tr>
+                  <td className="px-3 py-2 align-top text-emerald-400">GET</td>
+                  <td className="px-3 py-2 align-top">
+                    <code>/export/aggregate</code>
+                  </td>
+                  <td className="px-3 py-2 align-top">
+                    Export period aggregates for one or more currencies as CSV or JSON.
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-3 py-2 align-top text-emerald-400">GET</td>
+                  <td className="px-3 py-2 align-top">
+                    <code>/calendar</code>
+                  </td>
+                  <td className="px-3 py-2 align-top">
+                    Fixing calendar: business days, holidays and the next fixing due.
+                  </td>
+                </tr>
               </tbody>
             </table>
           </div>
@@ -221,6 +397,17 @@ export default function DocsPage() {
             (default <code>SSP</code>). Falls back to{" "}
             <code>fx_daily_rates_default</code> if there are no live rates.
           </p>
+          <p className="text-sm text-zinc-400">
+            Like the other latest-rate responses (<code>/rates/&lt;quote&gt;/latest</code>,{" "}
+            <code>/rates/cross</code> without a <code>date</code>,{" "}
+            <code>/summary/market</code>), it carries <code>stale</code> and{" "}
+            <code>age_days</code>. <code>stale</code> is <code>true</code> when a
+            later fixing was due on the fixing calendar (see{" "}
+            <code>/calendar</code>) than <code>as_of_date</code>;{" "}
+            <code>age_days</code> is the age in calendar days (Juba time). A
+            Friday rate read on Monday morning is 3 days old but only stale once
+            Monday&apos;s fixing is due.
+          </p>
 
           <div className="rounded-xl border border-zinc-800 bg-zinc-950/60 p-4 text-xs space-y-3">
             <div>
@@ -234,8 +421,18 @@ export default function DocsPage() {
               <p className="font-medium text-zinc-200 mb-1">Query params</p>
               <ul className="list-disc pl-5 space-y-1 text-zinc-400">
                 <li>
-                  <code>base</code> (optional) — base currency code, defaults to{" "}
-                  <code>SSP</code>.
+                  <code>base</code>, <code>quote_convention</code>,{" "}
+                  <code>invert</code> (optional) — see{" "}
+                  <em>Quoting conventions</em>; defaults to SSP per 1 unit.
+                </li>
+                <li>
+                  <code>segment</code> (optional) — <code>official</code>{" "}
+                  (default), <code>commercial</code> or <code>parallel</code>;
+                  see <em>Market segments</em>.
+                </li>
+                <li>
+                  <code>as_known_at</code> (optional) — ISO timestamp; returns the
+                  data exactly as it was published at that moment.
                 </li>
               </ul>
             </div>
@@ -253,12 +450,19 @@ export default function DocsPage() {
 {`{
   "base": "SSP",
   "as_of_date": "2025-11-20",
+  "stale": false,
+  "age_days": 0,
   "source": "fx_daily_rates",
+  "segment": "official",
   "rates": {
     "USD": 4571.0054,
     "EUR": 5020.11,
     "KES": 29.12
-  }
+  },
+  "bid_ask": {
+    "USD": { "bid": 4548.15, "ask": 4593.86 }
+  },
+  "convention": { "base": "SSP", "quote_convention": "base_per_quote", "unit": "SSP per 1 <quote>", "...": "..." }
 }`}
               </pre>
             </div>
@@ -288,8 +492,14 @@ export default function DocsPage() {
               <p className="font-medium text-zinc-200 mb-1">Query params</p>
               <ul className="list-disc pl-5 space-y-1 text-zinc-400">
                 <li>
-                  <code>base</code> (optional) — base currency, defaults to{" "}
-                  <code>SSP</code>.
+                  <code>base</code>, <code>quote_convention</code>,{" "}
+                  <code>invert</code> (optional) — see{" "}
+                  <em>Quoting conventions</em>; defaults to SSP per 1 unit.
+                </li>
+                <li>
+                  <code>segment</code> (optional) — <code>official</code>{" "}
+                  (default), <code>commercial</code> or <code>parallel</code>;
+                  see <em>Market segments</em>.
                 </li>
               </ul>
             </div>
@@ -309,8 +519,13 @@ export default function DocsPage() {
   "base": "SSP",
   "quote": "USD",
   "as_of_date": "2025-11-20",
+  "stale": false,
+  "age_days": 0,
   "mid_rate": 4571.0054,
   "change_pct_vs_previous": 0.2,
+  "bid_rate": 4548.15,
+  "ask_rate": 4593.86,
+  "spread": { "abs": 45.71, "pct": 1.0 },
   "is_official": true,
   "is_manual_override": false,
   "source_id": 1
@@ -342,7 +557,14 @@ export default function DocsPage() {
               <p className="font-medium text-zinc-200 mb-1">Query params</p>
               <ul className="list-disc pl-5 space-y-1 text-zinc-400">
                 <li>
-                  <code>base</code> (optional) — defaults to <code>SSP</code>.
+                  <code>base</code>, <code>quote_convention</code>,{" "}
+                  <code>invert</code> (optional) — see{" "}
+                  <em>Quoting conventions</em>; defaults to SSP per 1 unit.
+                </li>
+                <li>
+                  <code>segment</code> (optional) — <code>official</code>{" "}
+                  (default), <code>commercial</code> or <code>parallel</code>;
+                  see <em>Market segments</em>.
                 </li>
                 <li>
                   <code>quote</code> (optional) — defaults to{" "}
@@ -357,6 +579,28 @@ export default function DocsPage() {
                   <code>from</code>, <code>to</code> (optional) — ISO dates
                   <code>YYYY-MM-DD</code>.
                 </li>
+                <li>
+                  <code>fill</code> (optional) — <code>none</code> (default),{" "}
+                  <code>previous</code> (carry the last fixing forward) or{" "}
+                  <code>linear</code> (interpolate between the fixings either
+                  side). Filled points are flagged <code>filled: true</code>{" "}
+                  with a <code>fill_method</code> and never carry bid / ask.
+                  The start of the range fills from the last fixing in the 31
+                  days before <code>from</code>. Nothing is filled before that
+                  or after today (or <code>as_known_at</code>);{" "}
+                  <code>linear</code> also leaves dates after the last fixing
+                  empty. A filled range is limited to 1830 days.
+                </li>
+                <li>
+                  <code>calendar</code> (optional, with <code>fill</code>) —{" "}
+                  <code>business</code> (default; business days on the fixing
+                  calendar, see <code>/calendar</code>) or <code>daily</code>{" "}
+                  (every calendar day, e.g. for daily accruals).
+                </li>
+                <li>
+                  <code>as_known_at</code> (optional) — ISO timestamp; returns the
+                  data exactly as it was published at that moment.
+                </li>
               </ul>
             </div>
 
@@ -383,6 +627,111 @@ export default function DocsPage() {
     "to": "2025-11-20",
     "count": 30
   }
+}`}
+              </pre>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">With fill=previous&amp;calendar=daily</p>
+              <pre className="rounded bg-zinc-900 p-3 overflow-x-auto">
+{`"points": [
+  { "date": "2025-11-14", "mid": 4566.10, "filled": false },
+  { "date": "2025-11-15", "mid": 4566.10, "filled": true, "fill_method": "previous" },
+  { "date": "2025-11-16", "mid": 4566.10, "filled": true, "fill_method": "previous" },
+  { "date": "2025-11-17", "mid": 4568.42, "filled": false }
+],
+"meta": { "...": "...", "fill": "previous", "calendar": "daily", "filled_count": 2 }`}
+              </pre>
+            </div>
+          </div>
+        </section>
+
+        {/* /rates/aggregate */}
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">GET /rates/aggregate</h2>
+          <p className="text-sm text-zinc-400">
+            Period statistics for a pair from the same published series as{" "}
+            <code>/rates/history</code>: monthly average rates for accounting,
+            month-end closing rates for revaluation, or OHLC. Periods are
+            calendar periods (ISO weeks run Monday to Sunday) and only use the
+            fixings inside them; filled points are never included. A bucket is{" "}
+            <code>complete</code> once its whole period is inside the range and
+            has ended.
+          </p>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-950/60 p-4 text-xs space-y-3">
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Request</p>
+              <code className="block rounded bg-zinc-900 px-2 py-1">
+                GET {baseUrl}
+                /rates/aggregate?quote=USD&amp;period=month&amp;stat=avg
+              </code>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Query params</p>
+              <ul className="list-disc pl-5 space-y-1 text-zinc-400">
+                <li>
+                  <code>period</code> (optional) — <code>week</code>,{" "}
+                  <code>month</code> (default), <code>quarter</code> or{" "}
+                  <code>year</code>.
+                </li>
+                <li>
+                  <code>stat</code> (optional) — <code>avg</code> (default),{" "}
+                  <code>close</code>, <code>open</code>, <code>high</code>,{" "}
+                  <code>low</code> or <code>ohlc</code>.
+                </li>
+                <li>
+                  <code>quote</code> (optional) — defaults to{" "}
+                  <code>USD</code>.
+                </li>
+                <li>
+                  <code>from</code>, <code>to</code> (optional) —{" "}
+                  <code>YYYY-MM-DD</code>, spanning at most 120 periods;
+                  otherwise <code>periods</code> (1–120, default{" "}
+                  <code>12</code>) periods up to the latest fixing.
+                </li>
+                <li>
+                  <code>base</code>, <code>quote_convention</code>,{" "}
+                  <code>invert</code> (optional) — see{" "}
+                  <em>Quoting conventions</em>; each daily rate is converted
+                  before it is aggregated.
+                </li>
+                <li>
+                  <code>segment</code> (optional) — <code>official</code>{" "}
+                  (default), <code>commercial</code> or <code>parallel</code>;
+                  see <em>Market segments</em>.
+                </li>
+                <li>
+                  <code>as_known_at</code> (optional) — ISO timestamp; aggregates
+                  the data as it was published at that moment.
+                </li>
+              </ul>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Example response</p>
+              <pre className="rounded bg-zinc-900 p-3 overflow-x-auto">
+{`{
+  "pair": "SSP/USD",
+  "base": "SSP",
+  "quote": "USD",
+  "segment": "official",
+  "period": "month",
+  "stat": "avg",
+  "buckets": [
+    {
+      "period": "2025-10",
+      "start": "2025-10-01",
+      "end": "2025-10-31",
+      "first_date": "2025-10-01",
+      "last_date": "2025-10-31",
+      "count": 23,
+      "complete": true,
+      "avg": 4552.87
+    }
+  ],
+  "meta": { "from": "2024-12-01", "to": "2025-11-20", "count": 12, "convention": { "...": "..." } }
 }`}
               </pre>
             </div>
@@ -420,6 +769,11 @@ export default function DocsPage() {
                   <code>limit</code> (optional) — max rows (1–100, default{" "}
                   <code>20</code>).
                 </li>
+                <li>
+                  <code>segment</code> (optional) — <code>official</code>{" "}
+                  (default), <code>commercial</code> or <code>parallel</code>;
+                  see <em>Market segments</em>.
+                </li>
               </ul>
             </div>
 
@@ -432,6 +786,162 @@ export default function DocsPage() {
           </div>
         </section>
 
+        {/* /rates/cross */}
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">GET /rates/cross</h2>
+          <p className="text-sm text-zinc-400">
+            Derives a rate between two non-SSP currencies from their SSP quotes:{" "}
+            <code>to per 1 from = (SSP per 1 from) / (SSP per 1 to)</code>.
+            Results are labelled <code>derived</code> and include both legs
+            with the fixing date each one used.
+          </p>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-950/60 p-4 text-xs space-y-3">
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Request</p>
+              <code className="block rounded bg-zinc-900 px-2 py-1">
+                GET {baseUrl}
+                /rates/cross?from=KES&amp;to=UGX&amp;date=2025-11-20
+              </code>
+              <code className="mt-1 block rounded bg-zinc-900 px-2 py-1">
+                GET {baseUrl}
+                /rates/cross/history?from=USD&amp;to=KES&amp;days=90
+              </code>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Query params</p>
+              <ul className="list-disc pl-5 space-y-1 text-zinc-400">
+                <li>
+                  <code>from</code>, <code>to</code> (required) — currency codes.
+                </li>
+                <li>
+                  <code>date</code> (optional, <code>/cross</code>) — defaults to
+                  the most recent date either leg was fixed.
+                </li>
+                <li>
+                  <code>days</code> or <code>start</code>/<code>end</code>{" "}
+                  (<code>/cross/history</code>) — date range.
+                </li>
+                <li>
+                  <code>max_lag_days</code> (optional, 0–31, default{" "}
+                  <code>3</code>) — if a leg has no fixing on the date, its latest
+                  fixing up to this many days earlier is used. Beyond that the
+                  date is not returned (404 for <code>/cross</code>, listed in{" "}
+                  <code>meta.skipped_dates</code> for history). Values are never
+                  interpolated.
+                </li>
+                <li>
+                  <code>as_known_at</code> (optional) — ISO timestamp; derives
+                  from the legs as published at that moment.
+                </li>
+              </ul>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Example response</p>
+              <pre className="rounded bg-zinc-900 p-3 overflow-x-auto">
+{`{
+  "pair": "KES/UGX",
+  "from": "KES",
+  "to": "UGX",
+  "date": "2025-11-20",
+  "stale": false,
+  "age_days": 0,
+  "rate": 28.61,
+  "unit": "UGX per 1 KES",
+  "derived": true,
+  "method": "Triangulated via SSP: (SSP per 1 KES) / (SSP per 1 UGX)",
+  "legs": [
+    { "pair": "KES/SSP", "currency": "KES", "mid": 35.38, "as_of_date": "2025-11-20", "lag_days": 0 },
+    { "pair": "UGX/SSP", "currency": "UGX", "mid": 1.2367, "as_of_date": "2025-11-19", "lag_days": 1 }
+  ],
+  "meta": {
+    "missing_leg_policy": { "max_lag_days": 3, "description": "..." }
+  }
+}`}
+              </pre>
+            </div>
+          </div>
+        </section>
+
+        {/* /rates/revisions */}
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">GET /rates/revisions</h2>
+          <p className="text-sm text-zinc-400">
+            Lists changes to rates that were already published — corrections,
+            manual overrides, withdrawals and restores — so downstream systems
+            can reconcile without re-downloading full history.
+          </p>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-950/60 p-4 text-xs space-y-3">
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Request</p>
+              <code className="block rounded bg-zinc-900 px-2 py-1">
+                GET {baseUrl}
+                /rates/revisions?since=2025-11-01T00:00:00Z&amp;quote=USD
+              </code>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Query params</p>
+              <ul className="list-disc pl-5 space-y-1 text-zinc-400">
+                <li>
+                  <code>since</code> (required) — ISO timestamp; only revisions
+                  made after it are returned.
+                </li>
+                <li>
+                  <code>base</code>, <code>quote</code> (optional) — filter by
+                  currency pair.
+                </li>
+                <li>
+                  <code>segment</code> (optional) — <code>official</code>,{" "}
+                  <code>commercial</code> or <code>parallel</code>; all
+                  segments when omitted. Each revision carries its{" "}
+                  <code>segment</code>.
+                </li>
+                <li>
+                  <code>limit</code> (optional) — max rows (1–5000, default{" "}
+                  <code>500</code>). Pass <code>meta.next_since</code> as{" "}
+                  <code>since</code> to fetch the next page while{" "}
+                  <code>meta.has_more</code> is true.
+                </li>
+              </ul>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Example response</p>
+              <pre className="rounded bg-zinc-900 p-3 overflow-x-auto">
+{`{
+  "data": [
+    {
+      "pair": "SSP/USD",
+      "base": "SSP",
+      "quote": "USD",
+      "segment": "official",
+      "date": "2025-11-18",
+      "old_mid": 4571.0054,
+      "new_mid": 4568.2,
+      "revised_at": "2025-11-19T08:14:02.511Z",
+      "is_manual_override": true,
+      "kind": "overridden"
+    }
+  ],
+  "meta": {
+    "since": "2025-11-01T00:00:00.000Z",
+    "base": null,
+    "quote": "USD",
+    "segment": null,
+    "count": 1,
+    "has_more": false,
+    "next_since": "2025-11-19T08:14:02.511Z"
+  }
+}`}
+              </pre>
+            </div>
+          </div>
+        </section>
+
         {/* /summary/market */}
         <section className="space-y-3">
           <h2 className="text-lg font-semibold">GET /summary/market</h2>
@@ -453,8 +963,14 @@ export default function DocsPage() {
               <p className="font-medium text-zinc-200 mb-1">Query params</p>
               <ul className="list-disc pl-5 space-y-1 text-zinc-400">
                 <li>
-                  <code>base</code> (optional) — defaults to{" "}
-                  <code>SSP</code>.
+                  <code>base</code>, <code>quote_convention</code>,{" "}
+                  <code>invert</code> (optional) — see{" "}
+                  <em>Quoting conventions</em>; defaults to SSP per 1 unit.
+                </li>
+                <li>
+                  <code>segment</code> (optional) — <code>official</code>{" "}
+                  (default), <code>commercial</code> or <code>parallel</code>;
+                  see <em>Market segments</em>.
                 </li>
                 <li>
                   <code>quote</code> (optional) — defaults to{" "}
@@ -470,6 +986,8 @@ export default function DocsPage() {
   "base": "SSP",
   "quote": "USD",
   "as_of_date": "2025-11-20",
+  "stale": false,
+  "age_days": 0,
   "mid_rate": 4571.0054,
   "change_pct_vs_previous": 0.2,
   "range": {
@@ -484,6 +1002,29 @@ export default function DocsPage() {
   "volatility": {
     "window_days": 30,
     "avg_daily_move_pct": null
+  },
+  "spread": {
+    "bid_rate": 4548.15,
+    "ask_rate": 4593.86,
+    "abs": 45.71,
+    "pct": 1.0,
+    "window_days": 30,
+    "avg_pct": 0.96,
+    "observations": 21
+  },
+  "premium": {
+    "currency": "USD",
+    "segment": "parallel",
+    "reference": "official",
+    "as_of_date": "2025-11-20",
+    "parallel_mid": 5850.0,
+    "official_mid": 4571.0054,
+    "official_date": "2025-11-20",
+    "pct": 27.98,
+    "window_days": 30,
+    "avg_pct": 26.41,
+    "observations": 18,
+    "definition": "Parallel market premium = (parallel mid / official mid − 1) × 100, ..."
   }
 }`}
               </pre>
@@ -512,8 +1053,14 @@ export default function DocsPage() {
               <p className="font-medium text-zinc-200 mb-1">Query params</p>
               <ul className="list-disc pl-5 space-y-1 text-zinc-400">
                 <li>
-                  <code>base</code> (optional) — defaults to{" "}
-                  <code>SSP</code>.
+                  <code>base</code>, <code>quote_convention</code>,{" "}
+                  <code>invert</code> (optional) — see{" "}
+                  <em>Quoting conventions</em>; defaults to SSP per 1 unit.
+                </li>
+                <li>
+                  <code>segment</code> (optional) — <code>official</code>{" "}
+                  (default), <code>commercial</code> or <code>parallel</code>;
+                  see <em>Market segments</em>.
                 </li>
                 <li>
                   <code>quote</code> (optional) — filter by quote currency.
@@ -526,6 +1073,29 @@ export default function DocsPage() {
                   <code>format</code> (optional) — <code>csv</code> (default) or{" "}
                   <code>json</code>.
                 </li>
+                <li>
+                  <code>fill</code> (optional) — <code>none</code> (default),{" "}
+                  <code>previous</code> (carry the last fixing forward) or{" "}
+                  <code>linear</code> (interpolate between the fixings either
+                  side). Filled rows are flagged <code>filled</code> /{" "}
+                  <code>fill_method</code> (also CSV columns) and carry no
+                  bid / ask or source.
+                  The start of the range fills from the last fixing in the 31
+                  days before <code>from</code>. Nothing is filled before that
+                  or after today (or <code>as_known_at</code>);{" "}
+                  <code>linear</code> also leaves dates after the last fixing
+                  empty. A filled range is limited to 1830 days.
+                </li>
+                <li>
+                  <code>calendar</code> (optional, with <code>fill</code>) —{" "}
+                  <code>business</code> (default; business days on the fixing
+                  calendar, see <code>/calendar</code>) or <code>daily</code>{" "}
+                  (every calendar day, e.g. for daily accruals).
+                </li>
+                <li>
+                  <code>as_known_at</code> (optional) — ISO timestamp; returns the
+                  data exactly as it was published at that moment.
+                </li>
               </ul>
             </div>
 
@@ -538,6 +1108,141 @@ export default function DocsPage() {
           </div>
         </section>
 
+        {/* /export/aggregate */}
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">GET /export/aggregate</h2>
+          <p className="text-sm text-zinc-400">
+            The <code>/rates/aggregate</code> buckets as a file, one row per
+            currency and period — e.g. a month-end closing rate set for
+            revaluation.
+          </p>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-950/60 p-4 text-xs space-y-3">
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Query params</p>
+              <ul className="list-disc pl-5 space-y-1 text-zinc-400">
+                <li>
+                  <code>from</code>, <code>to</code> (required) — ISO dates{" "}
+                  <code>YYYY-MM-DD</code>, spanning at most 120 periods.
+                </li>
+                <li>
+                  <code>quote</code> (optional) — one or more currencies,
+                  comma-separated (up to 20); defaults to <code>USD</code>.
+                </li>
+                <li>
+                  <code>period</code>, <code>stat</code>, <code>base</code>,{" "}
+                  <code>quote_convention</code>, <code>invert</code>,{" "}
+                  <code>segment</code>, <code>as_known_at</code> — as for{" "}
+                  <code>/rates/aggregate</code>.
+                </li>
+                <li>
+                  <code>format</code> (optional) — <code>csv</code> (default) or{" "}
+                  <code>json</code>.
+                </li>
+              </ul>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Example curl</p>
+              <pre className="rounded bg-zinc-900 p-3 overflow-x-auto">
+{`curl "${baseUrl}/export/aggregate?quote=USD,EUR,KES&period=month&stat=close&from=2025-01-01&to=2025-10-31" -o month_end_rates.csv`}
+              </pre>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">CSV columns</p>
+              <pre className="rounded bg-zinc-900 p-3 overflow-x-auto">
+{`period,start,end,base_currency,quote_currency,segment,rate_unit,close,count,first_date,last_date,complete
+2025-10,2025-10-01,2025-10-31,SSP,USD,official,SSP per 1 USD,4569.12,23,2025-10-01,2025-10-31,true`}
+              </pre>
+            </div>
+          </div>
+        </section>
+
+        {/* /calendar */}
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">GET /calendar</h2>
+          <p className="text-sm text-zinc-400">
+            The fixing calendar: which days are business days, public holidays,
+            and each fixing session with its planned and actual time. Use{" "}
+            <code>next_fixing</code> to know when the next rate is due.
+          </p>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-950/60 p-4 text-xs space-y-3">
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Request</p>
+              <code className="block rounded bg-zinc-900 px-2 py-1">
+                GET {baseUrl}/calendar?from=2026-12-20&amp;to=2026-12-31
+              </code>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Query params</p>
+              <ul className="list-disc pl-5 space-y-1 text-zinc-400">
+                <li>
+                  <code>from</code> (optional) — <code>YYYY-MM-DD</code>;
+                  defaults to today in Juba.
+                </li>
+                <li>
+                  <code>to</code> (optional) — <code>YYYY-MM-DD</code>; defaults
+                  to 30 days after <code>from</code>. At most 366 days.
+                </li>
+              </ul>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Rules</p>
+              <ul className="list-disc pl-5 space-y-1 text-zinc-400">
+                <li>
+                  Saturdays, Sundays and South Sudan public holidays (including
+                  Eid dates as announced) are not business days.
+                </li>
+                <li>
+                  Times are Juba local (<code>Africa/Juba</code>, UTC+2);{" "}
+                  <code>planned_at</code> / <code>actual_at</code> are UTC
+                  timestamps.
+                </li>
+                <li>
+                  Session <code>status</code>: <code>scheduled</code>,{" "}
+                  <code>completed</code> (fixed, <code>actual_at</code> set),{" "}
+                  <code>overdue</code> (planned time passed, no fixing yet) or{" "}
+                  <code>cancelled</code>. <code>extra</code> marks ad-hoc
+                  sessions.
+                </li>
+              </ul>
+            </div>
+
+            <div>
+              <p className="font-medium text-zinc-200 mb-1">Example response</p>
+              <pre className="rounded bg-zinc-900 p-3 overflow-x-auto">
+{`{
+  "timezone": "Africa/Juba",
+  "weekend": ["Saturday", "Sunday"],
+  "from": "2026-12-24",
+  "to": "2026-12-26",
+  "next_fixing": {
+    "date": "2026-12-24",
+    "window_label": "Normal fixing window",
+    "planned_at": "2026-12-24T09:00:00.000Z",
+    "actual_at": null,
+    "delay_minutes": null,
+    "status": "scheduled",
+    "extra": false,
+    "notes": null
+  },
+  "business_days": 1,
+  "holidays": [{ "date": "2026-12-25", "name": "Christmas Day" }],
+  "days": [
+    { "date": "2026-12-24", "weekday": "Thursday", "business_day": true, "holiday": null, "sessions": [ ... ] },
+    { "date": "2026-12-25", "weekday": "Friday", "business_day": false, "holiday": "Christmas Day", "sessions": [] },
+    { "date": "2026-12-26", "weekday": "Saturday", "business_day": false, "holiday": null, "sessions": [] }
+  ]
+}`}
+              </pre>
+            </div>
+          </div>
+        </section>
+
         {/* Errors */}
         <section className="space-y-3">
           <h2 className="text-lg font-semibold">Error format</h2>
@@ -554,8 +1259,9 @@ export default function DocsPage() {
           </pre>
           <p className="text-xs text-zinc-500">
             Common codes include <code>INVALID_PARAMETER</code>,{" "}
-            <code>MISSING_PARAMETER</code>, <code>NO_DATA</code>, and{" "}
-            <code>DB_ERROR</code>.
+            <code>MISSING_PARAMETER</code>, <code>NO_DATA</code>,{" "}
+            <code>INVALID_API_KEY</code>, <code>RATE_LIMITED</code>,{" "}
+            <code>QUOTA_EXCEEDED</code> and <code>DB_ERROR</code>.
           </p>
         </section>
 
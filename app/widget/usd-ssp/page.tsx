@@ -1,4 +1,5 @@
 import FxHistoryChart from "@/components/fx-history-chart";
+import { internalApiHeaders } from "@/lib/api/access";
 import {
   buildInsightsFromSummary,
   type MarketSummary,
@@ -29,8 +30,11 @@ async function fetchJson<T>(path: string): Promise<T | null> {
     const base = getApiBaseUrl();
     const url = path.startsWith("http") ? path : `${base}${path}`;
 
+    // First-party render: not metered against the anonymous tier. Rates
+    // change about once a day, so a minute of reuse is plenty fresh.
     const res = await fetch(url, {
-      cache: "no-store",
+      headers: internalApiHeaders(),
+      next: { revalidate: 60 },
     });
 
     if (!res.ok) {
@@ -41,15 +41,6 @@ const WINDOW_LABELS: Record<WindowKey, string> = {
 type SelectedPoint = {
   date: string;
   mid: number;
-  source: "official" | "manual_fixing" | "manual_override";
-  manual?: {
-    id: string;
-    notes: string | null;
-    createdAt: string;
-    createdEmail: string | null;
-    isOfficial: boolean;
-    isManualOverride: boolean;
-  };
 };
 
 function buildPerPairCommentary(rate: EamuRate, baseLabel: string, windowLabel: string): string {
@@ -86,12 +77,6 @@ function buildPerPairCommentary(rate: EamuRate, baseLabel: string, windowLabel:
   return `${rate.name} (${rate.code}/${baseLabel}) is fixing at ${formattedRate} with no day-on-day change versus ${baseLabel}. The pair is trading sideways over the ${windowLabel.toLowerCase()}.`;
 }
 
-function sourceBadge(source: SelectedPoint["source"]) {
-  if (source === "manual_override") return "Manual override";
-  if (source === "manual_fixing") return "Manual fixing";
-  return "Official";
-}
-
 export function CurrencyOverviewCard({ commentary, eamuRates, latestBase, latestDate }: CurrencyOverviewCardProps) {
   const [windowKey, setWindowKey] = useState<WindowKey>("365d");
   const [selectedCode, setSelectedCode] = useState<string | null>(null);
@@ -263,7 +248,7 @@ export function CurrencyOverviewCard({ commentary, eamuRates, latestBase, latest
                       />
                     </div>
                     <p className="mt-1.5 text-[10px] text-neutral-500 leading-relaxed">
-                      Click to view detailed history and manual fixing overlays.
+                      Click to view detailed history.
                     </p>
                   </div>
                 </motion.button>
@@ -331,7 +316,7 @@ export function CurrencyOverviewCard({ commentary, eamuRates, latestBase, latest
                     {selectedRate.name} • {selectedRate.code} / {baseLabel}
                   </h4>
                   <p className="text-[11px] text-neutral-400">
-                    {WINDOW_LABELS[windowKey]} • Hover to view values. Tap/click to inspect manual fixings and overrides.
+                    {WINDOW_LABELS[windowKey]} • Hover to view values. Tap/click to inspect a fixing.
                   </p>
                 </div>
                 <button
@@ -372,23 +357,7 @@ export function CurrencyOverviewCard({ commentary, eamuRates, latestBase, latest
                     window={windowKey}
                     interactive={true}
                     showTooltip={true}
-                    onPointSelect={(p: any) => {
-                      setSelectedFixingPoint({
-                        date: p.date,
-                        mid: p.mid,
-                        source: p.source,
-                        manual: p.manual
-                          ? {
-                              id: p.manual.id,
-                              notes: p.manual.notes ?? null,
-                              createdAt: p.manual.createdAt,
-                              createdEmail: p.manual.createdEmail ?? null,
-                              isOfficial: p.manual.isOfficial,
-                              isManualOverride: p.manual.isManualOverride,
-                            }
-                          : undefined,
-                      });
-                    }}
+                    onPointSelect={(p) => setSelectedFixingPoint({ date: p.date, mid: p.mid })}
                   />
                 </div>
 
@@ -403,33 +372,11 @@ export function CurrencyOverviewCard({ commentary, eamuRates, latestBase, latest
                       </div>
 
                       <span className="inline-flex items-center rounded-full border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px] text-neutral-200">
-                        {sourceBadge(selectedFixingPoint.source)}
+                        Official
                       </span>
                     </div>
 
-                    {selectedFixingPoint.manual ? (
-                      <div className="text-[11px] text-neutral-300 leading-relaxed space-y-1">
-                        <p>
-                          <span className="text-neutral-500">Created:</span>{" "}
-                          <span className="tabular-nums">{new Date(selectedFixingPoint.manual.createdAt).toLocaleString()}</span>
-                        </p>
-                        {selectedFixingPoint.manual.createdEmail && (
-                          <p>
-                            <span className="text-neutral-500">By:</span> {selectedFixingPoint.manual.createdEmail}
-                          </p>
-                        )}
-                        {selectedFixingPoint.manual.notes && (
-                          <p>
-                            <span className="text-neutral-500">Notes:</span> {selectedFixingPoint.manual.notes}
-                          </p>
-                        )}
-                        {!selectedFixingPoint.manual.notes && (
-                          <p className="text-neutral-500">Notes: —</p>
-                        )}
-                      </div>
-                    ) : (
-                      <p className="text-[11px] text-neutral-500">This point is sourced from the official fixing series.</p>
-                    )}
+                    <p className="text-[11px] text-neutral-500">This point is sourced from the official fixing series.</p>
                   </div>
                 )}
 
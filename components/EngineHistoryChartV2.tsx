@@ -16,6 +16,8 @@ import {
   scoreConfidence,
   type ConfidenceResult,
 } from "@/lib/fx/confidenceScoring";
+import type { PremiumPoint } from "@/lib/fx/segments";
+import { fetchWithSupabaseAuth } from "@/lib/supabase-browser";
 
 type WindowKey = "15d" | "30d" | "90d" | "365d" | "all";
 type Mode = "official" | "effective" | "both";
@@ -43,6 +45,9 @@ type ApiResponse = {
   official: Point[];
   effective: Point[];
   manualFixings: ManualFixing[];
+  parallel?: Point[];
+  premium?: PremiumPoint[];
+  premiumDefinition?: string;
 };
 
 const WINDOWS: WindowKey[] = ["15d", "30d", "90d", "365d", "all"];
@@ -115,6 +120,126 @@ function significanceFromPct(pct: number | null): {
   };
 }
 
+// Parallel market premium over the official fixing, in %, on its own scale
+// (always including 0 so the sign of the premium is visible).
+function PremiumChart({
+  points,
+  definition,
+}: {
+  points: PremiumPoint[];
+  definition?: string;
+}) {
+  const wrapperRef = useRef<HTMLDivElement | null>(null);
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+
+  const width = 920;
+  const height = 120;
+  const paddingX = 14;
+  const paddingY = 12;
+  const innerW = width - paddingX * 2;
+  const innerH = height - paddingY * 2;
+
+  const pcts = points.map((p) => p.premium_pct);
+  const min = Math.min(0, ...pcts);
+  const max = Math.max(0, ...pcts);
+  const range = max - min || 1;
+  const stepX = points.length > 1 ? innerW / (points.length - 1) : innerW;
+
+  const toY = (pct: number) => paddingY + innerH - ((pct - min) / range) * innerH;
+  const path = points
+    .map((p, i) => `${i === 0 ? "M" : "L"} ${paddingX + i * stepX} ${toY(p.premium_pct)}`)
+    .join(" ");
+
+  function onMove(clientX: number) {
+    const el = wrapperRef.current;
+    if (!el || points.length < 2) return;
+    const rect = el.getBoundingClientRect();
+    const x = ((clientX - rect.left) / rect.width) * width;
+    setHoverIdx(clamp(Math.round((x - paddingX) / stepX), 0, points.length - 1));
+  }
+
+  const activeIdx = hoverIdx ?? points.length - 1;
+  const active = points[activeIdx];
+  const activeX = paddingX + activeIdx * stepX;
+
+  return (
+    <div className="rounded-xl border border-zinc-800 bg-zinc-950/80 px-3 py-3">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <div className="text-[10px] uppercase tracking-[0.18em] text-zinc-500">
+          Parallel market premium
+        </div>
+        {active ? (
+          <div className="text-[11px] text-zinc-400 tabular-nums">
+            {active.date} · {formatSigned(active.premium_pct, 2)}%
+            <span className="ml-2 text-zinc-600">
+              parallel {active.parallel_mid.toLocaleString()} vs official{" "}
+              {active.official_mid.toLocaleString()}
+              {active.official_date !== active.date ? ` (${active.official_date})` : ""}
+            </span>
+          </div>
+        ) : null}
+      </div>
+
+      {points.length >= 2 ? (
+        <div ref={wrapperRef} className="relative mt-2">
+          <svg
+            viewBox={`0 0 ${width} ${height}`}
+            className="h-28 w-full"
+            onMouseMove={(e) => onMove(e.clientX)}
+            onMouseLeave={() => setHoverIdx(null)}
+            onTouchStart={(e) => onMove(e.touches[0].clientX)}
+          >
+            <line
+              x1={paddingX}
+              y1={toY(0)}
+              x2={width - paddingX}
+              y2={toY(0)}
+              stroke="rgba(255,255,255,0.18)"
+              strokeDasharray="4 4"
+              strokeWidth={1}
+            />
+            <path
+              d={path}
+              fill="none"
+              stroke="rgba(245,158,11,0.95)"
+              strokeWidth={2}
+              strokeLinecap="round"
+            />
+            {active ? (
+              <>
+                <line
+                  x1={activeX}
+                  y1={paddingY}
+                  x2={activeX}
+                  y2={height - paddingY}
+                  stroke="rgba(255,255,255,0.18)"
+                  strokeWidth={1}
+                />
+                <circle
+                  cx={activeX}
+                  cy={toY(active.premium_pct)}
+                  r={3.5}
+                  fill="rgba(245,158,11,0.95)"
+                />
+              </>
+            ) : null}
+          </svg>
+        </div>
+      ) : (
+        <div className="mt-2 text-[12px] text-zinc-500">
+          {points.length === 1
+            ? "Only one parallel market quote in this window."
+            : "No parallel market quotes in this window."}
+        </div>
+      )}
+
+      {definition ? (
+        <p className="mt-2 text-[11px] leading-relaxed text-zinc-600">{definition}</p>
+      ) : null}
+    </div>
+  );
+}
+
 export default function EngineHistoryChartV2() {
   const wrapperRef = useRef<HTMLDivElement | null>(null);
   const commentaryAbortRef = useRef<AbortController | null>(null);
@@ -164,7 +289,7 @@ export default function EngineHistoryChartV2() {
       commentaryAbortRef.current = null;
 
       try {
-        const res = await fetch(
+        const res = await fetchWithSupabaseAuth(
           `/api/admin/engine-history-v2?window=${encodeURIComponent(
             windowKey
           )}&pair=${encodeURIComponent(pair)}`,
@@ -505,7 +630,7 @@ export default function EngineHistoryChartV2() {
 
     const t = setTimeout(async () => {
       try {
-        const res = await fetch("/api/admin/engine-commentary", {
+        const res = await fetchWithSupabaseAuth("/api/admin/engine-commentary", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(payload),
@@ -945,6 +1070,10 @@ export default function EngineHistoryChartV2() {
         )}
       </div>
 
+      {!loading && !err && data ? (
+        <PremiumChart points={data.premium ?? []} definition={data.premiumDefinition} />
+      ) : null}
+
       {/* Inspector */}
       {!loading && !err && hasSeries && activePoint ? (
         <div className="rounded-2xl border border-zinc-900 bg-black/40 p-4">
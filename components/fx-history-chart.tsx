@@ -4,24 +4,6 @@ import { useEffect, useMemo, useRef, useState } from "react";
 
 type HistoryPoint = { date: string; mid: number };
 
-type ManualFixingPoint = {
-  id: string;
-  date: string;
-  mid: number;
-  isOfficial: boolean;
-  isManualOverride: boolean;
-  notes: string | null;
-  createdAt: string;
-  createdEmail: string | null;
-};
-
-type EnrichedPoint = {
-  date: string;
-  mid: number;
-  source: "official" | "manual_fixing" | "manual_override";
-  manual?: ManualFixingPoint;
-};
-
 type Series = {
   label: string;
   days: number;
@@ -37,7 +19,7 @@ type SeriesProps = {
   window?: undefined;
   interactive?: boolean;
   showTooltip?: boolean;
-  onPointSelect?: (p: EnrichedPoint) => void;
+  onPointSelect?: (p: HistoryPoint) => void;
 };
 
 type FetchProps = {
@@ -47,30 +29,21 @@ type FetchProps = {
   window: WindowKey;
   interactive?: boolean;
   showTooltip?: boolean;
-  onPointSelect?: (p: EnrichedPoint) => void;
+  onPointSelect?: (p: HistoryPoint) => void;
 };
 
 type Props = SeriesProps | FetchProps;
 
-type AnchorHistoryResponse = {
+type RatesHistoryResponse = {
   pair: string;
-  window: WindowKey;
-  minDate: string;
-  maxDate: string;
-  history: { date: string; mid: number }[];
-  manualFixings: ManualFixingPoint[];
+  points: { date: string; mid: number }[];
+  meta: { from: string; to: string; count: number };
 };
 
 function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
 
-function formatSource(p: EnrichedPoint) {
-  if (p.source === "manual_override") return "Manual override";
-  if (p.source === "manual_fixing") return "Manual fixing";
-  return "Official";
-}
-
 export default function FxHistoryChart(props: Props) {
   const isSeriesMode = "series" in props && props.series !== undefined;
   const isFetchMode = !isSeriesMode;
@@ -81,7 +54,6 @@ export default function FxHistoryChart(props: Props) {
   const onPointSelect = props.onPointSelect;
 
   const [fetchedSeries, setFetchedSeries] = useState<Series[] | null>(null);
-  const [fetchedManualFixings, setFetchedManualFixings] = useState<ManualFixingPoint[] | null>(null);
 
   const [loading, setLoading] = useState(false);
   const [fetchError, setFetchError] = useState<string | null>(null);
@@ -98,7 +70,6 @@ export default function FxHistoryChart(props: Props) {
   useEffect(() => {
     if (isSeriesMode) {
       setFetchedSeries(null);
-      setFetchedManualFixings(null);
       setFetchError(null);
       const series = (props as SeriesProps).series;
       const firstLabel = series && series.length > 0 ? series[0].label : "";
@@ -112,20 +83,25 @@ export default function FxHistoryChart(props: Props) {
     setLoading(true);
     setFetchError(null);
 
-    const pair = `${base}${quote}`.toUpperCase();
-
-    fetch(`/api/admin/anchor-history?pair=${pair}&window=${window}`, {
-      cache: "no-store",
-    })
+    // The published series only, through the site's chart route so page views
+    // are not metered against the public v1 API. Manual fixings are
+    // central-bank data, served by the authenticated /api/admin routes.
+    fetch(
+      `/api/charts/history?base=${encodeURIComponent(base.toUpperCase())}&quote=${encodeURIComponent(
+        quote.toUpperCase()
+      )}&window=${window}`,
+      // Revalidate with the ETag instead of refetching the whole series.
+      { cache: "no-cache" }
+    )
       .then(async (res) => {
         if (!res.ok) {
           const text = await res.text();
           throw new Error(text || `HTTP ${res.status}`);
         }
-        return (await res.json()) as AnchorHistoryResponse;
+        return (await res.json()) as RatesHistoryResponse;
       })
       .then((json) => {
-        const pts: HistoryPoint[] = (json.history ?? []).map((h) => ({
+        const pts: HistoryPoint[] = (json.points ?? []).map((h) => ({
           date: h.date,
           mid: h.mid,
         }));
@@ -139,7 +115,6 @@ export default function FxHistoryChart(props: Props) {
         };
 
         setFetchedSeries([s]);
-        setFetchedManualFixings(json.manualFixings ?? []);
         setActiveLabel(window);
 
         // Reset hover/lock when series changes
@@ -150,7 +125,6 @@ export default function FxHistoryChart(props: Props) {
         console.error("FxHistoryChart fetch error:", err);
         setFetchError("Unable to load history.");
         setFetchedSeries(null);
-        setFetchedManualFixings(null);
       })
       .finally(() => {
         setLoading(false);
@@ -165,32 +139,7 @@ export default function FxHistoryChart(props: Props) {
     return series.find((s) => s.label === activeLabel) ?? series[0];
   }, [activeLabel, series]);
 
-  const manualFixingsByDate = useMemo(() => {
-    const map = new Map<string, ManualFixingPoint>();
-    (fetchedManualFixings ?? []).forEach((m) => {
-      map.set(m.date, m);
-    });
-    return map;
-  }, [fetchedManualFixings]);
-
-  const enrichedPoints: EnrichedPoint[] = useMemo(() => {
-    // Series-mode does not carry manual metadata; treat as official.
-    if (!activeSeries) return [];
-
-    return activeSeries.points.map((p) => {
-      const m = manualFixingsByDate.get(p.date);
-      if (!m) return { date: p.date, mid: p.mid, source: "official" as const };
-
-      // Effective series: manual fixing replaces official on that date.
-      const src = m.isManualOverride ? ("manual_override" as const) : ("manual_fixing" as const);
-      return {
-        date: p.date,
-        mid: m.mid,
-        source: src,
-        manual: m,
-      };
-    });
-  }, [activeSeries, manualFixingsByDate]);
+  const activePoints: HistoryPoint[] = activeSeries?.points ?? [];
 
   const activePointIndex = lockedIndex ?? hoverIndex;
 
@@ -223,7 +172,7 @@ export default function FxHistoryChart(props: Props) {
 
   function handleSelect(idx: number) {
     setLockedIndex(idx);
-    const p = enrichedPoints[idx];
+    const p = activePoints[idx];
     if (p && onPointSelect) onPointSelect(p);
   }
 
@@ -232,17 +181,17 @@ export default function FxHistoryChart(props: Props) {
   // -------------------------------
   if (variant === "compact") {
     // Skeleton while loading or before data lands
-    if (loading && enrichedPoints.length < 2) {
+    if (loading && activePoints.length < 2) {
       return (
         <div className="h-full w-full rounded-full bg-gradient-to-r from-neutral-900/80 via-neutral-800/40 to-neutral-900/80 animate-pulse" />
       );
     }
 
-    if (fetchError || enrichedPoints.length < 2) {
+    if (fetchError || activePoints.length < 2) {
       return <div className="h-full w-full rounded-full bg-neutral-900/60" />;
     }
 
-    const points = enrichedPoints;
+    const points = activePoints;
 
     const mids = points.map((p) => p.mid);
     const min = Math.min(...mids);
@@ -276,11 +225,6 @@ export default function FxHistoryChart(props: Props) {
     // Only show tooltip on hover in compact mode, not locked (cards should remain light)
     const shouldShowTooltip = showTooltip && hoverIndex !== null && active && activeXY;
 
-    const manualMarkerIdxs = points
-      .map((p, i) => ({ p, i }))
-      .filter(({ p }) => p.source !== "official")
-      .map(({ i }) => i);
-
     return (
       <div ref={wrapperRef} className="relative h-full w-full">
         <svg
@@ -311,11 +255,6 @@ export default function FxHistoryChart(props: Props) {
           {/* Line */}
           <path d={pathData} fill="none" stroke="#f4f4f5" strokeWidth={1.4} strokeLinecap="round" />
 
-          {/* Manual markers */}
-          {manualMarkerIdxs.map((i) => (
-            <circle key={i} cx={svgPoints[i].x} cy={svgPoints[i].y} r={1.6} fill="#fafafa" opacity={0.9} />
-          ))}
-
           {/* Active hover marker */}
           {hoverIndex !== null && (
             <circle cx={activeXY.x} cy={activeXY.y} r={2.2} fill="#fafafa" />
@@ -335,7 +274,6 @@ export default function FxHistoryChart(props: Props) {
           >
             <div className="text-neutral-300">{active.date}</div>
             <div className="tabular-nums">{active.mid.toLocaleString()}</div>
-            <div className="text-neutral-400">{formatSource(active)}</div>
           </div>
         )}
       </div>
@@ -345,7 +283,7 @@ export default function FxHistoryChart(props: Props) {
   // -------------------------------
   // FULL MODE (hero chart)
   // -------------------------------
-  if (!activeSeries || enrichedPoints.length < 2) {
+  if (!activeSeries || activePoints.length < 2) {
     if (loading && series.length === 0) {
       return (
         <div className="mt-3 rounded-2xl border border-zinc-900 bg-zinc-950/80 p-4">
@@ -374,7 +312,7 @@ export default function FxHistoryChart(props: Props) {
     );
   }
 
-  const points = enrichedPoints;
+  const points = activePoints;
 
   const mids = points.map((p) => p.mid);
   const min = Math.min(...mids);
@@ -408,11 +346,6 @@ export default function FxHistoryChart(props: Props) {
   const active = points[idx];
   const activeXY = svgPoints[idx];
 
-  const manualMarkerIdxs = points
-    .map((p, i) => ({ p, i }))
-    .filter(({ p }) => p.source !== "official")
-    .map(({ i }) => i);
-
   const shouldShowTooltip =
     showTooltip &&
     activePointIndex !== null &&
@@ -493,11 +426,6 @@ export default function FxHistoryChart(props: Props) {
           {/* Line */}
           <path d={pathData} fill="none" stroke="#fafafa" strokeWidth={1.4} strokeLinecap="round" />
 
-          {/* Manual markers */}
-          {manualMarkerIdxs.map((i) => (
-            <circle key={i} cx={svgPoints[i].x} cy={svgPoints[i].y} r={2} fill="#fafafa" opacity={0.95} />
-          ))}
-
           {/* Active crosshair */}
           {(hoverIndex !== null || lockedIndex !== null) && (
             <>
@@ -534,10 +462,6 @@ export default function FxHistoryChart(props: Props) {
           >
             <div className="text-neutral-300">{active.date}</div>
             <div className="tabular-nums">{active.mid.toLocaleString()}</div>
-            <div className="text-neutral-400">{formatSource(active)}</div>
-            {active.source !== "official" && active.manual?.createdEmail && (
-              <div className="text-neutral-500">By: {active.manual.createdEmail}</div>
-            )}
           </div>
         )}
 
@@ -0,0 +1,61 @@
+// lib/admin/audit.ts
+import { supabaseServer, supabaseServerFor, type ChangeContext } from "@/lib/supabase/server";
+import { getRequestMeta, type AdminActor } from "@/lib/admin/auth";
+
+export type AuditEvent = {
+  action: string;
+  targetTable?: string;
+  targetKey?: string | number | null;
+  details?: Record<string, unknown>;
+};
+
+/**
+ * Appends an entry to fx_audit_log attributed to `actor`.
+ * Failures are logged, not thrown: the action itself has already happened.
+ */
+export async function recordAdminAction(actor: AdminActor | null, event: AuditEvent) {
+  const { ip } = await getRequestMeta();
+
+  const { error } = await supabaseServer.from("fx_audit_log").insert({
+    actor_id: actor?.id ?? null,
+    actor_email: actor?.email ?? null,
+    action: event.action,
+    target_table: event.targetTable ?? null,
+    target_key: event.targetKey === undefined || event.targetKey === null ? null : String(event.targetKey),
+    ip,
+    details: event.details ?? {},
+  });
+
+  if (error) console.error(`Failed to write audit entry '${event.action}':`, error);
+}
+
+/** Optional free-text reason from a request body, trimmed and capped. */
+export function parseReason(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, 2000) : null;
+}
+
+export async function changeContextFor(
+  actor: (AdminActor & { kind?: string }) | null,
+  reason: string | null
+): Promise<ChangeContext> {
+  const { ip } = await getRequestMeta();
+  return {
+    actorId: actor?.id ?? null,
+    actorEmail: actor?.email ?? null,
+    ip,
+    source: actor?.kind ?? (actor ? "admin" : "system"),
+    reason,
+  };
+}
+
+/**
+ * Client for rate / fixing / schedule writes made on behalf of `actor`.
+ * The fx_change_log triggers record the before/after rows with this
+ * actor, the request IP and `reason`.
+ */
+export async function auditedClient(
+  actor: (AdminActor & { kind?: string }) | null,
+  reason: string | null
+) {
+  return supabaseServerFor(await changeContextFor(actor, reason));
+}
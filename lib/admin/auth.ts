@@ -1,10 +1,170 @@
 // lib/admin/auth.ts
-import { cookies } from "next/headers";
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { cookies, headers } from "next/headers";
+import { supabaseServer } from "@/lib/supabase/server";
+import { clientIp } from "@/lib/api/clientIp";
+import { isRole, type Role } from "@/lib/admin/permissions";
 
 export const ADMIN_COOKIE_NAME = "fx_admin_session";
 
-export async function isAdminAuthenticated(): Promise<boolean> {
+/**
+ * Admin sessions.
+ *
+ * The cookie holds "<payloadB64>.<sigB64>", an HMAC-SHA256 signed payload
+ * { sid, sub, email, exp } keyed by FX_ADMIN_SESSION_SECRET. A token is only
+ * accepted when the signature and expiry check out AND its admin_sessions row
+ * is neither revoked nor expired, so logout / revocation is server-side.
+ */
+
+export type AdminActor = {
+  id: string;
+  email: string;
+};
+
+export type AdminSession = AdminActor & {
+  role: Role;
+  sessionId: string;
+  expiresAt: string;
+};
+
+type TokenPayload = {
+  sid: string;
+  sub: string;
+  email: string;
+  exp: number; // unix seconds
+};
+
+export function adminSessionTtlSeconds() {
+  const hours = Number(process.env.FX_ADMIN_SESSION_TTL_HOURS);
+  return Math.round((Number.isFinite(hours) && hours > 0 ? hours : 8) * 60 * 60);
+}
+
+function sessionSecret(): string | null {
+  const secret = process.env.FX_ADMIN_SESSION_SECRET;
+  return secret && secret.length >= 32 ? secret : null;
+}
+
+function sign(data: string, secret: string) {
+  return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+function encodeToken(payload: TokenPayload, secret: string) {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${sign(body, secret)}`;
+}
+
+/** Checks signature and expiry only; revocation is checked against the DB. */
+function decodeToken(token: string, secret: string): TokenPayload | null {
+  const [body, sig] = token.split(".");
+  if (!body || !sig) return null;
+
+  const expected = Buffer.from(sign(body, secret));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as TokenPayload;
+    if (!payload?.sid || !payload?.sub || typeof payload.exp !== "number") return null;
+    if (payload.exp * 1000 <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export async function getRequestMeta(): Promise<{ ip: string; userAgent: string | null }> {
+  const h = await headers();
+  return { ip: clientIp(h), userAgent: h.get("user-agent") };
+}
+
+/**
+ * Creates an admin_sessions row and returns the signed cookie value.
+ * Throws if FX_ADMIN_SESSION_SECRET is missing or the insert fails.
+ */
+export async function createAdminSession(
+  actor: AdminActor & { role: Role },
+  meta: { ip: string; userAgent: string | null }
+): Promise<{ token: string; session: AdminSession }> {
+  const secret = sessionSecret();
+  if (!secret) {
+    throw new Error("FX_ADMIN_SESSION_SECRET is not configured (min 32 characters)");
+  }
+
+  const sessionId = randomUUID();
+  const exp = Math.floor(Date.now() / 1000) + adminSessionTtlSeconds();
+  const expiresAt = new Date(exp * 1000).toISOString();
+
+  const { error } = await supabaseServer.from("admin_sessions").insert({
+    id: sessionId,
+    admin_user_id: actor.id,
+    email: actor.email,
+    ip: meta.ip,
+    user_agent: meta.userAgent,
+    expires_at: expiresAt,
+  });
+  if (error) throw new Error(`Failed to create admin session: ${error.message}`);
+
+  return {
+    token: encodeToken({ sid: sessionId, sub: actor.id, email: actor.email, exp }, secret),
+    session: { id: actor.id, email: actor.email, role: actor.role, sessionId, expiresAt },
+  };
+}
+
+/** Resolves the current request's admin session, or null. */
+export async function getAdminSession(): Promise<AdminSession | null> {
+  const secret = sessionSecret();
+  if (!secret) return null;
+
   const store = await cookies(); // cookies() is async in route handlers
-  const session = store.get(ADMIN_COOKIE_NAME);
-  return !!session && session.value === "ok";
+  const raw = store.get(ADMIN_COOKIE_NAME)?.value;
+  if (!raw) return null;
+
+  const payload = decodeToken(raw, secret);
+  if (!payload) return null;
+
+  const { data, error } = await supabaseServer
+    .from("admin_sessions")
+    .select("id, admin_user_id, email, expires_at, revoked_at, admin_users(disabled_at, role)")
+    .eq("id", payload.sid)
+    .maybeSingle();
+
+  if (error) {
+    console.error("admin_sessions lookup failed:", error);
+    return null;
+  }
+  if (!data || data.revoked_at || data.admin_user_id !== payload.sub) return null;
+  if (new Date(data.expires_at).getTime() <= Date.now()) return null;
+
+  const user = Array.isArray(data.admin_users) ? data.admin_users[0] : data.admin_users;
+  if (user?.disabled_at || !isRole(user?.role)) return null;
+
+  return {
+    id: String(data.admin_user_id),
+    email: String(data.email),
+    role: user.role,
+    sessionId: String(data.id),
+    expiresAt: String(data.expires_at),
+  };
+}
+
+export async function isAdminAuthenticated(): Promise<boolean> {
+  return (await getAdminSession()) !== null;
+}
+
+/** Revokes one session, or every open session of the admin when `all` is set. */
+export async function revokeAdminSessions(
+  session: AdminSession,
+  opts: { all?: boolean } = {}
+): Promise<{ error: string | null }> {
+  let query = supabaseServer
+    .from("admin_sessions")
+    .update({ revoked_at: new Date().toISOString() })
+    .is("revoked_at", null);
+
+  query = opts.all
+    ? query.eq("admin_user_id", session.id)
+    : query.eq("id", session.sessionId);
+
+  const { error } = await query;
+  return { error: error ? error.message : null };
 }
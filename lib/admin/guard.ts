@@ -0,0 +1,132 @@
+// lib/admin/guard.ts
+import { NextResponse } from "next/server";
+import { getBearerToken, getSupabaseUser, type SupabaseUserIdentity } from "@/lib/supabase/user";
+import { getAdminSession, type AdminActor } from "@/lib/admin/auth";
+import {
+  hasPermission,
+  isRole,
+  permissionsFor,
+  type Permission,
+  type Role,
+} from "@/lib/admin/permissions";
+
+/**
+ * Single authorization layer for /api/admin/* and /api/central-bank/*.
+ *
+ * The caller is identified by either:
+ * - a valid admin session cookie (role from admin_users.role), or
+ * - `Authorization: Bearer <supabase access token>` (role from profiles.role).
+ *
+ * Emails on CENTRAL_BANK_ALLOWED_EMAILS are treated as admins regardless of
+ * profiles.role, so the allowlist keeps working as a bootstrap. It is a
+ * server-only variable; a NEXT_PUBLIC_ copy would ship it to the browser.
+ *
+ * 401 = no or invalid credentials, 403 = authenticated but lacks the permission.
+ */
+
+export type AdminPrincipal = AdminActor & {
+  kind: "admin_session" | "supabase_user";
+  role: Role | null;
+  access: "session" | "allowlist" | "role";
+  permissions: Permission[];
+};
+
+type GuardResult =
+  | { principal: AdminPrincipal; response: null }
+  | { principal: null; response: NextResponse };
+
+export function unauthorized(details = "Admin session or Supabase bearer token required") {
+  return NextResponse.json({ error: "Unauthorized", details }, { status: 401 });
+}
+
+export function forbidden(details = "Insufficient permissions") {
+  return NextResponse.json({ error: "Forbidden", details }, { status: 403 });
+}
+
+function allowedEmails() {
+  const raw = process.env.CENTRAL_BANK_ALLOWED_EMAILS ?? "";
+  return new Set(
+    raw
+      .split(",")
+      .map((s) => s.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+export function isAllowlistedEmail(email: string | null | undefined) {
+  return !!email && allowedEmails().has(email.trim().toLowerCase());
+}
+
+function principalFromSupabaseUser(user: SupabaseUserIdentity): AdminPrincipal {
+  const allowlisted = isAllowlistedEmail(user.email);
+  const role: Role | null = allowlisted ? "admin" : isRole(user.role) ? user.role : null;
+
+  return {
+    id: user.id,
+    email: user.email ?? user.id,
+    kind: "supabase_user",
+    role,
+    access: allowlisted ? "allowlist" : "role",
+    permissions: permissionsFor(role),
+  };
+}
+
+/** Identifies the caller without checking any permission. */
+export async function resolvePrincipal(): Promise<GuardResult> {
+  const session = await getAdminSession();
+  if (session) {
+    return {
+      principal: {
+        id: session.id,
+        email: session.email,
+        kind: "admin_session",
+        role: session.role,
+        access: "session",
+        permissions: permissionsFor(session.role),
+      },
+      response: null,
+    };
+  }
+
+  const token = await getBearerToken();
+  if (!token) return { principal: null, response: unauthorized() };
+
+  let user: SupabaseUserIdentity | null;
+  try {
+    user = await getSupabaseUser(token);
+  } catch (err: unknown) {
+    console.error("Admin guard role lookup failed:", err);
+    return {
+      principal: null,
+      response: NextResponse.json(
+        {
+          error: "Failed to resolve user role",
+          details: err instanceof Error ? err.message : String(err),
+        },
+        { status: 500 }
+      ),
+    };
+  }
+
+  if (!user) return { principal: null, response: unauthorized("Invalid or expired access token") };
+
+  return { principal: principalFromSupabaseUser(user), response: null };
+}
+
+export async function requirePermission(permission: Permission): Promise<GuardResult> {
+  const result = await resolvePrincipal();
+  if (!result.principal) return result;
+
+  if (!hasPermission(result.principal.role, permission)) {
+    return {
+      principal: null,
+      response: forbidden(
+        result.principal.role
+          ? `Role '${result.principal.role}' lacks the '${permission}' permission`
+          : "No role assigned to this account"
+      ),
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,62 @@
+// lib/admin/loginThrottle.ts
+import { supabaseServer } from "@/lib/supabase/server";
+
+/**
+ * Login rate limiting backed by admin_login_attempts, so the limit holds
+ * across serverless instances. Failures are counted per IP and per email over
+ * a sliding window; a successful login does not reset the window.
+ */
+
+const WINDOW_MINUTES = 15;
+const MAX_FAILURES_PER_IP = 10;
+const MAX_FAILURES_PER_EMAIL = 5;
+
+export type ThrottleVerdict = {
+  allowed: boolean;
+  retryAfterSeconds: number;
+};
+
+async function recentFailures(column: "ip" | "email", value: string, since: string) {
+  const { data, count, error } = await supabaseServer
+    .from("admin_login_attempts")
+    .select("created_at", { count: "exact" })
+    .eq(column, value)
+    .eq("success", false)
+    .gte("created_at", since)
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  if (error) throw new Error(`Failed to read login attempts: ${error.message}`);
+  return { count: count ?? 0, oldest: data?.[0]?.created_at as string | undefined };
+}
+
+export async function checkLoginThrottle(ip: string, email: string): Promise<ThrottleVerdict> {
+  const windowMs = WINDOW_MINUTES * 60 * 1000;
+  const since = new Date(Date.now() - windowMs).toISOString();
+
+  const [byIp, byEmail] = await Promise.all([
+    recentFailures("ip", ip, since),
+    recentFailures("email", email, since),
+  ]);
+
+  const blocking = [
+    byIp.count >= MAX_FAILURES_PER_IP ? byIp.oldest : undefined,
+    byEmail.count >= MAX_FAILURES_PER_EMAIL ? byEmail.oldest : undefined,
+  ].filter((v): v is string => !!v);
+
+  if (!blocking.length) return { allowed: true, retryAfterSeconds: 0 };
+
+  // Blocked until the oldest failure in the window ages out.
+  const unblockAt = Math.max(...blocking.map((t) => new Date(t).getTime() + windowMs));
+  return {
+    allowed: false,
+    retryAfterSeconds: Math.max(1, Math.ceil((unblockAt - Date.now()) / 1000)),
+  };
+}
+
+export async function recordLoginAttempt(ip: string, email: string, success: boolean) {
+  const { error } = await supabaseServer
+    .from("admin_login_attempts")
+    .insert({ ip, email, success });
+  if (error) console.error("Failed to record admin login attempt:", error);
+}
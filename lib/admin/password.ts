@@ -0,0 +1,37 @@
+// lib/admin/password.ts
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+/**
+ * Password hashes for admin_users.password_hash.
+ * Format: "scrypt$<N>$<saltB64>$<hashB64>" (r = 8, p = 1, 64-byte key).
+ * scripts/hash-admin-password.mjs produces the same format.
+ */
+
+const KEY_LENGTH = 64;
+const DEFAULT_COST = 16384;
+
+function derive(password: string, salt: Buffer, cost: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N: cost, r: 8, p: 1 }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+export async function hashAdminPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt, DEFAULT_COST);
+  return `scrypt$${DEFAULT_COST}$${salt.toString("base64")}$${key.toString("base64")}`;
+}
+
+export async function verifyAdminPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, costRaw, saltB64, hashB64] = stored.split("$");
+  const cost = Number(costRaw);
+  if (scheme !== "scrypt" || !Number.isInteger(cost) || !saltB64 || !hashB64) return false;
+
+  const expected = Buffer.from(hashB64, "base64");
+  if (expected.length !== KEY_LENGTH) return false;
+
+  const actual = await derive(password, Buffer.from(saltB64, "base64"), cost);
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,63 @@
+// lib/admin/permissions.ts
+
+/**
+ * Role-based access model shared by /api/admin/*, /api/central-bank/* and the
+ * dashboards. Roles are cumulative: each one has every permission of the role
+ * before it.
+ *
+ *   viewer    read rates, fixings and the schedule
+ *   analyst   + engine history and commentary
+ *   fixer     + draft / edit manual fixings
+ *   approver  + approve fixings, publish rates, edit the fixing schedule,
+ *             read the change log
+ *   admin     + manage users, sources and API keys
+ */
+
+export const ROLES = ["viewer", "analyst", "fixer", "approver", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  "rates.read",
+  "fixings.read",
+  "engine.read",
+  "fixings.draft",
+  "fixings.approve",
+  "rates.publish",
+  "schedule.write",
+  "audit.read",
+  "sources.manage",
+  "users.manage",
+  "api_keys.manage",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+const GRANTS: Record<Role, Permission[]> = {
+  viewer: ["rates.read", "fixings.read"],
+  analyst: ["engine.read"],
+  fixer: ["fixings.draft"],
+  approver: ["fixings.approve", "rates.publish", "schedule.write", "audit.read"],
+  admin: ["sources.manage", "users.manage", "api_keys.manage"],
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  viewer: "Read rates, manual fixings and the fixing schedule.",
+  analyst: "Viewer access plus engine history and AI commentary.",
+  fixer: "Analyst access plus drafting manual fixings.",
+  approver:
+    "Fixer access plus approving fixings, publishing rates, editing the schedule and reading the change log.",
+  admin: "Full access, including users, roles, data sources and API keys.",
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function permissionsFor(role: Role | null): Permission[] {
+  if (!role) return [];
+  const upTo = ROLES.indexOf(role);
+  return ROLES.slice(0, upTo + 1).flatMap((r) => GRANTS[r]);
+}
+
+export function hasPermission(role: Role | null, permission: Permission): boolean {
+  return permissionsFor(role).includes(permission);
+}
@@ -0,0 +1,171 @@
+// lib/api/access.ts
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { clientIp } from "@/lib/api/clientIp";
+import { anonymousLimits, hashApiKey, type ApiLimits } from "@/lib/api/keys";
+import { getSharedStore } from "@/lib/store/shared";
+
+/**
+ * Access control and metering for /api/v1/*.
+ *
+ * A key is read from the `X-API-Key` header or the `api_key` query param.
+ * Without one the request is served at the anonymous tier, limited per client
+ * IP. An unknown or revoked key is rejected rather than downgraded, so a
+ * misconfigured client notices.
+ *
+ * The per-minute limit is a sliding window in the shared store
+ * (lib/store/shared.ts). The daily quota and usage counters live in
+ * api_usage_daily, updated by api_consume(). If either backend is unreachable
+ * the request is served and the error logged: metering must not take the
+ * public API down.
+ *
+ * Server-to-server calls between v1 routes (e.g. summary/insights reading
+ * summary/market) carry internalApiHeaders() and are not metered again.
+ */
+
+const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
+
+export type ApiAccess = {
+  keyId: string | null;
+  tier: string;
+  limits: ApiLimits;
+};
+
+type AccessResult =
+  | { access: ApiAccess; response: null }
+  | { access: null; response: NextResponse };
+
+type ConsumeRow = {
+  allowed: boolean;
+  retry_after_seconds: number;
+  day_count: number;
+};
+
+const INTERNAL_HEADER = "x-fx-internal-token";
+
+function internalToken() {
+  return hashApiKey(`internal:${process.env.SUPABASE_SERVICE_ROLE_KEY ?? ""}`);
+}
+
+/** Headers for a v1 route calling another v1 route on behalf of an already-metered request. */
+export function internalApiHeaders(): Record<string, string> {
+  return { [INTERNAL_HEADER]: internalToken() };
+}
+
+function isInternalCall(req: NextRequest) {
+  const presented = req.headers.get(INTERNAL_HEADER);
+  if (!presented) return false;
+  const expected = internalToken();
+  return presented.length === expected.length && timingSafeEqual(Buffer.from(presented), Buffer.from(expected));
+}
+
+function presentedKey(req: NextRequest): string | null {
+  const header = req.headers.get("x-api-key")?.trim();
+  if (header) return header;
+  const param = req.nextUrl.searchParams.get("api_key")?.trim();
+  return param || null;
+}
+
+function invalidKey(message: string) {
+  return NextResponse.json(
+    { error: { code: "INVALID_API_KEY", message } },
+    { status: 401, headers: VERSION_HEADERS }
+  );
+}
+
+async function resolveAccess(req: NextRequest): Promise<AccessResult> {
+  const secret = presentedKey(req);
+  if (!secret) return { access: { keyId: null, tier: "anonymous", limits: anonymousLimits() }, response: null };
+
+  const { data, error } = await supabaseServer
+    .from("api_keys")
+    .select("id, tier, rate_limit_per_minute, daily_quota, revoked_at")
+    .eq("key_hash", hashApiKey(secret))
+    .maybeSingle();
+
+  if (error) {
+    console.error("API key lookup failed:", error);
+    return {
+      access: null,
+      response: NextResponse.json(
+        { error: { code: "INTERNAL_ERROR", message: "Failed to verify API key." } },
+        { status: 500, headers: VERSION_HEADERS }
+      ),
+    };
+  }
+
+  if (!data) return { access: null, response: invalidKey("Unknown API key.") };
+  if (data.revoked_at) return { access: null, response: invalidKey("This API key has been revoked.") };
+
+  return {
+    access: {
+      keyId: String(data.id),
+      tier: String(data.tier),
+      limits: { perMinute: Number(data.rate_limit_per_minute), dailyQuota: Number(data.daily_quota) },
+    },
+    response: null,
+  };
+}
+
+/**
+ * Identifies the caller, applies its per-minute limit and daily quota, and
+ * meters the request against `endpoint` (e.g. "rates/latest").
+ * 401 = bad key, 429 = limit reached (with Retry-After).
+ */
+export async function requireApiAccess(req: NextRequest, endpoint: string): Promise<AccessResult> {
+  if (isInternalCall(req)) {
+    return { access: { keyId: null, tier: "internal", limits: anonymousLimits() }, response: null };
+  }
+
+  const result = await resolveAccess(req);
+  if (!result.access) return result;
+
+  const { access } = result;
+  const subject = access.keyId ? `key:${access.keyId}` : `anon:${clientIp(req.headers)}`;
+
+  // Per-minute limit in the shared store; daily quota and metering in Postgres.
+  const minute = await getSharedStore().hit(`api:rl:${subject}`, access.limits.perMinute, 60_000);
+
+  const { data, error } = await supabaseServer.rpc("api_consume", {
+    p_subject: subject,
+    p_api_key_id: access.keyId,
+    p_endpoint: endpoint,
+    p_daily_quota: access.limits.dailyQuota,
+    p_rejected: !minute.allowed,
+  });
+
+  if (error) console.error(`API usage metering failed for ${subject}:`, error);
+
+  const verdict = error ? null : ((Array.isArray(data) ? data[0] : data) as ConsumeRow | null);
+  if (minute.allowed && (!verdict || verdict.allowed)) return result;
+
+  const perMinute = !minute.allowed;
+  const retryAfterSeconds = perMinute
+    ? Math.ceil(minute.retryAfterMs / 1000)
+    : (verdict?.retry_after_seconds ?? 60);
+  const tierLabel = access.keyId ? "this API key" : "anonymous access (use an API key for higher limits)";
+
+  return {
+    access: null,
+    response: NextResponse.json(
+      {
+        error: {
+          code: perMinute ? "RATE_LIMITED" : "QUOTA_EXCEEDED",
+          message: perMinute
+            ? `Rate limit of ${access.limits.perMinute} requests per minute exceeded for ${tierLabel}.`
+            : `Daily quota of ${access.limits.dailyQuota} requests exceeded for ${tierLabel}.`,
+        },
+      },
+      {
+        status: 429,
+        headers: {
+          ...VERSION_HEADERS,
+          "Retry-After": String(Math.max(1, retryAfterSeconds)),
+          "X-RateLimit-Limit": String(perMinute ? access.limits.perMinute : access.limits.dailyQuota),
+          "X-RateLimit-Remaining": "0",
+        },
+      }
+    ),
+  };
+}
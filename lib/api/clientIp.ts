@@ -0,0 +1,44 @@
+// lib/api/clientIp.ts
+
+/**
+ * The caller's IP as seen by our own proxies, for rate limits, login
+ * throttling and audit records.
+ *
+ * Forwarding headers are client-controlled unless a proxy we run sets them,
+ * so none is honoured by default:
+ *
+ * - FX_TRUSTED_PROXY_HEADER names a header the edge proxy overwrites with the
+ *   peer address (e.g. x-real-ip). It is used as-is.
+ * - FX_TRUSTED_PROXY_HOPS is the number of our proxies that append to
+ *   X-Forwarded-For. Entries they added are skipped from the right; the next
+ *   one is the right-most hop we did not add, i.e. the client.
+ *
+ * With neither set every caller is "unknown" and shares one bucket, which
+ * fails safe: the per-IP limits cannot be dodged by rotating a header.
+ */
+
+const UNKNOWN_IP = "unknown";
+
+function trustedProxyHops() {
+  const n = Number(process.env.FX_TRUSTED_PROXY_HOPS);
+  return Number.isInteger(n) && n > 0 ? n : 0;
+}
+
+export function clientIp(headers: Headers): string {
+  const trustedHeader = process.env.FX_TRUSTED_PROXY_HEADER?.trim().toLowerCase();
+  if (trustedHeader) {
+    const value = headers.get(trustedHeader)?.trim();
+    if (value) return value;
+  }
+
+  const hops = trustedProxyHops();
+  if (!hops) return UNKNOWN_IP;
+
+  const chain = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  // Fewer entries than trusted hops: the header did not come through all of them.
+  if (chain.length < hops) return UNKNOWN_IP;
+  return chain[chain.length - hops];
+}
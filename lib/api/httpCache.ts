@@ -0,0 +1,157 @@
+// lib/api/httpCache.ts
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { cachedApiResponse, requestIdentity } from "@/lib/api/responseCache";
+
+/**
+ * Conditional GET for public /api/v1 endpoints.
+ *
+ * Rate endpoints derive their ETag from the request (path + query) and the
+ * data revision: the latest published as_of_date plus the last change to
+ * fx_daily_rates / manual_fixings / the fixing calendar
+ * (fx_rates_revision()), plus the current UTC hour for the stale flag. The
+ * hour also bounds Last-Modified and keys the response cache. That check is
+ * one small query, so If-None-Match / If-Modified-Since can be answered with
+ * 304 before the response is built. Endpoints without a revision marker hash
+ * the response body instead.
+ *
+ * Every v1 request is metered (lib/api/access.ts), anonymous ones per IP, so
+ * responses are private: a shared cache must not serve one caller's response
+ * to another without it reaching api_consume. Clients may still revalidate
+ * their own copy.
+ */
+
+export const CACHE_CONTROL = "private, max-age=60";
+
+const VERSION_HEADERS = { "X-FX-API-Version": "v1" };
+
+export type RatesRevision = {
+  latestAsOfDate: string | null;
+  changeId: number | null;
+  changedAt: string | null;
+};
+
+type Validators = {
+  etag: string;
+  lastModified: Date | null;
+};
+
+/** The current data revision, or null if it cannot be read (caching is then skipped). */
+export async function getRatesRevision(): Promise<RatesRevision | null> {
+  const { data, error } = await supabaseServer.rpc("fx_rates_revision");
+  if (error) {
+    console.error("fx_rates_revision failed:", error);
+    return null;
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as
+    | { latest_as_of_date: string | null; change_id: number | null; changed_at: string | null }
+    | null
+    | undefined;
+
+  return {
+    latestAsOfDate: row?.latest_as_of_date ?? null,
+    changeId: row?.change_id ?? null,
+    changedAt: row?.changed_at ?? null,
+  };
+}
+
+function tag(...parts: string[]) {
+  return `"${createHash("sha256").update(parts.join("|")).digest("base64url").slice(0, 27)}"`;
+}
+
+function revisionMarker(revision: RatesRevision) {
+  return `${revision.latestAsOfDate ?? "none"}.${revision.changeId ?? 0}`;
+}
+
+// Rate bodies carry a stale flag (lib/fx/dataQuality.ts) that can flip with
+// no new data once a fixing falls due, so every validator rolls over each hour.
+function stalenessEpoch(now: Date) {
+  const start = new Date(now);
+  start.setUTCMinutes(0, 0, 0);
+  return start;
+}
+
+function ratesVersion(revision: RatesRevision, epoch: Date) {
+  return `${revisionMarker(revision)}.${epoch.toISOString().slice(0, 13)}`;
+}
+
+function ratesValidators(req: NextRequest, revision: RatesRevision, epoch: Date): Validators {
+  const changedAt = revision.changedAt ? new Date(revision.changedAt) : null;
+  return {
+    etag: tag(requestIdentity(req), ratesVersion(revision, epoch)),
+    // The body may have changed at the start of this hour even with no new data.
+    lastModified: changedAt && changedAt > epoch ? changedAt : epoch,
+  };
+}
+
+function etagMatches(header: string, etag: string) {
+  const strip = (t: string) => t.trim().replace(/^W\//, "");
+  return header.split(",").some((t) => t.trim() === "*" || strip(t) === strip(etag));
+}
+
+function isNotModified(req: NextRequest, v: Validators) {
+  const ifNoneMatch = req.headers.get("if-none-match");
+  // If-None-Match takes precedence over If-Modified-Since (RFC 9110 §13.1.3).
+  if (ifNoneMatch) return etagMatches(ifNoneMatch, v.etag);
+
+  const ifModifiedSince = req.headers.get("if-modified-since");
+  if (!ifModifiedSince || !v.lastModified) return false;
+  const since = Date.parse(ifModifiedSince);
+  // HTTP dates have one-second resolution.
+  return Number.isFinite(since) && Math.floor(v.lastModified.getTime() / 1000) * 1000 <= since;
+}
+
+function cacheHeaders(v: Validators): Record<string, string> {
+  const headers: Record<string, string> = {
+    ETag: v.etag,
+    "Cache-Control": CACHE_CONTROL,
+    Vary: "Authorization, X-API-Key",
+  };
+  if (v.lastModified) headers["Last-Modified"] = v.lastModified.toUTCString();
+  return headers;
+}
+
+function notModified(v: Validators) {
+  return new NextResponse(null, { status: 304, headers: { ...VERSION_HEADERS, ...cacheHeaders(v) } });
+}
+
+function withCacheHeaders(res: Response, v: Validators) {
+  for (const [name, value] of Object.entries(cacheHeaders(v))) res.headers.set(name, value);
+  return res;
+}
+
+/**
+ * For endpoints whose output depends only on fx_daily_rates / manual_fixings:
+ * 304 when the client's copy is current, otherwise the (possibly cached)
+ * response with ETag, Last-Modified and Cache-Control.
+ */
+export async function conditionalRatesResponse(
+  req: NextRequest,
+  produce: () => Promise<Response>
+): Promise<Response> {
+  const revision = await getRatesRevision();
+  if (!revision) return cachedApiResponse(req, produce);
+
+  const epoch = stalenessEpoch(new Date());
+  const v = ratesValidators(req, revision, epoch);
+  if (isNotModified(req, v)) return notModified(v);
+
+  // Keyed by revision (and hour) so a write is visible immediately, not after the TTL.
+  const res = await cachedApiResponse(req, produce, ratesVersion(revision, epoch));
+  return res.status === 200 ? withCacheHeaders(res, v) : res;
+}
+
+/** For endpoints without a revision marker: the ETag is a hash of the response body. */
+export async function conditionalBodyResponse(
+  req: NextRequest,
+  produce: () => Promise<Response>
+): Promise<Response> {
+  const res = await cachedApiResponse(req, produce);
+  if (res.status !== 200) return res;
+
+  const v: Validators = { etag: tag(await res.clone().text()), lastModified: null };
+  if (isNotModified(req, v)) return notModified(v);
+  return withCacheHeaders(res, v);
+}
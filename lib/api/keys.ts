@@ -0,0 +1,298 @@
+// lib/api/keys.ts
+import { createHash, randomBytes } from "crypto";
+import { supabaseServer } from "@/lib/supabase/server";
+import { recordAdminAction } from "@/lib/admin/audit";
+import type { AdminPrincipal } from "@/lib/admin/guard";
+import type { ServiceResult } from "@/lib/centralBank/types";
+
+/**
+ * Issued keys for /api/v1/* (see 20261019001000_api_keys.sql).
+ *
+ * The secret is shown once, on create or rotate; only its SHA-256 hash is
+ * stored. Each key carries its own per-minute limit and daily quota, seeded
+ * from its tier and adjustable afterwards.
+ */
+
+export const API_KEY_TIERS = {
+  standard: { perMinute: 120, dailyQuota: 20_000 },
+  premium: { perMinute: 300, dailyQuota: 100_000 },
+} as const;
+export type ApiKeyTier = keyof typeof API_KEY_TIERS;
+
+export type ApiLimits = { perMinute: number; dailyQuota: number };
+
+// The public dashboards and widget call /api/v1 without a key, so the
+// anonymous tier has to cover a few page loads a minute per visitor.
+const DEFAULT_ANON_PER_MINUTE = 30;
+const DEFAULT_ANON_DAILY_QUOTA = 1_000;
+
+/** Limits for requests without a key, per client IP (FX_API_ANON_PER_MINUTE / FX_API_ANON_DAILY_QUOTA). */
+export function anonymousLimits(): ApiLimits {
+  const perMinute = Number(process.env.FX_API_ANON_PER_MINUTE);
+  const dailyQuota = Number(process.env.FX_API_ANON_DAILY_QUOTA);
+  return {
+    perMinute: Number.isInteger(perMinute) && perMinute > 0 ? perMinute : DEFAULT_ANON_PER_MINUTE,
+    dailyQuota: Number.isInteger(dailyQuota) && dailyQuota > 0 ? dailyQuota : DEFAULT_ANON_DAILY_QUOTA,
+  };
+}
+
+export function isApiKeyTier(value: unknown): value is ApiKeyTier {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(API_KEY_TIERS, value);
+}
+
+const KEY_PREFIX = "fxk_";
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+export function hashApiKey(secret: string): string {
+  return createHash("sha256").update(secret, "utf8").digest("hex");
+}
+
+function generateSecret() {
+  const secret = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { secret, prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(secret) };
+}
+
+export const API_KEY_COLUMNS =
+  "id, name, prefix, tier, rate_limit_per_minute, daily_quota, created_at, created_by, rotated_at, revoked_at, revoked_by, last_used_at";
+
+export type ApiKeyRow = {
+  id: string;
+  name: string;
+  prefix: string;
+  tier: string;
+  rate_limit_per_minute: number;
+  daily_quota: number;
+  created_at: string;
+  created_by: string | null;
+  rotated_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  last_used_at: string | null;
+};
+
+export type ApiKeyInput = {
+  name: string;
+  tier: ApiKeyTier;
+  rate_limit_per_minute: number;
+  daily_quota: number;
+};
+
+export function parseApiKeyPayload(
+  body: unknown
+): { value: ApiKeyInput; error: null } | { value: null; error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const name = typeof b.name === "string" ? b.name.trim().slice(0, 120) : "";
+  if (!name) return { value: null, error: "name is required." };
+
+  const tier = b.tier ?? "standard";
+  if (!isApiKeyTier(tier)) {
+    return { value: null, error: `tier must be one of: ${Object.keys(API_KEY_TIERS).join(", ")}.` };
+  }
+
+  const limit = (v: unknown, fallback: number) => {
+    if (v === undefined || v === null || v === "") return fallback;
+    const n = Number(v);
+    return Number.isInteger(n) && n > 0 ? n : NaN;
+  };
+
+  const perMinute = limit(b.rate_limit_per_minute, API_KEY_TIERS[tier].perMinute);
+  const dailyQuota = limit(b.daily_quota, API_KEY_TIERS[tier].dailyQuota);
+  if (Number.isNaN(perMinute) || Number.isNaN(dailyQuota)) {
+    return { value: null, error: "rate_limit_per_minute and daily_quota must be positive integers." };
+  }
+
+  return {
+    value: { name, tier, rate_limit_per_minute: perMinute, daily_quota: dailyQuota },
+    error: null,
+  };
+}
+
+export async function listApiKeys(): Promise<ServiceResult<ApiKeyRow[]>> {
+  const { data, error } = await supabaseServer
+    .from("api_keys")
+    .select(API_KEY_COLUMNS)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("GET api_keys error:", error);
+    return { data: null, error: "Failed to load API keys.", status: 500 };
+  }
+  return { data: (data ?? []) as ApiKeyRow[], error: null, status: 200 };
+}
+
+/** Creates a key; `secret` is returned once and never stored. */
+export async function createApiKey(
+  input: ApiKeyInput,
+  actor: AdminPrincipal
+): Promise<ServiceResult<{ key: ApiKeyRow; secret: string }>> {
+  const { secret, prefix, keyHash } = generateSecret();
+
+  const { data, error } = await supabaseServer
+    .from("api_keys")
+    .insert({ ...input, prefix, key_hash: keyHash, created_by: actor.email })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("INSERT api_keys error:", error);
+    return { data: null, error: "Failed to create API key.", status: 500 };
+  }
+
+  const key = data as ApiKeyRow;
+  await recordAdminAction(actor, {
+    action: "api_key.create",
+    targetTable: "api_keys",
+    targetKey: key.id,
+    details: { name: key.name, prefix: key.prefix, tier: key.tier },
+  });
+
+  return { data: { key, secret }, error: null, status: 201 };
+}
+
+async function loadActiveKey(id: string): Promise<ServiceResult<ApiKeyRow>> {
+  const { data, error } = await supabaseServer
+    .from("api_keys")
+    .select(API_KEY_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("GET api_keys error:", error);
+    return { data: null, error: "Failed to load API key.", status: 500 };
+  }
+  if (!data) return { data: null, error: "API key not found.", status: 404 };
+
+  const key = data as ApiKeyRow;
+  if (key.revoked_at) return { data: null, error: "API key has been revoked.", status: 409 };
+  return { data: key, error: null, status: 200 };
+}
+
+/** Replaces the secret in place; the old secret stops working immediately. */
+export async function rotateApiKey(
+  id: string,
+  actor: AdminPrincipal
+): Promise<ServiceResult<{ key: ApiKeyRow; secret: string }>> {
+  const existing = await loadActiveKey(id);
+  if (!existing.data) return { data: null, error: existing.error, status: existing.status };
+
+  const { secret, prefix, keyHash } = generateSecret();
+  const { data, error } = await supabaseServer
+    .from("api_keys")
+    .update({ prefix, key_hash: keyHash, rotated_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("revoked_at", null)
+    .select(API_KEY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("UPDATE api_keys error:", error);
+    return { data: null, error: "Failed to rotate API key.", status: 500 };
+  }
+  if (!data) return { data: null, error: "API key has been revoked.", status: 409 };
+
+  const key = data as ApiKeyRow;
+  await recordAdminAction(actor, {
+    action: "api_key.rotate",
+    targetTable: "api_keys",
+    targetKey: id,
+    details: { before_prefix: existing.data.prefix, after_prefix: key.prefix },
+  });
+
+  return { data: { key, secret }, error: null, status: 200 };
+}
+
+export async function updateApiKeyLimits(
+  id: string,
+  limits: ApiLimits,
+  actor: AdminPrincipal
+): Promise<ServiceResult<ApiKeyRow>> {
+  const existing = await loadActiveKey(id);
+  if (!existing.data) return existing;
+
+  const { data, error } = await supabaseServer
+    .from("api_keys")
+    .update({ rate_limit_per_minute: limits.perMinute, daily_quota: limits.dailyQuota })
+    .eq("id", id)
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("UPDATE api_keys error:", error);
+    return { data: null, error: "Failed to update API key limits.", status: 500 };
+  }
+
+  await recordAdminAction(actor, {
+    action: "api_key.limits",
+    targetTable: "api_keys",
+    targetKey: id,
+    details: {
+      before: { per_minute: existing.data.rate_limit_per_minute, daily_quota: existing.data.daily_quota },
+      after: { per_minute: limits.perMinute, daily_quota: limits.dailyQuota },
+    },
+  });
+
+  return { data: data as ApiKeyRow, error: null, status: 200 };
+}
+
+export async function revokeApiKey(id: string, actor: AdminPrincipal): Promise<ServiceResult<ApiKeyRow>> {
+  const existing = await loadActiveKey(id);
+  if (!existing.data) return existing;
+
+  const { data, error } = await supabaseServer
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString(), revoked_by: actor.email })
+    .eq("id", id)
+    .is("revoked_at", null)
+    .select(API_KEY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("UPDATE api_keys error:", error);
+    return { data: null, error: "Failed to revoke API key.", status: 500 };
+  }
+  if (!data) return { data: null, error: "API key has been revoked.", status: 409 };
+
+  await recordAdminAction(actor, {
+    action: "api_key.revoke",
+    targetTable: "api_keys",
+    targetKey: id,
+    details: { name: existing.data.name, prefix: existing.data.prefix },
+  });
+
+  return { data: data as ApiKeyRow, error: null, status: 200 };
+}
+
+export type ApiUsageRow = {
+  api_key_id: string | null;
+  endpoint: string;
+  day: string;
+  request_count: number;
+  rejected_count: number;
+};
+
+/** Per-endpoint, per-day usage for one key (or all keys) over the last `days` UTC days. */
+export async function getApiKeyUsage(
+  id: string | null,
+  days: number
+): Promise<ServiceResult<ApiUsageRow[]>> {
+  const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  let query = supabaseServer
+    .from("api_usage_daily")
+    .select("api_key_id, endpoint, day, request_count, rejected_count")
+    .gte("day", since)
+    .not("api_key_id", "is", null)
+    .order("day", { ascending: false })
+    .order("endpoint", { ascending: true })
+    .limit(5000);
+
+  if (id) query = query.eq("api_key_id", id);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("GET api_usage_daily error:", error);
+    return { data: null, error: "Failed to load API usage.", status: 500 };
+  }
+  return { data: (data ?? []) as ApiUsageRow[], error: null, status: 200 };
+}
@@ -0,0 +1,70 @@
+// lib/api/responseCache.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getSharedStore } from "@/lib/store/shared";
+
+/**
+ * Short-lived cache for public /api/v1 JSON responses, keyed by path and
+ * query (minus the API key) and kept in the shared store.
+ *
+ * Only 200 JSON responses are cached. Pass a `version` that changes with the
+ * underlying data to make writes visible immediately; otherwise they show
+ * once the entry expires (FX_API_CACHE_TTL_SECONDS, default 60; 0 disables
+ * caching).
+ */
+
+const DEFAULT_TTL_SECONDS = 60;
+
+type CachedResponse = {
+  status: number;
+  body: unknown;
+  headers: Record<string, string>;
+};
+
+export function apiCacheTtlMs(): number {
+  const raw = process.env.FX_API_CACHE_TTL_SECONDS;
+  const seconds = raw === undefined || raw === "" ? DEFAULT_TTL_SECONDS : Number(raw);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+}
+
+/** Path plus query in a stable order, without the API key. */
+export function requestIdentity(req: NextRequest): string {
+  const params = [...req.nextUrl.searchParams.entries()]
+    .filter(([name]) => name !== "api_key")
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `${req.nextUrl.pathname}?${new URLSearchParams(params).toString()}`;
+}
+
+/** Serves `produce()` from the cache when possible; marks the response with X-Cache. */
+export async function cachedApiResponse(
+  req: NextRequest,
+  produce: () => Promise<Response>,
+  version?: string
+): Promise<Response> {
+  const ttlMs = apiCacheTtlMs();
+  if (!ttlMs) return produce();
+
+  const store = getSharedStore();
+  const key = `api:cache:${requestIdentity(req)}${version ? `#${version}` : ""}`;
+
+  const hit = await store.get<CachedResponse>(key);
+  if (hit) {
+    return NextResponse.json(hit.value.body, {
+      status: hit.value.status,
+      headers: { ...hit.value.headers, "X-Cache": "HIT" },
+    });
+  }
+
+  const res = await produce();
+  if (res.status !== 200 || !res.headers.get("content-type")?.includes("application/json")) {
+    return res;
+  }
+
+  const body = await res.clone().json();
+  const headers = Object.fromEntries(
+    [...res.headers.entries()].filter(([name]) => name !== "content-length" && name !== "set-cookie")
+  );
+  await store.set<CachedResponse>(key, { status: res.status, body, headers }, ttlMs);
+
+  res.headers.set("X-Cache", "MISS");
+  return res;
+}
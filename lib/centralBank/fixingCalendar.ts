@@ -0,0 +1,198 @@
+// lib/centralBank/fixingCalendar.ts
+import { supabaseServer } from "@/lib/supabase/server";
+import { recordAdminAction } from "@/lib/admin/audit";
+import type { AdminPrincipal } from "@/lib/admin/guard";
+import type { ServiceResult } from "@/lib/centralBank/types";
+
+/**
+ * Edits to the fixing calendar tables (see lib/fx/calendar.ts for how they
+ * combine): fixing_windows, fixing_holidays and fixing_sessions. Callers
+ * authorize first; every write is recorded in the audit log.
+ */
+
+export const CALENDAR_ENTRY_KINDS = ["window", "holiday", "session"] as const;
+export type CalendarEntryKind = (typeof CALENDAR_ENTRY_KINDS)[number];
+
+const TABLES: Record<CalendarEntryKind, string> = {
+  window: "fixing_windows",
+  holiday: "fixing_holidays",
+  session: "fixing_sessions",
+};
+
+// Key columns each upsert replaces on.
+const CONFLICT: Record<CalendarEntryKind, string> = {
+  window: "label",
+  holiday: "holiday_date",
+  session: "session_date,window_label",
+};
+
+type Parsed = { value: Record<string, unknown>; error: null } | { value: null; error: string };
+
+const text = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : null);
+const isYmd = (v: unknown): v is string => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+const isTime = (v: unknown): v is string => typeof v === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(v);
+
+export function isCalendarEntryKind(value: unknown): value is CalendarEntryKind {
+  return typeof value === "string" && (CALENDAR_ENTRY_KINDS as readonly string[]).includes(value);
+}
+
+/** Validates a body for `kind`; times are HH:MM Juba time. */
+export function parseCalendarEntry(kind: CalendarEntryKind, body: unknown): Parsed {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  if (kind === "window") {
+    const label = text(b.label);
+    if (!label) return { value: null, error: "label is required." };
+    if (!isTime(b.planned_time)) return { value: null, error: "planned_time (HH:MM) is required." };
+    const weekdays = Array.isArray(b.weekdays) ? b.weekdays.map(Number) : [1, 2, 3, 4, 5];
+    if (!weekdays.length || weekdays.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return { value: null, error: "weekdays must be a list of 0 (Sunday) … 6 (Saturday)." };
+    }
+    return {
+      value: {
+        label,
+        planned_time: b.planned_time,
+        weekdays: [...new Set(weekdays)].sort((a, b) => a - b),
+        is_active: b.is_active === undefined ? true : Boolean(b.is_active),
+      },
+      error: null,
+    };
+  }
+
+  if (kind === "holiday") {
+    if (!isYmd(b.date)) return { value: null, error: "date (YYYY-MM-DD) is required." };
+    const name = text(b.name);
+    if (!name) return { value: null, error: "name is required." };
+    return {
+      value: { holiday_date: b.date, name, closed: b.closed === undefined ? true : Boolean(b.closed) },
+      error: null,
+    };
+  }
+
+  if (!isYmd(b.date)) return { value: null, error: "date (YYYY-MM-DD) is required." };
+  const windowLabel = text(b.window_label);
+  if (!windowLabel) return { value: null, error: "window_label is required." };
+  const extra = Boolean(b.is_extra);
+  if (b.planned_time != null && b.planned_time !== "" && !isTime(b.planned_time)) {
+    return { value: null, error: "planned_time must be HH:MM." };
+  }
+  if (extra && !isTime(b.planned_time)) {
+    return { value: null, error: "An extra session needs a planned_time (HH:MM)." };
+  }
+  let actualAt: string | null = null;
+  if (b.actual_at != null && b.actual_at !== "") {
+    const t = new Date(String(b.actual_at));
+    if (Number.isNaN(t.getTime())) return { value: null, error: "actual_at must be an ISO timestamp." };
+    actualAt = t.toISOString();
+  }
+  return {
+    value: {
+      session_date: b.date,
+      window_label: windowLabel,
+      planned_time: isTime(b.planned_time) ? b.planned_time : null,
+      // Omitted rather than nulled so editing a session keeps a recorded time.
+      ...(actualAt ? { actual_at: actualAt } : {}),
+      is_extra: extra,
+      cancelled: Boolean(b.cancelled),
+      notes: text(b.notes),
+    },
+    error: null,
+  };
+}
+
+/** Active and inactive windows plus holiday rows between from and to. */
+export async function listCalendarEntries(
+  from: string,
+  to: string
+): Promise<ServiceResult<{ windows: unknown[]; holidays: unknown[] }>> {
+  const [windows, holidays] = await Promise.all([
+    supabaseServer.from("fixing_windows").select("id, label, weekdays, planned_time, is_active").order("planned_time"),
+    supabaseServer
+      .from("fixing_holidays")
+      .select("holiday_date, name, closed, created_email")
+      .gte("holiday_date", from)
+      .lte("holiday_date", to)
+      .order("holiday_date"),
+  ]);
+
+  const error = windows.error ?? holidays.error;
+  if (error) {
+    console.error("GET fixing calendar entries error:", error);
+    return { data: null, error: "Failed to fetch fixing calendar.", status: 500 };
+  }
+
+  return { data: { windows: windows.data ?? [], holidays: holidays.data ?? [] }, error: null, status: 200 };
+}
+
+export async function saveCalendarEntry(
+  kind: CalendarEntryKind,
+  entry: Record<string, unknown>,
+  actor: AdminPrincipal
+): Promise<ServiceResult<Record<string, unknown>>> {
+  const { data, error } = await supabaseServer
+    .from(TABLES[kind])
+    .upsert([{ ...entry, created_email: actor.email }], { onConflict: CONFLICT[kind] })
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error(`Save ${TABLES[kind]} error:`, error);
+    return { data: null, error: `Failed to save fixing calendar ${kind}.`, status: 500 };
+  }
+
+  await recordAdminAction(actor, {
+    action: `fixing_calendar.${kind}.save`,
+    targetTable: TABLES[kind],
+    targetKey: CONFLICT[kind]
+      .split(",")
+      .map((c) => String(entry[c]))
+      .join(":"),
+    details: { after: data },
+  });
+
+  return { data: data as Record<string, unknown>, error: null, status: 200 };
+}
+
+/**
+ * Removes a window (by label), holiday (by date) or session override
+ * (by date + window label). Removing a holiday row restores the rule-based
+ * calendar for that date.
+ */
+export async function deleteCalendarEntry(
+  kind: CalendarEntryKind,
+  key: { label?: string | null; date?: string | null },
+  actor: AdminPrincipal
+): Promise<ServiceResult<{ kind: CalendarEntryKind }>> {
+  let query = supabaseServer.from(TABLES[kind]).delete();
+  if (kind === "window") {
+    if (!key.label) return { data: null, error: "label is required.", status: 400 };
+    query = query.eq("label", key.label);
+  } else if (kind === "holiday") {
+    if (!isYmd(key.date)) return { data: null, error: "date (YYYY-MM-DD) is required.", status: 400 };
+    query = query.eq("holiday_date", key.date);
+  } else {
+    if (!isYmd(key.date) || !key.label) {
+      return { data: null, error: "date and label are required.", status: 400 };
+    }
+    query = query.eq("session_date", key.date).eq("window_label", key.label);
+  }
+
+  const { data, error } = await query.select().maybeSingle();
+
+  if (error) {
+    console.error(`DELETE ${TABLES[kind]} error:`, error);
+    return { data: null, error: `Failed to delete fixing calendar ${kind}.`, status: 500 };
+  }
+  if (!data) {
+    return { data: null, error: `No fixing calendar ${kind} found.`, status: 404 };
+  }
+
+  await recordAdminAction(actor, {
+    action: `fixing_calendar.${kind}.delete`,
+    targetTable: TABLES[kind],
+    targetKey: [key.date, key.label].filter(Boolean).join(":"),
+    details: { before: data },
+  });
+
+  return { data: { kind }, error: null, status: 200 };
+}
@@ -0,0 +1,552 @@
+// lib/centralBank/fixingEngine.ts
+import { supabaseServer } from "@/lib/supabase/server";
+import { auditedClient, recordAdminAction } from "@/lib/admin/audit";
+import type { AdminPrincipal } from "@/lib/admin/guard";
+import type { ServiceResult } from "@/lib/centralBank/types";
+import { resolveWindowLabel } from "@/lib/centralBank/fixingSchedule";
+import { listFixingSubmissions } from "@/lib/centralBank/fixingSubmissions";
+import { DEFAULT_SOURCE_CODE } from "@/lib/fx/sources/registry";
+import { gateKey, quarantineRates, screenRates } from "@/lib/fx/validationGate";
+import { deletedRateOnKey } from "@/lib/fx/trash";
+import { recordActualFixing } from "@/lib/fx/calendar";
+
+/**
+ * Official fixing from commercial bank submissions.
+ *
+ * For one date, pair and fixing window the engine:
+ *   1. drops outliers –
+ *        trimmed_mean: the lowest and highest trim_pct of submissions
+ *                      (floor(n × trim_pct) from each end);
+ *        mad:          submissions more than mad_threshold scaled median
+ *                      absolute deviations (1.4826 × MAD) from the median;
+ *   2. averages what is left, weighted by reported volume or equally.
+ *
+ * A published run is written to fx_daily_rates as the official manual-override
+ * row (the slot /admin manual entries use), through the same validation gate.
+ * Four-eyes: whoever entered a submission the fixing uses cannot publish it,
+ * and an override already published for the date is only replaced when the
+ * run asks for it (`overwrite`). A soft-deleted override is never revived
+ * (422); it has to be restored from the trash first.
+ * Publishing stamps the window's actual time in the fixing calendar.
+ * Every published run is kept in fixing_runs with one fixing_run_decisions row
+ * per submission saying whether it was used, its weight and why it was dropped.
+ */
+
+export const FIXING_METHODS = ["trimmed_mean", "mad"] as const;
+export type FixingMethod = (typeof FIXING_METHODS)[number];
+
+export const FIXING_WEIGHTINGS = ["volume", "equal"] as const;
+export type FixingWeighting = (typeof FIXING_WEIGHTINGS)[number];
+
+export type FixingOptions = {
+  method: FixingMethod;
+  weighting: FixingWeighting;
+  /** Share trimmed from each end for trimmed_mean, in [0, 0.5). */
+  trimPct: number;
+  /** Cut-off in scaled MADs for mad. */
+  madThreshold: number;
+  /** Fewer submissions than this and no fixing is computed. */
+  minSubmissions: number;
+};
+
+export const DEFAULT_FIXING_OPTIONS: FixingOptions = {
+  method: "trimmed_mean",
+  weighting: "volume",
+  trimPct: 0.2,
+  madThreshold: 3,
+  minSubmissions: 3,
+};
+
+// Makes the MAD a consistent estimator of the standard deviation for normal data.
+const MAD_SCALE = 1.4826;
+
+export type FixingSubmission = {
+  id: string | null;
+  bank_code: string;
+  rate_mid: number;
+  volume: number | null;
+};
+
+export type FixingDecision = {
+  submission_id: string | null;
+  bank_code: string;
+  rate_mid: number;
+  volume: number | null;
+  included: boolean;
+  /** Share of the fixing, 0 when excluded; included weights sum to 1. */
+  weight: number;
+  reason: string | null;
+};
+
+export type FixingComputation = {
+  rate_mid: number;
+  submission_count: number;
+  included_count: number;
+  decisions: FixingDecision[];
+};
+
+function median(sorted: number[]) {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function formatRate(n: number) {
+  return Number(n.toFixed(6)).toString();
+}
+
+/** Reasons keyed by submission index; absent = kept. */
+function outlierReasons(subs: FixingSubmission[], opts: FixingOptions): Map<number, string> {
+  const n = subs.length;
+  const order = subs
+    .map((_, i) => i)
+    .sort((a, b) => subs[a].rate_mid - subs[b].rate_mid || subs[a].bank_code.localeCompare(subs[b].bank_code));
+  const reasons = new Map<number, string>();
+
+  if (opts.method === "trimmed_mean") {
+    const k = Math.floor(n * opts.trimPct);
+    const pct = Math.round(opts.trimPct * 100);
+    order.slice(0, k).forEach((i) => reasons.set(i, `Among the lowest ${k} of ${n} (${pct}% trimmed each side).`));
+    order.slice(n - k).forEach((i) => reasons.set(i, `Among the highest ${k} of ${n} (${pct}% trimmed each side).`));
+    return reasons;
+  }
+
+  const rates = order.map((i) => subs[i].rate_mid);
+  const m = median(rates);
+  const spread = MAD_SCALE * median(rates.map((r) => Math.abs(r - m)).sort((a, b) => a - b));
+
+  subs.forEach((s, i) => {
+    const dev = Math.abs(s.rate_mid - m);
+    if (spread === 0) {
+      // Most banks agree exactly; anything else is an outlier.
+      if (dev > 0) reasons.set(i, `Differs from the median ${formatRate(m)} while the other submissions agree (MAD 0).`);
+      return;
+    }
+    const z = dev / spread;
+    if (z > opts.madThreshold) {
+      reasons.set(
+        i,
+        `${z.toFixed(2)} scaled MADs from the median ${formatRate(m)} (limit ${opts.madThreshold}).`
+      );
+    }
+  });
+  return reasons;
+}
+
+/** Applies the outlier rule and weighting; pure, so previews and runs agree. */
+export function computeFixing(
+  subs: FixingSubmission[],
+  opts: FixingOptions = DEFAULT_FIXING_OPTIONS
+): { value: FixingComputation; error: null } | { value: null; error: string } {
+  if (subs.length < Math.max(opts.minSubmissions, 1)) {
+    return {
+      value: null,
+      error: `${subs.length} submission(s) in the window; at least ${Math.max(opts.minSubmissions, 1)} needed.`,
+    };
+  }
+
+  const reasons = outlierReasons(subs, opts);
+  const kept = subs.filter((_, i) => !reasons.has(i));
+  if (!kept.length) {
+    return { value: null, error: "Every submission was dropped as an outlier." };
+  }
+
+  if (opts.weighting === "volume") {
+    const missing = kept.filter((s) => !(s.volume !== null && s.volume > 0)).map((s) => s.bank_code);
+    if (missing.length) {
+      return {
+        value: null,
+        error: `Volume weighting needs a positive volume from every bank used (missing: ${missing.join(", ")}). Use equal weighting instead.`,
+      };
+    }
+  }
+
+  const rawWeight = (s: FixingSubmission) => (opts.weighting === "volume" ? (s.volume as number) : 1);
+  const total = kept.reduce((sum, s) => sum + rawWeight(s), 0);
+
+  const decisions: FixingDecision[] = subs.map((s, i) => {
+    const reason = reasons.get(i) ?? null;
+    return {
+      submission_id: s.id,
+      bank_code: s.bank_code,
+      rate_mid: s.rate_mid,
+      volume: s.volume,
+      included: reason === null,
+      weight: reason === null ? rawWeight(s) / total : 0,
+      reason,
+    };
+  });
+
+  return {
+    value: {
+      rate_mid: decisions.reduce((sum, d) => sum + d.weight * d.rate_mid, 0),
+      submission_count: subs.length,
+      included_count: kept.length,
+      decisions,
+    },
+    error: null,
+  };
+}
+
+export type FixingRunInput = {
+  as_of_date: string;
+  base_currency: string;
+  quote_currency: string;
+  window_label: string | null;
+  options: FixingOptions;
+  /** Replace an official override already published for the date. */
+  overwrite: boolean;
+};
+
+export function parseFixingRunPayload(
+  body: unknown
+): { value: FixingRunInput; error: null } | { value: null; error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof b.as_of_date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(b.as_of_date)) {
+    return { value: null, error: "as_of_date (YYYY-MM-DD) is required." };
+  }
+  if (typeof b.quote_currency !== "string" || !/^[A-Za-z]{3}$/.test(b.quote_currency.trim())) {
+    return { value: null, error: "quote_currency must be a 3-letter currency code." };
+  }
+
+  const method = (b.method ?? DEFAULT_FIXING_OPTIONS.method) as FixingMethod;
+  if (!FIXING_METHODS.includes(method)) {
+    return { value: null, error: `method must be one of: ${FIXING_METHODS.join(", ")}.` };
+  }
+  const weighting = (b.weighting ?? DEFAULT_FIXING_OPTIONS.weighting) as FixingWeighting;
+  if (!FIXING_WEIGHTINGS.includes(weighting)) {
+    return { value: null, error: `weighting must be one of: ${FIXING_WEIGHTINGS.join(", ")}.` };
+  }
+
+  const num = (v: unknown, fallback: number) => (v === undefined || v === null || v === "" ? fallback : Number(v));
+  const trimPct = num(b.trim_pct, DEFAULT_FIXING_OPTIONS.trimPct);
+  if (!Number.isFinite(trimPct) || trimPct < 0 || trimPct >= 0.5) {
+    return { value: null, error: "trim_pct must be at least 0 and below 0.5." };
+  }
+  const madThreshold = num(b.mad_threshold, DEFAULT_FIXING_OPTIONS.madThreshold);
+  if (!Number.isFinite(madThreshold) || madThreshold <= 0) {
+    return { value: null, error: "mad_threshold must be a positive number." };
+  }
+  const minSubmissions = num(b.min_submissions, DEFAULT_FIXING_OPTIONS.minSubmissions);
+  if (!Number.isInteger(minSubmissions) || minSubmissions < 1) {
+    return { value: null, error: "min_submissions must be a positive integer." };
+  }
+
+  const window = typeof b.window_label === "string" && b.window_label.trim() ? b.window_label.trim() : null;
+  const base = typeof b.base_currency === "string" && b.base_currency.trim() ? b.base_currency.trim() : "SSP";
+
+  return {
+    value: {
+      as_of_date: b.as_of_date,
+      base_currency: base.toUpperCase(),
+      quote_currency: b.quote_currency.trim().toUpperCase(),
+      window_label: window,
+      options: { method, weighting, trimPct, madThreshold, minSubmissions },
+      overwrite: b.overwrite === true,
+    },
+    error: null,
+  };
+}
+
+export const FIXING_RUN_COLUMNS = `
+  id,
+  as_of_date,
+  base_currency,
+  quote_currency,
+  window_label,
+  method,
+  weighting,
+  params,
+  rate_mid,
+  submission_count,
+  included_count,
+  outcome,
+  gate_reasons,
+  created_email,
+  created_at,
+  fixing_run_decisions (
+    submission_id,
+    bank_code,
+    rate_mid,
+    volume,
+    included,
+    weight,
+    reason
+  )
+`;
+
+type FixingRunRow = Record<string, unknown> & { id: string };
+
+export type FixingRunResult = {
+  /** null for a preview, which is not stored. */
+  run: FixingRunRow | null;
+  window_label: string;
+  outcome: "preview" | "published" | "quarantined";
+  gate_reasons: string[];
+} & FixingComputation;
+
+/**
+ * Computes the fixing for the window. With `publish` false this is a preview
+ * and nothing is written; otherwise the result goes to fx_daily_rates (or to
+ * quarantine if the validation gate flags it) and the run is recorded.
+ */
+export async function runFixing(
+  input: FixingRunInput,
+  publish: boolean,
+  actor: AdminPrincipal,
+  reason: string | null = null
+): Promise<ServiceResult<FixingRunResult>> {
+  const window = await resolveWindowLabel(input.as_of_date, input.window_label);
+  if (!window.data) return { data: null, error: window.error, status: window.status };
+  const windowLabel = window.data;
+
+  const subs = await listFixingSubmissions({
+    date: input.as_of_date,
+    base: input.base_currency,
+    quote: input.quote_currency,
+    window: windowLabel,
+    limit: 500,
+  });
+  if (!subs.data) return { data: null, error: subs.error, status: subs.status };
+
+  const computed = computeFixing(
+    subs.data.map((s) => ({ id: s.id, bank_code: s.bank_code, rate_mid: s.rate_mid, volume: s.volume })),
+    input.options
+  );
+  if (!computed.value) return { data: null, error: computed.error, status: 422 };
+  const result = computed.value;
+
+  if (!publish) {
+    return {
+      data: { run: null, window_label: windowLabel, outcome: "preview", gate_reasons: [], ...result },
+      error: null,
+      status: 200,
+    };
+  }
+
+  // Four-eyes: the publisher must not have entered any submission the fixing uses.
+  const usedIds = new Set(result.decisions.filter((d) => d.included).map((d) => d.submission_id));
+  const ownSubmission = subs.data.some(
+    (s) =>
+      usedIds.has(s.id) &&
+      ((s.created_actor_id && s.created_actor_id === actor.id) ||
+        (typeof s.created_email === "string" && s.created_email.toLowerCase() === actor.email.toLowerCase()))
+  );
+  if (ownSubmission) {
+    return {
+      data: null,
+      error: "Four-eyes rule: you entered a submission this fixing uses, so another user must publish it.",
+      status: 403,
+    };
+  }
+
+  if (!input.overwrite) {
+    const { data: published, error: publishedError } = await supabaseServer
+      .from("fx_daily_rates_live_official")
+      .select("id")
+      .eq("as_of_date", input.as_of_date)
+      .eq("base_currency", input.base_currency)
+      .eq("quote_currency", input.quote_currency)
+      .eq("is_manual_override", true)
+      .limit(1);
+    if (publishedError) {
+      console.error("Fixing engine override lookup error:", publishedError);
+      return { data: null, error: "Failed to check for an existing override.", status: 500 };
+    }
+    if (published?.length) {
+      return {
+        data: null,
+        error: `An official override is already published for ${input.quote_currency} on ${input.as_of_date}.`,
+        status: 409,
+      };
+    }
+  }
+
+  const { data: source, error: sourceError } = await supabaseServer
+    .from("fx_sources")
+    .select("id")
+    .eq("code", DEFAULT_SOURCE_CODE)
+    .single();
+  if (sourceError || !source) {
+    console.error("Fixing engine source lookup error:", sourceError);
+    return { data: null, error: `Could not find FX source '${DEFAULT_SOURCE_CODE}'.`, status: 500 };
+  }
+
+  const trashed = await deletedRateOnKey({
+    as_of_date: input.as_of_date,
+    base_currency: input.base_currency,
+    quote_currency: input.quote_currency,
+    source_id: Number(source.id),
+    is_manual_override: true,
+    segment: "official",
+  });
+  if (trashed.error) {
+    console.error("Fixing engine trash lookup error:", trashed.error);
+    return { data: null, error: "Failed to check for a deleted override.", status: 500 };
+  }
+  if (trashed.data) {
+    return {
+      data: null,
+      error: `The official override for ${input.quote_currency} on ${input.as_of_date} is in the trash; restore it before publishing over it.`,
+      status: 422,
+    };
+  }
+
+  const candidate = {
+    as_of_date: input.as_of_date,
+    base: input.base_currency,
+    quote: input.quote_currency,
+    rate_mid: result.rate_mid,
+    segment: "official" as const,
+  };
+  const verdict = (await screenRates([candidate])).get(gateKey(candidate));
+  const outcome = verdict?.flagged ? "quarantined" : "published";
+
+  if (verdict?.flagged) {
+    const { error } = await quarantineRates(
+      [{ row: candidate, verdict, sourceId: Number(source.id), isOfficial: true, isManualOverride: true }],
+      "fixing-engine"
+    );
+    if (error) {
+      console.error("Fixing engine quarantine error:", error);
+      return { data: null, error: "Failed to quarantine the computed fixing.", status: 500 };
+    }
+  } else {
+    const writer = await auditedClient(actor, reason ?? `Fixing engine: ${windowLabel}`);
+    const { error } = await writer.from("fx_daily_rates").upsert(
+      [
+        {
+          as_of_date: input.as_of_date,
+          base_currency: input.base_currency,
+          quote_currency: input.quote_currency,
+          rate_mid: result.rate_mid,
+          rate_bid: null,
+          rate_ask: null,
+          segment: "official",
+          source_id: source.id,
+          is_official: true,
+          is_manual_override: true,
+        },
+      ],
+      { onConflict: "as_of_date,base_currency,quote_currency,source_id,is_manual_override,segment" }
+    );
+    if (error) {
+      console.error("Fixing engine publish error:", error);
+      return { data: null, error: "Failed to publish the computed fixing.", status: 500 };
+    }
+  }
+
+  if (!verdict?.flagged) {
+    const stamped = await recordActualFixing(input.as_of_date, windowLabel);
+    if (stamped.error) console.error("Record actual fixing time error:", stamped.error);
+  }
+
+  const gateReasons = verdict?.flagged ? verdict.reasons : [];
+  const { data: run, error: runError } = await supabaseServer
+    .from("fixing_runs")
+    .insert({
+      as_of_date: input.as_of_date,
+      base_currency: input.base_currency,
+      quote_currency: input.quote_currency,
+      window_label: windowLabel,
+      method: input.options.method,
+      weighting: input.options.weighting,
+      params: {
+        trim_pct: input.options.trimPct,
+        mad_threshold: input.options.madThreshold,
+        min_submissions: input.options.minSubmissions,
+      },
+      rate_mid: result.rate_mid,
+      submission_count: result.submission_count,
+      included_count: result.included_count,
+      outcome,
+      gate_reasons: gateReasons,
+      created_actor_id: actor.id,
+      created_email: actor.email,
+    })
+    .select("id")
+    .single();
+
+  // The rate is already out; a missing audit record is logged, not returned as a failure.
+  if (runError || !run) {
+    console.error("Record fixing_runs error:", runError);
+  } else {
+    const { error } = await supabaseServer
+      .from("fixing_run_decisions")
+      .insert(result.decisions.map((d) => ({ run_id: run.id, ...d })));
+    if (error) console.error("Record fixing_run_decisions error:", error);
+  }
+
+  await recordAdminAction(actor, {
+    action: verdict?.flagged ? "fixing.quarantine" : "fixing.publish",
+    targetTable: verdict?.flagged ? "fx_rate_quarantine" : "fx_daily_rates",
+    targetKey: gateKey(candidate),
+    details: {
+      runId: run?.id ?? null,
+      window: windowLabel,
+      rateMid: result.rate_mid,
+      method: input.options.method,
+      weighting: input.options.weighting,
+      submissions: result.submission_count,
+      included: result.included_count,
+      reasons: gateReasons,
+      reason,
+    },
+  });
+
+  const stored = run ? await getFixingRun(String(run.id)) : null;
+  return {
+    data: {
+      run: stored?.data ?? null,
+      window_label: windowLabel,
+      outcome,
+      gate_reasons: gateReasons,
+      ...result,
+    },
+    error: null,
+    status: verdict?.flagged ? 202 : 201,
+  };
+}
+
+async function getFixingRun(id: string): Promise<ServiceResult<FixingRunRow>> {
+  const { data, error } = await supabaseServer
+    .from("fixing_runs")
+    .select(FIXING_RUN_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error("Load fixing_runs error:", error);
+    return { data: null, error: "Failed to load fixing run.", status: error ? 500 : 404 };
+  }
+  return { data: data as unknown as FixingRunRow, error: null, status: 200 };
+}
+
+/** Published / quarantined runs, newest first, each with its decisions. */
+export async function listFixingRuns(opts: {
+  limit?: number;
+  base?: string | null;
+  quote?: string | null;
+  date?: string | null;
+}): Promise<ServiceResult<FixingRunRow[]>> {
+  const limit = Math.min(Math.max(opts.limit ?? 20, 1), 200);
+
+  let query = supabaseServer
+    .from("fixing_runs")
+    .select(FIXING_RUN_COLUMNS)
+    .order("as_of_date", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (opts.base) query = query.eq("base_currency", opts.base.toUpperCase());
+  if (opts.quote) query = query.eq("quote_currency", opts.quote.toUpperCase());
+  if (opts.date) query = query.eq("as_of_date", opts.date);
+
+  const { data, error } = await query.limit(limit);
+
+  if (error) {
+    console.error("GET fixing_runs error:", error);
+    return { data: null, error: "Failed to fetch fixing runs.", status: 500 };
+  }
+
+  return { data: (data ?? []) as unknown as FixingRunRow[], error: null, status: 200 };
+}
@@ -0,0 +1,124 @@
+// lib/centralBank/fixingSchedule.ts
+import { supabaseServer } from "@/lib/supabase/server";
+import { auditedClient, recordAdminAction } from "@/lib/admin/audit";
+import type { AdminPrincipal } from "@/lib/admin/guard";
+import type { ServiceResult } from "@/lib/centralBank/types";
+import { fixingCalendar } from "@/lib/fx/calendar";
+
+export const FIXING_SCHEDULE_COLUMNS = `
+  id,
+  next_fixing_date,
+  window_label,
+  notes,
+  created_email,
+  created_at
+`;
+
+export type FixingScheduleInput = {
+  next_fixing_date: string;
+  window_label: string | null;
+  notes: string | null;
+};
+
+type FixingScheduleRow = Record<string, unknown> & { id: string };
+
+/** Label used when the schedule does not name the window. */
+export const DEFAULT_WINDOW_LABEL = "Normal fixing window";
+
+export function parseFixingSchedulePayload(
+  body: unknown
+): { value: FixingScheduleInput; error: null } | { value: null; error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof b.next_fixing_date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(b.next_fixing_date)) {
+    return { value: null, error: "next_fixing_date (YYYY-MM-DD) is required." };
+  }
+
+  const text = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : null);
+
+  return {
+    value: {
+      next_fixing_date: b.next_fixing_date,
+      window_label: text(b.window_label),
+      notes: text(b.notes),
+    },
+    error: null,
+  };
+}
+
+/** The earliest scheduled fixing, or null when nothing is scheduled. */
+export async function getNextFixing(): Promise<ServiceResult<FixingScheduleRow | null>> {
+  const { data, error } = await supabaseServer
+    .from("fixing_schedule")
+    .select(FIXING_SCHEDULE_COLUMNS)
+    .order("next_fixing_date", { ascending: true })
+    .limit(1);
+
+  if (error) {
+    console.error("GET fixing_schedule error:", error);
+    return { data: null, error: "Failed to fetch fixing schedule.", status: 500 };
+  }
+
+  return { data: (data?.[0] as FixingScheduleRow | undefined) ?? null, error: null, status: 200 };
+}
+
+/**
+ * The fixing window a submission or run on `asOfDate` belongs to: `explicit`
+ * when given, else the first session the fixing calendar has on that date
+ * (see lib/fx/calendar.ts), else DEFAULT_WINDOW_LABEL.
+ */
+export async function resolveWindowLabel(
+  asOfDate: string,
+  explicit: string | null
+): Promise<ServiceResult<string>> {
+  if (explicit) return { data: explicit, error: null, status: 200 };
+
+  const cal = await fixingCalendar(asOfDate, asOfDate);
+  if (!cal.data) {
+    console.error("Fixing calendar error:", cal.error);
+    return { data: null, error: "Failed to read the fixing calendar.", status: 500 };
+  }
+
+  const session = cal.data[0]?.sessions.find((s) => s.status !== "cancelled");
+  return { data: session?.window_label ?? DEFAULT_WINDOW_LABEL, error: null, status: 200 };
+}
+
+/** Updates the row with `id`, or inserts a new schedule row when no id is given. */
+export async function saveFixingSchedule(
+  id: string | null,
+  input: FixingScheduleInput,
+  actor: AdminPrincipal,
+  reason: string | null = null
+): Promise<ServiceResult<FixingScheduleRow>> {
+  const writer = await auditedClient(actor, reason);
+  const query = id
+    ? writer.from("fixing_schedule").update(input).eq("id", id)
+    : writer.from("fixing_schedule").insert([
+        {
+          ...input,
+          created_by: actor.kind === "supabase_user" ? actor.id : null,
+          created_email: actor.email,
+        },
+      ]);
+
+  const { data, error } = await query.select(FIXING_SCHEDULE_COLUMNS).maybeSingle();
+
+  if (error) {
+    console.error("Save fixing_schedule error:", error);
+    return { data: null, error: "Failed to save fixing schedule.", status: 500 };
+  }
+
+  if (!data) {
+    return { data: null, error: "No fixing schedule found with this id.", status: 404 };
+  }
+
+  const row = data as FixingScheduleRow;
+  await recordAdminAction(actor, {
+    action: id ? "fixing_schedule.update" : "fixing_schedule.create",
+    targetTable: "fixing_schedule",
+    targetKey: row.id,
+    details: { after: row },
+  });
+
+  return { data: row, error: null, status: id ? 200 : 201 };
+}
@@ -0,0 +1,201 @@
+// lib/centralBank/fixingSubmissions.ts
+import { supabaseServer } from "@/lib/supabase/server";
+import { recordAdminAction } from "@/lib/admin/audit";
+import type { AdminPrincipal } from "@/lib/admin/guard";
+import type { ServiceResult } from "@/lib/centralBank/types";
+import { resolveWindowLabel } from "@/lib/centralBank/fixingSchedule";
+
+/**
+ * Per-bank rate submissions for a fixing window, the input to the fixing
+ * engine (lib/centralBank/fixingEngine.ts). One submission per bank per
+ * window; submitting again replaces the bank's earlier rate. Callers
+ * authorize first.
+ */
+
+export const FIXING_SUBMISSION_COLUMNS = `
+  id,
+  as_of_date,
+  base_currency,
+  quote_currency,
+  window_label,
+  bank_code,
+  bank_name,
+  rate_mid,
+  volume,
+  notes,
+  submitted_at,
+  created_actor_id,
+  created_email
+`;
+
+export type FixingSubmissionInput = {
+  as_of_date: string;
+  base_currency: string;
+  quote_currency: string;
+  /** null → resolved from the fixing schedule (see resolveWindowLabel). */
+  window_label: string | null;
+  bank_code: string;
+  bank_name: string | null;
+  rate_mid: number;
+  /** Traded volume in units of the quote currency; needed for volume weighting. */
+  volume: number | null;
+  notes: string | null;
+};
+
+export type FixingSubmissionRow = Record<string, unknown> & {
+  id: string;
+  bank_code: string;
+  rate_mid: number;
+  volume: number | null;
+};
+
+const text = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : null);
+
+export function parseFixingSubmissionPayload(
+  body: unknown
+): { value: FixingSubmissionInput; error: null } | { value: null; error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const rate = Number(b.rate_mid);
+
+  if (typeof b.as_of_date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(b.as_of_date)) {
+    return { value: null, error: "as_of_date (YYYY-MM-DD) is required." };
+  }
+  if (typeof b.quote_currency !== "string" || !/^[A-Za-z]{3}$/.test(b.quote_currency.trim())) {
+    return { value: null, error: "quote_currency must be a 3-letter currency code." };
+  }
+  const bankCode = text(b.bank_code);
+  if (!bankCode) {
+    return { value: null, error: "bank_code is required." };
+  }
+  if (b.rate_mid === null || b.rate_mid === "" || !Number.isFinite(rate) || rate <= 0) {
+    return { value: null, error: "rate_mid must be a positive number." };
+  }
+
+  let volume: number | null = null;
+  if (b.volume !== undefined && b.volume !== null && b.volume !== "") {
+    volume = Number(b.volume);
+    if (!Number.isFinite(volume) || volume < 0) {
+      return { value: null, error: "volume must be zero or a positive number." };
+    }
+  }
+
+  return {
+    value: {
+      as_of_date: b.as_of_date,
+      base_currency: (text(b.base_currency) ?? "SSP").toUpperCase(),
+      quote_currency: b.quote_currency.trim().toUpperCase(),
+      window_label: text(b.window_label),
+      bank_code: bankCode.toUpperCase(),
+      bank_name: text(b.bank_name),
+      rate_mid: rate,
+      volume,
+      notes: text(b.notes),
+    },
+    error: null,
+  };
+}
+
+export async function listFixingSubmissions(opts: {
+  date?: string | null;
+  base?: string | null;
+  quote?: string | null;
+  window?: string | null;
+  limit?: number;
+}): Promise<ServiceResult<FixingSubmissionRow[]>> {
+  const limit = Math.min(Math.max(opts.limit ?? 100, 1), 500);
+
+  let query = supabaseServer
+    .from("fixing_submissions")
+    .select(FIXING_SUBMISSION_COLUMNS)
+    .order("as_of_date", { ascending: false })
+    .order("rate_mid", { ascending: true });
+
+  if (opts.date) query = query.eq("as_of_date", opts.date);
+  if (opts.base) query = query.eq("base_currency", opts.base.toUpperCase());
+  if (opts.quote) query = query.eq("quote_currency", opts.quote.toUpperCase());
+  if (opts.window) query = query.eq("window_label", opts.window);
+
+  const { data, error } = await query.limit(limit);
+
+  if (error) {
+    console.error("GET fixing_submissions error:", error);
+    return { data: null, error: "Failed to fetch fixing submissions.", status: 500 };
+  }
+
+  const rows = (data ?? []).map((r) => ({
+    ...r,
+    rate_mid: Number(r.rate_mid),
+    volume: r.volume == null ? null : Number(r.volume),
+  }));
+  return { data: rows as FixingSubmissionRow[], error: null, status: 200 };
+}
+
+/** Records (or replaces) a bank's submission for the window. */
+export async function saveFixingSubmission(
+  input: FixingSubmissionInput,
+  actor: AdminPrincipal
+): Promise<ServiceResult<FixingSubmissionRow>> {
+  const window = await resolveWindowLabel(input.as_of_date, input.window_label);
+  if (!window.data) return { data: null, error: window.error, status: window.status };
+
+  const { data, error } = await supabaseServer
+    .from("fixing_submissions")
+    .upsert(
+      [
+        {
+          ...input,
+          window_label: window.data,
+          submitted_at: new Date().toISOString(),
+          created_actor_id: actor.id,
+          created_email: actor.email,
+        },
+      ],
+      { onConflict: "as_of_date,base_currency,quote_currency,window_label,bank_code" }
+    )
+    .select(FIXING_SUBMISSION_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Save fixing_submissions error:", error);
+    return { data: null, error: "Failed to save fixing submission.", status: 500 };
+  }
+
+  const row = data as FixingSubmissionRow;
+  await recordAdminAction(actor, {
+    action: "fixing_submission.save",
+    targetTable: "fixing_submissions",
+    targetKey: row.id,
+    details: { after: row },
+  });
+
+  return { data: row, error: null, status: 201 };
+}
+
+export async function deleteFixingSubmission(
+  id: string,
+  actor: AdminPrincipal
+): Promise<ServiceResult<{ id: string }>> {
+  const { data, error } = await supabaseServer
+    .from("fixing_submissions")
+    .delete()
+    .eq("id", id)
+    .select(FIXING_SUBMISSION_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("DELETE fixing_submissions error:", error);
+    return { data: null, error: "Failed to delete fixing submission.", status: 500 };
+  }
+  if (!data) {
+    return { data: null, error: "No fixing submission found with this id.", status: 404 };
+  }
+
+  await recordAdminAction(actor, {
+    action: "fixing_submission.delete",
+    targetTable: "fixing_submissions",
+    targetKey: id,
+    details: { before: data },
+  });
+
+  return { data: { id }, error: null, status: 200 };
+}
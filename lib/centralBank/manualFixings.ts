@@ -0,0 +1,455 @@
+// lib/centralBank/manualFixings.ts
+import { supabaseServer } from "@/lib/supabase/server";
+import { auditedClient, parseReason, recordAdminAction } from "@/lib/admin/audit";
+import type { AdminPrincipal } from "@/lib/admin/guard";
+import type { Permission } from "@/lib/admin/permissions";
+import type { ServiceResult } from "@/lib/centralBank/types";
+import { parseBidAsk } from "@/lib/fx/spread";
+import { MARKET_SEGMENTS, normaliseSegment, type MarketSegment } from "@/lib/fx/segments";
+
+/**
+ * manual_fixings reads and writes shared by /api/admin/manual-fixings and
+ * /api/central-bank/manual-fixings. Callers authorize first; every write is
+ * attributed to the principal and recorded in the audit log.
+ *
+ * Maker-checker workflow:
+ *
+ *   draft ──submit──▶ pending_approval ──approve──▶ approved
+ *     ▲                      │
+ *     └──── edit ◀── rejected ◀──reject─┘
+ *
+ * Only draft / rejected rows can be edited or deleted; approved rows are final.
+ * The approver (or rejecter) must not have created, edited or submitted the
+ * fixing. The creator, last editor and submitter are stored on the row, so
+ * the rule holds even if logging a step failed; every step is also logged in
+ * manual_fixing_events with a comment, and earlier makers found there count
+ * too.
+ */
+
+export const MANUAL_FIXING_STATUSES = ["draft", "pending_approval", "approved", "rejected"] as const;
+export type ManualFixingStatus = (typeof MANUAL_FIXING_STATUSES)[number];
+
+export const MANUAL_FIXING_COLUMNS = `
+  id,
+  as_of_date,
+  base_currency,
+  quote_currency,
+  rate_mid,
+  rate_bid,
+  rate_ask,
+  segment,
+  is_official,
+  is_manual_override,
+  notes,
+  status,
+  status_changed_at,
+  created_actor_id,
+  created_email,
+  created_at,
+  updated_actor_id,
+  updated_email,
+  submitted_actor_id,
+  submitted_email,
+  manual_fixing_events (
+    action,
+    from_status,
+    to_status,
+    actor_email,
+    comment,
+    occurred_at
+  )
+`;
+
+export type ManualFixingInput = {
+  as_of_date: string;
+  base_currency: string;
+  quote_currency: string;
+  rate_mid: number;
+  rate_bid: number | null;
+  rate_ask: number | null;
+  segment: MarketSegment;
+  is_official: boolean;
+  is_manual_override: boolean;
+  notes: string | null;
+};
+
+export type TransitionAction = "submit" | "approve" | "reject";
+
+type Transition = {
+  from: ManualFixingStatus[];
+  to: ManualFixingStatus;
+  permission: Permission;
+  commentRequired: boolean;
+};
+
+export const TRANSITIONS: Record<TransitionAction, Transition> = {
+  submit: { from: ["draft"], to: "pending_approval", permission: "fixings.draft", commentRequired: false },
+  approve: { from: ["pending_approval"], to: "approved", permission: "fixings.approve", commentRequired: false },
+  reject: { from: ["pending_approval"], to: "rejected", permission: "fixings.approve", commentRequired: true },
+};
+
+const EDITABLE: ManualFixingStatus[] = ["draft", "rejected"];
+
+type ManualFixingRow = Record<string, unknown> & {
+  id: string;
+  status: ManualFixingStatus;
+  created_actor_id: string | null;
+  created_email: string | null;
+  updated_actor_id: string | null;
+  updated_email: string | null;
+  submitted_actor_id: string | null;
+  submitted_email: string | null;
+};
+
+export function isTransitionAction(value: unknown): value is TransitionAction {
+  return value === "submit" || value === "approve" || value === "reject";
+}
+
+/** Optional free-text comment attached to a workflow step. */
+export function parseComment(body: unknown): string | null {
+  return parseReason((body as Record<string, unknown> | null)?.comment);
+}
+
+/**
+ * Validates a JSON body. is_official defaults to true, is_manual_override to
+ * false; rate_bid / rate_ask are optional but must satisfy bid ≤ mid ≤ ask;
+ * segment defaults to official.
+ */
+export function parseManualFixingPayload(
+  body: unknown
+): { value: ManualFixingInput; error: null } | { value: null; error: string } {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const rate = Number(b.rate_mid);
+
+  if (
+    typeof b.as_of_date !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(b.as_of_date) ||
+    typeof b.base_currency !== "string" ||
+    !b.base_currency.trim() ||
+    typeof b.quote_currency !== "string" ||
+    !b.quote_currency.trim() ||
+    b.rate_mid === null ||
+    b.rate_mid === "" ||
+    !Number.isFinite(rate) ||
+    rate <= 0
+  ) {
+    return { value: null, error: "Missing or invalid required fields." };
+  }
+
+  const quotes = parseBidAsk(rate, b.rate_bid, b.rate_ask);
+  if (quotes.error !== null) return { value: null, error: quotes.error };
+
+  const segment = normaliseSegment(b.segment);
+  if (!segment) {
+    return { value: null, error: `segment must be one of: ${MARKET_SEGMENTS.join(", ")}.` };
+  }
+
+  return {
+    value: {
+      as_of_date: b.as_of_date,
+      base_currency: b.base_currency.trim().toUpperCase(),
+      quote_currency: b.quote_currency.trim().toUpperCase(),
+      rate_mid: rate,
+      ...quotes.value,
+      segment,
+      is_official: b.is_official === undefined ? true : Boolean(b.is_official),
+      is_manual_override: Boolean(b.is_manual_override),
+      notes: typeof b.notes === "string" && b.notes.trim() ? b.notes.trim() : null,
+    },
+    error: null,
+  };
+}
+
+async function logEvent(
+  fixingId: string,
+  action: "create" | "update" | TransitionAction,
+  fromStatus: ManualFixingStatus | null,
+  toStatus: ManualFixingStatus,
+  actor: AdminPrincipal,
+  comment: string | null
+) {
+  const { error } = await supabaseServer.from("manual_fixing_events").insert({
+    fixing_id: fixingId,
+    action,
+    from_status: fromStatus,
+    to_status: toStatus,
+    actor_id: actor.id,
+    actor_email: actor.email,
+    comment,
+  });
+  if (error) console.error(`Failed to log manual fixing ${action}:`, error);
+}
+
+async function loadFixing(id: string): Promise<ServiceResult<ManualFixingRow>> {
+  const { data, error } = await supabaseServer
+    .from("manual_fixings")
+    .select(MANUAL_FIXING_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Load manual_fixings error:", error);
+    return { data: null, error: "Failed to load manual fixing.", status: 500 };
+  }
+  if (!data) {
+    return { data: null, error: "No manual fixing found with this id.", status: 404 };
+  }
+  return { data: data as unknown as ManualFixingRow, error: null, status: 200 };
+}
+
+export async function listManualFixings(opts: {
+  limit?: number;
+  base?: string | null;
+  quote?: string | null;
+  status?: string | null;
+}): Promise<ServiceResult<ManualFixingRow[]>> {
+  const limit = Math.min(Math.max(opts.limit ?? 50, 1), 500);
+
+  let query = supabaseServer
+    .from("manual_fixings")
+    .select(MANUAL_FIXING_COLUMNS)
+    .order("as_of_date", { ascending: false });
+
+  if (opts.base) query = query.eq("base_currency", opts.base.toUpperCase());
+  if (opts.quote) query = query.eq("quote_currency", opts.quote.toUpperCase());
+  if (opts.status) query = query.eq("status", opts.status);
+
+  const { data, error } = await query.limit(limit);
+
+  if (error) {
+    console.error("GET manual_fixings error:", error);
+    return { data: null, error: "Failed to fetch manual fixings.", status: 500 };
+  }
+
+  return { data: (data ?? []) as unknown as ManualFixingRow[], error: null, status: 200 };
+}
+
+/** Creates a draft. */
+export async function createManualFixing(
+  input: ManualFixingInput,
+  actor: AdminPrincipal,
+  comment: string | null = null
+): Promise<ServiceResult<ManualFixingRow>> {
+  const writer = await auditedClient(actor, comment);
+  const { data, error } = await writer
+    .from("manual_fixings")
+    .insert([
+      {
+        ...input,
+        status: "draft",
+        created_actor_id: actor.id,
+        // created_by references auth.users, so it is only set for Supabase users.
+        created_by: actor.kind === "supabase_user" ? actor.id : null,
+        created_email: actor.email,
+      },
+    ])
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    console.error("POST manual_fixings error:", error);
+    return { data: null, error: "Failed to create manual fixing.", status: 500 };
+  }
+
+  const id = String(data.id);
+  await logEvent(id, "create", null, "draft", actor, comment);
+  await recordAdminAction(actor, {
+    action: "manual_fixing.create",
+    targetTable: "manual_fixings",
+    targetKey: id,
+    details: { after: input },
+  });
+
+  const created = await loadFixing(id);
+  return created.data ? { ...created, status: 201 } : created;
+}
+
+/** Edits a draft or rejected fixing; a rejected fixing goes back to draft. */
+export async function updateManualFixing(
+  id: string,
+  input: ManualFixingInput,
+  actor: AdminPrincipal,
+  comment: string | null = null
+): Promise<ServiceResult<ManualFixingRow>> {
+  const current = await loadFixing(id);
+  if (!current.data) return current;
+
+  const before = current.data;
+  if (!EDITABLE.includes(before.status)) {
+    return {
+      data: null,
+      error: `A ${before.status} fixing cannot be edited. Create a new fixing instead.`,
+      status: 409,
+    };
+  }
+
+  // Guard on status so a concurrent submit/approve is not silently overwritten.
+  const writer = await auditedClient(actor, comment);
+  const { data, error } = await writer
+    .from("manual_fixings")
+    .update({
+      ...input,
+      status: "draft",
+      status_changed_at: new Date().toISOString(),
+      updated_actor_id: actor.id,
+      updated_email: actor.email,
+    })
+    .eq("id", id)
+    .eq("status", before.status)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("PUT manual_fixings error:", error);
+    return { data: null, error: "Failed to update manual fixing.", status: 500 };
+  }
+  if (!data) {
+    return { data: null, error: "The fixing changed state; reload and try again.", status: 409 };
+  }
+
+  await logEvent(id, "update", before.status, "draft", actor, comment);
+  await recordAdminAction(actor, {
+    action: "manual_fixing.update",
+    targetTable: "manual_fixings",
+    targetKey: id,
+    details: { before, after: input },
+  });
+
+  return loadFixing(id);
+}
+
+export async function deleteManualFixing(
+  id: string,
+  actor: AdminPrincipal,
+  comment: string | null = null
+): Promise<ServiceResult<{ id: string }>> {
+  const current = await loadFixing(id);
+  if (!current.data) return { data: null, error: current.error, status: current.status };
+
+  if (!EDITABLE.includes(current.data.status)) {
+    return {
+      data: null,
+      error: `A ${current.data.status} fixing cannot be deleted.`,
+      status: 409,
+    };
+  }
+
+  const writer = await auditedClient(actor, comment);
+  const { data, error } = await writer
+    .from("manual_fixings")
+    .delete()
+    .eq("id", id)
+    .in("status", EDITABLE)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("DELETE manual_fixings error:", error);
+    return { data: null, error: "Failed to delete manual fixing.", status: 500 };
+  }
+  if (!data) {
+    return { data: null, error: "The fixing changed state; reload and try again.", status: 409 };
+  }
+
+  await recordAdminAction(actor, {
+    action: "manual_fixing.delete",
+    targetTable: "manual_fixings",
+    targetKey: id,
+    details: { before: current.data, comment },
+  });
+
+  return { data: { id }, error: null, status: 200 };
+}
+
+/**
+ * Moves a fixing through the workflow. The caller must already hold
+ * TRANSITIONS[action].permission.
+ */
+export async function transitionManualFixing(
+  id: string,
+  action: TransitionAction,
+  actor: AdminPrincipal,
+  comment: string | null
+): Promise<ServiceResult<ManualFixingRow>> {
+  const rule = TRANSITIONS[action];
+
+  if (rule.commentRequired && !comment) {
+    return { data: null, error: `A comment is required to ${action} a fixing.`, status: 400 };
+  }
+
+  const current = await loadFixing(id);
+  if (!current.data) return current;
+
+  const before = current.data;
+  if (!rule.from.includes(before.status)) {
+    return {
+      data: null,
+      error: `Cannot ${action} a fixing that is ${before.status}.`,
+      status: 409,
+    };
+  }
+
+  if (action === "approve" || action === "reject") {
+    const { data: makers, error: makersError } = await supabaseServer
+      .from("manual_fixing_events")
+      .select("actor_id, actor_email")
+      .eq("fixing_id", id)
+      .in("action", ["create", "update", "submit"]);
+
+    if (makersError) {
+      console.error("Load manual_fixing_events error:", makersError);
+      return { data: null, error: "Failed to verify the fixing's history.", status: 500 };
+    }
+
+    const events = makers ?? [];
+    const makerIds = new Set(
+      [before.created_actor_id, before.updated_actor_id, before.submitted_actor_id, ...events.map((m) => m.actor_id)]
+        .filter((a) => !!a)
+        .map(String)
+    );
+    const makerEmails = new Set(
+      [before.created_email, before.updated_email, before.submitted_email, ...events.map((m) => m.actor_email)]
+        .filter((e): e is string => !!e)
+        .map((e) => e.toLowerCase())
+    );
+
+    if (makerIds.has(actor.id) || makerEmails.has(actor.email.toLowerCase())) {
+      return {
+        data: null,
+        error: "Four-eyes rule: you created, edited or submitted this fixing, so another user must review it.",
+        status: 403,
+      };
+    }
+  }
+
+  const writer = await auditedClient(actor, comment ?? `${action} manual fixing`);
+  const { data, error } = await writer
+    .from("manual_fixings")
+    .update({
+      status: rule.to,
+      status_changed_at: new Date().toISOString(),
+      ...(action === "submit" ? { submitted_actor_id: actor.id, submitted_email: actor.email } : {}),
+    })
+    .eq("id", id)
+    .eq("status", before.status)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Transition manual_fixings (${action}) error:`, error);
+    return { data: null, error: `Failed to ${action} manual fixing.`, status: 500 };
+  }
+  if (!data) {
+    return { data: null, error: "The fixing changed state; reload and try again.", status: 409 };
+  }
+
+  await logEvent(id, action, before.status, rule.to, actor, comment);
+  await recordAdminAction(actor, {
+    action: `manual_fixing.${action}`,
+    targetTable: "manual_fixings",
+    targetKey: id,
+    details: { from: before.status, to: rule.to, comment },
+  });
+
+  return loadFixing(id);
+}
@@ -0,0 +1,8 @@
+// lib/centralBank/types.ts
+
+/** Outcome of a central-bank data operation; `status` is the HTTP status to return. */
+export type ServiceResult<T> = {
+  data: T | null;
+  error: string | null;
+  status: number;
+};
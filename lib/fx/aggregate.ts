@@ -0,0 +1,217 @@
+// lib/fx/aggregate.ts
+import { addDaysYmd } from "@/lib/fx/crossRates";
+import { calendarToday } from "@/lib/fx/calendar";
+import { fetchConventionSeries, type RateConvention } from "@/lib/fx/quoteConvention";
+import type { MarketSegment } from "@/lib/fx/segments";
+import type { SeriesPoint } from "@/lib/fx/seriesAnalytics";
+
+/**
+ * Periodic aggregation of a daily fixing series (`/rates/aggregate`,
+ * `/export/aggregate`).
+ *
+ * Periods are calendar periods: ISO weeks (Monday to Sunday), months,
+ * quarters and years. Each bucket only uses the fixings inside it, so
+ * `open` / `close` are the first / last fixing in the period, `avg` is the
+ * simple average of its fixings (the usual monthly average rate) and
+ * `high` / `low` are the extreme mids. Filled or interpolated values are
+ * never included.
+ *
+ * A bucket is `complete` when the whole period lies inside the requested
+ * range and has ended (Juba time, as of as_known_at for a replay); month-end
+ * closing rates should only be taken from complete buckets. A range may span
+ * at most MAX_AGGREGATE_PERIODS periods.
+ */
+
+export const AGGREGATE_PERIODS = ["week", "month", "quarter", "year"] as const;
+export type AggregatePeriod = (typeof AGGREGATE_PERIODS)[number];
+
+export const AGGREGATE_STATS = ["avg", "close", "open", "high", "low", "ohlc"] as const;
+export type AggregateStat = (typeof AGGREGATE_STATS)[number];
+
+export const DEFAULT_AGGREGATE_PERIODS = 12;
+export const MAX_AGGREGATE_PERIODS = 120;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type AggregateBucket = {
+  /** 2026-W42, 2026-10, 2026-Q4 or 2026. */
+  period: string;
+  start: string;
+  end: string;
+  first_date: string;
+  last_date: string;
+  count: number;
+  complete: boolean;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  avg: number;
+};
+
+/** Fields each stat returns besides the period columns. */
+export const STAT_FIELDS: Record<AggregateStat, ("open" | "high" | "low" | "close" | "avg")[]> = {
+  avg: ["avg"],
+  close: ["close"],
+  open: ["open"],
+  high: ["high"],
+  low: ["low"],
+  ohlc: ["open", "high", "low", "close"],
+};
+
+type Parsed<T> = { value: T; error: null } | { value: null; error: string };
+
+function oneOf<T extends string>(
+  raw: string | null,
+  allowed: readonly T[],
+  fallback: T,
+  name: string
+): Parsed<T> {
+  const value = (raw ?? fallback).toLowerCase();
+  if (!(allowed as readonly string[]).includes(value)) {
+    return { value: null, error: `${name} must be one of: ${allowed.join(", ")}.` };
+  }
+  return { value: value as T, error: null };
+}
+
+/** `?period=` (default month) and `?stat=` (default avg). */
+export function parseAggregateParams(
+  params: URLSearchParams
+): Parsed<{ period: AggregatePeriod; stat: AggregateStat }> {
+  const period = oneOf(params.get("period"), AGGREGATE_PERIODS, "month", "period");
+  if (period.error !== null) return period;
+  const stat = oneOf(params.get("stat"), AGGREGATE_STATS, "avg", "stat");
+  if (stat.error !== null) return stat;
+  return { value: { period: period.value, stat: stat.value }, error: null };
+}
+
+function ymd(year: number, month: number, day: number) {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/** The period containing `date`: its label and first / last day. */
+export function periodOf(date: string, period: AggregatePeriod) {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+
+  if (period === "week") {
+    // ISO week: Monday start; the week belongs to the year of its Thursday.
+    const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+    const start = addDaysYmd(date, -weekday);
+    const thursday = addDaysYmd(start, 3);
+    const isoYear = Number(thursday.slice(0, 4));
+    const week = Math.floor((Date.parse(`${thursday}T00:00:00Z`) - Date.UTC(isoYear, 0, 1)) / WEEK_MS) + 1;
+    return { period: `${isoYear}-W${String(week).padStart(2, "0")}`, start, end: addDaysYmd(start, 6) };
+  }
+  if (period === "month") {
+    return { period: date.slice(0, 7), start: ymd(year, month, 1), end: ymd(year, month + 1, 0) };
+  }
+  if (period === "quarter") {
+    const q = Math.ceil(month / 3);
+    return { period: `${year}-Q${q}`, start: ymd(year, q * 3 - 2, 1), end: ymd(year, q * 3 + 1, 0) };
+  }
+  return { period: String(year), start: ymd(year, 1, 1), end: ymd(year, 12, 31) };
+}
+
+/** Start of the period `count - 1` periods before the one containing `date`. */
+export function periodsBack(date: string, period: AggregatePeriod, count: number) {
+  let start = periodOf(date, period).start;
+  for (let i = 1; i < count; i++) start = periodOf(addDaysYmd(start, -1), period).start;
+  return start;
+}
+
+/** Why [from, to] is too long to aggregate by `period`, or null. */
+export function aggregateRangeError(from: string, to: string, period: AggregatePeriod): string | null {
+  let count = 1;
+  let start = periodOf(to, period).start;
+  while (start > from && count <= MAX_AGGREGATE_PERIODS) {
+    start = periodOf(addDaysYmd(start, -1), period).start;
+    count += 1;
+  }
+  return count > MAX_AGGREGATE_PERIODS
+    ? `from/to spans more than ${MAX_AGGREGATE_PERIODS} ${period} periods; narrow the range.`
+    : null;
+}
+
+/**
+ * Buckets `points` (ascending) by `period`. `from` / `to` are the requested
+ * range, used to mark partial periods.
+ */
+export function aggregateSeries(
+  points: SeriesPoint[],
+  period: AggregatePeriod,
+  from: string,
+  to: string,
+  now = new Date()
+): AggregateBucket[] {
+  const today = calendarToday(now);
+  const buckets: AggregateBucket[] = [];
+  let sum = 0;
+
+  for (const p of points) {
+    const current = buckets[buckets.length - 1];
+    if (current && p.date <= current.end) {
+      current.last_date = p.date;
+      current.count += 1;
+      current.high = Math.max(current.high, p.mid);
+      current.low = Math.min(current.low, p.mid);
+      current.close = p.mid;
+      sum += p.mid;
+      current.avg = sum / current.count;
+      continue;
+    }
+
+    const { period: label, start, end } = periodOf(p.date, period);
+    sum = p.mid;
+    buckets.push({
+      period: label,
+      start,
+      end,
+      first_date: p.date,
+      last_date: p.date,
+      count: 1,
+      complete: start >= from && end <= to && end < today,
+      open: p.mid,
+      high: p.mid,
+      low: p.mid,
+      close: p.mid,
+      avg: p.mid,
+    });
+  }
+  return buckets;
+}
+
+/** A bucket reduced to its period columns plus the fields `stat` asks for. */
+export function pickStat(bucket: AggregateBucket, stat: AggregateStat) {
+  const out: Record<string, string | number | boolean> = {
+    period: bucket.period,
+    start: bucket.start,
+    end: bucket.end,
+    first_date: bucket.first_date,
+    last_date: bucket.last_date,
+    count: bucket.count,
+    complete: bucket.complete,
+  };
+  for (const field of STAT_FIELDS[stat]) out[field] = bucket[field];
+  return out;
+}
+
+/**
+ * `quote` against the convention's base from the segment's published series
+ * (fx_daily_rates_default for official), bucketed by `period`.
+ */
+export async function fetchAggregates(
+  quote: string,
+  c: RateConvention,
+  segment: MarketSegment,
+  period: AggregatePeriod,
+  from: string,
+  to: string,
+  asKnownAt: string | null
+): Promise<{ data: AggregateBucket[] | null; error: { message: string } | null }> {
+  const { data, error } = await fetchConventionSeries(quote, c, from, to, asKnownAt, "default", segment);
+  if (error) return { data: null, error };
+  const points = (data ?? []).map((p) => ({ date: p.date, mid: p.mid }));
+  const now = asKnownAt ? new Date(asKnownAt) : new Date();
+  return { data: aggregateSeries(points, period, from, to, now), error: null };
+}
@@ -0,0 +1,94 @@
+// lib/fx/asKnownAt.ts
+import { supabaseServer } from "@/lib/supabase/server";
+import type { MarketSegment } from "@/lib/fx/segments";
+
+/**
+ * Point-in-time reads for `?as_known_at=` (see 20261019000800_fx_daily_rate_versions.sql).
+ *
+ * Without a timestamp these read the current tables; with one they read the
+ * versions that were published at that instant, so a response can be
+ * reproduced exactly as a consumer received it.
+ */
+
+export type RateScope = { base?: string | null; quote?: string | null };
+
+/**
+ * Accepts an ISO 8601 timestamp (a bare YYYY-MM-DD means 00:00 UTC that day).
+ * Returns the normalised ISO string, or null when the parameter is absent.
+ */
+export function parseAsKnownAt(
+  raw: string | null
+): { value: string | null; error: null } | { value: null; error: string } {
+  if (raw === null || raw.trim() === "") return { value: null, error: null };
+
+  const ts = Date.parse(raw.trim());
+  if (!Number.isFinite(ts)) {
+    return { value: null, error: "as_known_at must be an ISO 8601 timestamp." };
+  }
+  if (ts > Date.now()) {
+    return { value: null, error: "as_known_at cannot be in the future." };
+  }
+  return { value: new Date(ts).toISOString(), error: null };
+}
+
+function rpcArgs(asKnownAt: string, scope: RateScope) {
+  return {
+    p_as_known_at: asKnownAt,
+    p_base: scope.base ?? null,
+    p_quote: scope.quote ?? null,
+  };
+}
+
+type RatesRelation = "fx_daily_rates" | "fx_daily_rates_default" | "fx_segment_rates";
+
+// One builder type for every rate relation, so callers can pick a relation
+// at runtime without casting between them.
+function ratesRelation<Columns extends string>(relation: RatesRelation, columns: Columns) {
+  return supabaseServer.from(relation).select(columns);
+}
+
+export type RatesQuery<Columns extends string> = ReturnType<typeof ratesRelation<Columns>>;
+
+// The client is untyped, so rpc() results are not known to be row arrays.
+// The *_as_known_at functions return rows shaped like the table / view they
+// replay, so they are typed as the matching .from() query.
+function replay<Columns extends string>(fn: string, asKnownAt: string, scope: RateScope, columns: Columns) {
+  return supabaseServer.rpc(fn, rpcArgs(asKnownAt, scope)).select(columns) as unknown as RatesQuery<Columns>;
+}
+
+/** Published (not soft-deleted) fx_daily_rates rows, now or as known at a timestamp. */
+export function selectLiveRates<Columns extends string>(
+  columns: Columns,
+  asKnownAt: string | null,
+  scope: RateScope = {}
+): RatesQuery<Columns> {
+  if (!asKnownAt) return ratesRelation("fx_daily_rates", columns).is("deleted_at", null);
+  return replay("fx_daily_rates_as_known_at", asKnownAt, scope, columns);
+}
+
+/** fx_daily_rates_default, now or as known at a timestamp. */
+export function selectDefaultRates<Columns extends string>(
+  columns: Columns,
+  asKnownAt: string | null,
+  scope: RateScope = {}
+): RatesQuery<Columns> {
+  if (!asKnownAt) return ratesRelation("fx_daily_rates_default", columns);
+  return replay("fx_daily_rates_default_as_known_at", asKnownAt, scope, columns);
+}
+
+/**
+ * The published rate per date and pair for one market segment: the official
+ * segment is fx_daily_rates_default, the others fx_segment_rates.
+ */
+export function selectSegmentRates<Columns extends string>(
+  columns: Columns,
+  asKnownAt: string | null,
+  segment: MarketSegment,
+  scope: RateScope = {}
+): RatesQuery<Columns> {
+  if (segment === "official") return selectDefaultRates(columns, asKnownAt, scope);
+  const query = asKnownAt
+    ? replay("fx_segment_rates_as_known_at", asKnownAt, scope, columns)
+    : ratesRelation("fx_segment_rates", columns);
+  return query.eq("segment", segment);
+}
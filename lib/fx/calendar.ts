@@ -0,0 +1,372 @@
+// lib/fx/calendar.ts
+import { supabaseServer } from "@/lib/supabase/server";
+import { addDaysYmd } from "@/lib/fx/crossRates";
+
+/**
+ * Fixing calendar (see 20261019001600_fixing_calendar.sql).
+ *
+ * A day is a business day unless it falls on the weekend (Saturday, Sunday)
+ * or is a holiday. Holidays are the recurring South Sudan public holidays
+ * below plus fixing_holidays rows; a row with closed = false cancels a rule
+ * holiday that was moved. Lunar holidays (Eid al-Fitr, Eid al-Adha) change
+ * every year and are entered in fixing_holidays.
+ *
+ * Each business day has one session per active fixing_windows row whose
+ * weekdays include it. fixing_sessions rows override a session (planned
+ * time, actual time, cancellation) or add an extra one on any date.
+ *
+ * Times are Juba local (Africa/Juba, UTC+2 all year); planned_at / actual_at
+ * are returned as UTC ISO timestamps.
+ */
+
+export const CALENDAR_TIMEZONE = "Africa/Juba";
+const UTC_OFFSET = "+02:00";
+const UTC_OFFSET_MS = 2 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// PostgREST caps a single response (1000 rows by default); page through long ranges.
+const PAGE_SIZE = 1000;
+
+/** Date#getUTCDay numbering: 6 = Saturday, 0 = Sunday. */
+export const WEEKEND_DAYS = [6, 0];
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const FIXED_HOLIDAYS: { month: number; day: number; name: string }[] = [
+  { month: 1, day: 1, name: "New Year's Day" },
+  { month: 1, day: 9, name: "Peace Agreement Day" },
+  { month: 5, day: 1, name: "Labour Day" },
+  { month: 5, day: 16, name: "SPLA Day" },
+  { month: 7, day: 9, name: "Independence Day" },
+  { month: 7, day: 30, name: "Martyrs' Day" },
+  { month: 12, day: 25, name: "Christmas Day" },
+  { month: 12, day: 31, name: "New Year's Eve" },
+];
+
+// Days relative to (Western) Easter Sunday.
+const EASTER_HOLIDAYS: { offset: number; name: string }[] = [
+  { offset: -2, name: "Good Friday" },
+  { offset: 1, name: "Easter Monday" },
+];
+
+export type FixingWindow = {
+  label: string;
+  /** 0 = Sunday … 6 = Saturday. */
+  weekdays: number[];
+  /** HH:MM Juba time. */
+  planned_time: string;
+};
+
+export type CalendarHoliday = { date: string; name: string; closed: boolean };
+
+export type SessionOverride = {
+  session_date: string;
+  window_label: string;
+  planned_time: string | null;
+  actual_at: string | null;
+  is_extra: boolean;
+  cancelled: boolean;
+  notes: string | null;
+};
+
+export type CalendarConfig = {
+  windows: FixingWindow[];
+  holidays: CalendarHoliday[];
+  sessions: SessionOverride[];
+};
+
+/**
+ * scheduled – still ahead; completed – actual time recorded;
+ * overdue – planned time passed without one; cancelled.
+ */
+export type SessionStatus = "scheduled" | "completed" | "overdue" | "cancelled";
+
+export type FixingSession = {
+  date: string;
+  window_label: string;
+  planned_at: string;
+  actual_at: string | null;
+  /** actual − planned, in minutes; null until the fixing happens. */
+  delay_minutes: number | null;
+  status: SessionStatus;
+  extra: boolean;
+  notes: string | null;
+};
+
+export type CalendarDay = {
+  date: string;
+  weekday: string;
+  business_day: boolean;
+  holiday: string | null;
+  sessions: FixingSession[];
+};
+
+type Result<T> = { data: T | null; error: { message: string } | null };
+
+/** Anonymous Gregorian algorithm. */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** Rule-based public holidays for `year`, keyed by date. */
+export function ruleHolidays(year: number): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const h of FIXED_HOLIDAYS) {
+    out.set(`${year}-${String(h.month).padStart(2, "0")}-${String(h.day).padStart(2, "0")}`, h.name);
+  }
+  const easter = easterSunday(year);
+  for (const h of EASTER_HOLIDAYS) out.set(addDaysYmd(easter, h.offset), h.name);
+  return out;
+}
+
+/** Today's date in Juba. */
+export function calendarToday(now = new Date()) {
+  return new Date(now.getTime() + UTC_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/** UTC instant of `time` (HH:MM Juba) on `date`. */
+export function plannedAt(date: string, time: string) {
+  return new Date(`${date}T${time.slice(0, 5)}:00${UTC_OFFSET}`).toISOString();
+}
+
+function sessionStatus(s: { planned_at: string; actual_at: string | null; cancelled: boolean }, now: Date) {
+  if (s.cancelled) return "cancelled";
+  if (s.actual_at) return "completed";
+  return new Date(s.planned_at).getTime() <= now.getTime() ? "overdue" : "scheduled";
+}
+
+function toSession(
+  date: string,
+  label: string,
+  time: string,
+  override: SessionOverride | undefined,
+  extra: boolean,
+  now: Date
+): FixingSession {
+  const planned = plannedAt(date, override?.planned_time ?? time);
+  const actual = override?.actual_at ?? null;
+  return {
+    date,
+    window_label: label,
+    planned_at: planned,
+    actual_at: actual,
+    delay_minutes: actual
+      ? Math.round((new Date(actual).getTime() - new Date(planned).getTime()) / MINUTE_MS)
+      : null,
+    status: sessionStatus({ planned_at: planned, actual_at: actual, cancelled: override?.cancelled ?? false }, now),
+    extra,
+    notes: override?.notes ?? null,
+  };
+}
+
+/** Expands the configuration into one entry per date in [from, to]. */
+export function buildCalendar(config: CalendarConfig, from: string, to: string, now = new Date()): CalendarDay[] {
+  const holidays = new Map<string, string>();
+  for (let year = Number(from.slice(0, 4)); year <= Number(to.slice(0, 4)); year++) {
+    ruleHolidays(year).forEach((name, date) => holidays.set(date, name));
+  }
+  for (const h of config.holidays) {
+    if (h.closed) holidays.set(h.date, h.name);
+    else holidays.delete(h.date);
+  }
+
+  const overrides = new Map<string, SessionOverride[]>();
+  for (const s of config.sessions) {
+    const list = overrides.get(s.session_date) ?? [];
+    list.push(s);
+    overrides.set(s.session_date, list);
+  }
+
+  const days: CalendarDay[] = [];
+  for (let date = from; date <= to; date = addDaysYmd(date, 1)) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    const holiday = holidays.get(date) ?? null;
+    const businessDay = !WEEKEND_DAYS.includes(weekday) && holiday === null;
+    const dayOverrides = overrides.get(date) ?? [];
+
+    const sessions: FixingSession[] = [];
+    if (businessDay) {
+      for (const w of config.windows) {
+        if (!w.weekdays.includes(weekday)) continue;
+        const override = dayOverrides.find((o) => o.window_label === w.label && !o.is_extra);
+        sessions.push(toSession(date, w.label, w.planned_time, override, false, now));
+      }
+    }
+    for (const o of dayOverrides) {
+      if (!o.is_extra || !o.planned_time) continue;
+      sessions.push(toSession(date, o.window_label, o.planned_time, o, true, now));
+    }
+    sessions.sort((a, b) => a.planned_at.localeCompare(b.planned_at));
+
+    days.push({ date, weekday: WEEKDAY_NAMES[weekday], business_day: businessDay, holiday, sessions });
+  }
+  return days;
+}
+
+/** True when at least one session on the day is not cancelled. */
+export function isFixingDay(day: CalendarDay) {
+  return day.sessions.some((s) => s.status !== "cancelled");
+}
+
+export async function loadCalendarConfig(from: string, to: string): Promise<Result<CalendarConfig>> {
+  const [windows, holidays, sessions] = await Promise.all([
+    supabaseServer.from("fixing_windows").select("label, weekdays, planned_time").eq("is_active", true),
+    supabaseServer
+      .from("fixing_holidays")
+      .select("holiday_date, name, closed")
+      .gte("holiday_date", from)
+      .lte("holiday_date", to),
+    supabaseServer
+      .from("fixing_sessions")
+      .select("session_date, window_label, planned_time, actual_at, is_extra, cancelled, notes")
+      .gte("session_date", from)
+      .lte("session_date", to),
+  ]);
+
+  const error = windows.error ?? holidays.error ?? sessions.error;
+  if (error) return { data: null, error };
+
+  return {
+    data: {
+      windows: (windows.data ?? []).map((w) => ({
+        label: String(w.label),
+        weekdays: ((w.weekdays ?? []) as unknown[]).map(Number),
+        planned_time: String(w.planned_time).slice(0, 5),
+      })),
+      holidays: (holidays.data ?? []).map((h) => ({
+        date: String(h.holiday_date),
+        name: String(h.name),
+        closed: Boolean(h.closed),
+      })),
+      sessions: (sessions.data ?? []).map((s) => ({
+        session_date: String(s.session_date),
+        window_label: String(s.window_label),
+        planned_time: s.planned_time ? String(s.planned_time).slice(0, 5) : null,
+        actual_at: (s.actual_at ?? null) as string | null,
+        is_extra: Boolean(s.is_extra),
+        cancelled: Boolean(s.cancelled),
+        notes: (s.notes ?? null) as string | null,
+      })),
+    },
+    error: null,
+  };
+}
+
+export async function fixingCalendar(from: string, to: string, now = new Date()): Promise<Result<CalendarDay[]>> {
+  const config = await loadCalendarConfig(from, to);
+  if (!config.data) return { data: null, error: config.error };
+  return { data: buildCalendar(config.data, from, to, now), error: null };
+}
+
+/**
+ * The next fixing due: the earliest session from today on that is neither
+ * completed nor cancelled (today's overdue session counts). null when none is
+ * planned within `horizonDays`.
+ */
+export async function nextFixing(now = new Date(), horizonDays = 60): Promise<Result<FixingSession>> {
+  const today = calendarToday(now);
+  const cal = await fixingCalendar(today, addDaysYmd(today, horizonDays), now);
+  if (!cal.data) return { data: null, error: cal.error };
+
+  for (const day of cal.data) {
+    const due = day.sessions.find((s) => s.status === "scheduled" || s.status === "overdue");
+    if (due) return { data: due, error: null };
+  }
+  return { data: null, error: null };
+}
+
+/** Dates in [from, to] with a session whose planned time has passed. */
+export function expectedFixingDates(days: CalendarDay[], now = new Date()) {
+  return days
+    .filter((d) =>
+      d.sessions.some((s) => s.status !== "cancelled" && new Date(s.planned_at).getTime() <= now.getTime())
+    )
+    .map((d) => d.date);
+}
+
+/**
+ * Expected fixing dates in [from, to] with no official rate published in
+ * fx_daily_rates_default for any currency.
+ */
+export async function missingFixingDates(from: string, to: string, now = new Date()): Promise<Result<string[]>> {
+  const cal = await fixingCalendar(from, to, now);
+  if (!cal.data) return { data: null, error: cal.error };
+
+  const expected = expectedFixingDates(cal.data, now);
+  if (!expected.length) return { data: [], error: null };
+
+  const published = new Set<string>();
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseServer
+      .from("fx_daily_rates_default")
+      .select("as_of_date")
+      .gte("as_of_date", expected[0])
+      .lte("as_of_date", expected[expected.length - 1])
+      .order("as_of_date", { ascending: true })
+      .order("quote_currency", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) return { data: null, error };
+
+    for (const r of data ?? []) published.add(String(r.as_of_date));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return { data: expected.filter((d) => !published.has(d)), error: null };
+}
+
+/**
+ * Stamps the actual fixing time on `date`'s session for `windowLabel` (or
+ * the first open session when null). An existing actual time is kept, so a
+ * later revision does not move it. Returns the session stamped, if any.
+ */
+export async function recordActualFixing(
+  date: string,
+  windowLabel: string | null,
+  at = new Date()
+): Promise<Result<FixingSession>> {
+  const config = await loadCalendarConfig(date, date);
+  if (!config.data) return { data: null, error: config.error };
+
+  const [day] = buildCalendar(config.data, date, date, at);
+  const session = windowLabel
+    ? day.sessions.find((s) => s.window_label === windowLabel && s.status !== "cancelled")
+    : day.sessions.find((s) => s.status === "scheduled" || s.status === "overdue");
+  if (!session || session.actual_at) return { data: null, error: null };
+
+  const actualAt = at.toISOString();
+  const existing = config.data.sessions.some((s) => s.window_label === session.window_label);
+  const { error } = existing
+    ? await supabaseServer
+        .from("fixing_sessions")
+        .update({ actual_at: actualAt })
+        .eq("session_date", date)
+        .eq("window_label", session.window_label)
+        .is("actual_at", null)
+    : await supabaseServer
+        .from("fixing_sessions")
+        .insert({ session_date: date, window_label: session.window_label, actual_at: actualAt });
+  if (error) return { data: null, error };
+
+  return {
+    data: {
+      ...session,
+      actual_at: actualAt,
+      delay_minutes: Math.round((at.getTime() - new Date(session.planned_at).getTime()) / MINUTE_MS),
+      status: "completed",
+    },
+    error: null,
+  };
+}
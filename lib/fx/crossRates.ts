@@ -0,0 +1,202 @@
+// lib/fx/crossRates.ts
+import { selectLiveRates, selectSegmentRates } from "@/lib/fx/asKnownAt";
+import type { MarketSegment } from "@/lib/fx/segments";
+
+/**
+ * Cross rates derived by triangulating two SSP quotes.
+ *
+ * Storage is base = SSP, quote = XXX, rate_mid = SSP per 1 XXX, so
+ *   TO per 1 FROM = (SSP per 1 FROM) / (SSP per 1 TO).
+ * SSP itself is a valid leg with a constant mid of 1.
+ *
+ * Missing legs: each leg uses its latest fixing on or before the requested
+ * date, at most `maxLagDays` older. A leg with nothing in that window makes
+ * the date unavailable; nothing is interpolated. maxLagDays = 0 requires both
+ * legs to be fixed on the same date.
+ *
+ * Legs are read from one market segment (official unless asked otherwise).
+ */
+
+export const CROSS_BASE = "SSP";
+export const DEFAULT_MAX_LAG_DAYS = 3;
+export const MAX_LAG_DAYS_LIMIT = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type LegPoint = { date: string; mid: number };
+
+/**
+ * Which published set a leg is read from: the segment's published series
+ * (fx_daily_rates_default for official) or its fx_daily_rates rows.
+ */
+export type LegSource = "default" | "live";
+
+export type CrossLeg = {
+  /** Canonical XXX/SSP label, as used by the engine. */
+  pair: string;
+  currency: string;
+  /** SSP per 1 `currency`. */
+  mid: number;
+  /** Fixing date used; null for the SSP identity leg. */
+  as_of_date: string | null;
+  /** Days between the requested date and the fixing used. */
+  lag_days: number;
+};
+
+export function isCurrencyCode(value: string) {
+  return /^[A-Z]{3}$/.test(value);
+}
+
+export function parseMaxLagDays(
+  raw: string | null
+): { value: number; error: null } | { value: null; error: string } {
+  if (raw === null || raw === "") return { value: DEFAULT_MAX_LAG_DAYS, error: null };
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0 || n > MAX_LAG_DAYS_LIMIT) {
+    return { value: null, error: `max_lag_days must be an integer between 0 and ${MAX_LAG_DAYS_LIMIT}.` };
+  }
+  return { value: n, error: null };
+}
+
+/** Human-readable statement of the missing-leg rule, returned with every response. */
+export function missingLegPolicy(maxLagDays: number) {
+  return {
+    max_lag_days: maxLagDays,
+    description:
+      maxLagDays === 0
+        ? "Both legs must be fixed on the requested date; dates where either leg is missing are not returned."
+        : `Each leg uses its latest fixing on or before the requested date, at most ${maxLagDays} day(s) older. ` +
+          "If either leg has no fixing in that window the date is not returned; values are never interpolated.",
+  };
+}
+
+export function crossLabel(from: string, to: string) {
+  return `${from}/${to}`;
+}
+
+export function crossMethod(from: string, to: string) {
+  return `Triangulated via ${CROSS_BASE}: (${CROSS_BASE} per 1 ${from}) / (${CROSS_BASE} per 1 ${to})`;
+}
+
+export function addDaysYmd(ymd: string, days: number) {
+  return new Date(Date.parse(`${ymd}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(earlier: string, later: string) {
+  return Math.round((Date.parse(`${later}T00:00:00Z`) - Date.parse(`${earlier}T00:00:00Z`)) / DAY_MS);
+}
+
+// PostgREST caps a single response (1000 rows by default); page through long ranges.
+const PAGE_SIZE = 1000;
+
+function legQuery<Columns extends string>(
+  columns: Columns,
+  currency: string,
+  asKnownAt: string | null,
+  source: LegSource,
+  segment: MarketSegment
+) {
+  const scope = { base: CROSS_BASE, quote: currency };
+  const query =
+    source === "live"
+      ? selectLiveRates(columns, asKnownAt, scope).eq("segment", segment)
+      : selectSegmentRates(columns, asKnownAt, segment, scope);
+  return query.eq("base_currency", CROSS_BASE).eq("quote_currency", currency);
+}
+
+/**
+ * Published SSP quotes for one currency, ascending by date. For SSP itself
+ * returns null: the identity leg needs no data.
+ */
+export async function fetchLegSeries(
+  currency: string,
+  from: string | null,
+  to: string | null,
+  asKnownAt: string | null,
+  source: LegSource = "default",
+  segment: MarketSegment = "official"
+): Promise<{ data: LegPoint[] | null; error: { message: string } | null }> {
+  if (currency === CROSS_BASE) return { data: null, error: null };
+
+  const points: LegPoint[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = legQuery("as_of_date, rate_mid", currency, asKnownAt, source, segment);
+    if (from) query = query.gte("as_of_date", from);
+    if (to) query = query.lte("as_of_date", to);
+
+    // "live" has a row per source for a date; like fx_daily_rates_default,
+    // the manual override wins, then the official row, then the newest.
+    const { data, error } = await query
+      .order("as_of_date", { ascending: true })
+      .order("is_manual_override", { ascending: false })
+      .order("is_official", { ascending: false })
+      .order("id", { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) return { data: null, error };
+    for (const row of data ?? []) {
+      const date = String(row.as_of_date);
+      const mid = Number(row.rate_mid);
+      if (points.length && points[points.length - 1].date === date) continue;
+      if (Number.isFinite(mid) && mid > 0) points.push({ date, mid });
+    }
+    if (!data || data.length < PAGE_SIZE) return { data: points, error: null };
+  }
+}
+
+/** Latest published date for one currency's SSP quote (null for SSP). */
+export async function latestLegDate(
+  currency: string,
+  asKnownAt: string | null,
+  source: LegSource = "default",
+  segment: MarketSegment = "official"
+): Promise<{ data: string | null; error: { message: string } | null }> {
+  if (currency === CROSS_BASE) return { data: null, error: null };
+
+  const { data, error } = await legQuery("as_of_date", currency, asKnownAt, source, segment)
+    .order("as_of_date", { ascending: false })
+    .limit(1);
+
+  if (error) return { data: null, error };
+  return { data: data?.[0] ? String(data[0].as_of_date) : null, error: null };
+}
+
+/**
+ * The leg to use for `date`, or null when the missing-leg rule rules it out.
+ * `series` must be ascending; null means the SSP identity leg.
+ */
+export function legFor(
+  currency: string,
+  series: LegPoint[] | null,
+  date: string,
+  maxLagDays: number
+): CrossLeg | null {
+  const pair = `${currency}/${CROSS_BASE}`;
+  if (series === null) return { pair, currency, mid: 1, as_of_date: null, lag_days: 0 };
+
+  // Last point with point.date <= date.
+  let lo = 0;
+  let hi = series.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].date <= date) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  if (found < 0) return null;
+
+  const point = series[found];
+  const lag = daysBetween(point.date, date);
+  if (lag > maxLagDays) return null;
+
+  return { pair, currency, mid: point.mid, as_of_date: point.date, lag_days: lag };
+}
+
+/** TO per 1 FROM. */
+export function crossRate(fromLeg: CrossLeg, toLeg: CrossLeg) {
+  return fromLeg.mid / toLeg.mid;
+}
@@ -0,0 +1,228 @@
+// lib/fx/dataQuality.ts
+import { supabaseServer } from "@/lib/supabase/server";
+import { addDaysYmd, CROSS_BASE } from "@/lib/fx/crossRates";
+import {
+  buildCalendar,
+  calendarToday,
+  expectedFixingDates,
+  fixingCalendar,
+  type CalendarConfig,
+  type CalendarDay,
+} from "@/lib/fx/calendar";
+import { computeSeriesAnalytics, type SeriesPoint } from "@/lib/fx/seriesAnalytics";
+
+/**
+ * Gap and staleness checks for the published official series
+ * (fx_daily_rates_default), measured against the fixing calendar.
+ *
+ * - A rate is stale when a later fixing was due (its planned time has
+ *   passed) than the date it was published for. age_days is the calendar
+ *   age in Juba days, so a Friday fixing read on Monday is 3 days old but
+ *   not stale until Monday's session is due.
+ * - A gap is an expected fixing date with no row for the pair.
+ * - A flat run is a stretch of identical consecutive mids, which usually
+ *   means a source kept re-sending the last value.
+ * - The anchor is the latest USD fixing; pairs behind it lag by the number
+ *   of fixing dates they are missing up to it.
+ */
+
+export const ANCHOR_CURRENCY = "USD";
+export const DEFAULT_QUALITY_WINDOW_DAYS = 30;
+export const MAX_QUALITY_WINDOW_DAYS = 366;
+/** Repeats after the first fixing: 3 means four identical mids in a row. */
+export const DEFAULT_MIN_FLAT_RUN = 3;
+
+// How far back to look for the last due fixing (covers long holiday breaks).
+const EXPECTED_LOOKBACK_DAYS = 31;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// PostgREST caps a single response (1000 rows by default); page through long ranges.
+const PAGE_SIZE = 1000;
+
+// Used when the calendar tables cannot be read: weekends and rule holidays
+// still apply, with the standard weekday window.
+const FALLBACK_CONFIG: CalendarConfig = {
+  windows: [{ label: "Normal fixing window", weekdays: [1, 2, 3, 4, 5], planned_time: "11:00" }],
+  holidays: [],
+  sessions: [],
+};
+
+type Result<T> = { data: T | null; error: { message: string } | null };
+
+export type Staleness = {
+  stale: boolean;
+  age_days: number;
+  /** Latest date a fixing was due as of now (null if none in the lookback). */
+  expected_as_of_date: string | null;
+};
+
+export type FlatRun = { from: string; to: string; fixings: number; mid: number };
+
+export type PairQuality = {
+  pair: string;
+  quote_currency: string;
+  latest_as_of_date: string;
+  stale: boolean;
+  age_days: number;
+  /** Fixing dates after latest_as_of_date up to the anchor's latest date. */
+  lag_days: number;
+  missing_dates: string[];
+  flat_runs: FlatRun[];
+};
+
+export type DataQualityReport = {
+  from: string;
+  to: string;
+  expected_as_of_date: string | null;
+  expected_dates: number;
+  anchor: { currency: string; as_of_date: string | null };
+  min_flat_run: number;
+  pairs: PairQuality[];
+  summary: { pairs: number; stale: number; with_gaps: number; with_flat_runs: number; lagging: number };
+};
+
+function daysBetween(earlier: string, later: string) {
+  return Math.round((Date.parse(`${later}T00:00:00Z`) - Date.parse(`${earlier}T00:00:00Z`)) / DAY_MS);
+}
+
+/** Staleness of a rate published for `asOfDate`, given the latest due fixing date. */
+export function stalenessOf(asOfDate: string, expectedAsOfDate: string | null, now = new Date()): Staleness {
+  return {
+    stale: expectedAsOfDate !== null && asOfDate < expectedAsOfDate,
+    age_days: Math.max(0, daysBetween(asOfDate, calendarToday(now))),
+    expected_as_of_date: expectedAsOfDate,
+  };
+}
+
+/** Stretches where computeSeriesAnalytics' flatRun reaches `minRun`. `points` must be ascending. */
+export function flatRuns(points: SeriesPoint[], minRun = DEFAULT_MIN_FLAT_RUN): FlatRun[] {
+  const analytics = computeSeriesAnalytics(points);
+  const runs: FlatRun[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const run = analytics[i].flatRun;
+    const ends = i === points.length - 1 || analytics[i + 1].flatRun === 0;
+    if (run >= minRun && ends) {
+      runs.push({ from: points[i - run].date, to: points[i].date, fixings: run + 1, mid: points[i].mid });
+    }
+  }
+  return runs;
+}
+
+async function calendarDays(from: string, to: string, now: Date): Promise<CalendarDay[]> {
+  const cal = await fixingCalendar(from, to, now);
+  if (cal.data) return cal.data;
+  console.error("Fixing calendar read failed; using the rule calendar:", cal.error);
+  return buildCalendar(FALLBACK_CONFIG, from, to, now);
+}
+
+/** The latest date whose fixing was due by `now`. */
+export async function latestExpectedFixingDate(now = new Date()): Promise<string | null> {
+  const today = calendarToday(now);
+  const days = await calendarDays(addDaysYmd(today, -EXPECTED_LOOKBACK_DAYS), today, now);
+  const expected = expectedFixingDates(days, now);
+  return expected.length ? expected[expected.length - 1] : null;
+}
+
+/**
+ * Staleness for a rate response. Replays (as_known_at) are measured at
+ * that instant rather than now.
+ */
+export async function rateStaleness(
+  asOfDate: string,
+  now = new Date()
+): Promise<Pick<Staleness, "stale" | "age_days">> {
+  const { stale, age_days } = stalenessOf(asOfDate, await latestExpectedFixingDate(now), now);
+  return { stale, age_days };
+}
+
+async function fetchDefaultSeries(from: string, to: string): Promise<Result<Map<string, SeriesPoint[]>>> {
+  const series = new Map<string, SeriesPoint[]>();
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseServer
+      .from("fx_daily_rates_default")
+      .select("as_of_date, quote_currency, rate_mid")
+      .eq("base_currency", CROSS_BASE)
+      .gte("as_of_date", from)
+      .lte("as_of_date", to)
+      .order("quote_currency", { ascending: true })
+      .order("as_of_date", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) return { data: null, error };
+    for (const row of data ?? []) {
+      const mid = Number(row.rate_mid);
+      if (!Number.isFinite(mid) || mid <= 0) continue;
+      const quote = String(row.quote_currency);
+      const points = series.get(quote) ?? [];
+      points.push({ date: String(row.as_of_date), mid });
+      series.set(quote, points);
+    }
+    if (!data || data.length < PAGE_SIZE) return { data: series, error: null };
+  }
+}
+
+/**
+ * Per-pair gaps, flat runs, staleness and anchor lag over the last `days`
+ * Juba days. Pairs are those with at least one official fixing in the window.
+ */
+export async function dataQualityReport(
+  days = DEFAULT_QUALITY_WINDOW_DAYS,
+  minFlatRun = DEFAULT_MIN_FLAT_RUN,
+  now = new Date()
+): Promise<Result<DataQualityReport>> {
+  const to = calendarToday(now);
+  const from = addDaysYmd(to, -(days - 1));
+
+  const [calendar, latestExpected, stored] = await Promise.all([
+    calendarDays(from, to, now),
+    latestExpectedFixingDate(now),
+    fetchDefaultSeries(from, to),
+  ]);
+  if (!stored.data) return { data: null, error: stored.error };
+
+  const expected = expectedFixingDates(calendar, now);
+  const anchorPoints = stored.data.get(ANCHOR_CURRENCY) ?? [];
+  const anchorDate = anchorPoints.length ? anchorPoints[anchorPoints.length - 1].date : null;
+
+  const pairs: PairQuality[] = [];
+  stored.data.forEach((points, quote) => {
+    const dates = new Set(points.map((p) => p.date));
+    const latest = points[points.length - 1].date;
+    const { stale, age_days } = stalenessOf(latest, latestExpected, now);
+
+    pairs.push({
+      pair: `${quote}/${CROSS_BASE}`,
+      quote_currency: quote,
+      latest_as_of_date: latest,
+      stale,
+      age_days,
+      lag_days: anchorDate ? expected.filter((d) => d > latest && d <= anchorDate).length : 0,
+      missing_dates: expected.filter((d) => !dates.has(d)),
+      flat_runs: flatRuns(points, minFlatRun),
+    });
+  });
+
+  // Most issues first.
+  const weight = (p: PairQuality) =>
+    (p.stale ? 1000 : 0) + p.lag_days * 100 + p.missing_dates.length * 10 + p.flat_runs.length;
+  pairs.sort((a, b) => weight(b) - weight(a) || a.quote_currency.localeCompare(b.quote_currency));
+
+  return {
+    data: {
+      from,
+      to,
+      expected_as_of_date: latestExpected,
+      expected_dates: expected.length,
+      anchor: { currency: ANCHOR_CURRENCY, as_of_date: anchorDate },
+      min_flat_run: minFlatRun,
+      pairs,
+      summary: {
+        pairs: pairs.length,
+        stale: pairs.filter((p) => p.stale).length,
+        with_gaps: pairs.filter((p) => p.missing_dates.length > 0).length,
+        with_flat_runs: pairs.filter((p) => p.flat_runs.length > 0).length,
+        lagging: pairs.filter((p) => p.lag_days > 0).length,
+      },
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,141 @@
+// lib/fx/gapFill.ts
+import { addDaysYmd } from "@/lib/fx/crossRates";
+import { calendarToday, fixingCalendar } from "@/lib/fx/calendar";
+import type { SeriesPoint } from "@/lib/fx/seriesAnalytics";
+
+/**
+ * Gap filling for history and export (`?fill=` / `?calendar=`).
+ *
+ * The calendar picks the dates a filled series covers: `business` is every
+ * business day on the fixing calendar (lib/fx/calendar.ts), `daily` every
+ * calendar day. Real fixings are always kept, including any on a
+ * non-business day, and nothing is filled after today (Juba), or after the
+ * as_known_at instant for a replay. A filled range is at most
+ * MAX_FILL_RANGE_DAYS long.
+ *
+ * Filled series are loaded from FILL_SEED_LOOKBACK_DAYS before `from`, so the
+ * start of the range fills from the last fixing before it.
+ *
+ * - none      only stored fixings (default; calendar has no effect).
+ * - previous  carries the last fixing forward. Dates before the first
+ *             fixing (in range or in the lookback) stay empty.
+ * - linear    interpolates the mid by calendar day between the fixings on
+ *             either side. Dates before the first or after the last fixing
+ *             stay empty: there is nothing to interpolate towards.
+ *
+ * Filled points carry `filled: true` and `fill_method`; they have no bid /
+ * ask and are never written back.
+ */
+
+export const FILL_METHODS = ["none", "previous", "linear"] as const;
+export type FillMethod = (typeof FILL_METHODS)[number];
+
+export const FILL_CALENDARS = ["business", "daily"] as const;
+export type FillCalendar = (typeof FILL_CALENDARS)[number];
+
+export type FillOptions = { fill: FillMethod; calendar: FillCalendar };
+
+export type FilledPoint = {
+  date: string;
+  mid: number;
+  filled: true;
+  fill_method: Exclude<FillMethod, "none">;
+};
+
+// Five years of daily points; longer series should be filled client-side.
+export const MAX_FILL_RANGE_DAYS = 1830;
+// Same reach as the staleness lookback: covers long holiday breaks.
+export const FILL_SEED_LOOKBACK_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(earlier: string, later: string) {
+  return Math.round((Date.parse(`${later}T00:00:00Z`) - Date.parse(`${earlier}T00:00:00Z`)) / DAY_MS);
+}
+
+/** `?fill=` and `?calendar=` on history and export. */
+export function parseFillParams(
+  params: URLSearchParams
+): { value: FillOptions; error: null } | { value: null; error: string } {
+  const fill = (params.get("fill") ?? "none").toLowerCase();
+  const calendar = (params.get("calendar") ?? "business").toLowerCase();
+  if (!(FILL_METHODS as readonly string[]).includes(fill)) {
+    return { value: null, error: `fill must be one of: ${FILL_METHODS.join(", ")}.` };
+  }
+  if (!(FILL_CALENDARS as readonly string[]).includes(calendar)) {
+    return { value: null, error: `calendar must be one of: ${FILL_CALENDARS.join(", ")}.` };
+  }
+  return { value: { fill: fill as FillMethod, calendar: calendar as FillCalendar }, error: null };
+}
+
+/** Why [from, to] cannot be filled, or null. */
+export function fillRangeError(from: string, to: string, opts: FillOptions): string | null {
+  if (opts.fill === "none") return null;
+  if (daysBetween(from, to) + 1 > MAX_FILL_RANGE_DAYS) {
+    return `fill is limited to ${MAX_FILL_RANGE_DAYS} days; narrow from/to or use fill=none.`;
+  }
+  return null;
+}
+
+/** First date to load for the series: the seed lookback when filling. */
+export function fillLoadFrom(from: string, opts: FillOptions) {
+  return opts.fill === "none" ? from : addDaysYmd(from, -FILL_SEED_LOOKBACK_DAYS);
+}
+
+/** Response meta for a filled series; empty when nothing was requested. */
+export function fillMeta(opts: FillOptions, filledCount: number) {
+  if (opts.fill === "none") return {};
+  return { fill: opts.fill, calendar: opts.calendar, filled_count: filledCount };
+}
+
+/** The dates a filled series covers in [from, to], capped at `now` (today, or as_known_at). */
+export async function fillDates(
+  from: string,
+  to: string,
+  calendar: FillCalendar,
+  now = new Date()
+): Promise<{ data: string[] | null; error: { message: string } | null }> {
+  const today = calendarToday(now);
+  const end = to < today ? to : today;
+  if (from > end) return { data: [], error: null };
+
+  if (calendar === "daily") {
+    const dates: string[] = [];
+    for (let date = from; date <= end; date = addDaysYmd(date, 1)) dates.push(date);
+    return { data: dates, error: null };
+  }
+
+  const cal = await fixingCalendar(from, end, now);
+  if (!cal.data) return { data: null, error: cal.error };
+  return { data: cal.data.filter((d) => d.business_day).map((d) => d.date), error: null };
+}
+
+/**
+ * The points `method` adds on `dates` that have no fixing. `points` must be
+ * ascending real fixings and may start before `dates` (the seed); the result
+ * is ascending and holds only new points.
+ */
+export function gapFills(points: SeriesPoint[], dates: string[], method: FillMethod): FilledPoint[] {
+  if (method === "none" || points.length === 0) return [];
+
+  const stored = new Set(points.map((p) => p.date));
+  const out: FilledPoint[] = [];
+  let next = 0; // index of the first point dated after the current date
+
+  for (const date of dates) {
+    while (next < points.length && points[next].date <= date) next += 1;
+    if (stored.has(date) || next === 0) continue;
+
+    const prev = points[next - 1];
+    if (method === "previous") {
+      out.push({ date, mid: prev.mid, filled: true, fill_method: method });
+      continue;
+    }
+
+    if (next === points.length) continue;
+    const after = points[next];
+    const weight = daysBetween(prev.date, date) / daysBetween(prev.date, after.date);
+    out.push({ date, mid: prev.mid + (after.mid - prev.mid) * weight, filled: true, fill_method: method });
+  }
+  return out;
+}
@@ -0,0 +1,410 @@
+// lib/fx/ingestion.ts
+import { supabaseServer, supabaseServerFor, type ChangeContext } from "@/lib/supabase/server";
+import { parseWithAdapter } from "@/lib/fx/sources/registry";
+import {
+  quarantineRow,
+  screenRates,
+  type GateVerdict,
+  type QuarantineOrigin,
+} from "@/lib/fx/validationGate";
+import type {
+  IngestMode,
+  NormalizedRate,
+  RejectedRow,
+  SourceAdapter,
+  SourcePayload,
+} from "@/lib/fx/sources/types";
+import { toBidAsk, type BidAsk } from "@/lib/fx/spread";
+import { DEFAULT_SEGMENT, normaliseSegment, segmentKeySuffix, type MarketSegment } from "@/lib/fx/segments";
+
+/**
+ * Daily FX ingestion: run a source adapter over a payload and upsert the
+ * result into fx_daily_rates idempotently, returning a structured run report.
+ *
+ * Storage convention (same as the admin routes):
+ *   base_currency = SSP, quote_currency = XXX, rate_mid = SSP per 1 XXX
+ */
+
+export type IngestionReport = {
+  status: "ok" | "error";
+  mode: IngestMode;
+  origin: string;
+  dryRun: boolean;
+  source: { code: string; id: number | null };
+  counts: {
+    received: number;
+    inserted: number;
+    updated: number;
+    skipped: number;
+    rejected: number;
+    quarantined: number;
+  };
+  inserted: string[];
+  updated: { key: string; previousMid: number; newMid: number }[];
+  skipped: { key: string; reason: string }[];
+  rejected: RejectedRow[];
+  /** Held back by the validation gate for reviewer approval (fx_rate_quarantine). */
+  quarantined: { key: string; reasons: string[] }[];
+  /** Per-row preview of accepted rows against what is stored / published. */
+  diff: IngestionDiffRow[];
+  error?: string;
+  errorCode?: "SOURCE_NOT_FOUND" | "VALIDATION_FAILED" | "DB_ERROR";
+};
+
+export type IngestionDiffRow = {
+  line: number;
+  key: string;
+  as_of_date: string;
+  base: string;
+  quote: string;
+  rate_mid: number;
+  rate_bid: number | null;
+  rate_ask: number | null;
+  segment: MarketSegment;
+  /** Row this write would replace (same source + override flag), if any */
+  previousMid: number | null;
+  /** Current published value for the row's segment (fx_daily_rates_default for official), if any */
+  publishedMid: number | null;
+  status: "new" | "changed" | "unchanged";
+  /** Validation gate reasons; non-empty means the row is quarantined, not published. */
+  flags: string[];
+};
+
+// Official rows keep the plain date:pair key; other segments get a suffix.
+function rowKey(r: { as_of_date: string; base: string; quote: string; segment?: MarketSegment | null }) {
+  return `${r.as_of_date}:${r.base}/${r.quote}${segmentKeySuffix(r.segment)}`;
+}
+
+function emptyReport(
+  mode: IngestMode,
+  origin: string,
+  dryRun: boolean,
+  sourceCode: string
+): IngestionReport {
+  return {
+    status: "ok",
+    mode,
+    origin,
+    dryRun,
+    source: { code: sourceCode, id: null },
+    counts: { received: 0, inserted: 0, updated: 0, skipped: 0, rejected: 0, quarantined: 0 },
+    inserted: [],
+    updated: [],
+    skipped: [],
+    rejected: [],
+    quarantined: [],
+    diff: [],
+  };
+}
+
+function finalize(report: IngestionReport): IngestionReport {
+  report.counts.inserted = report.inserted.length;
+  report.counts.updated = report.updated.length;
+  report.counts.skipped = report.skipped.length;
+  report.counts.rejected = report.rejected.length;
+  report.counts.quarantined = report.quarantined.length;
+  return report;
+}
+
+/**
+ * Parses (via the adapter), validates and upserts a payload into fx_daily_rates.
+ *
+ * Rows are keyed by (as_of_date, base_currency, quote_currency, source_id,
+ * segment).
+ * Feed rows (the default) never touch manual overrides and vice versa.
+ * Re-running the same payload is a no-op (everything lands in `skipped`).
+ *
+ * Rows flagged by the validation gate are written to fx_rate_quarantine
+ * instead of being published.
+ *
+ * The quarantine inserts and the publishable upserts go out in one
+ * transaction (fx_commit_gated_rates), so a batch is applied atomically:
+ * either every row lands (published or quarantined) or none do.
+ */
+export async function ingestFromSource(opts: {
+  adapter: SourceAdapter;
+  payload: SourcePayload;
+  dryRun?: boolean;
+  /** Write rows as manual overrides (admin uploads). Default false. */
+  manualOverride?: boolean;
+  /** Default true. */
+  isOfficial?: boolean;
+  /** Refuse to write anything if any row was rejected. Default false. */
+  strict?: boolean;
+  /** Recorded on rows held back by the validation gate. Default "cron". */
+  quarantineOrigin?: QuarantineOrigin;
+  /** Who the write is attributed to in fx_change_log. Default: the cron job. */
+  changeContext?: ChangeContext;
+}): Promise<IngestionReport> {
+  const supabase = supabaseServer;
+  const { adapter, payload } = opts;
+  const sourceCode = adapter.code;
+  const report = emptyReport(payload.mode, payload.origin, Boolean(opts.dryRun), sourceCode);
+
+  const { rows, rejected } = parseWithAdapter(adapter, payload);
+  report.counts.received = rows.length + rejected.length;
+  report.rejected.push(...rejected);
+
+  const { data: sourceRow, error: sourceError } = await supabase
+    .from("fx_sources")
+    .select("id")
+    .eq("code", sourceCode)
+    .maybeSingle();
+
+  if (sourceError || !sourceRow) {
+    report.status = "error";
+    report.error = `Could not find FX source '${sourceCode}' in fx_sources.`;
+    report.errorCode = "SOURCE_NOT_FOUND";
+    return finalize(report);
+  }
+
+  const sourceId = Number(sourceRow.id);
+  report.source.id = sourceId;
+
+  if (!rows.length) return finalize(report);
+
+  // Reject currencies we do not know about.
+  const { data: currencyRows, error: currencyError } = await supabase
+    .from("currencies")
+    .select("code");
+
+  if (currencyError) {
+    report.status = "error";
+    report.error = `Failed to load currencies: ${currencyError.message}`;
+    report.errorCode = "DB_ERROR";
+    return finalize(report);
+  }
+
+  const known = new Set((currencyRows ?? []).map((c) => String(c.code).toUpperCase()));
+
+  // Duplicates inside the payload: first occurrence wins, the rest are rejected.
+  const seen = new Set<string>();
+  const accepted: typeof rows = [];
+
+  for (const r of rows) {
+    const key = rowKey(r);
+    if (!known.has(r.quote) || !known.has(r.base)) {
+      report.rejected.push({
+        line: r.line,
+        reason: `Unknown currency in pair ${r.base}/${r.quote}`,
+        raw: r.raw,
+      });
+      continue;
+    }
+    if (seen.has(key)) {
+      report.rejected.push({ line: r.line, reason: `Duplicate row for ${key}`, raw: r.raw });
+      continue;
+    }
+    seen.add(key);
+    accepted.push(r);
+  }
+
+  if (!accepted.length) return finalize(report);
+
+  const manualOverride = Boolean(opts.manualOverride);
+
+  // Load the rows this batch could replace (same source + override flag).
+  const dates = Array.from(new Set(accepted.map((r) => r.as_of_date))).sort();
+
+  const { data: existingRows, error: existingError } = await supabase
+    .from("fx_daily_rates")
+    .select("as_of_date, base_currency, quote_currency, rate_mid, rate_bid, rate_ask, segment, deleted_at")
+    .eq("source_id", sourceId)
+    .eq("is_manual_override", manualOverride)
+    .in("as_of_date", dates);
+
+  if (existingError) {
+    report.status = "error";
+    report.error = `Failed to load existing rates: ${existingError.message}`;
+    report.errorCode = "DB_ERROR";
+    return finalize(report);
+  }
+
+  const existing = new Map<string, number>();
+  // Stored bid / ask, so a row whose quotes changed but whose mid did not is still written.
+  const existingQuotes = new Map<string, BidAsk>();
+  // Soft-deleted rows are left alone: re-ingesting must not silently undo a
+  // delete. They come back only through a restore or an explicit manual save.
+  const deleted = new Set<string>();
+  for (const e of existingRows ?? []) {
+    const key = rowKey({
+      as_of_date: String(e.as_of_date),
+      base: String(e.base_currency).toUpperCase(),
+      quote: String(e.quote_currency).toUpperCase(),
+      segment: normaliseSegment(e.segment),
+    });
+    existing.set(key, Number(e.rate_mid));
+    existingQuotes.set(key, toBidAsk(e));
+    if (e.deleted_at) deleted.add(key);
+  }
+
+  // What consumers currently see for these dates (for the preview only):
+  // fx_daily_rates_default for official rows, fx_segment_rates for the rest.
+  const { data: publishedRows } = await supabase
+    .from("fx_daily_rates_default")
+    .select("as_of_date, base_currency, quote_currency, rate_mid")
+    .in("as_of_date", dates);
+
+  const otherSegments = Array.from(
+    new Set(accepted.map((r) => r.segment ?? DEFAULT_SEGMENT).filter((s) => s !== DEFAULT_SEGMENT))
+  );
+  const { data: segmentRows } = otherSegments.length
+    ? await supabase
+        .from("fx_segment_rates")
+        .select("as_of_date, base_currency, quote_currency, rate_mid, segment")
+        .in("segment", otherSegments)
+        .in("as_of_date", dates)
+    : { data: [] };
+
+  const published = new Map<string, number>();
+  for (const p of [...(publishedRows ?? []), ...(segmentRows ?? [])]) {
+    published.set(
+      rowKey({
+        as_of_date: String(p.as_of_date),
+        base: String(p.base_currency).toUpperCase(),
+        quote: String(p.quote_currency).toUpperCase(),
+        segment: "segment" in p ? normaliseSegment(p.segment) : DEFAULT_SEGMENT,
+      }),
+      Number(p.rate_mid)
+    );
+  }
+
+  const classified: {
+    r: (typeof accepted)[number];
+    key: string;
+    prev: number | undefined;
+    unchanged: boolean;
+  }[] = accepted.map((r) => {
+    const key = rowKey(r);
+    const prev = existing.get(key);
+    const quotes = existingQuotes.get(key);
+    const unchanged =
+      prev === r.rate_mid &&
+      quotes?.rate_bid === (r.rate_bid ?? null) &&
+      quotes?.rate_ask === (r.rate_ask ?? null);
+    return { r, key, prev, unchanged };
+  });
+
+  // Validation gate: only rows whose mid would change are screened; a new
+  // bid / ask around an unchanged mid cannot be a jump.
+  const candidates = classified
+    .filter((c) => c.prev !== c.r.rate_mid && !deleted.has(c.key))
+    .map((c) => c.r);
+  let verdicts = new Map<string, GateVerdict>();
+
+  if (candidates.length) {
+    try {
+      verdicts = await screenRates(candidates);
+    } catch (e: unknown) {
+      report.status = "error";
+      report.error = `Validation gate failed: ${e instanceof Error ? e.message : String(e)}`;
+      report.errorCode = "DB_ERROR";
+      return finalize(report);
+    }
+  }
+
+  const toWrite: NormalizedRate[] = [];
+  const toQuarantine: { row: NormalizedRate; verdict: GateVerdict }[] = [];
+
+  for (const { r, key, prev, unchanged } of classified) {
+    const verdict = verdicts.get(key);
+    let status: IngestionDiffRow["status"];
+
+    if (deleted.has(key)) {
+      report.skipped.push({ key, reason: "Deleted; restore it from the trash to update" });
+      status = "unchanged";
+    } else if (unchanged) {
+      report.skipped.push({ key, reason: "Unchanged" });
+      status = "unchanged";
+    } else if (verdict?.flagged) {
+      report.quarantined.push({ key, reasons: verdict.reasons });
+      toQuarantine.push({ row: r, verdict });
+      status = prev === undefined ? "new" : "changed";
+    } else if (prev === undefined) {
+      report.inserted.push(key);
+      toWrite.push(r);
+      status = "new";
+    } else {
+      report.updated.push({ key, previousMid: prev, newMid: r.rate_mid });
+      toWrite.push(r);
+      status = "changed";
+    }
+
+    report.diff.push({
+      line: r.line,
+      key,
+      as_of_date: r.as_of_date,
+      base: r.base,
+      quote: r.quote,
+      rate_mid: r.rate_mid,
+      rate_bid: r.rate_bid ?? null,
+      rate_ask: r.rate_ask ?? null,
+      segment: r.segment ?? DEFAULT_SEGMENT,
+      previousMid: prev ?? null,
+      publishedMid: published.get(key) ?? null,
+      status,
+      flags: verdict?.flagged ? verdict.reasons : [],
+    });
+  }
+
+  if (opts.strict && !report.dryRun && report.rejected.length) {
+    report.status = "error";
+    report.error = `${report.rejected.length} row(s) failed validation; nothing was written.`;
+    report.errorCode = "VALIDATION_FAILED";
+    report.inserted = [];
+    report.updated = [];
+    report.quarantined = [];
+    return finalize(report);
+  }
+
+  if (report.dryRun) return finalize(report);
+
+  if (!toWrite.length && !toQuarantine.length) return finalize(report);
+
+  // Quarantine and publish in one transaction (fx_commit_gated_rates), so a
+  // batch never ends up half held back and half published.
+  const writer = supabaseServerFor(
+    opts.changeContext ?? {
+      actorId: null,
+      actorEmail: null,
+      ip: null,
+      source: "cron",
+      reason: `${sourceCode} ${payload.mode.toLowerCase()} (${payload.origin})`,
+    }
+  );
+  const { error: writeError } = await writer.rpc("fx_commit_gated_rates", {
+    p_rates: toWrite.map((r) => ({
+      as_of_date: r.as_of_date,
+      base_currency: r.base,
+      quote_currency: r.quote,
+      rate_mid: r.rate_mid,
+      rate_bid: r.rate_bid ?? null,
+      rate_ask: r.rate_ask ?? null,
+      segment: r.segment ?? DEFAULT_SEGMENT,
+      source_id: sourceId,
+      is_official: opts.isOfficial ?? true,
+      is_manual_override: manualOverride,
+    })),
+    p_quarantine: toQuarantine.map((q) =>
+      quarantineRow(
+        { ...q, sourceId, isOfficial: opts.isOfficial ?? true, isManualOverride: manualOverride },
+        opts.quarantineOrigin ?? "cron"
+      )
+    ),
+  });
+
+  if (writeError) {
+    report.status = "error";
+    report.error = `Failed to write rates: ${writeError.message}`;
+    report.errorCode = "DB_ERROR";
+    // Nothing was written; surface the attempted rows as rejected instead.
+    for (const r of [...toWrite, ...toQuarantine.map((q) => q.row)]) {
+      report.rejected.push({ line: 0, reason: "Write failed", raw: rowKey(r) });
+    }
+    report.inserted = [];
+    report.updated = [];
+    report.quarantined = [];
+  }
+
+  return finalize(report);
+}
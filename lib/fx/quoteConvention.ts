@@ -0,0 +1,223 @@
+// lib/fx/quoteConvention.ts
+import {
+  CROSS_BASE,
+  addDaysYmd,
+  crossMethod,
+  fetchLegSeries,
+  isCurrencyCode,
+  latestLegDate,
+  legFor,
+  missingLegPolicy,
+  parseMaxLagDays,
+  type CrossLeg,
+  type LegSource,
+} from "@/lib/fx/crossRates";
+import { DEFAULT_SEGMENT, type MarketSegment } from "@/lib/fx/segments";
+
+/**
+ * Quoting conventions for /api/v1 rate endpoints.
+ *
+ * Stored rates are SSP per 1 unit of the quote currency. A request may pick
+ * another base (`base=USD`) and a direction:
+ *   base_per_quote (default) – units of the base per 1 unit of the quote,
+ *                              e.g. 4571 SSP per 1 USD;
+ *   quote_per_base           – units of the quote per 1 unit of the base,
+ *                              e.g. 0.000219 USD per 1 SSP.
+ * `invert=true` flips whichever convention was chosen.
+ *
+ * A base other than SSP is derived by triangulation (see crossRates.ts) and
+ * follows the same missing-leg rule; SSP then appears as an ordinary quote.
+ * Both legs always come from the same market segment.
+ */
+
+export const QUOTE_CONVENTIONS = ["base_per_quote", "quote_per_base"] as const;
+export type QuoteConvention = (typeof QUOTE_CONVENTIONS)[number];
+
+export type RateConvention = {
+  base: string;
+  convention: QuoteConvention;
+  maxLagDays: number;
+};
+
+export type ConventionPoint = {
+  date: string;
+  mid: number;
+  quote_leg: CrossLeg;
+  base_leg: CrossLeg;
+};
+
+function parseFlag(raw: string | null): boolean | null {
+  if (raw === null || raw === "") return false;
+  const v = raw.toLowerCase();
+  if (v === "true" || v === "1") return true;
+  if (v === "false" || v === "0") return false;
+  return null;
+}
+
+export function parseRateConvention(
+  params: URLSearchParams
+): { value: RateConvention; error: null } | { value: null; error: string } {
+  const base = (params.get("base") ?? CROSS_BASE).trim().toUpperCase();
+  if (!isCurrencyCode(base)) {
+    return { value: null, error: "base must be a 3-letter currency code." };
+  }
+
+  const rawConvention = params.get("quote_convention");
+  if (rawConvention && !QUOTE_CONVENTIONS.includes(rawConvention as QuoteConvention)) {
+    return { value: null, error: `quote_convention must be one of: ${QUOTE_CONVENTIONS.join(", ")}.` };
+  }
+
+  const invert = parseFlag(params.get("invert"));
+  if (invert === null) {
+    return { value: null, error: "invert must be true or false." };
+  }
+
+  const lag = parseMaxLagDays(params.get("max_lag_days"));
+  if (lag.error !== null) return { value: null, error: lag.error };
+
+  let convention = (rawConvention as QuoteConvention | null) ?? "base_per_quote";
+  if (invert) convention = convention === "base_per_quote" ? "quote_per_base" : "base_per_quote";
+
+  return { value: { base, convention, maxLagDays: lag.value }, error: null };
+}
+
+/** True when rates can be served exactly as stored. */
+export function isStorageConvention(c: RateConvention) {
+  return c.base === CROSS_BASE && c.convention === "base_per_quote";
+}
+
+export function isRebased(c: RateConvention) {
+  return c.base !== CROSS_BASE;
+}
+
+/**
+ * Converts a stored mid (SSP per 1 quote) given the base leg (SSP per 1 base).
+ */
+export function convertMid(sspPerQuote: number, sspPerBase: number, convention: QuoteConvention) {
+  const basePerQuote = sspPerQuote / sspPerBase;
+  return convention === "base_per_quote" ? basePerQuote : 1 / basePerQuote;
+}
+
+/** e.g. "SSP per 1 USD" or "USD per 1 SSP". */
+export function rateUnit(c: RateConvention, quote: string) {
+  return c.convention === "base_per_quote" ? `${c.base} per 1 ${quote}` : `${quote} per 1 ${c.base}`;
+}
+
+/** Metadata returned with every response so the direction is never implied. */
+export function conventionMeta(c: RateConvention, quote?: string) {
+  const q = quote ?? "<quote>";
+  return {
+    base: c.base,
+    quote_convention: c.convention,
+    inverted: c.convention !== "base_per_quote",
+    unit: rateUnit(c, q),
+    description:
+      c.convention === "base_per_quote"
+        ? `Each rate is the number of ${c.base} per 1 unit of ${quote ?? "the quote currency"}.`
+        : `Each rate is the number of units of ${quote ?? "the quote currency"} per 1 ${c.base}.`,
+    ...(isRebased(c)
+      ? {
+          method: c.convention === "base_per_quote" ? crossMethod(q, c.base) : crossMethod(c.base, q),
+          missing_leg_policy: missingLegPolicy(c.maxLagDays),
+        }
+      : {}),
+  };
+}
+
+/**
+ * A snapshot of SSP-based mids re-expressed in convention `c`. SSP is added
+ * as a quote and the base itself is dropped; keys stay sorted.
+ */
+export function convertRates(sspRates: Record<string, number>, sspPerBase: number, c: RateConvention) {
+  const all: Record<string, number> = { ...sspRates, [CROSS_BASE]: 1 };
+  const out: Record<string, number> = {};
+  for (const quote of Object.keys(all).sort()) {
+    if (quote === c.base) continue;
+    out[quote] = convertMid(all[quote], sspPerBase, c.convention);
+  }
+  return out;
+}
+
+/** SSP per 1 base on `date` under the missing-leg rule (identity leg for SSP). */
+export async function baseLegOn(
+  c: RateConvention,
+  date: string,
+  asKnownAt: string | null,
+  source: LegSource,
+  segment: MarketSegment = DEFAULT_SEGMENT
+): Promise<{ data: CrossLeg | null; error: { message: string } | null }> {
+  const { data, error } = await fetchLegSeries(
+    c.base,
+    addDaysYmd(date, -c.maxLagDays),
+    date,
+    asKnownAt,
+    source,
+    segment
+  );
+  if (error) return { data: null, error };
+  return { data: legFor(c.base, data, date, c.maxLagDays), error: null };
+}
+
+/** Latest date on which either leg of `quote` in convention `c` was fixed. */
+export async function latestConventionDate(
+  quote: string,
+  c: RateConvention,
+  asKnownAt: string | null,
+  source: LegSource,
+  segment: MarketSegment = DEFAULT_SEGMENT
+): Promise<{ data: string | null; error: { message: string } | null }> {
+  const [q, b] = await Promise.all([
+    latestLegDate(quote, asKnownAt, source, segment),
+    latestLegDate(c.base, asKnownAt, source, segment),
+  ]);
+  const error = q.error ?? b.error;
+  if (error) return { data: null, error };
+
+  const dates = [q.data, b.data].filter((d): d is string => d !== null).sort();
+  return { data: dates.length ? dates[dates.length - 1] : null, error: null };
+}
+
+/**
+ * `quote` against the requested base, ascending, one point per date on which
+ * either leg was fixed within [from, to]. Dates ruled out by the missing-leg
+ * rule are left out.
+ */
+export async function fetchConventionSeries(
+  quote: string,
+  c: RateConvention,
+  from: string | null,
+  to: string | null,
+  asKnownAt: string | null,
+  source: LegSource,
+  segment: MarketSegment = DEFAULT_SEGMENT
+): Promise<{ data: ConventionPoint[] | null; error: { message: string } | null }> {
+  // Fetch a little earlier so the first dates can still find a lagged leg.
+  const lookback = from ? addDaysYmd(from, -c.maxLagDays) : null;
+  const [q, b] = await Promise.all([
+    fetchLegSeries(quote, lookback, to, asKnownAt, source, segment),
+    fetchLegSeries(c.base, lookback, to, asKnownAt, source, segment),
+  ]);
+  const error = q.error ?? b.error;
+  if (error) return { data: null, error };
+
+  const dates = new Set<string>();
+  for (const series of [q.data, b.data]) {
+    for (const p of series ?? []) {
+      if ((!from || p.date >= from) && (!to || p.date <= to)) dates.add(p.date);
+    }
+  }
+
+  const points: ConventionPoint[] = [];
+  for (const date of [...dates].sort()) {
+    const quoteLeg = legFor(quote, q.data, date, c.maxLagDays);
+    const baseLeg = legFor(c.base, b.data, date, c.maxLagDays);
+    if (!quoteLeg || !baseLeg) continue;
+    points.push({
+      date,
+      mid: convertMid(quoteLeg.mid, baseLeg.mid, c.convention),
+      quote_leg: quoteLeg,
+      base_leg: baseLeg,
+    });
+  }
+  return { data: points, error: null };
+}
@@ -0,0 +1,107 @@
+// lib/fx/segments.ts
+import { DEFAULT_MAX_LAG_DAYS, legFor, type LegPoint } from "@/lib/fx/crossRates";
+
+/**
+ * Market segments a rate can belong to (see 20261019001400_fx_market_segments.sql):
+ *   official   – the central bank fixing; the only segment fx_daily_rates_default
+ *                serves, and the default everywhere;
+ *   commercial – commercial bank rates;
+ *   parallel   – parallel / bureau (street) market rates.
+ *
+ * Each segment has its own published series per pair. Rows are keyed by
+ * segment as well as date, pair and source, so the same source may publish
+ * several segments for one day.
+ */
+
+export const MARKET_SEGMENTS = ["official", "commercial", "parallel"] as const;
+export type MarketSegment = (typeof MARKET_SEGMENTS)[number];
+
+export const DEFAULT_SEGMENT: MarketSegment = "official";
+
+export const SEGMENT_LABELS: Record<MarketSegment, string> = {
+  official: "Official",
+  commercial: "Commercial bank",
+  parallel: "Parallel / bureau",
+};
+
+// Spellings seen in source feeds and uploads.
+const SEGMENT_ALIASES: Record<string, MarketSegment> = {
+  official: "official",
+  cbss: "official",
+  fixing: "official",
+  commercial: "commercial",
+  commercial_bank: "commercial",
+  bank: "commercial",
+  parallel: "parallel",
+  bureau: "parallel",
+  street: "parallel",
+  black_market: "parallel",
+};
+
+/**
+ * Empty → the default segment; unknown values → null so callers can reject
+ * them rather than silently filing a street rate as official.
+ */
+export function normaliseSegment(raw: unknown): MarketSegment | null {
+  if (raw === null || raw === undefined) return DEFAULT_SEGMENT;
+  const key = String(raw).trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (key === "") return DEFAULT_SEGMENT;
+  return SEGMENT_ALIASES[key] ?? null;
+}
+
+/** `?segment=` on the v1 rate endpoints. */
+export function parseSegmentParam(
+  params: URLSearchParams
+): { value: MarketSegment; error: null } | { value: null; error: string } {
+  const segment = normaliseSegment(params.get("segment"));
+  if (!segment) {
+    return { value: null, error: `segment must be one of: ${MARKET_SEGMENTS.join(", ")}.` };
+  }
+  return { value: segment, error: null };
+}
+
+/** Appended to per-row keys so official keys keep their existing shape. */
+export function segmentKeySuffix(segment: MarketSegment | null | undefined) {
+  return !segment || segment === DEFAULT_SEGMENT ? "" : `#${segment}`;
+}
+
+export type PremiumPoint = {
+  date: string;
+  /** Parallel market mid, SSP per 1 unit of the currency. */
+  parallel_mid: number;
+  /** Official mid used, SSP per 1 unit of the currency. */
+  official_mid: number;
+  /** Fixing date of the official mid (it may lag the parallel quote). */
+  official_date: string;
+  /** (parallel / official − 1) × 100. */
+  premium_pct: number;
+};
+
+export const PREMIUM_DEFINITION =
+  "Parallel market premium = (parallel mid / official mid − 1) × 100, both in SSP per 1 unit of the currency. " +
+  `The official mid is the latest fixing on or before the parallel quote's date, at most ${DEFAULT_MAX_LAG_DAYS} day(s) older.`;
+
+/**
+ * One point per parallel quote that has an official fixing to compare with.
+ * Both series must be ascending SSP legs for the same currency.
+ */
+export function premiumSeries(
+  currency: string,
+  official: LegPoint[],
+  parallel: LegPoint[],
+  maxLagDays: number = DEFAULT_MAX_LAG_DAYS
+): PremiumPoint[] {
+  const points: PremiumPoint[] = [];
+  for (const p of parallel) {
+    const leg = legFor(currency, official, p.date, maxLagDays);
+    if (!leg || leg.as_of_date === null || !(leg.mid > 0)) continue;
+    points.push({
+      date: p.date,
+      parallel_mid: p.mid,
+      official_mid: leg.mid,
+      official_date: leg.as_of_date,
+      premium_pct: (p.mid / leg.mid - 1) * 100,
+    });
+  }
+  return points;
+}
@@ -0,0 +1,57 @@
+// lib/fx/sources/registry.ts
+import { createTabularAdapter } from "@/lib/fx/sources/tabular";
+import type {
+  ParsedRate,
+  RejectedRow,
+  SourceAdapter,
+  SourcePayload,
+} from "@/lib/fx/sources/types";
+
+/**
+ * Source adapters keyed by fx_sources.code.
+ *
+ * To add a feed: insert its fx_sources row, then register an adapter here.
+ * Route handlers look adapters up by code and never need to change.
+ */
+const ADAPTERS: SourceAdapter[] = [
+  createTabularAdapter({
+    code: "SAVVY_FEED",
+    label: "Savvy Rilla daily feed",
+    // Keeps the original FX_INGEST_* cron configuration working.
+    envPrefix: "FX_INGEST",
+  }),
+];
+
+const REGISTRY = new Map<string, SourceAdapter>(ADAPTERS.map((a) => [a.code, a]));
+
+export const DEFAULT_SOURCE_CODE = "SAVVY_FEED";
+
+export function getSourceAdapter(code: string | null | undefined): SourceAdapter | null {
+  const key = (code ?? DEFAULT_SOURCE_CODE).trim().toUpperCase();
+  return REGISTRY.get(key) ?? null;
+}
+
+export function listSourceAdapters(): { code: string; label: string }[] {
+  return ADAPTERS.map((a) => ({ code: a.code, label: a.label }));
+}
+
+/** Runs an adapter's parse + normalise steps over a payload. */
+export function parseWithAdapter(
+  adapter: SourceAdapter,
+  payload: SourcePayload
+): { rows: ParsedRate[]; rejected: RejectedRow[] } {
+  const { records, rejected } = adapter.parse(payload);
+  const rows: ParsedRate[] = [];
+  const out: RejectedRow[] = [...rejected];
+
+  for (const rec of records) {
+    const n = adapter.normalise(rec);
+    if ("error" in n) {
+      out.push({ line: rec.line, reason: n.error, raw: rec.raw });
+      continue;
+    }
+    rows.push({ ...n, line: rec.line, raw: rec.raw });
+  }
+
+  return { rows, rejected: out };
+}
@@ -0,0 +1,15 @@
+// lib/fx/sources/spreadsheet.ts
+
+const SPREADSHEET_EXTENSIONS = [".xlsx", ".xls", ".ods"];
+
+/**
+ * Workbook uploads are refused: the npm xlsx package has unpatched parsing
+ * advisories (prototype pollution, ReDoS), so uploads are CSV only and a
+ * workbook should be saved as CSV first.
+ */
+export function isSpreadsheetFile(name: string, contentType?: string | null) {
+  const lower = name.toLowerCase();
+  if (SPREADSHEET_EXTENSIONS.some((ext) => lower.endsWith(ext))) return true;
+  const ct = (contentType ?? "").toLowerCase();
+  return ct.includes("spreadsheetml") || ct.includes("ms-excel") || ct.includes("opendocument.spreadsheet");
+}
@@ -0,0 +1,274 @@
+// lib/fx/sources/tabular.ts
+import type {
+  IngestMode,
+  NormalizedRate,
+  RawRateRecord,
+  RejectedRow,
+  SourceAdapter,
+  SourcePayload,
+} from "@/lib/fx/sources/types";
+import { normaliseSegment } from "@/lib/fx/segments";
+import { parseBidAsk } from "@/lib/fx/spread";
+
+/**
+ * Generic CSV / JSON rate-sheet adapter.
+ *
+ * Most feeds we see are "one row per pair per date" sheets that only differ in
+ * column names and where they live, so new feeds are usually just a new
+ * createTabularAdapter() entry in the registry.
+ */
+
+const DEFAULT_BASE = "SSP";
+
+export function isYmd(s: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return false;
+  const d = new Date(`${s}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === s;
+}
+
+/**
+ * Minimal RFC 4180 line splitter (quoted fields, "" escapes).
+ * Multi-line quoted fields are not supported; rate sheets never need them.
+ */
+export function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i += 1;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      out.push(cur.trim());
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+
+  out.push(cur.trim());
+  return out;
+}
+
+export type ColumnAliases = Record<keyof Required<NormalizedRate>, string[]>;
+
+// Header aliases accepted in uploaded sheets / feeds.
+export const DEFAULT_COLUMN_ALIASES: ColumnAliases = {
+  as_of_date: ["as_of_date", "date", "asofdate", "fixing_date"],
+  base: ["base_currency", "base"],
+  quote: ["quote_currency", "quote", "currency"],
+  rate_mid: ["rate_mid", "mid", "mid_rate", "rate"],
+  rate_bid: ["rate_bid", "bid", "buy", "buying"],
+  rate_ask: ["rate_ask", "ask", "sell", "selling"],
+  segment: ["segment", "market", "market_segment"],
+};
+
+function resolveColumns(header: string[], aliases: ColumnAliases) {
+  const lower = header.map((h) => h.trim().toLowerCase());
+  const find = (field: keyof ColumnAliases) =>
+    lower.findIndex((h) => aliases[field].includes(h));
+
+  return {
+    as_of_date: find("as_of_date"),
+    base: find("base"),
+    quote: find("quote"),
+    rate_mid: find("rate_mid"),
+    rate_bid: find("rate_bid"),
+    rate_ask: find("rate_ask"),
+    segment: find("segment"),
+  };
+}
+
+export function recordsFromCsv(
+  text: string,
+  aliases: ColumnAliases = DEFAULT_COLUMN_ALIASES
+): { records: RawRateRecord[]; rejected: RejectedRow[] } {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const records: RawRateRecord[] = [];
+  const rejected: RejectedRow[] = [];
+
+  const headerIdx = lines.findIndex((l) => l.trim().length > 0 && !l.trim().startsWith("#"));
+  if (headerIdx === -1) return { records, rejected };
+
+  const cols = resolveColumns(splitCsvLine(lines[headerIdx]), aliases);
+  if (cols.as_of_date === -1 || cols.quote === -1 || cols.rate_mid === -1) {
+    rejected.push({
+      line: headerIdx + 1,
+      reason: "Header must include as_of_date, quote_currency and rate_mid columns",
+      raw: lines[headerIdx],
+    });
+    return { records, rejected };
+  }
+
+  for (let i = headerIdx + 1; i < lines.length; i++) {
+    const raw = lines[i];
+    if (!raw.trim() || raw.trim().startsWith("#")) continue;
+
+    const cells = splitCsvLine(raw);
+    records.push({
+      line: i + 1,
+      raw,
+      as_of_date: cells[cols.as_of_date],
+      base: cols.base === -1 ? undefined : cells[cols.base],
+      quote: cells[cols.quote],
+      rate_mid: cells[cols.rate_mid],
+      rate_bid: cols.rate_bid === -1 ? undefined : cells[cols.rate_bid],
+      rate_ask: cols.rate_ask === -1 ? undefined : cells[cols.rate_ask],
+      segment: cols.segment === -1 ? undefined : cells[cols.segment],
+    });
+  }
+
+  return { records, rejected };
+}
+
+export function recordsFromJson(text: string): RawRateRecord[] {
+  const parsed = JSON.parse(text);
+
+  // Accept either an array of rows, { data: [...] }, or the
+  // /api/v1/rates/latest shape { base, as_of_date, rates: { USD: 4548.8 } }.
+  if (parsed && !Array.isArray(parsed) && parsed.rates && typeof parsed.rates === "object") {
+    return Object.entries(parsed.rates as Record<string, unknown>).map(([quote, mid], idx) => ({
+      line: idx + 1,
+      raw: JSON.stringify({ [quote]: mid }),
+      as_of_date: parsed.as_of_date,
+      base: parsed.base,
+      quote,
+      rate_mid: mid,
+      segment: parsed.segment,
+    }));
+  }
+
+  const rows: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.data) ? parsed.data : [];
+
+  return rows.map((r, idx) => {
+    const row = (r ?? {}) as Record<string, unknown>;
+    return {
+      line: idx + 1,
+      raw: JSON.stringify(r),
+      as_of_date: row.as_of_date ?? row.date,
+      base: row.base_currency ?? row.base,
+      quote: row.quote_currency ?? row.quote,
+      rate_mid: row.rate_mid ?? row.mid,
+      rate_bid: row.rate_bid ?? row.bid,
+      rate_ask: row.rate_ask ?? row.ask,
+      segment: row.segment ?? row.market,
+    };
+  });
+}
+
+/** Default record → canonical row conversion shared by tabular feeds. */
+export function normaliseRecord(rec: RawRateRecord): NormalizedRate | { error: string } {
+  const asOf = String(rec.as_of_date ?? "").trim();
+  const base = String(rec.base ?? DEFAULT_BASE).trim().toUpperCase() || DEFAULT_BASE;
+  const quote = String(rec.quote ?? "").trim().toUpperCase();
+  const mid = Number(String(rec.rate_mid ?? "").replace(/,/g, ""));
+
+  if (!isYmd(asOf)) return { error: `Invalid as_of_date '${asOf}'` };
+  if (!/^[A-Z]{3}$/.test(quote)) return { error: `Invalid quote currency '${quote}'` };
+  if (!/^[A-Z]{3}$/.test(base)) return { error: `Invalid base currency '${base}'` };
+  if (!Number.isFinite(mid) || mid <= 0) return { error: "rate_mid must be a positive number" };
+
+  const quotes = parseBidAsk(mid, rec.rate_bid, rec.rate_ask);
+  if (quotes.error !== null) return { error: quotes.error };
+
+  const segment = normaliseSegment(rec.segment);
+  if (!segment) return { error: `Invalid market segment '${String(rec.segment)}'` };
+
+  return { as_of_date: asOf, base, quote, rate_mid: mid, ...quotes.value, segment };
+}
+
+/**
+ * Loads a payload from env-configured locations:
+ *   <prefix>_MODE         UPLOAD | URL (default URL)
+ *   <prefix>_URL          URL mode target
+ *   <prefix>_URL_TOKEN    optional bearer token for URL mode
+ *   <prefix>_UPLOAD_PATH  UPLOAD mode file, relative to the project root
+ */
+export async function loadPayloadFromEnv(
+  envPrefix: string,
+  modeOverride?: IngestMode
+): Promise<SourcePayload> {
+  const envMode = (process.env[`${envPrefix}_MODE`] ?? "URL").toUpperCase();
+  const mode: IngestMode = modeOverride ?? (envMode === "UPLOAD" ? "UPLOAD" : "URL");
+
+  if (mode === "URL") {
+    const target = process.env[`${envPrefix}_URL`];
+    if (!target) throw new Error(`${envPrefix}_URL is not set`);
+
+    const token = process.env[`${envPrefix}_URL_TOKEN`];
+    const res = await fetch(target, {
+      cache: "no-store",
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
+
+    if (!res.ok) {
+      throw new Error(`Source URL responded with ${res.status}`);
+    }
+
+    return {
+      text: await res.text(),
+      contentType: res.headers.get("content-type"),
+      origin: target,
+      mode,
+    };
+  }
+
+  const filePath = process.env[`${envPrefix}_UPLOAD_PATH`];
+  if (!filePath) throw new Error(`${envPrefix}_UPLOAD_PATH is not set`);
+
+  const { readFile } = await import("node:fs/promises");
+  const path = await import("node:path");
+  const resolved = path.resolve(process.cwd(), filePath);
+
+  return {
+    text: await readFile(resolved, "utf8"),
+    contentType: resolved.endsWith(".json") ? "application/json" : "text/csv",
+    origin: filePath,
+    mode,
+  };
+}
+
+export function createTabularAdapter(opts: {
+  code: string;
+  label: string;
+  envPrefix: string;
+  columns?: ColumnAliases;
+}): SourceAdapter {
+  const columns = opts.columns ?? DEFAULT_COLUMN_ALIASES;
+
+  return {
+    code: opts.code,
+    label: opts.label,
+
+    fetch: (mode) => loadPayloadFromEnv(opts.envPrefix, mode),
+
+    parse(payload) {
+      const trimmed = payload.text.trim();
+      const looksJson =
+        (payload.contentType ?? "").includes("json") ||
+        trimmed.startsWith("[") ||
+        trimmed.startsWith("{");
+
+      if (!looksJson) return recordsFromCsv(payload.text, columns);
+
+      try {
+        return { records: recordsFromJson(trimmed), rejected: [] };
+      } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : String(e);
+        return { records: [], rejected: [{ line: 0, reason: `Invalid JSON: ${message}`, raw: "" }] };
+      }
+    },
+
+    normalise: normaliseRecord,
+  };
+}
@@ -0,0 +1,66 @@
+// lib/fx/sources/types.ts
+import type { MarketSegment } from "@/lib/fx/segments";
+
+export type IngestMode = "UPLOAD" | "URL";
+
+/** Raw bytes pulled from (or uploaded for) a source, before parsing. */
+export type SourcePayload = {
+  text: string;
+  contentType: string | null;
+  /** Where the payload came from (URL, file path, "request-body", …) */
+  origin: string;
+  mode: IngestMode;
+};
+
+/** One row as read from the payload, untyped. `line` is 1-based. */
+export type RawRateRecord = {
+  line: number;
+  raw: string;
+  as_of_date: unknown;
+  base: unknown;
+  quote: unknown;
+  rate_mid: unknown;
+  rate_bid?: unknown;
+  rate_ask?: unknown;
+  segment?: unknown;
+};
+
+/**
+ * Canonical storage shape (same convention as fx_daily_rates):
+ *   base = SSP, quote = XXX, rate_mid = SSP per 1 XXX
+ * rate_bid / rate_ask are optional and, when present, bracket the mid.
+ * segment defaults to official (see lib/fx/segments.ts).
+ */
+export type NormalizedRate = {
+  as_of_date: string; // YYYY-MM-DD
+  base: string;
+  quote: string;
+  rate_mid: number;
+  rate_bid?: number | null;
+  rate_ask?: number | null;
+  segment?: MarketSegment;
+};
+
+export type RejectedRow = {
+  line: number;
+  reason: string;
+  raw: string;
+};
+
+export type ParsedRate = NormalizedRate & { line: number; raw: string };
+
+/**
+ * A feed we can ingest. Adapters are keyed by fx_sources.code and must stay
+ * free of route/HTTP concerns so cron and admin upload can share them.
+ */
+export type SourceAdapter = {
+  /** fx_sources.code this adapter writes under */
+  code: string;
+  label: string;
+  /** Pulls the configured payload (cron path). */
+  fetch(mode?: IngestMode): Promise<SourcePayload>;
+  /** Splits a payload into raw records; structural problems are rejected, not thrown. */
+  parse(payload: SourcePayload): { records: RawRateRecord[]; rejected: RejectedRow[] };
+  /** Validates + converts one record into the canonical shape. */
+  normalise(record: RawRateRecord): NormalizedRate | { error: string };
+};
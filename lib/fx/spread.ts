@@ -0,0 +1,62 @@
+// lib/fx/spread.ts
+
+/**
+ * Optional buy / sell quotes stored next to rate_mid, in the same convention
+ * (SSP per 1 unit of the quote currency). Either may be missing; when present
+ * they must bracket the mid: bid ≤ mid ≤ ask (see 20261019001300_fx_rate_bid_ask.sql).
+ */
+
+export type BidAsk = {
+  rate_bid: number | null;
+  rate_ask: number | null;
+};
+
+export type Spread = {
+  /** ask − bid, in the rate's own unit. */
+  abs: number;
+  /** (ask − bid) / mid × 100. */
+  pct: number;
+};
+
+/** Empty → null; otherwise a positive number, or undefined when invalid. */
+function parseOptionalRate(raw: unknown): number | null | undefined {
+  if (raw === null || raw === undefined) return null;
+  const text = String(raw).replace(/,/g, "").trim();
+  if (text === "") return null;
+  const n = Number(text);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/** Checks bid ≤ mid ≤ ask for whichever sides are present. */
+export function bidAskError(mid: number, bid: number | null, ask: number | null): string | null {
+  if (bid !== null && bid > mid) return "rate_bid must not be above rate_mid.";
+  if (ask !== null && ask < mid) return "rate_ask must not be below rate_mid.";
+  return null;
+}
+
+export function parseBidAsk(
+  mid: number,
+  rawBid: unknown,
+  rawAsk: unknown
+): { value: BidAsk; error: null } | { value: null; error: string } {
+  const bid = parseOptionalRate(rawBid);
+  if (bid === undefined) return { value: null, error: "rate_bid must be a positive number." };
+  const ask = parseOptionalRate(rawAsk);
+  if (ask === undefined) return { value: null, error: "rate_ask must be a positive number." };
+
+  const error = bidAskError(mid, bid, ask);
+  if (error) return { value: null, error };
+  return { value: { rate_bid: bid, rate_ask: ask }, error: null };
+}
+
+/** Reads stored (numeric / string / null) columns back as numbers. */
+export function toBidAsk(row: { rate_bid?: unknown; rate_ask?: unknown }): BidAsk {
+  const num = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+  return { rate_bid: num(row.rate_bid), rate_ask: num(row.rate_ask) };
+}
+
+/** Null unless both sides are quoted. */
+export function spreadOf(mid: number, bid: number | null, ask: number | null): Spread | null {
+  if (bid === null || ask === null || !(mid > 0)) return null;
+  return { abs: ask - bid, pct: ((ask - bid) / mid) * 100 };
+}
@@ -0,0 +1,68 @@
+// lib/fx/trash.ts
+import { supabaseServer } from "@/lib/supabase/server";
+
+/**
+ * Soft-deleted fx_daily_rates rows (deleted_at is not null) stay restorable
+ * for FX_TRASH_RETENTION_DAYS (default 30). Once expired they can only be
+ * purged; the fx_change_log keeps their last snapshot either way.
+ *
+ * Automated publishes (fixing engine, quarantine approval) never revive a
+ * trashed row: they check deletedRateOnKey first and refuse, so bringing a
+ * rate back goes through the trash's restore and its audit trail.
+ */
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+/** Clears the soft-delete marker; spread into explicit writes that should revive a row. */
+export const RESTORED = {
+  deleted_at: null,
+  deleted_by: null,
+  deleted_by_email: null,
+  delete_reason: null,
+} as const;
+
+export const TRASH_COLUMNS =
+  "id, as_of_date, base_currency, quote_currency, rate_mid, is_official, is_manual_override, source_id, deleted_at, deleted_by_email, delete_reason";
+
+/** The upsert key of fx_daily_rates (fx_daily_rates_segment_key). */
+export type RateKey = {
+  as_of_date: string;
+  base_currency: string;
+  quote_currency: string;
+  source_id: number;
+  is_manual_override: boolean;
+  segment: string;
+};
+
+/** The soft-deleted row an upsert on `key` would land on, if any. */
+export async function deletedRateOnKey(
+  key: RateKey
+): Promise<{ data: { id: number } | null; error: { message: string } | null }> {
+  const { data, error } = await supabaseServer
+    .from("fx_daily_rates")
+    .select("id")
+    .eq("as_of_date", key.as_of_date)
+    .eq("base_currency", key.base_currency)
+    .eq("quote_currency", key.quote_currency)
+    .eq("source_id", key.source_id)
+    .eq("is_manual_override", key.is_manual_override)
+    .eq("segment", key.segment)
+    .not("deleted_at", "is", null)
+    .maybeSingle();
+  if (error) return { data: null, error };
+  return { data: data ? { id: Number(data.id) } : null, error: null };
+}
+
+export function trashRetentionDays(): number {
+  const days = Number(process.env.FX_TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/** Rows deleted before this instant are past the retention window. */
+export function trashCutoff(now = new Date()): Date {
+  return new Date(now.getTime() - trashRetentionDays() * 24 * 60 * 60 * 1000);
+}
+
+export function restorableUntil(deletedAt: string): string {
+  return new Date(new Date(deletedAt).getTime() + trashRetentionDays() * 24 * 60 * 60 * 1000).toISOString();
+}
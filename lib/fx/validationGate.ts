@@ -0,0 +1,240 @@
+// lib/fx/validationGate.ts
+import { supabaseServer } from "@/lib/supabase/server";
+import { selectSegmentRates } from "@/lib/fx/asKnownAt";
+import { DEFAULT_SEGMENT, segmentKeySuffix, type MarketSegment } from "@/lib/fx/segments";
+import {
+  bucketVolPct,
+  computeSeriesAnalytics,
+  type SeriesPoint,
+  type VolBucket,
+} from "@/lib/fx/seriesAnalytics";
+import type { NormalizedRate } from "@/lib/fx/sources/types";
+
+/**
+ * Pre-publication validation gate for fx_daily_rates writes.
+ *
+ * Each candidate is appended to its pair's published history (in its own
+ * market segment, so a parallel quote is never judged against the fixing) and run through
+ * the same analytics the engine charts use. A candidate is flagged when:
+ * - it is a jump (|pctDelta| >= jumpThresholdPct), or
+ * - it alone pushes the trailing volatility bucket from "low" to "high", or
+ * - it is a jump against the next fixing after it while the fixings either
+ *   side agree, i.e. a backfilled date that is the odd one out.
+ *
+ * Flagged candidates are dropped from the series before the next candidate in
+ * the same batch is evaluated, so one fat-fingered value does not also flag the
+ * correct fixing that follows it.
+ */
+
+export type GateOptions = {
+  /** Same meaning as SeriesAnalyticsOptions.jumpThresholdPct. Default FX_GATE_JUMP_THRESHOLD_PCT or 5. */
+  jumpThresholdPct?: number;
+  /** Rolling vol window (returns). Default 7. */
+  volWindow?: number;
+};
+
+export type GateVerdict = {
+  flagged: boolean;
+  reasons: string[];
+  prevMid: number | null;
+  pctDelta: number | null;
+  volPct: number | null;
+  volBucket: VolBucket;
+};
+
+const HISTORY_LOOKBACK_DAYS = 60;
+// Backfilled candidates are also checked against the next fixing after them.
+const HISTORY_LOOKAHEAD_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function gateKey(r: { as_of_date: string; base: string; quote: string; segment?: MarketSegment | null }) {
+  return `${r.as_of_date}:${r.base}/${r.quote}${segmentKeySuffix(r.segment)}`;
+}
+
+function shiftDate(ymd: string, days: number) {
+  return new Date(new Date(`${ymd}T00:00:00Z`).getTime() + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+function defaultJumpThreshold() {
+  const n = Number(process.env.FX_GATE_JUMP_THRESHOLD_PCT);
+  return Number.isFinite(n) && n > 0 ? n : 5;
+}
+
+/**
+ * Pure part of the gate: evaluates candidates (one pair) against history.
+ * `history` must not contain the candidates' dates.
+ */
+export function evaluateCandidates(
+  history: SeriesPoint[],
+  candidates: SeriesPoint[],
+  opts: GateOptions = {}
+): GateVerdict[] {
+  const jumpThresholdPct = opts.jumpThresholdPct ?? defaultJumpThreshold();
+  const volWindow = opts.volWindow ?? 7;
+
+  const accepted = [...history].sort((a, b) => a.date.localeCompare(b.date));
+  const ordered = candidates
+    .map((c, idx) => ({ c, idx }))
+    .sort((a, b) => a.c.date.localeCompare(b.c.date));
+
+  const out: GateVerdict[] = new Array(candidates.length);
+
+  for (const { c, idx } of ordered) {
+    const before = accepted.filter((p) => p.date < c.date);
+    const next = accepted.find((p) => p.date > c.date) ?? null;
+    const series = [...before, c];
+
+    const analytics = computeSeriesAnalytics(series, { jumpThresholdPct, volWindow });
+    const last = analytics[analytics.length - 1];
+
+    const priorVol = analytics.length >= 2 ? analytics[analytics.length - 2].volPct : null;
+    const priorBucket = bucketVolPct(priorVol);
+    const volBucket = bucketVolPct(last.volPct);
+
+    const reasons: string[] = [];
+
+    if (last.isJump && last.pctDelta !== null) {
+      reasons.push(
+        `Day-over-day move of ${last.pctDelta.toFixed(2)}% exceeds the ${jumpThresholdPct}% jump threshold.`
+      );
+    }
+
+    if (priorBucket === "low" && volBucket === "high") {
+      reasons.push("Point alone moves trailing volatility from low to high.");
+    }
+
+    if (next && c.mid > 0) {
+      const nextDelta = ((next.mid - c.mid) / c.mid) * 100;
+      const prev = before.length ? before[before.length - 1] : null;
+      const neighboursAgree =
+        !prev || prev.mid <= 0 || Math.abs(((next.mid - prev.mid) / prev.mid) * 100) < jumpThresholdPct;
+      if (Math.abs(nextDelta) >= jumpThresholdPct && neighboursAgree) {
+        reasons.push(
+          `Move of ${nextDelta.toFixed(2)}% to the next fixing (${next.date}) exceeds the ${jumpThresholdPct}% jump threshold.`
+        );
+      }
+    }
+
+    const verdict: GateVerdict = {
+      flagged: reasons.length > 0,
+      reasons,
+      prevMid: last.prevMid,
+      pctDelta: last.pctDelta,
+      volPct: last.volPct,
+      volBucket,
+    };
+
+    out[idx] = verdict;
+
+    if (!verdict.flagged) {
+      // Later candidates are judged against this one.
+      const at = accepted.findIndex((p) => p.date > c.date);
+      if (at === -1) accepted.push(c);
+      else accepted.splice(at, 0, c);
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Screens candidate rows against their segment's published history
+ * (fx_daily_rates_default for official rows). Returns verdicts keyed by
+ * gateKey: "YYYY-MM-DD:BASE/QUOTE", plus "#segment" outside the official segment.
+ */
+export async function screenRates(
+  rows: NormalizedRate[],
+  opts: GateOptions = {}
+): Promise<Map<string, GateVerdict>> {
+  const verdicts = new Map<string, GateVerdict>();
+
+  const byPair = new Map<string, NormalizedRate[]>();
+  for (const r of rows) {
+    const pair = `${r.base}/${r.quote}${segmentKeySuffix(r.segment)}`;
+    const list = byPair.get(pair) ?? [];
+    list.push(r);
+    byPair.set(pair, list);
+  }
+
+  for (const list of byPair.values()) {
+    const { base, quote } = list[0];
+    const segment = list[0].segment ?? DEFAULT_SEGMENT;
+    const dates = list.map((r) => r.as_of_date).sort();
+    const minDate = shiftDate(dates[0], -HISTORY_LOOKBACK_DAYS);
+    const maxDate = shiftDate(dates[dates.length - 1], HISTORY_LOOKAHEAD_DAYS);
+
+    const { data, error } = await selectSegmentRates("as_of_date, rate_mid", null, segment)
+      .eq("base_currency", base)
+      .eq("quote_currency", quote)
+      .gte("as_of_date", minDate)
+      .lte("as_of_date", maxDate)
+      .order("as_of_date", { ascending: true });
+
+    if (error) throw error;
+
+    const candidateDates = new Set(dates);
+    const history: SeriesPoint[] = (data ?? [])
+      .filter((h) => !candidateDates.has(String(h.as_of_date)))
+      .filter((h) => h.rate_mid !== null && Number.isFinite(Number(h.rate_mid)))
+      .map((h) => ({ date: String(h.as_of_date), mid: Number(h.rate_mid) }));
+
+    const results = evaluateCandidates(
+      history,
+      list.map((r) => ({ date: r.as_of_date, mid: r.rate_mid })),
+      opts
+    );
+
+    list.forEach((r, i) => verdicts.set(gateKey(r), results[i]));
+  }
+
+  return verdicts;
+}
+
+export type QuarantineOrigin = "cron" | "admin-manual" | "admin-bulk" | "fixing-engine";
+
+export type QuarantineEntry = {
+  row: NormalizedRate;
+  verdict: GateVerdict;
+  sourceId: number;
+  isOfficial: boolean;
+  isManualOverride: boolean;
+};
+
+/** fx_rate_quarantine row (status = pending) for a flagged candidate. */
+export function quarantineRow(e: QuarantineEntry, origin: QuarantineOrigin) {
+  return {
+    as_of_date: e.row.as_of_date,
+    base_currency: e.row.base,
+    quote_currency: e.row.quote,
+    rate_mid: e.row.rate_mid,
+    rate_bid: e.row.rate_bid ?? null,
+    rate_ask: e.row.rate_ask ?? null,
+    segment: e.row.segment ?? DEFAULT_SEGMENT,
+    source_id: e.sourceId,
+    is_official: e.isOfficial,
+    is_manual_override: e.isManualOverride,
+    origin,
+    reasons: e.verdict.reasons,
+    prev_mid: e.verdict.prevMid,
+    pct_delta: e.verdict.pctDelta,
+    vol_pct: e.verdict.volPct,
+    vol_bucket: e.verdict.volBucket,
+    status: "pending",
+  };
+}
+
+/** Writes flagged candidates to fx_rate_quarantine (status = pending). */
+export async function quarantineRates(
+  entries: QuarantineEntry[],
+  origin: QuarantineOrigin
+): Promise<{ error: string | null }> {
+  if (!entries.length) return { error: null };
+
+  const { error } = await supabaseServer
+    .from("fx_rate_quarantine")
+    .insert(entries.map((e) => quarantineRow(e, origin)));
+
+  return { error: error ? error.message : null };
+}
@@ -0,0 +1,79 @@
+// lib/store/memory.ts
+import type { CacheHit, KeyValueStore, RateLimitVerdict } from "@/lib/store/types";
+
+/**
+ * Per-process store. Each server instance keeps its own state, so limits and
+ * caches are not shared across serverless instances; use the Redis backend
+ * for that. Good enough for local development and tests.
+ */
+
+type Entry = { json: string; expiresAt: number };
+
+// Expired entries and idle rate-limit logs are swept at most this often, on write.
+const SWEEP_INTERVAL_MS = 60_000;
+
+export function createMemoryStore(now: () => number = Date.now): KeyValueStore {
+  const values = new Map<string, Entry>();
+  const windows = new Map<string, number[]>();
+  // A log whose newest hit is older than every window can no longer count.
+  let longestWindowMs = 0;
+  let lastSweep = now();
+
+  function sweep(t: number) {
+    if (t - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = t;
+    for (const [key, entry] of values) {
+      if (entry.expiresAt <= t) values.delete(key);
+    }
+    for (const [key, log] of windows) {
+      if (!log.length || log[log.length - 1] <= t - longestWindowMs) windows.delete(key);
+    }
+  }
+
+  return {
+    backend: "memory",
+
+    async get<T>(key: string): Promise<CacheHit<T> | null> {
+      const entry = values.get(key);
+      if (!entry) return null;
+      const ttlMs = entry.expiresAt - now();
+      if (ttlMs <= 0) {
+        values.delete(key);
+        return null;
+      }
+      return { value: JSON.parse(entry.json) as T, ttlMs };
+    },
+
+    async set<T>(key: string, value: T, ttlMs: number) {
+      const t = now();
+      sweep(t);
+      values.set(key, { json: JSON.stringify(value), expiresAt: t + ttlMs });
+    },
+
+    async delete(key: string) {
+      values.delete(key);
+      windows.delete(key);
+    },
+
+    async hit(key: string, limit: number, windowMs: number): Promise<RateLimitVerdict> {
+      const t = now();
+      longestWindowMs = Math.max(longestWindowMs, windowMs);
+      sweep(t);
+      const log = (windows.get(key) ?? []).filter((ts) => ts > t - windowMs);
+
+      if (log.length >= limit) {
+        windows.set(key, log);
+        return {
+          allowed: false,
+          count: log.length,
+          remaining: 0,
+          retryAfterMs: Math.max(1, log[0] + windowMs - t),
+        };
+      }
+
+      log.push(t);
+      windows.set(key, log);
+      return { allowed: true, count: log.length, remaining: limit - log.length, retryAfterMs: 0 };
+    },
+  };
+}
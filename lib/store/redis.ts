@@ -0,0 +1,98 @@
+// lib/store/redis.ts
+import { randomUUID } from "crypto";
+import Redis from "ioredis";
+import type { CacheHit, KeyValueStore, RateLimitVerdict } from "@/lib/store/types";
+
+/**
+ * Store backed by any Redis-protocol server (Redis, Valkey, KeyDB, Upstash
+ * over TCP, or a local stand-in for tests), shared by every instance.
+ *
+ * Cache entries are plain strings with a PX expiry. Each limiter key is a
+ * sorted set of request timestamps, trimmed and checked in one Lua script so
+ * concurrent instances cannot both take the last slot.
+ */
+
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+local count = redis.call('ZCARD', key)
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  redis.call('PEXPIRE', key, window)
+  return {1, count + 1, 0}
+end
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return {0, count, tonumber(oldest[2]) + window - now}
+`;
+
+export function createRedisStore(url: string, keyPrefix = "fx:"): KeyValueStore {
+  const client = new Redis(url, {
+    keyPrefix,
+    lazyConnect: true,
+    // Fail fast: callers fall back to a cache miss / allowed request.
+    maxRetriesPerRequest: 1,
+    connectTimeout: 2_000,
+  });
+
+  client.on("error", (err) => console.error("Redis store error:", err.message));
+
+  return {
+    backend: "redis",
+
+    async get<T>(key: string): Promise<CacheHit<T> | null> {
+      try {
+        const result = await client.multi().get(key).pttl(key).exec();
+        const raw = result?.[0]?.[1];
+        const ttlMs = Number(result?.[1]?.[1]);
+        if (typeof raw !== "string" || !(ttlMs > 0)) return null;
+        return { value: JSON.parse(raw) as T, ttlMs };
+      } catch (err: unknown) {
+        console.error(`Redis store get '${key}' failed:`, err);
+        return null;
+      }
+    },
+
+    async set<T>(key: string, value: T, ttlMs: number) {
+      try {
+        await client.set(key, JSON.stringify(value), "PX", Math.max(1, Math.round(ttlMs)));
+      } catch (err: unknown) {
+        console.error(`Redis store set '${key}' failed:`, err);
+      }
+    },
+
+    async delete(key: string) {
+      try {
+        await client.del(key);
+      } catch (err: unknown) {
+        console.error(`Redis store delete '${key}' failed:`, err);
+      }
+    },
+
+    async hit(key: string, limit: number, windowMs: number): Promise<RateLimitVerdict> {
+      try {
+        const [allowed, count, retryAfterMs] = (await client.eval(
+          SLIDING_WINDOW_SCRIPT,
+          1,
+          key,
+          Date.now(),
+          windowMs,
+          limit,
+          randomUUID()
+        )) as [number, number, number];
+
+        return {
+          allowed: allowed === 1,
+          count,
+          remaining: Math.max(0, limit - count),
+          retryAfterMs: allowed === 1 ? 0 : Math.max(1, retryAfterMs),
+        };
+      } catch (err: unknown) {
+        console.error(`Redis store hit '${key}' failed:`, err);
+        return { allowed: true, count: 0, remaining: limit, retryAfterMs: 0 };
+      }
+    },
+  };
+}
@@ -0,0 +1,25 @@
+// lib/store/shared.ts
+import { createMemoryStore } from "@/lib/store/memory";
+import { createRedisStore } from "@/lib/store/redis";
+import type { KeyValueStore } from "@/lib/store/types";
+
+/**
+ * The process-wide store for caches and rate limits.
+ *
+ * Uses Redis when FX_REDIS_URL (or REDIS_URL) is set, e.g.
+ * redis://localhost:6379 or rediss://default:<token>@<host>:6379, so limits
+ * and caches hold across serverless instances. Otherwise falls back to the
+ * per-instance in-memory store.
+ */
+
+declare global {
+  var __eamu_shared_store: KeyValueStore | undefined;
+}
+
+export function getSharedStore(): KeyValueStore {
+  if (!global.__eamu_shared_store) {
+    const url = process.env.FX_REDIS_URL || process.env.REDIS_URL;
+    global.__eamu_shared_store = url ? createRedisStore(url) : createMemoryStore();
+  }
+  return global.__eamu_shared_store;
+}
@@ -0,0 +1,40 @@
+// lib/store/types.ts
+
+/** A cached value and how long it has left to live. */
+export type CacheHit<T> = {
+  value: T;
+  ttlMs: number;
+};
+
+export type RateLimitVerdict = {
+  allowed: boolean;
+  /** Requests counted in the current window, including this one when allowed. */
+  count: number;
+  remaining: number;
+  /** 0 when allowed; otherwise how long until the oldest request leaves the window. */
+  retryAfterMs: number;
+};
+
+/**
+ * Shared state for TTL caches and rate limiters. Keys are namespaced by the
+ * caller (e.g. "commentary:…", "api:rl:…").
+ *
+ * Implementations must not throw on backend failures: a cache read degrades
+ * to a miss and a limiter check to "allowed", with the error logged.
+ */
+export type KeyValueStore = {
+  /** "memory" or "redis"; surfaced in response headers for debugging. */
+  readonly backend: string;
+
+  get<T>(key: string): Promise<CacheHit<T> | null>;
+  /** Values are JSON-serialised, so only store plain data. */
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+
+  /**
+   * Sliding-window limiter: counts a request against `key` if fewer than
+   * `limit` requests were counted in the last `windowMs`. Rejected requests
+   * are not counted.
+   */
+  hit(key: string, limit: number, windowMs: number): Promise<RateLimitVerdict>;
+};
@@ -32,3 +32,18 @@ export function getSupabaseBrowserClient(): SupabaseClient {
 
   return _client;
 }
+
+/**
+ * fetch() that forwards the signed-in Supabase user's access token as
+ * `Authorization: Bearer …`, which /api/admin/* and /api/central-bank/* use to
+ * resolve the user's role.
+ */
+export async function fetchWithSupabaseAuth(input: RequestInfo | URL, init: RequestInit = {}) {
+  const { data } = await getSupabaseBrowserClient().auth.getSession();
+  const token = data.session?.access_token;
+
+  const headers = new Headers(init.headers);
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+
+  return fetch(input, { ...init, headers });
+}
@@ -9,12 +9,42 @@ if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
   throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
 }
 
-export const supabaseServer = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL,
-  process.env.SUPABASE_SERVICE_ROLE_KEY,
-  {
+const SUPABASE_URL: string = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SERVICE_ROLE_KEY: string = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export const supabaseServer = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+  auth: {
+    persistSession: false,
+  },
+});
+
+/** Who is making a write, and why. Recorded by the fx_change_log triggers. */
+export type ChangeContext = {
+  actorId: string | null;
+  actorEmail: string | null;
+  ip: string | null;
+  /** e.g. "admin_session", "supabase_user", "cron". */
+  source: string;
+  reason: string | null;
+};
+
+/**
+ * Service-role client whose requests carry the change context as headers.
+ * Use it for writes to fx_daily_rates, manual_fixings and fixing_schedule so
+ * the audit triggers can attribute them (see 20261019000600_fx_change_log.sql).
+ */
+export function supabaseServerFor(context: ChangeContext) {
+  const headers: Record<string, string> = { "x-fx-change-source": context.source };
+  if (context.actorId) headers["x-fx-actor-id"] = context.actorId;
+  if (context.actorEmail) headers["x-fx-actor-email"] = context.actorEmail;
+  if (context.ip) headers["x-fx-client-ip"] = context.ip;
+  // Header values must be ASCII; the trigger decodes this back to UTF-8.
+  if (context.reason) headers["x-fx-change-reason"] = Buffer.from(context.reason, "utf8").toString("base64");
+
+  return createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
     auth: {
       persistSession: false,
     },
-  }
-);
+    global: { headers },
+  });
+}
@@ -0,0 +1,40 @@
+// lib/supabase/user.ts
+import { headers } from "next/headers";
+import { supabaseServer } from "@/lib/supabase/server";
+
+export type SupabaseUserIdentity = {
+  id: string;
+  email: string | null;
+  role: string;
+};
+
+/** Returns the token from `Authorization: Bearer <token>`, if any. */
+export async function getBearerToken(): Promise<string | null> {
+  const h = await headers();
+  const auth = h.get("authorization");
+  const match = auth?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Verifies a Supabase access token with the auth server and resolves the
+ * user's profiles.role. Returns null when the token is invalid or expired.
+ */
+export async function getSupabaseUser(token: string): Promise<SupabaseUserIdentity | null> {
+  const { data, error } = await supabaseServer.auth.getUser(token);
+  if (error || !data?.user) return null;
+
+  const { data: profile, error: profileError } = await supabaseServer
+    .from("profiles")
+    .select("role")
+    .eq("id", data.user.id)
+    .maybeSingle();
+
+  if (profileError) throw new Error(`Profile lookup failed: ${profileError.message}`);
+
+  return {
+    id: data.user.id,
+    email: data.user.email?.trim().toLowerCase() ?? null,
+    role: String(profile?.role ?? "").trim().toLowerCase(),
+  };
+}
@@ -0,0 +1,15 @@
+// scripts/hash-admin-password.mjs
+// Prints an admin_users.password_hash value (same format as lib/admin/password.ts).
+// Usage: node scripts/hash-admin-password.mjs '<password>'
+import { randomBytes, scryptSync } from "node:crypto";
+
+const password = process.argv[2];
+if (!password || password.length < 12) {
+  console.error("Usage: node scripts/hash-admin-password.mjs '<password of at least 12 characters>'");
+  process.exit(1);
+}
+
+const N = 16384;
+const salt = randomBytes(16);
+const key = scryptSync(password, salt, 64, { N, r: 8, p: 1 });
+console.log(`scrypt$${N}$${salt.toString("base64")}$${key.toString("base64")}`);
@@ -0,0 +1,46 @@
+-- Baseline for fx_daily_rates_default, which was created before these
+-- migrations. It serves one row per date and pair.
+--
+-- The precedence rules live in fx_daily_rates_default_rows and nowhere else:
+-- manual overrides first, then official publications, then the newest row.
+-- The view and its as_known_at replay both read through that function. Later
+-- migrations only change which rows it chooses from
+-- (fx_daily_rates_default_candidates) or add columns to the view.
+
+create or replace function public.fx_daily_rates_default_candidates(
+  p_as_known_at timestamptz default null,
+  p_base text default null,
+  p_quote text default null
+)
+returns setof public.fx_daily_rates
+language sql
+stable
+as $$
+  select * from public.fx_daily_rates
+   where (p_base is null or base_currency = p_base)
+     and (p_quote is null or quote_currency = p_quote);
+$$;
+
+create or replace function public.fx_daily_rates_default_rows(
+  p_as_known_at timestamptz default null,
+  p_base text default null,
+  p_quote text default null
+)
+returns setof public.fx_daily_rates
+language sql
+stable
+as $$
+  select distinct on (as_of_date, base_currency, quote_currency) *
+    from public.fx_daily_rates_default_candidates(p_as_known_at, p_base, p_quote)
+   order by as_of_date, base_currency, quote_currency,
+            is_manual_override desc, is_official desc, id desc;
+$$;
+
+create or replace view public.fx_daily_rates_default as
+  select d.id, d.as_of_date, d.base_currency, d.quote_currency, d.rate_mid,
+         d.is_official, d.is_manual_override, d.source_id,
+         s.code as source_code, s.label as source_label
+    from public.fx_daily_rates_default_rows() d
+    left join public.fx_sources s on s.id = d.source_id;
+
+grant select on public.fx_daily_rates_default to anon, authenticated;
@@ -0,0 +1,33 @@
+-- Rates held back by the ingestion validation gate (lib/fx/validationGate.ts).
+-- Nothing in here is published; approving a row copies it into fx_daily_rates.
+
+create table if not exists public.fx_rate_quarantine (
+  id bigint generated always as identity primary key,
+  as_of_date date not null,
+  base_currency text not null,
+  quote_currency text not null,
+  rate_mid numeric not null,
+  source_id bigint not null,
+  is_official boolean not null default true,
+  is_manual_override boolean not null default false,
+  origin text not null check (origin in ('cron', 'admin-manual', 'admin-bulk')),
+  reasons jsonb not null default '[]'::jsonb,
+  prev_mid numeric,
+  pct_delta numeric,
+  vol_pct numeric,
+  vol_bucket text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  reviewed_by text,
+  reviewed_at timestamptz,
+  review_note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists fx_rate_quarantine_status_idx
+  on public.fx_rate_quarantine (status, created_at desc);
+
+create index if not exists fx_rate_quarantine_pair_idx
+  on public.fx_rate_quarantine (base_currency, quote_currency, as_of_date);
+
+-- Service-role only (admin routes); no anon/authenticated access.
+alter table public.fx_rate_quarantine enable row level security;
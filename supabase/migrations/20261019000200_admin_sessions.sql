@@ -0,0 +1,64 @@
+-- Admin identities, revocable sessions, login throttling and the action audit trail.
+-- All tables are service-role only (accessed from /api/admin/* route handlers).
+--
+-- Creating an admin:
+--   node scripts/hash-admin-password.mjs 'a-long-password'
+--   insert into public.admin_users (email, password_hash) values ('you@example.com', '<output>');
+
+create table if not exists public.admin_users (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  password_hash text not null,
+  display_name text,
+  disabled_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.admin_sessions (
+  id uuid primary key default gen_random_uuid(),
+  admin_user_id uuid not null references public.admin_users (id) on delete cascade,
+  email text not null,
+  ip text,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  last_seen_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists admin_sessions_user_idx
+  on public.admin_sessions (admin_user_id, revoked_at);
+
+create table if not exists public.admin_login_attempts (
+  id bigint generated always as identity primary key,
+  email text,
+  ip text,
+  success boolean not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_login_attempts_ip_idx
+  on public.admin_login_attempts (ip, created_at desc);
+
+create index if not exists admin_login_attempts_email_idx
+  on public.admin_login_attempts (email, created_at desc);
+
+create table if not exists public.fx_audit_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  actor_id text,
+  actor_email text,
+  action text not null,
+  target_table text,
+  target_key text,
+  ip text,
+  details jsonb not null default '{}'::jsonb
+);
+
+create index if not exists fx_audit_log_occurred_idx
+  on public.fx_audit_log (occurred_at desc);
+
+alter table public.admin_users enable row level security;
+alter table public.admin_sessions enable row level security;
+alter table public.admin_login_attempts enable row level security;
+alter table public.fx_audit_log enable row level security;
@@ -0,0 +1,24 @@
+-- Central-bank tables are now read and written only through /api/central-bank/*
+-- and /api/admin/* (service role), which verify the caller server-side.
+-- Remove any browser-facing policies so the anon key cannot reach them directly.
+
+alter table public.manual_fixings enable row level security;
+alter table public.fixing_schedule enable row level security;
+
+do $$
+declare
+  p record;
+begin
+  for p in
+    select policyname, tablename
+    from pg_policies
+    where schemaname = 'public'
+      and tablename in ('manual_fixings', 'fixing_schedule')
+  loop
+    execute format('drop policy if exists %I on public.%I', p.policyname, p.tablename);
+  end loop;
+end
+$$;
+
+revoke all on public.manual_fixings from anon, authenticated;
+revoke all on public.fixing_schedule from anon, authenticated;
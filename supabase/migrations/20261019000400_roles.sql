@@ -0,0 +1,55 @@
+-- Role-based access: viewer < analyst < fixer < approver < admin
+-- (see lib/admin/permissions.ts for the permission matrix).
+
+alter table public.admin_users
+  add column if not exists role text not null default 'admin';
+
+alter table public.admin_users
+  drop constraint if exists admin_users_role_check;
+
+alter table public.admin_users
+  add constraint admin_users_role_check
+  check (role in ('viewer', 'analyst', 'fixer', 'approver', 'admin'));
+
+-- NOT VALID so legacy values do not block the migration; new writes are checked.
+alter table public.profiles
+  drop constraint if exists profiles_role_check;
+
+alter table public.profiles
+  add constraint profiles_role_check
+  check (role is null or role in ('viewer', 'analyst', 'fixer', 'approver', 'admin'))
+  not valid;
+
+-- profiles.role grants access (lib/admin/guard.ts), so only the service role
+-- (or a direct database session, which carries no JWT) may set or change it.
+-- Users can still edit the rest of their own profile through RLS.
+create or replace function public.profiles_protect_role()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_claims text := nullif(current_setting('request.jwt.claims', true), '');
+  v_role text := coalesce(v_claims::jsonb ->> 'role', 'service_role');
+begin
+  if v_role = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' and new.role is not null then
+    raise exception 'profiles.role can only be set by the service role'
+      using errcode = '42501';
+  end if;
+
+  if tg_op = 'UPDATE' and new.role is distinct from old.role then
+    raise exception 'profiles.role can only be changed by the service role'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_role on public.profiles;
+create trigger profiles_protect_role
+  before insert or update on public.profiles
+  for each row execute function public.profiles_protect_role();
@@ -0,0 +1,47 @@
+-- Maker-checker workflow for manual_fixings:
+--   draft -> pending_approval -> approved | rejected   (rejected -> draft on edit)
+-- Only approved rows feed the effective series. Rows that existed before this
+-- migration are treated as approved; new rows start as drafts.
+
+alter table public.manual_fixings
+  add column if not exists status text not null default 'approved',
+  add column if not exists created_actor_id text,
+  add column if not exists status_changed_at timestamptz not null default now(),
+  -- Who last edited and who submitted the current version. The four-eyes
+  -- check reads these from the row, not from the best-effort event log.
+  add column if not exists updated_actor_id text,
+  add column if not exists updated_email text,
+  add column if not exists submitted_actor_id text,
+  add column if not exists submitted_email text;
+
+alter table public.manual_fixings
+  alter column status set default 'draft';
+
+alter table public.manual_fixings
+  drop constraint if exists manual_fixings_status_check;
+
+alter table public.manual_fixings
+  add constraint manual_fixings_status_check
+  check (status in ('draft', 'pending_approval', 'approved', 'rejected'));
+
+create index if not exists manual_fixings_status_idx
+  on public.manual_fixings (status, base_currency, quote_currency, as_of_date);
+
+-- One row per workflow step (create, update, submit, approve, reject).
+create table if not exists public.manual_fixing_events (
+  id bigint generated always as identity primary key,
+  fixing_id uuid not null references public.manual_fixings (id) on delete cascade,
+  action text not null check (action in ('create', 'update', 'submit', 'approve', 'reject')),
+  from_status text,
+  to_status text not null,
+  actor_id text not null,
+  actor_email text,
+  comment text,
+  occurred_at timestamptz not null default now()
+);
+
+create index if not exists manual_fixing_events_fixing_idx
+  on public.manual_fixing_events (fixing_id, occurred_at);
+
+alter table public.manual_fixing_events enable row level security;
+revoke all on public.manual_fixing_events from anon, authenticated;
@@ -0,0 +1,134 @@
+-- Append-only row-level change log for fx_daily_rates, manual_fixings and
+-- fixing_schedule.
+--
+-- Every insert / update / delete is captured by a trigger, so nothing can
+-- change these tables without leaving a trace, including direct SQL. The API
+-- attributes its writes by sending these PostgREST request headers (see
+-- supabaseServerFor in lib/supabase/server.ts):
+--   x-fx-actor-id, x-fx-actor-email, x-fx-client-ip, x-fx-change-source,
+--   x-fx-change-reason (base64 of the UTF-8 reason)
+-- Writes without them are recorded with source 'database'.
+
+create table if not exists public.fx_change_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  table_name text not null,
+  operation text not null check (operation in ('insert', 'update', 'delete')),
+  row_id text,
+  as_of_date date,
+  base_currency text,
+  quote_currency text,
+  before jsonb,
+  after jsonb,
+  actor_id text,
+  actor_email text,
+  ip text,
+  source text not null default 'database',
+  reason text
+);
+
+create index if not exists fx_change_log_pair_idx
+  on public.fx_change_log (base_currency, quote_currency, as_of_date, occurred_at desc);
+
+create index if not exists fx_change_log_row_idx
+  on public.fx_change_log (table_name, row_id, occurred_at desc);
+
+create index if not exists fx_change_log_occurred_idx
+  on public.fx_change_log (occurred_at desc);
+
+create or replace function public.fx_change_log_capture()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  headers jsonb;
+  old_row jsonb;
+  new_row jsonb;
+  snapshot jsonb;
+  change_reason text;
+begin
+  begin
+    headers := nullif(current_setting('request.headers', true), '')::jsonb;
+  exception when others then
+    headers := null;
+  end;
+  headers := coalesce(headers, '{}'::jsonb);
+
+  if tg_op in ('UPDATE', 'DELETE') then old_row := to_jsonb(old); end if;
+  if tg_op in ('INSERT', 'UPDATE') then new_row := to_jsonb(new); end if;
+
+  -- Upserts that rewrite identical values are not changes.
+  if tg_op = 'UPDATE' and old_row = new_row then
+    return null;
+  end if;
+
+  snapshot := coalesce(new_row, old_row);
+
+  begin
+    change_reason := convert_from(decode(headers ->> 'x-fx-change-reason', 'base64'), 'UTF8');
+  exception when others then
+    change_reason := headers ->> 'x-fx-change-reason';
+  end;
+
+  insert into public.fx_change_log (
+    table_name, operation, row_id, as_of_date, base_currency, quote_currency,
+    before, after, actor_id, actor_email, ip, source, reason
+  ) values (
+    tg_table_name,
+    lower(tg_op),
+    snapshot ->> 'id',
+    coalesce(snapshot ->> 'as_of_date', snapshot ->> 'next_fixing_date')::date,
+    snapshot ->> 'base_currency',
+    snapshot ->> 'quote_currency',
+    old_row,
+    new_row,
+    headers ->> 'x-fx-actor-id',
+    headers ->> 'x-fx-actor-email',
+    headers ->> 'x-fx-client-ip',
+    coalesce(headers ->> 'x-fx-change-source', 'database'),
+    change_reason
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists fx_daily_rates_change_log on public.fx_daily_rates;
+create trigger fx_daily_rates_change_log
+  after insert or update or delete on public.fx_daily_rates
+  for each row execute function public.fx_change_log_capture();
+
+drop trigger if exists manual_fixings_change_log on public.manual_fixings;
+create trigger manual_fixings_change_log
+  after insert or update or delete on public.manual_fixings
+  for each row execute function public.fx_change_log_capture();
+
+drop trigger if exists fixing_schedule_change_log on public.fixing_schedule;
+create trigger fixing_schedule_change_log
+  after insert or update or delete on public.fixing_schedule
+  for each row execute function public.fx_change_log_capture();
+
+-- Append-only: entries cannot be edited or removed, not even by service_role.
+create or replace function public.fx_change_log_reject_mutation()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'fx_change_log is append-only';
+end;
+$$;
+
+drop trigger if exists fx_change_log_no_update on public.fx_change_log;
+create trigger fx_change_log_no_update
+  before update or delete on public.fx_change_log
+  for each row execute function public.fx_change_log_reject_mutation();
+
+drop trigger if exists fx_change_log_no_truncate on public.fx_change_log;
+create trigger fx_change_log_no_truncate
+  before truncate on public.fx_change_log
+  for each statement execute function public.fx_change_log_reject_mutation();
+
+alter table public.fx_change_log enable row level security;
+revoke all on public.fx_change_log from anon, authenticated;
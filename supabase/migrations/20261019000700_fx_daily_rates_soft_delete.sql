@@ -0,0 +1,40 @@
+-- Soft delete for fx_daily_rates.
+--
+-- /api/admin/delete-rate now sets deleted_at / deleted_by / delete_reason
+-- instead of removing the row. Deleted rows stay restorable from the admin
+-- trash for FX_TRASH_RETENTION_DAYS (default 30) and are hidden everywhere
+-- else: fx_daily_rates_default reads through fx_daily_rates_live, and the API
+-- routes that read fx_daily_rates directly filter on deleted_at is null.
+
+alter table public.fx_daily_rates
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text,
+  add column if not exists deleted_by_email text,
+  add column if not exists delete_reason text;
+
+create index if not exists fx_daily_rates_deleted_idx
+  on public.fx_daily_rates (deleted_at)
+  where deleted_at is not null;
+
+create or replace view public.fx_daily_rates_live as
+  select * from public.fx_daily_rates where deleted_at is null;
+
+-- fx_daily_rates_default chooses from the live rows; its precedence rules
+-- (20261019000000_fx_daily_rates_default.sql) are unchanged. Soft-deleting a
+-- preferred row (e.g. a manual override) therefore falls back to the next
+-- candidate for that date.
+create or replace function public.fx_daily_rates_default_candidates(
+  p_as_known_at timestamptz default null,
+  p_base text default null,
+  p_quote text default null
+)
+returns setof public.fx_daily_rates
+language sql
+stable
+as $$
+  select * from public.fx_daily_rates_live
+   where (p_base is null or base_currency = p_base)
+     and (p_quote is null or quote_currency = p_quote);
+$$;
+
+grant select on public.fx_daily_rates_live to anon, authenticated;
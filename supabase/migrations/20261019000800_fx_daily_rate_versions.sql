@@ -0,0 +1,144 @@
+-- Bitemporal history for fx_daily_rates.
+--
+-- valid time  = as_of_date (the day the fixing applies to)
+-- record time = [recorded_from, recorded_to) (when that value was published)
+--
+-- A trigger closes the current version and opens a new one whenever a row is
+-- inserted, changed, soft-deleted, restored or removed, so every value ever
+-- served stays reproducible. The *_as_known_at functions rebuild
+-- fx_daily_rates_live / fx_daily_rates_default as they were at a timestamp;
+-- /api/v1/rates/latest, /history and /export/rates call them for ?as_known_at=.
+
+create table if not exists public.fx_daily_rate_versions (
+  id bigint generated always as identity primary key,
+  rate_id bigint not null,
+  as_of_date date not null,
+  base_currency text not null,
+  quote_currency text not null,
+  rate_mid numeric,
+  is_manual_override boolean not null default false,
+  row_data jsonb not null,
+  recorded_from timestamptz not null default now(),
+  recorded_to timestamptz,
+  check (recorded_to is null or recorded_to >= recorded_from)
+);
+
+create index if not exists fx_daily_rate_versions_pair_idx
+  on public.fx_daily_rate_versions (base_currency, quote_currency, as_of_date, recorded_from);
+
+create index if not exists fx_daily_rate_versions_rate_idx
+  on public.fx_daily_rate_versions (rate_id)
+  where recorded_to is null;
+
+create index if not exists fx_daily_rate_versions_recorded_idx
+  on public.fx_daily_rate_versions (recorded_from);
+
+create or replace function public.fx_daily_rate_versions_capture()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and to_jsonb(old) = to_jsonb(new) then
+    return null;
+  end if;
+
+  if tg_op in ('UPDATE', 'DELETE') then
+    update public.fx_daily_rate_versions
+       set recorded_to = now()
+     where rate_id = old.id
+       and recorded_to is null;
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') and new.deleted_at is null then
+    insert into public.fx_daily_rate_versions (
+      rate_id, as_of_date, base_currency, quote_currency, rate_mid,
+      is_manual_override, row_data, recorded_from
+    ) values (
+      new.id, new.as_of_date, new.base_currency, new.quote_currency, new.rate_mid,
+      coalesce(new.is_manual_override, false), to_jsonb(new), now()
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists fx_daily_rates_versions on public.fx_daily_rates;
+create trigger fx_daily_rates_versions
+  after insert or update or delete on public.fx_daily_rates
+  for each row execute function public.fx_daily_rate_versions_capture();
+
+-- Seed one open version per live row. Earlier corrections were overwritten in
+-- place, so history before this migration starts at the row's created_at.
+insert into public.fx_daily_rate_versions (
+  rate_id, as_of_date, base_currency, quote_currency, rate_mid,
+  is_manual_override, row_data, recorded_from
+)
+select r.id, r.as_of_date, r.base_currency, r.quote_currency, r.rate_mid,
+       coalesce(r.is_manual_override, false), to_jsonb(r), coalesce(r.created_at, now())
+  from public.fx_daily_rates r
+ where r.deleted_at is null
+   and not exists (
+     select 1 from public.fx_daily_rate_versions v
+      where v.rate_id = r.id and v.recorded_to is null
+   );
+
+-- fx_daily_rates_live as it was at p_as_known_at. p_base / p_quote are
+-- optional pre-filters so the version index can be used.
+create or replace function public.fx_daily_rates_as_known_at(
+  p_as_known_at timestamptz,
+  p_base text default null,
+  p_quote text default null
+)
+returns setof public.fx_daily_rates_live
+language sql
+stable
+as $$
+  select (jsonb_populate_record(null::public.fx_daily_rates_live, v.row_data)).*
+    from public.fx_daily_rate_versions v
+   where v.recorded_from <= p_as_known_at
+     and (v.recorded_to is null or v.recorded_to > p_as_known_at)
+     and (p_base is null or v.base_currency = p_base)
+     and (p_quote is null or v.quote_currency = p_quote);
+$$;
+
+-- fx_daily_rates_default as it was at p_as_known_at: the same precedence
+-- (fx_daily_rates_default_rows) over the historical live rows.
+create or replace function public.fx_daily_rates_default_candidates(
+  p_as_known_at timestamptz default null,
+  p_base text default null,
+  p_quote text default null
+)
+returns setof public.fx_daily_rates
+language sql
+stable
+as $$
+  select * from public.fx_daily_rates_live
+   where p_as_known_at is null
+     and (p_base is null or base_currency = p_base)
+     and (p_quote is null or quote_currency = p_quote)
+  union all
+  select * from public.fx_daily_rates_as_known_at(p_as_known_at, p_base, p_quote)
+   where p_as_known_at is not null;
+$$;
+
+create or replace function public.fx_daily_rates_default_as_known_at(
+  p_as_known_at timestamptz,
+  p_base text default null,
+  p_quote text default null
+)
+returns setof public.fx_daily_rates_default
+language sql
+stable
+as $$
+  select d.id, d.as_of_date, d.base_currency, d.quote_currency, d.rate_mid,
+         d.is_official, d.is_manual_override, d.source_id,
+         s.code as source_code, s.label as source_label
+    from public.fx_daily_rates_default_rows(p_as_known_at, p_base, p_quote) d
+    left join public.fx_sources s on s.id = d.source_id;
+$$;
+
+alter table public.fx_daily_rate_versions enable row level security;
+revoke all on public.fx_daily_rate_versions from anon, authenticated;
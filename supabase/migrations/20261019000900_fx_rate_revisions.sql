@@ -0,0 +1,136 @@
+-- Revision feed over fx_daily_rate_versions, served by /api/v1/rates/revisions.
+--
+-- One row per change to a published value after p_since:
+--   corrected   the row's mid changed (manual-rate upsert, re-ingest, quarantine approval)
+--   overridden  a manual override was published for a pair/date that already had a value
+--   withdrawn   the row was soft-deleted or removed (new_mid is null)
+--   restored    a withdrawn row came back (old_mid is null)
+-- First publications of a date are not revisions and are not listed.
+--
+-- Rows are ordered by revised_at. p_limit is a soft cap: every row sharing
+-- the last timestamp is included so that `since = last revised_at` never
+-- skips part of a batch written in the same transaction.
+--
+-- Only rates with a version opened or closed after p_since can hold a
+-- revision, so the scan starts from those (both bounds are indexed) and the
+-- pair filters apply there. segment comes from row_data; versions recorded
+-- before market segments existed are official. p_segment narrows the feed
+-- to one segment.
+
+create index if not exists fx_daily_rate_versions_closed_idx
+  on public.fx_daily_rate_versions (recorded_to)
+  where recorded_to is not null;
+
+create index if not exists fx_daily_rate_versions_history_idx
+  on public.fx_daily_rate_versions (rate_id, recorded_from);
+
+drop function if exists public.fx_rate_revisions(timestamptz, text, text, integer);
+
+
+create or replace function public.fx_rate_revisions(
+  p_since timestamptz,
+  p_base text default null,
+  p_quote text default null,
+  p_limit integer default 500,
+  p_segment text default null
+)
+returns table (
+  revised_at timestamptz,
+  as_of_date date,
+  base_currency text,
+  quote_currency text,
+  segment text,
+  old_mid numeric,
+  new_mid numeric,
+  is_manual_override boolean,
+  kind text
+)
+language sql
+stable
+as $$
+  with touched as (
+    select v.rate_id
+      from public.fx_daily_rate_versions v
+     where v.recorded_from > p_since
+       and (p_base is null or v.base_currency = p_base)
+       and (p_quote is null or v.quote_currency = p_quote)
+    union
+    select v.rate_id
+      from public.fx_daily_rate_versions v
+     where v.recorded_to > p_since
+       and (p_base is null or v.base_currency = p_base)
+       and (p_quote is null or v.quote_currency = p_quote)
+  ),
+  scoped as (
+    select v.*, coalesce(v.row_data->>'segment', 'official') as segment
+      from public.fx_daily_rate_versions v
+     where v.rate_id in (select t.rate_id from touched t)
+       and (p_segment is null or coalesce(v.row_data->>'segment', 'official') = p_segment)
+  ),
+  ordered as (
+    select s.*,
+           lag(s.rate_mid) over w as prev_mid,
+           lag(s.recorded_to) over w as prev_recorded_to,
+           lead(s.recorded_from) over w as next_recorded_from
+      from scoped s
+    window w as (partition by s.rate_id order by s.recorded_from, s.id)
+  ),
+  revisions as (
+    -- Same row, new value (or back after a withdrawal).
+    select o.recorded_from as revised_at, o.as_of_date, o.base_currency, o.quote_currency, o.segment,
+           case when o.prev_recorded_to = o.recorded_from then o.prev_mid end as old_mid,
+           o.rate_mid as new_mid, o.is_manual_override,
+           case when o.prev_recorded_to = o.recorded_from then 'corrected' else 'restored' end as kind
+      from ordered o
+     where o.recorded_from > p_since
+       and o.prev_recorded_to is not null
+       and (o.prev_recorded_to < o.recorded_from or o.prev_mid is distinct from o.rate_mid)
+
+    union all
+
+    -- Row withdrawn with nothing replacing it.
+    select o.recorded_to, o.as_of_date, o.base_currency, o.quote_currency, o.segment,
+           o.rate_mid, null::numeric, o.is_manual_override, 'withdrawn'
+      from ordered o
+     where o.recorded_to is not null
+       and o.recorded_to > p_since
+       and (o.next_recorded_from is null or o.next_recorded_from > o.recorded_to)
+
+    union all
+
+    -- New manual override on top of a value that was already published in
+    -- the same segment. The prior value's rate need not have been touched.
+    select o.recorded_from, o.as_of_date, o.base_currency, o.quote_currency, o.segment,
+           prior.rate_mid, o.rate_mid, true, 'overridden'
+      from ordered o
+      join lateral (
+        select p.rate_mid
+          from public.fx_daily_rate_versions p
+         where p.base_currency = o.base_currency
+           and p.quote_currency = o.quote_currency
+           and p.as_of_date = o.as_of_date
+           and coalesce(p.row_data->>'segment', 'official') = o.segment
+           and p.rate_id <> o.rate_id
+           and p.recorded_from < o.recorded_from
+           and (p.recorded_to is null or p.recorded_to > o.recorded_from)
+         order by p.recorded_from desc
+         limit 1
+      ) prior on true
+     where o.recorded_from > p_since
+       and o.prev_recorded_to is null
+       and o.is_manual_override
+       and prior.rate_mid is distinct from o.rate_mid
+  ),
+  cutoff as (
+    select r.revised_at
+      from revisions r
+     order by r.revised_at
+    offset greatest(p_limit, 1) - 1
+     limit 1
+  )
+  select r.*
+    from revisions r
+   where not exists (select 1 from cutoff)
+      or r.revised_at <= (select c.revised_at from cutoff c)
+   order by r.revised_at, r.base_currency, r.quote_currency, r.segment, r.as_of_date, r.kind;
+$$;
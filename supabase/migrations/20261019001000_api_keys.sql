@@ -0,0 +1,120 @@
+-- API keys, per-key limits and usage metering for /api/v1/*.
+-- All tables are service-role only; keys are managed from /api/admin/api-keys.
+--
+-- Only a SHA-256 hash of each secret is stored. `prefix` is the first
+-- characters of the secret, kept so admins can tell keys apart.
+
+create table if not exists public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  prefix text not null,
+  key_hash text not null unique,
+  tier text not null default 'standard',
+  rate_limit_per_minute integer not null check (rate_limit_per_minute > 0),
+  daily_quota integer not null check (daily_quota > 0),
+  created_at timestamptz not null default now(),
+  created_by text,
+  rotated_at timestamptz,
+  revoked_at timestamptz,
+  revoked_by text,
+  last_used_at timestamptz
+);
+
+-- Served and rejected requests per subject, endpoint and UTC day.
+-- subject is 'key:<api_keys.id>' or 'anon:<client ip>'.
+create table if not exists public.api_usage_daily (
+  subject text not null,
+  api_key_id uuid references public.api_keys (id) on delete set null,
+  endpoint text not null,
+  day date not null,
+  request_count integer not null default 0,
+  rejected_count integer not null default 0,
+  primary key (subject, day, endpoint)
+);
+
+create index if not exists api_usage_daily_key_idx
+  on public.api_usage_daily (api_key_id, day desc);
+
+-- Fixed one-minute windows for the per-minute limit. Rows older than a few
+-- minutes are pruned by api_consume().
+create table if not exists public.api_rate_windows (
+  subject text not null,
+  window_start timestamptz not null,
+  request_count integer not null default 0,
+  primary key (subject, window_start)
+);
+
+alter table public.api_keys enable row level security;
+alter table public.api_usage_daily enable row level security;
+alter table public.api_rate_windows enable row level security;
+
+-- Counts one request against `p_subject` and decides whether to serve it.
+-- Rejected requests are metered as rejected and do not use up the quota.
+create or replace function public.api_consume(
+  p_subject text,
+  p_api_key_id uuid,
+  p_endpoint text,
+  p_per_minute integer,
+  p_daily_quota integer
+)
+returns table (
+  allowed boolean,
+  limit_kind text,
+  retry_after_seconds integer,
+  minute_count integer,
+  day_count integer
+)
+language plpgsql
+as $$
+declare
+  v_now timestamptz := now();
+  v_window timestamptz := date_trunc('minute', v_now);
+  v_day date := (v_now at time zone 'utc')::date;
+  v_minute integer;
+  v_used integer;
+begin
+  insert into public.api_rate_windows as w (subject, window_start, request_count)
+  values (p_subject, v_window, 1)
+  on conflict (subject, window_start)
+  do update set request_count = w.request_count + 1
+  returning w.request_count into v_minute;
+
+  delete from public.api_rate_windows
+   where subject = p_subject
+     and window_start < v_window - interval '5 minutes';
+
+  select coalesce(sum(u.request_count), 0)::integer into v_used
+    from public.api_usage_daily u
+   where u.subject = p_subject
+     and u.day = v_day;
+
+  if v_minute > p_per_minute or v_used >= p_daily_quota then
+    insert into public.api_usage_daily as u (subject, api_key_id, endpoint, day, rejected_count)
+    values (p_subject, p_api_key_id, p_endpoint, v_day, 1)
+    on conflict (subject, day, endpoint)
+    do update set rejected_count = u.rejected_count + 1;
+
+    if v_minute > p_per_minute then
+      return query select false, 'minute'::text,
+        greatest(1, ceil(extract(epoch from (v_window + interval '1 minute' - v_now)))::integer),
+        v_minute, v_used;
+    else
+      return query select false, 'day'::text,
+        greatest(1, ceil(extract(epoch from (((v_day + 1)::timestamp at time zone 'utc') - v_now)))::integer),
+        v_minute, v_used;
+    end if;
+    return;
+  end if;
+
+  insert into public.api_usage_daily as u (subject, api_key_id, endpoint, day, request_count)
+  values (p_subject, p_api_key_id, p_endpoint, v_day, 1)
+  on conflict (subject, day, endpoint)
+  do update set request_count = u.request_count + 1;
+
+  if p_api_key_id is not null then
+    update public.api_keys set last_used_at = v_now where id = p_api_key_id;
+  end if;
+
+  return query select true, null::text, 0, v_minute, v_used + 1;
+end;
+$$;
@@ -0,0 +1,59 @@
+-- The per-minute API limit moved to the shared store (lib/store, Redis when
+-- configured), which handles bursts far cheaper than a row per window.
+-- api_consume() now only enforces the daily quota and meters requests.
+
+drop function if exists public.api_consume(text, uuid, text, integer, integer);
+drop table if exists public.api_rate_windows;
+
+-- Counts one request against `p_subject`. p_rejected records a request the
+-- per-minute limiter already turned away; it is metered but never served.
+create or replace function public.api_consume(
+  p_subject text,
+  p_api_key_id uuid,
+  p_endpoint text,
+  p_daily_quota integer,
+  p_rejected boolean default false
+)
+returns table (
+  allowed boolean,
+  retry_after_seconds integer,
+  day_count integer
+)
+language plpgsql
+as $$
+declare
+  v_now timestamptz := now();
+  v_day date := (v_now at time zone 'utc')::date;
+  v_used integer;
+begin
+  select coalesce(sum(u.request_count), 0)::integer into v_used
+    from public.api_usage_daily u
+   where u.subject = p_subject
+     and u.day = v_day;
+
+  if p_rejected or v_used >= p_daily_quota then
+    insert into public.api_usage_daily as u (subject, api_key_id, endpoint, day, rejected_count)
+    values (p_subject, p_api_key_id, p_endpoint, v_day, 1)
+    on conflict (subject, day, endpoint)
+    do update set rejected_count = u.rejected_count + 1;
+
+    return query select false,
+      case when p_rejected then 0
+           else greatest(1, ceil(extract(epoch from (((v_day + 1)::timestamp at time zone 'utc') - v_now)))::integer)
+      end,
+      v_used;
+    return;
+  end if;
+
+  insert into public.api_usage_daily as u (subject, api_key_id, endpoint, day, request_count)
+  values (p_subject, p_api_key_id, p_endpoint, v_day, 1)
+  on conflict (subject, day, endpoint)
+  do update set request_count = u.request_count + 1;
+
+  if p_api_key_id is not null then
+    update public.api_keys set last_used_at = v_now where id = p_api_key_id;
+  end if;
+
+  return query select true, 0, v_used + 1;
+end;
+$$;
@@ -0,0 +1,31 @@
+-- Cheap validator for HTTP caching of /api/v1 rate endpoints (lib/api/httpCache.ts).
+--
+-- latest_as_of_date moves when a new day is published; change_id / changed_at
+-- move on every write to fx_daily_rates or manual_fixings, including
+-- corrections to past dates, soft deletes and restores (see fx_change_log).
+
+create index if not exists fx_change_log_table_id_idx
+  on public.fx_change_log (table_name, id desc);
+
+create or replace function public.fx_rates_revision()
+returns table (
+  latest_as_of_date date,
+  change_id bigint,
+  changed_at timestamptz
+)
+language sql
+stable
+as $$
+  select
+    (select max(r.as_of_date) from public.fx_daily_rates_live r),
+    c.id,
+    c.occurred_at
+  from (select 1) one
+  left join lateral (
+    select l.id, l.occurred_at
+      from public.fx_change_log l
+     where l.table_name in ('fx_daily_rates', 'manual_fixings')
+     order by l.id desc
+     limit 1
+  ) c on true;
+$$;
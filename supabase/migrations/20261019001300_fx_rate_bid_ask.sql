@@ -0,0 +1,67 @@
+-- Optional bid / ask quotes next to rate_mid (lib/fx/spread.ts).
+--
+-- Same convention as rate_mid (SSP per 1 unit of the quote currency). Either
+-- side may be null; when present they must bracket the mid.
+
+alter table public.fx_daily_rates
+  add column if not exists rate_bid numeric,
+  add column if not exists rate_ask numeric;
+
+alter table public.manual_fixings
+  add column if not exists rate_bid numeric,
+  add column if not exists rate_ask numeric;
+
+-- Held-back rows keep their quotes so approving them publishes the full row.
+alter table public.fx_rate_quarantine
+  add column if not exists rate_bid numeric,
+  add column if not exists rate_ask numeric;
+
+alter table public.fx_daily_rates
+  drop constraint if exists fx_daily_rates_bid_ask_check;
+alter table public.fx_daily_rates
+  add constraint fx_daily_rates_bid_ask_check check (
+    (rate_bid is null or (rate_bid > 0 and rate_bid <= rate_mid))
+    and (rate_ask is null or (rate_ask > 0 and rate_ask >= rate_mid))
+  );
+
+alter table public.manual_fixings
+  drop constraint if exists manual_fixings_bid_ask_check;
+alter table public.manual_fixings
+  add constraint manual_fixings_bid_ask_check check (
+    (rate_bid is null or (rate_bid > 0 and rate_bid <= rate_mid))
+    and (rate_ask is null or (rate_ask > 0 and rate_ask >= rate_mid))
+  );
+
+-- `select *` views are expanded when created; re-create to pick up the new
+-- columns. fx_daily_rates_as_known_at returns this row type and populates it
+-- from fx_daily_rate_versions.row_data, so it needs no change.
+create or replace view public.fx_daily_rates_live as
+  select * from public.fx_daily_rates where deleted_at is null;
+
+-- fx_daily_rates_default and its replay (20261019000800_fx_daily_rate_versions.sql)
+-- carry the chosen row's quotes; the new columns go last so the view can be
+-- replaced in place.
+create or replace view public.fx_daily_rates_default as
+  select d.id, d.as_of_date, d.base_currency, d.quote_currency, d.rate_mid,
+         d.is_official, d.is_manual_override, d.source_id,
+         s.code as source_code, s.label as source_label,
+         d.rate_bid, d.rate_ask
+    from public.fx_daily_rates_default_rows() d
+    left join public.fx_sources s on s.id = d.source_id;
+
+create or replace function public.fx_daily_rates_default_as_known_at(
+  p_as_known_at timestamptz,
+  p_base text default null,
+  p_quote text default null
+)
+returns setof public.fx_daily_rates_default
+language sql
+stable
+as $$
+  select d.id, d.as_of_date, d.base_currency, d.quote_currency, d.rate_mid,
+         d.is_official, d.is_manual_override, d.source_id,
+         s.code as source_code, s.label as source_label,
+         d.rate_bid, d.rate_ask
+    from public.fx_daily_rates_default_rows(p_as_known_at, p_base, p_quote) d
+    left join public.fx_sources s on s.id = d.source_id;
+$$;
@@ -0,0 +1,137 @@
+-- Market segment dimension for rates (lib/fx/segments.ts):
+--   official   – the central bank fixing (what fx_daily_rates_default serves)
+--   commercial – commercial bank rates
+--   parallel   – parallel / bureau (street) market
+--
+-- Existing rows are official. is_official keeps its meaning (the row is an
+-- official publication of its segment) and is independent of segment.
+
+alter table public.fx_daily_rates
+  add column if not exists segment text not null default 'official';
+
+alter table public.manual_fixings
+  add column if not exists segment text not null default 'official';
+
+alter table public.fx_rate_quarantine
+  add column if not exists segment text not null default 'official';
+
+alter table public.fx_daily_rates drop constraint if exists fx_daily_rates_segment_check;
+alter table public.fx_daily_rates
+  add constraint fx_daily_rates_segment_check
+  check (segment in ('official', 'commercial', 'parallel'));
+
+alter table public.manual_fixings drop constraint if exists manual_fixings_segment_check;
+alter table public.manual_fixings
+  add constraint manual_fixings_segment_check
+  check (segment in ('official', 'commercial', 'parallel'));
+
+alter table public.fx_rate_quarantine drop constraint if exists fx_rate_quarantine_segment_check;
+alter table public.fx_rate_quarantine
+  add constraint fx_rate_quarantine_segment_check
+  check (segment in ('official', 'commercial', 'parallel'));
+
+-- The upsert key (as_of_date, base_currency, quote_currency, source_id,
+-- is_manual_override) gains segment, so one source can publish several
+-- segments for the same day. Drop whatever enforced the old key first.
+do $$
+declare
+  old_key text[] := array['as_of_date', 'base_currency', 'quote_currency', 'source_id', 'is_manual_override'];
+  r record;
+begin
+  for r in
+    select c.conname
+      from pg_constraint c
+     where c.conrelid = 'public.fx_daily_rates'::regclass
+       and c.contype = 'u'
+       and (
+         select array_agg(a.attname::text order by a.attname)
+           from unnest(c.conkey) k
+           join pg_attribute a on a.attrelid = c.conrelid and a.attnum = k
+       ) = (select array_agg(x order by x) from unnest(old_key) x)
+  loop
+    execute format('alter table public.fx_daily_rates drop constraint %I', r.conname);
+  end loop;
+
+  for r in
+    select i.indexrelid::regclass::text as name
+      from pg_index i
+     where i.indrelid = 'public.fx_daily_rates'::regclass
+       and i.indisunique
+       and not i.indisprimary
+       and not exists (select 1 from pg_constraint c where c.conindid = i.indexrelid)
+       and (
+         select array_agg(a.attname::text order by a.attname)
+           from unnest(i.indkey::int2[]) k
+           join pg_attribute a on a.attrelid = i.indrelid and a.attnum = k
+       ) = (select array_agg(x order by x) from unnest(old_key) x)
+  loop
+    execute format('drop index %s', r.name);
+  end loop;
+end;
+$$;
+
+create unique index if not exists fx_daily_rates_segment_key
+  on public.fx_daily_rates (as_of_date, base_currency, quote_currency, source_id, is_manual_override, segment);
+
+create index if not exists fx_daily_rates_segment_pair_idx
+  on public.fx_daily_rates (segment, base_currency, quote_currency, as_of_date);
+
+-- Versions recorded before this migration were all official but their
+-- row_data has no segment key, which jsonb_populate_record turns into null.
+-- Backfill it so as_known_at replays and the revision feed still see them.
+update public.fx_daily_rate_versions
+   set row_data = row_data || '{"segment": "official"}'::jsonb
+ where not row_data ? 'segment';
+
+create or replace view public.fx_daily_rates_live as
+  select * from public.fx_daily_rates where deleted_at is null;
+
+create or replace view public.fx_daily_rates_live_official as
+  select * from public.fx_daily_rates_live where segment = 'official';
+
+-- fx_daily_rates_default keeps its precedence rules but only ever chooses
+-- between official rows, live or replayed.
+create or replace function public.fx_daily_rates_default_candidates(
+  p_as_known_at timestamptz default null,
+  p_base text default null,
+  p_quote text default null
+)
+returns setof public.fx_daily_rates
+language sql
+stable
+as $$
+  select * from public.fx_daily_rates_live_official
+   where p_as_known_at is null
+     and (p_base is null or base_currency = p_base)
+     and (p_quote is null or quote_currency = p_quote)
+  union all
+  select * from public.fx_daily_rates_as_known_at(p_as_known_at, p_base, p_quote)
+   where p_as_known_at is not null
+     and segment = 'official';
+$$;
+
+-- One row per date, pair and segment for the non-default segments: manual
+-- overrides first, then official publications, then the newest row.
+create or replace view public.fx_segment_rates as
+  select distinct on (as_of_date, base_currency, quote_currency, segment) *
+    from public.fx_daily_rates_live
+   order by as_of_date, base_currency, quote_currency, segment,
+            is_manual_override desc, is_official desc, id desc;
+
+create or replace function public.fx_segment_rates_as_known_at(
+  p_as_known_at timestamptz,
+  p_base text default null,
+  p_quote text default null
+)
+returns setof public.fx_segment_rates
+language sql
+stable
+as $$
+  select distinct on (as_of_date, base_currency, quote_currency, segment) *
+    from public.fx_daily_rates_as_known_at(p_as_known_at, p_base, p_quote)
+   order by as_of_date, base_currency, quote_currency, segment,
+            is_manual_override desc, is_official desc, id desc;
+$$;
+
+grant select on public.fx_daily_rates_live_official to anon, authenticated;
+grant select on public.fx_segment_rates to anon, authenticated;
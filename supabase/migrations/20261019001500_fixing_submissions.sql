@@ -0,0 +1,81 @@
+-- Fixing engine (lib/centralBank/fixingEngine.ts): commercial banks submit a
+-- rate for a fixing window (fixing_schedule.window_label); the engine drops
+-- outliers, averages the rest and publishes the result to fx_daily_rates as
+-- the official rate. Submissions, every run and each run's per-bank trimming
+-- decisions are kept for audit.
+
+create table if not exists public.fixing_submissions (
+  id uuid primary key default gen_random_uuid(),
+  as_of_date date not null,
+  base_currency text not null default 'SSP',
+  quote_currency text not null,
+  window_label text not null,
+  bank_code text not null,
+  bank_name text,
+  rate_mid numeric not null check (rate_mid > 0),
+  volume numeric check (volume is null or volume >= 0),
+  notes text,
+  submitted_at timestamptz not null default now(),
+  created_actor_id text,
+  created_email text,
+  created_at timestamptz not null default now()
+);
+
+-- One submission per bank per window; resubmitting replaces it.
+create unique index if not exists fixing_submissions_window_bank_key
+  on public.fixing_submissions (as_of_date, base_currency, quote_currency, window_label, bank_code);
+
+create table if not exists public.fixing_runs (
+  id uuid primary key default gen_random_uuid(),
+  as_of_date date not null,
+  base_currency text not null,
+  quote_currency text not null,
+  window_label text not null,
+  method text not null check (method in ('trimmed_mean', 'mad')),
+  weighting text not null check (weighting in ('volume', 'equal')),
+  params jsonb not null default '{}'::jsonb,
+  rate_mid numeric not null,
+  submission_count integer not null,
+  included_count integer not null,
+  -- published: written to fx_daily_rates; quarantined: held by the validation gate.
+  outcome text not null check (outcome in ('published', 'quarantined')),
+  gate_reasons jsonb not null default '[]'::jsonb,
+  created_actor_id text,
+  created_email text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists fixing_runs_pair_idx
+  on public.fixing_runs (base_currency, quote_currency, as_of_date desc, created_at desc);
+
+-- Submission values are copied so a run stays explainable after resubmission.
+create table if not exists public.fixing_run_decisions (
+  id bigint generated always as identity primary key,
+  run_id uuid not null references public.fixing_runs (id) on delete cascade,
+  submission_id uuid references public.fixing_submissions (id) on delete set null,
+  bank_code text not null,
+  rate_mid numeric not null,
+  volume numeric,
+  included boolean not null,
+  weight numeric not null default 0,
+  reason text
+);
+
+create index if not exists fixing_run_decisions_run_idx
+  on public.fixing_run_decisions (run_id);
+
+-- Engine results the gate holds back land in quarantine like any other write.
+alter table public.fx_rate_quarantine
+  drop constraint if exists fx_rate_quarantine_origin_check;
+
+alter table public.fx_rate_quarantine
+  add constraint fx_rate_quarantine_origin_check
+  check (origin in ('cron', 'admin-manual', 'admin-bulk', 'fixing-engine'));
+
+alter table public.fixing_submissions enable row level security;
+alter table public.fixing_runs enable row level security;
+alter table public.fixing_run_decisions enable row level security;
+
+revoke all on public.fixing_submissions from anon, authenticated;
+revoke all on public.fixing_runs from anon, authenticated;
+revoke all on public.fixing_run_decisions from anon, authenticated;
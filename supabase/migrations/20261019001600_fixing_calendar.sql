@@ -0,0 +1,57 @@
+-- Fixing calendar (lib/fx/calendar.ts). Weekends and the recurring South Sudan
+-- public holidays are rules in code; these tables hold what changes:
+--   fixing_windows   recurring fixing windows (weekdays + planned Juba time);
+--   fixing_holidays  lunar / gazetted closures, or working days that cancel a
+--                    rule holiday (closed = false);
+--   fixing_sessions  per-date exceptions: actual fixing times, cancelled
+--                    windows and ad-hoc extra sessions.
+-- fixing_schedule stays as the free-text announcement shown on the dashboard.
+
+create table if not exists public.fixing_windows (
+  id uuid primary key default gen_random_uuid(),
+  label text not null unique,
+  -- 0 = Sunday … 6 = Saturday.
+  weekdays smallint[] not null default '{1,2,3,4,5}',
+  planned_time time not null,
+  is_active boolean not null default true,
+  created_email text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.fixing_holidays (
+  holiday_date date primary key,
+  name text not null,
+  closed boolean not null default true,
+  created_email text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.fixing_sessions (
+  id uuid primary key default gen_random_uuid(),
+  session_date date not null,
+  window_label text not null,
+  -- null → the window's planned_time.
+  planned_time time,
+  actual_at timestamptz,
+  is_extra boolean not null default false,
+  cancelled boolean not null default false,
+  notes text,
+  created_email text,
+  created_at timestamptz not null default now(),
+  unique (session_date, window_label)
+);
+
+create index if not exists fixing_sessions_date_idx
+  on public.fixing_sessions (session_date);
+
+insert into public.fixing_windows (label, weekdays, planned_time)
+values ('Normal fixing window', '{1,2,3,4,5}', '11:00')
+on conflict (label) do nothing;
+
+alter table public.fixing_windows enable row level security;
+alter table public.fixing_holidays enable row level security;
+alter table public.fixing_sessions enable row level security;
+
+revoke all on public.fixing_windows from anon, authenticated;
+revoke all on public.fixing_holidays from anon, authenticated;
+revoke all on public.fixing_sessions from anon, authenticated;
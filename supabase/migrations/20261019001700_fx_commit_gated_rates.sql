@@ -0,0 +1,44 @@
+-- One transaction for an ingestion batch that went through the validation
+-- gate (lib/fx/ingestion.ts): flagged rows go to fx_rate_quarantine, the rest
+-- are upserted into fx_daily_rates. Either both land or neither does, so an
+-- all-or-nothing commit can never end up half quarantined, half published.
+--
+-- Called through the caller's attributed client, so the fx_change_log trigger
+-- still sees the x-fx-* request headers.
+
+create or replace function public.fx_commit_gated_rates(
+  p_rates jsonb,
+  p_quarantine jsonb default '[]'::jsonb
+)
+returns void
+language plpgsql
+as $$
+begin
+  insert into public.fx_rate_quarantine (
+    as_of_date, base_currency, quote_currency, rate_mid, rate_bid, rate_ask, segment,
+    source_id, is_official, is_manual_override, origin, reasons,
+    prev_mid, pct_delta, vol_pct, vol_bucket, status
+  )
+  select q.as_of_date, q.base_currency, q.quote_currency, q.rate_mid, q.rate_bid, q.rate_ask, q.segment,
+         q.source_id, q.is_official, q.is_manual_override, q.origin, coalesce(q.reasons, '[]'::jsonb),
+         q.prev_mid, q.pct_delta, q.vol_pct, q.vol_bucket, 'pending'
+    from jsonb_populate_recordset(null::public.fx_rate_quarantine, coalesce(p_quarantine, '[]'::jsonb)) q;
+
+  -- Same conflict key as the PostgREST upserts (fx_daily_rates_segment_key).
+  insert into public.fx_daily_rates (
+    as_of_date, base_currency, quote_currency, rate_mid, rate_bid, rate_ask, segment,
+    source_id, is_official, is_manual_override
+  )
+  select r.as_of_date, r.base_currency, r.quote_currency, r.rate_mid, r.rate_bid, r.rate_ask, r.segment,
+         r.source_id, r.is_official, r.is_manual_override
+    from jsonb_populate_recordset(null::public.fx_daily_rates, coalesce(p_rates, '[]'::jsonb)) r
+  on conflict (as_of_date, base_currency, quote_currency, source_id, is_manual_override, segment)
+  do update set
+    rate_mid = excluded.rate_mid,
+    rate_bid = excluded.rate_bid,
+    rate_ask = excluded.rate_ask,
+    is_official = excluded.is_official;
+end;
+$$;
+
+revoke all on function public.fx_commit_gated_rates(jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,47 @@
+-- The fixing calendar (20261019001600_fixing_calendar.sql) decides which dates
+-- rate responses flag as stale and which dates gap filling covers, so a
+-- calendar edit must move the HTTP cache validator as well.
+--
+-- Calendar writes are captured in fx_change_log like the rate tables, and
+-- fx_rates_revision() counts them.
+
+drop trigger if exists fixing_windows_change_log on public.fixing_windows;
+create trigger fixing_windows_change_log
+  after insert or update or delete on public.fixing_windows
+  for each row execute function public.fx_change_log_capture();
+
+drop trigger if exists fixing_holidays_change_log on public.fixing_holidays;
+create trigger fixing_holidays_change_log
+  after insert or update or delete on public.fixing_holidays
+  for each row execute function public.fx_change_log_capture();
+
+drop trigger if exists fixing_sessions_change_log on public.fixing_sessions;
+create trigger fixing_sessions_change_log
+  after insert or update or delete on public.fixing_sessions
+  for each row execute function public.fx_change_log_capture();
+
+create or replace function public.fx_rates_revision()
+returns table (
+  latest_as_of_date date,
+  change_id bigint,
+  changed_at timestamptz
+)
+language sql
+stable
+as $$
+  select
+    (select max(r.as_of_date) from public.fx_daily_rates_live r),
+    c.id,
+    c.occurred_at
+  from (select 1) one
+  left join lateral (
+    select l.id, l.occurred_at
+      from public.fx_change_log l
+     where l.table_name in (
+             'fx_daily_rates', 'manual_fixings',
+             'fixing_windows', 'fixing_holidays', 'fixing_sessions'
+           )
+     order by l.id desc
+     limit 1
+  ) c on true;
+$$;